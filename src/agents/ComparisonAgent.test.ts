@@ -68,16 +68,30 @@ describe('ComparisonAgent', () => {
   describe('analyzeErrors', () => {
     it('should identify missed words', () => {
       const result = agent.analyzeErrors('hello world', 'hello beautiful world');
-      // The algorithm does word-by-word comparison, so 'world' is seen as a substitution for 'beautiful'
-      expect(result.missedWords).toContain('world');
-      expect(result.substitutions.length).toBeGreaterThanOrEqual(0);
+      expect(result.missedWords).toEqual(['beautiful']);
+      expect(result.substitutions).toHaveLength(0);
     });
 
     it('should identify added words', () => {
       const result = agent.analyzeErrors('hello beautiful world', 'hello world');
-      // The algorithm does word-by-word comparison, so 'beautiful' is seen as a substitution for 'world'
-      expect(result.addedWords).toContain('world');
-      expect(result.substitutions.length).toBeGreaterThanOrEqual(0);
+      expect(result.addedWords).toEqual(['beautiful']);
+      expect(result.substitutions).toHaveLength(0);
+    });
+
+    it('should not shift later words after a skipped first word', () => {
+      const result = agent.analyzeErrors('quick brown fox jumps', 'the quick brown fox jumps');
+      expect(result.missedWords).toEqual(['the']);
+      expect(result.substitutions).toHaveLength(0);
+      expect(result.addedWords).toHaveLength(0);
+    });
+
+    it('should return an ordered alignment with target and spoken indices', () => {
+      const result = agent.analyzeErrors('hello big earth', 'hello world');
+      expect(result.alignment).toEqual([
+        { operation: 'match', targetIndex: 0, spokenIndex: 0, targetWord: 'hello', spokenWord: 'hello' },
+        { operation: 'insertion', targetIndex: null, spokenIndex: 1, targetWord: null, spokenWord: 'big' },
+        { operation: 'substitution', targetIndex: 1, spokenIndex: 2, targetWord: 'world', spokenWord: 'earth' }
+      ]);
     });
 
     it('should identify substitutions', () => {
@@ -108,6 +122,89 @@ describe('ComparisonAgent', () => {
     });
   });
 
+  describe('normalized scoring', () => {
+    it('should score formatting differences as a perfect reading', () => {
+      const targetText = 'I would pay thirty-three dollars for the colour.';
+      expect(agent.compareTexts("i'd pay 33 dollars for the color", targetText))
+        .toBe(agent.compareTexts(targetText, targetText));
+    });
+
+    it('should not count homophones as substitutions', () => {
+      const targetText = 'I want to buy two books';
+      expect(agent.analyzeErrors('i want too by to books', targetText).substitutions).toHaveLength(0);
+      expect(agent.compareTexts('i want too by to books', targetText)).toBe(agent.compareTexts(targetText, targetText));
+    });
+
+    it('should not count trailing punctuation as a substitution', () => {
+      const result = agent.analyzeErrors('the dog', 'The dog.');
+      expect(result.substitutions).toHaveLength(0);
+    });
+  });
+
+  describe('alignment-driven scoring', () => {
+    it('should not tank the score when a single word is dropped', () => {
+      const targetText = 'the quick brown fox jumps over the lazy dog';
+      const exactScore = agent.compareTexts(targetText, targetText);
+      const droppedScore = agent.compareTexts('quick brown fox jumps over the lazy dog', targetText);
+      expect(droppedScore).toBeGreaterThan(exactScore * 0.85);
+    });
+  });
+
+  describe('compareWords', () => {
+    it('should mark every word correct for an exact reading', () => {
+      const results = agent.compareWords('The quick brown fox.', 'The quick brown fox.');
+      expect(results.map(result => result.status)).toEqual(['correct', 'correct', 'correct', 'correct']);
+      expect(results.every(result => result.score === 100)).toBe(true);
+    });
+
+    it('should ignore punctuation differences', () => {
+      const results = agent.compareWords('the quick brown fox', 'The quick brown fox.');
+      expect(results[3].status).toBe('correct');
+    });
+
+    it('should classify mispronounced, missed and extra words', () => {
+      const results = agent.compareWords('i sink so very really', 'i think so very');
+
+      expect(results).toHaveLength(5);
+      expect(results[1]).toMatchObject({ status: 'mispronounced', targetWord: 'think', spokenWord: 'sink' });
+      expect(results[1].score).toBeGreaterThan(0);
+      expect(results[1].score).toBeLessThan(100);
+      expect(results[4]).toMatchObject({ status: 'extra', targetWord: null, spokenWord: 'really', spokenIndex: 4 });
+
+      const missed = agent.compareWords('i so very', 'i think so very');
+      expect(missed[1]).toMatchObject({ status: 'missed', targetWord: 'think', spokenWord: null, targetIndex: 1, score: 0 });
+    });
+
+    it('should not penalize recognizer formatting', () => {
+      const results = agent.compareWords("i'd say thirty-three colours", 'I would say 33 colors.');
+
+      expect(results.map(result => result.status)).toEqual(['correct', 'correct', 'correct', 'correct', 'correct']);
+      expect(results[0]).toMatchObject({ targetIndex: 0, spokenIndex: 0, spokenWord: "i'd" });
+      expect(results[1]).toMatchObject({ targetIndex: 1, spokenIndex: 0 });
+      expect(results[3]).toMatchObject({ targetWord: '33', spokenWord: 'thirty-three', targetIndex: 3, spokenIndex: 2 });
+    });
+
+    it('should count homophones as correct and note how they were recognized', () => {
+      const results = agent.compareWords('i can sea their house', 'I can see there house');
+
+      expect(results.every(result => result.status === 'correct' && result.score === 100)).toBe(true);
+      expect(results[2].recognizedAs).toBe('sea');
+      expect(results[3].recognizedAs).toBe('their');
+      expect(results[0].recognizedAs).toBeUndefined();
+    });
+
+    it('should keep extra words split from a spoken token with that token', () => {
+      const results = agent.compareWords("i don't", 'i do');
+      expect(results).toHaveLength(2);
+      expect(results[1]).toMatchObject({ status: 'mispronounced', targetWord: 'do', spokenWord: "don't", spokenIndex: 1 });
+    });
+
+    it('should report every target word as missed for an empty transcript', () => {
+      const results = agent.compareWords('', 'hello world');
+      expect(results.map(result => result.status)).toEqual(['missed', 'missed']);
+    });
+  });
+
   describe('calculateDifficulty', () => {
     it('should return a score between 1 and 10', () => {
       const simpleText = 'hello world';
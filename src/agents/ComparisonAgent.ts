@@ -1,4 +1,27 @@
-import { comparePhonemes } from '../utils/phonemeUtils';
+import { alignTextPhonemes, comparePhonemes } from '../utils/phonemeUtils';
+import { sequenceSimilarity, splitWords, WordAlignment } from '../utils/alignment';
+import { stripStress, wordToPhonemes } from '../utils/g2p';
+import { normalizeText, normalizeWords, NormalizedWord } from '../utils/textNormalization';
+
+export type WordStatus = 'correct' | 'mispronounced' | 'missed' | 'extra';
+
+/**
+ * Result for a single word of the attempt
+ * Target words are correct, mispronounced or missed; spoken words with no
+ * target counterpart are extra. Indexes refer to whitespace-separated words,
+ * and a word that normalizes to several ("33", "I'd") gets a single result.
+ */
+export interface WordResult {
+  status: WordStatus;
+  targetWord: string | null;
+  spokenWord: string | null;
+  targetIndex: number | null;
+  spokenIndex: number | null;
+  score: number; // 0-100 phoneme similarity of the spoken variant
+  recognizedAs?: string; // spoken spelling of a correct word written as a homophone, e.g. "their" for "there"
+  startTime?: number; // seconds into the recording, when word timings are known
+  endTime?: number;
+}
 
 /**
  * ComparisonAgent handles the comparison between user transcription and target text
@@ -16,10 +39,11 @@ export class ComparisonAgent {
 
     // Use the phoneme comparison utility
     const score = comparePhonemes(userText, targetText);
+    const alignment = this.alignWords(userText, targetText);
     
     // Apply additional scoring factors
     const lengthPenalty = this.calculateLengthPenalty(userText, targetText);
-    const wordOrderBonus = this.calculateWordOrderBonus(userText, targetText);
+    const wordOrderBonus = this.calculateWordOrderBonus(alignment, normalizeText(targetText).length);
     
     // Combine scores with weights
     let finalScore = score * 0.7 + wordOrderBonus * 0.2 - lengthPenalty * 0.1;
@@ -28,12 +52,56 @@ export class ComparisonAgent {
     return Math.max(0, Math.min(100, Math.round(finalScore)));
   }
 
+  /**
+   * Score each word of the attempt in target order, with extra spoken words
+   * placed where they were said
+   */
+  public compareWords(userText: string, targetText: string): WordResult[] {
+    const spokenTokens = splitWords(userText || '');
+    const targetTokens = splitWords(targetText || '');
+    const spoken = normalizeWords(userText || '');
+    const target = normalizeWords(targetText || '');
+
+    return groupByToken(this.alignWords(userText || '', targetText || ''), spoken, target).map(group => {
+      const base = {
+        targetWord: group.targetIndex !== null ? targetTokens[group.targetIndex] : null,
+        spokenWord: group.spokenIndexes.length > 0 ? group.spokenIndexes.map(index => spokenTokens[index]).join(' ') : null,
+        targetIndex: group.targetIndex,
+        spokenIndex: group.spokenIndexes.length > 0 ? group.spokenIndexes[0] : null
+      };
+
+      if (base.spokenIndex === null) {
+        return { ...base, status: 'missed' as WordStatus, score: 0 };
+      }
+      if (base.targetIndex === null) {
+        return { ...base, status: 'extra' as WordStatus, score: 0 };
+      }
+      if (group.steps.every(step => step.operation === 'match')) {
+        const homophone = group.steps.some(step => step.spokenWord !== step.targetWord);
+        return {
+          ...base,
+          status: 'correct' as WordStatus,
+          score: 100,
+          ...(homophone ? { recognizedAs: base.spokenWord! } : {})
+        };
+      }
+
+      const toPhonemes = (words: (string | null)[]) =>
+        words.flatMap(word => (word ? wordToPhonemes(word).map(stripStress) : []));
+      const similarity = sequenceSimilarity(
+        toPhonemes(group.steps.map(step => step.spokenWord)),
+        toPhonemes(group.steps.map(step => step.targetWord))
+      );
+      return { ...base, status: 'mispronounced' as WordStatus, score: Math.round(similarity * 100) };
+    });
+  }
+
   /**
    * Calculate penalty for significant length differences
    */
   private calculateLengthPenalty(userText: string, targetText: string): number {
-    const userWords = userText.trim().split(/\s+/).length;
-    const targetWords = targetText.trim().split(/\s+/).length;
+    const userWords = normalizeText(userText).length;
+    const targetWords = normalizeText(targetText).length;
     
     const lengthDifference = Math.abs(userWords - targetWords);
     const maxWords = Math.max(userWords, targetWords);
@@ -44,64 +112,58 @@ export class ComparisonAgent {
     return (lengthDifference / maxWords) * 30; // Max penalty of 30 points
   }
 
+  /**
+   * Align transcript words with target words (match, substitution, insertion, deletion)
+   * Indexes refer to normalized words; substitutions pair words that sound most alike
+   */
+  public alignWords(userText: string, targetText: string): WordAlignment[] {
+    return alignTextPhonemes(userText, targetText);
+  }
+
   /**
    * Calculate bonus for maintaining correct word order
+   * Aligned matches are always in order, so their share of the target words
+   * measures order without letting one skipped word shift everything after it
    */
-  private calculateWordOrderBonus(userText: string, targetText: string): number {
-    const userWords = userText.toLowerCase().trim().split(/\s+/);
-    const targetWords = targetText.toLowerCase().trim().split(/\s+/);
-    
-    let consecutiveMatches = 0;
-    let maxConsecutive = 0;
-    
-    for (let i = 0; i < Math.min(userWords.length, targetWords.length); i++) {
-      if (userWords[i] === targetWords[i]) {
-        consecutiveMatches++;
-        maxConsecutive = Math.max(maxConsecutive, consecutiveMatches);
-      } else {
-        consecutiveMatches = 0;
-      }
-    }
+  private calculateWordOrderBonus(alignment: WordAlignment[], targetWordCount: number): number {
+    if (targetWordCount === 0) return 0;
+
+    const inOrderMatches = alignment.filter(step => step.operation === 'match').length;
     
-    // Bonus based on longest consecutive correct sequence
-    return (maxConsecutive / targetWords.length) * 20; // Max bonus of 20 points
+    // Bonus based on in-order correct words
+    return (inOrderMatches / targetWordCount) * 20; // Max bonus of 20 points
   }
 
   /**
-   * Analyze specific pronunciation errors
+   * Analyze specific pronunciation errors from the word alignment
    */
   public analyzeErrors(userText: string, targetText: string): {
     missedWords: string[];
     addedWords: string[];
     substitutions: { original: string; spoken: string }[];
+    alignment: WordAlignment[];
   } {
-    const userWords = userText.toLowerCase().trim().split(/\s+/);
-    const targetWords = targetText.toLowerCase().trim().split(/\s+/);
+    const alignment = this.alignWords(userText, targetText);
     
     const missedWords: string[] = [];
     const addedWords: string[] = [];
     const substitutions: { original: string; spoken: string }[] = [];
     
-    // Simple word-by-word comparison
-    const maxLength = Math.max(userWords.length, targetWords.length);
-    
-    for (let i = 0; i < maxLength; i++) {
-      const userWord = i < userWords.length ? userWords[i] : null;
-      const targetWord = i < targetWords.length ? targetWords[i] : null;
-      
-      if (targetWord && !userWord) {
-        missedWords.push(targetWord);
-      } else if (userWord && !targetWord) {
-        addedWords.push(userWord);
-      } else if (userWord && targetWord && userWord !== targetWord) {
-        substitutions.push({ original: targetWord, spoken: userWord });
+    alignment.forEach(step => {
+      if (step.operation === 'deletion') {
+        missedWords.push(step.targetWord!);
+      } else if (step.operation === 'insertion') {
+        addedWords.push(step.spokenWord!);
+      } else if (step.operation === 'substitution') {
+        substitutions.push({ original: step.targetWord!, spoken: step.spokenWord! });
       }
-    }
+    });
     
     return {
       missedWords,
       addedWords,
-      substitutions
+      substitutions,
+      alignment
     };
   }
 
@@ -177,4 +239,40 @@ export class ComparisonAgent {
     
     return twisterScore;
   }
-}
\ No newline at end of file
+}
+
+interface TokenGroup {
+  targetIndex: number | null;
+  spokenIndexes: number[];
+  steps: WordAlignment[];
+}
+
+/**
+ * Gather the steps of a normalized-word alignment back into the whitespace
+ * tokens they came from, e.g. "thirty three" for "33" becomes one group
+ * Extra spoken words join the group of the token they were split from
+ */
+function groupByToken(alignment: WordAlignment[], spoken: NormalizedWord[], target: NormalizedWord[]): TokenGroup[] {
+  const groups: TokenGroup[] = [];
+
+  alignment.forEach(step => {
+    const targetIndex = step.targetIndex !== null ? target[step.targetIndex].source : null;
+    const spokenIndex = step.spokenIndex !== null ? spoken[step.spokenIndex].source : null;
+    const last = groups[groups.length - 1];
+
+    const sameTarget = !!last && targetIndex !== null && last.targetIndex === targetIndex;
+    const sameSpoken = !!last && spokenIndex !== null && last.spokenIndexes.includes(spokenIndex)
+      && (targetIndex === null || last.targetIndex === null);
+
+    if (!sameTarget && !sameSpoken) {
+      groups.push({ targetIndex, spokenIndexes: spokenIndex !== null ? [spokenIndex] : [], steps: [step] });
+      return;
+    }
+
+    if (last.targetIndex === null) last.targetIndex = targetIndex;
+    if (spokenIndex !== null && !last.spokenIndexes.includes(spokenIndex)) last.spokenIndexes.push(spokenIndex);
+    last.steps.push(step);
+  });
+
+  return groups;
+}
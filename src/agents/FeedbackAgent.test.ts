@@ -3,6 +3,11 @@
  */
 
 import { FeedbackAgent } from './FeedbackAgent';
+import { FeedbackItem, formatFeedbackItem } from '../utils/feedbackMessages';
+import { FluencyMetrics } from '../utils/fluency';
+import { ProsodyAnalysis } from '../utils/prosody';
+
+const toText = (items: FeedbackItem[]): string => items.map(item => formatFeedbackItem(item)).join(' ');
 
 describe('FeedbackAgent', () => {
   let agent: FeedbackAgent;
@@ -12,45 +17,203 @@ describe('FeedbackAgent', () => {
   });
 
   describe('generateFeedback', () => {
-    it('should return an array of feedback strings', () => {
+    it('should return an array of feedback items', () => {
       const feedback = agent.generateFeedback('hello world', 'hello world', 90);
       expect(Array.isArray(feedback)).toBe(true);
       expect(feedback.length).toBeGreaterThan(0);
       feedback.forEach(item => {
-        expect(typeof item).toBe('string');
-        expect(item.length).toBeGreaterThan(0);
+        expect(['sound', 'fluency', 'prosody', 'completeness', 'motivation']).toContain(item.category);
+        expect(formatFeedbackItem(item).length).toBeGreaterThan(0);
       });
     });
 
+    it('should include a single score summary', () => {
+      const feedback = agent.generateFeedback('hello world', 'hello world', 60);
+      const summaries = feedback.filter(item => item.messageKey.startsWith('score.'));
+      expect(summaries).toHaveLength(1);
+      expect(summaries[0].category).toBe('motivation');
+    });
+
+    it('should not repeat the same tip from different sources', () => {
+      const feedback = agent.generateFeedback('hello world', 'hello world', 60);
+      const keys = feedback.map(item => item.messageKey);
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+
     it('should provide positive feedback for high scores', () => {
       const feedback = agent.generateFeedback('hello world', 'hello world', 95);
-      const feedbackText = feedback.join(' ').toLowerCase();
+      const feedbackText = toText(feedback).toLowerCase();
       expect(feedbackText).toMatch(/excellent|outstanding|great/);
     });
 
     it('should provide encouraging feedback for low scores', () => {
       const feedback = agent.generateFeedback('hello world', 'hello world', 40);
-      const feedbackText = feedback.join(' ').toLowerCase();
+      const feedbackText = toText(feedback).toLowerCase();
       expect(feedbackText).toMatch(/practice|improve|keep|don't give up/);
     });
 
+    it('should flag words said out of order', () => {
+      const keys = agent.generateFeedback('world the hello big', 'hello big world the', 60).map(item => item.messageKey);
+      expect(keys).toContain('completeness.wordOrder');
+    });
+
+    it('should not count homophones as words out of order', () => {
+      const keys = agent.generateFeedback('there right to see', 'their write too sea', 90).map(item => item.messageKey);
+      expect(keys).not.toContain('completeness.wordOrder');
+    });
+
     it('should provide technical feedback for length mismatches', () => {
       const feedback = agent.generateFeedback('hello', 'hello beautiful wonderful world', 70);
-      const feedbackText = feedback.join(' ');
+      const feedbackText = toText(feedback);
       expect(feedbackText).toMatch(/speak all the words|take your time/i);
     });
 
     it('should provide feedback for extra words', () => {
       const feedback = agent.generateFeedback('hello beautiful wonderful world today', 'hello world', 70);
-      const feedbackText = feedback.join(' ');
+      const feedbackText = toText(feedback);
       expect(feedbackText).toMatch(/avoid adding extra words|focus on speaking just/i);
     });
 
+    it('should not flag word order when only the first word is skipped', () => {
+      const feedback = agent.generateFeedback(
+        'quick brown fox jumps over the lazy dog',
+        'the quick brown fox jumps over the lazy dog',
+        80
+      );
+      expect(toText(feedback)).not.toMatch(/word order/i);
+    });
+
+    it('should flag scrambled word order', () => {
+      const feedback = agent.generateFeedback('dog lazy the over jumps', 'jumps over the lazy dog', 60);
+      expect(toText(feedback)).toMatch(/word order/i);
+    });
+
     it('should detect sound issues in feedback', () => {
       const feedback = agent.generateFeedback('dat is nice', 'that is nice', 80);
-      const feedbackText = feedback.join(' ');
+      const feedbackText = toText(feedback);
       expect(feedbackText).toMatch(/focus on these sounds.*th/i);
     });
+
+    it('should give tips for the swaps typical for the learner\'s first language', () => {
+      const feedback = agent.generateFeedback('the berry best', 'the very best', 80, null, null, 'spanish');
+      const tip = feedback.find(item => item.messageKey === 'sound.confusion');
+
+      expect(tip).toMatchObject({ severity: 'tip', targetSound: 'v', params: { expected: 'v', spoken: 'b' } });
+      expect(tip!.params!.tip).toMatch(/Spanish b and v/);
+    });
+
+    it('should only flag swaps from the learner\'s profile', () => {
+      const feedback = agent.generateFeedback('i sink so', 'i think so', 80, null, null, 'spanish');
+      expect(feedback.some(item => item.messageKey === 'sound.focus')).toBe(false);
+
+      const mandarin = agent.generateFeedback('i sink so', 'i think so', 80, null, null, 'mandarin');
+      expect(toText(mandarin)).toMatch(/focus on these sounds: th/i);
+      expect(toText(mandarin)).toMatch(/\/θ\/ sounded like \/s\//);
+    });
+
+    describe('pacing advice', () => {
+      const steady: FluencyMetrics = {
+        speakingTime: 4,
+        speechRate: 135,
+        articulationRate: 150,
+        pauses: [{ start: 1, end: 1.3 }],
+        pauseTime: 0.3,
+        longestPause: 0.3
+      };
+      const pacingKeys = (fluency: FluencyMetrics): string[] =>
+        agent.generateFeedback('hello world', 'hello world', 90, fluency)
+          .filter(item => item.messageKey.startsWith('fluency.') && item.messageKey !== 'fluency.slowDown')
+          .map(item => item.messageKey);
+
+      it('should not give pacing advice without measurements', () => {
+        const feedback = agent.generateFeedback('hello world', 'hello world', 90);
+        expect(feedback.some(item => item.messageKey === 'fluency.goodPace')).toBe(false);
+      });
+
+      it('should praise a steady pace', () => {
+        expect(pacingKeys(steady)).toEqual(['fluency.goodPace']);
+      });
+
+      it('should count the long pauses', () => {
+        const pauses = [
+          { start: 1, end: 2 },
+          { start: 3, end: 3.9 },
+          { start: 5, end: 5.2 },
+          { start: 6, end: 7.5 },
+          { start: 8, end: 8.85 }
+        ];
+        const feedback = agent.generateFeedback('hello world', 'hello world', 90, {
+          ...steady,
+          pauses,
+          longestPause: 1.5
+        });
+
+        expect(toText(feedback)).toContain('You paused 4 times for over 800 ms');
+        expect(feedback.some(item => item.messageKey === 'fluency.goodPace')).toBe(false);
+      });
+
+      it('should point out a single long hesitation', () => {
+        const feedback = agent.generateFeedback('hello world', 'hello world', 90, {
+          ...steady,
+          pauses: [{ start: 1, end: 3.5 }],
+          longestPause: 2.5
+        });
+        expect(toText(feedback)).toContain('Your longest hesitation was 2.5s');
+      });
+
+      it('should flag speaking too fast or too slowly', () => {
+        expect(pacingKeys({ ...steady, speechRate: 210, articulationRate: 220 })).toEqual(['fluency.tooFast']);
+        expect(pacingKeys({ ...steady, speechRate: 70, articulationRate: 80 })).toEqual(['fluency.tooSlow']);
+      });
+
+      it('should report the articulation rate the slow pace was measured by', () => {
+        const feedback = agent.generateFeedback('hello world', 'hello world', 90, { ...steady, speechRate: 50, articulationRate: 80 });
+        expect(toText(feedback)).toContain('Between pauses you spoke at 80 words per minute');
+      });
+    });
+
+    describe('stress and intonation advice', () => {
+      const natural: ProsodyAnalysis = {
+        score: 90,
+        pitchRange: 7,
+        wordStress: [{ word: 'photography', wordIndex: 0, syllables: 4, expected: 1, detected: 1 }],
+        intonation: { expected: 'rise', detected: 'rise', change: 4 },
+        contour: [],
+        frameDuration: 0.02
+      };
+      const prosodyItems = (prosody: ProsodyAnalysis) =>
+        agent.generateFeedback('photography', 'photography', 90, null, prosody)
+          .filter(item => item.category === 'prosody');
+
+      it('should praise natural intonation', () => {
+        expect(prosodyItems(natural).map(item => item.messageKey)).toEqual(['prosody.natural']);
+      });
+
+      it('should name the syllable to stress', () => {
+        const items = prosodyItems({
+          ...natural,
+          wordStress: [{ ...natural.wordStress[0], detected: 0 }]
+        });
+
+        expect(toText(items)).toContain('Stress the second syllable of "photography"');
+        expect(items[0].targetWord).toBe('photography');
+      });
+
+      it('should ask for a rise at the end of yes/no questions', () => {
+        const items = prosodyItems({ ...natural, intonation: { expected: 'rise', detected: 'fall', change: -3 } });
+        expect(items.map(item => item.messageKey)).toEqual(['prosody.questionRise']);
+      });
+
+      it('should accept a falling end where a fall is expected', () => {
+        const items = prosodyItems({ ...natural, intonation: { expected: 'fall', detected: 'fall', change: -2 } });
+        expect(items.map(item => item.messageKey)).toEqual(['prosody.natural']);
+      });
+
+      it('should point out a flat voice', () => {
+        const items = prosodyItems({ ...natural, score: 70, pitchRange: 1.5 });
+        expect(items.map(item => item.messageKey)).toEqual(['prosody.flat']);
+      });
+    });
   });
 
   describe('getLetterGrade', () => {
@@ -1,4 +1,20 @@
-import { generatePronunciationFeedback, getLetterGrade } from '../utils/phonemeUtils';
+import { alignTextPhonemes, generatePronunciationFeedback, getLetterGrade } from '../utils/phonemeUtils';
+import { createScoreSummary, dedupeFeedback, FeedbackItem } from '../utils/feedbackMessages';
+import { FluencyMetrics, longPauses } from '../utils/fluency';
+import { ProsodyAnalysis } from '../utils/prosody';
+import { normalizeText } from '../utils/textNormalization';
+import { detectSoundConfusions } from '../utils/soundConfusions';
+import { phonemeToIpa } from '../utils/g2p';
+import { getL1Profile, L1Profile, NativeLanguage } from '../l1Profiles';
+
+const LONG_PAUSE_SECONDS = 0.8;
+const HESITATION_SECONDS = 2;
+const SLOW_WPM = 90; // articulation rate below this sounds word-by-word
+const FAST_WPM = 180; // speech rate above this blurs sounds for most learners
+const FLAT_RANGE_SEMITONES = 3; // pitch range below this sounds monotone
+const MAX_STRESS_TIPS = 3;
+const MAX_CONFUSION_TIPS = 2;
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth'];
 
 /**
  * FeedbackAgent generates personalized feedback and scoring for pronunciation practice
@@ -8,15 +24,33 @@ export class FeedbackAgent {
   
   /**
    * Generate comprehensive feedback based on transcription comparison
+   * Pacing, stress and intonation advice is added when the recording could be measured
+   * Sound advice follows the confusions typical for the learner's first language
+   * Items repeated by the different sources (e.g. the score summary) appear once
    */
-  public generateFeedback(userText: string, targetText: string, score: number): string[] {
+  public generateFeedback(
+    userText: string,
+    targetText: string,
+    score: number,
+    fluency: FluencyMetrics | null = null,
+    prosody: ProsodyAnalysis | null = null,
+    nativeLanguage: NativeLanguage | null = null
+  ): FeedbackItem[] {
     const feedback = generatePronunciationFeedback(userText, targetText, score);
     
     // Add performance-specific feedback
     const performanceFeedback = this.generatePerformanceFeedback(score);
-    const technicalFeedback = this.generateTechnicalFeedback(userText, targetText);
+    const technicalFeedback = this.generateTechnicalFeedback(userText, targetText, getL1Profile(nativeLanguage));
+    const pacingFeedback = fluency ? this.generatePacingFeedback(fluency) : [];
+    const prosodyFeedback = prosody ? this.generateProsodyFeedback(prosody) : [];
     
-    return [...feedback, ...performanceFeedback, ...technicalFeedback];
+    return dedupeFeedback([
+      ...feedback,
+      ...performanceFeedback,
+      ...technicalFeedback,
+      ...pacingFeedback,
+      ...prosodyFeedback
+    ]);
   }
 
   /**
@@ -29,59 +63,157 @@ export class FeedbackAgent {
   /**
    * Generate performance-based feedback messages
    */
-  private generatePerformanceFeedback(score: number): string[] {
-    const feedback: string[] = [];
+  private generatePerformanceFeedback(score: number): FeedbackItem[] {
+    const feedback: FeedbackItem[] = [createScoreSummary(score)];
     
     if (score >= 95) {
-      feedback.push("🌟 Outstanding! You have excellent pronunciation clarity.");
-      feedback.push("Consider trying more challenging texts to further improve.");
+      feedback.push({ category: 'motivation', severity: 'tip', messageKey: 'next.challenge' });
     } else if (score >= 85) {
-      feedback.push("🎯 Great work! Your pronunciation is very good.");
-      feedback.push("Focus on maintaining this level of clarity consistently.");
+      feedback.push({ category: 'fluency', severity: 'tip', messageKey: 'next.consistency' });
     } else if (score >= 75) {
-      feedback.push("👍 Good job! You're making solid progress.");
-      feedback.push("Try practicing with longer sentences to build fluency.");
+      feedback.push({ category: 'fluency', severity: 'tip', messageKey: 'next.longerSentences' });
     } else if (score >= 65) {
-      feedback.push("📈 Keep improving! You're on the right track.");
-      feedback.push("Practice reading aloud daily to build muscle memory.");
+      feedback.push({ category: 'motivation', severity: 'tip', messageKey: 'next.dailyReading' });
     } else if (score >= 50) {
-      feedback.push("💪 Don't give up! Pronunciation skills take time to develop.");
-      feedback.push("Focus on speaking slowly and clearly at first.");
+      feedback.push({ category: 'fluency', severity: 'tip', messageKey: 'fluency.slowDown' });
     } else {
-      feedback.push("🌱 Every expert was once a beginner. Keep practicing!");
-      feedback.push("Try breaking down difficult words into smaller parts.");
+      feedback.push({ category: 'sound', severity: 'tip', messageKey: 'next.breakDownWords' });
     }
     
     return feedback;
   }
 
+  /**
+   * Generate advice on speaking rate and pauses
+   */
+  private generatePacingFeedback(fluency: FluencyMetrics): FeedbackItem[] {
+    const feedback: FeedbackItem[] = [];
+    const hesitations = longPauses(fluency, LONG_PAUSE_SECONDS);
+
+    if (hesitations.length >= 2) {
+      feedback.push({
+        category: 'fluency',
+        severity: 'issue',
+        messageKey: 'fluency.longPauses',
+        params: { count: hesitations.length, ms: LONG_PAUSE_SECONDS * 1000 }
+      });
+    } else if (fluency.longestPause >= HESITATION_SECONDS) {
+      feedback.push({
+        category: 'fluency',
+        severity: 'issue',
+        messageKey: 'fluency.hesitation',
+        params: { seconds: fluency.longestPause.toFixed(1) }
+      });
+    }
+
+    if (fluency.speechRate > FAST_WPM) {
+      feedback.push({
+        category: 'fluency',
+        severity: 'issue',
+        messageKey: 'fluency.tooFast',
+        params: { wpm: Math.round(fluency.speechRate) }
+      });
+    } else if (fluency.articulationRate < SLOW_WPM) {
+      feedback.push({
+        category: 'fluency',
+        severity: 'tip',
+        messageKey: 'fluency.tooSlow',
+        params: { wpm: Math.round(fluency.articulationRate) }
+      });
+    } else if (hesitations.length === 0) {
+      feedback.push({
+        category: 'fluency',
+        severity: 'praise',
+        messageKey: 'fluency.goodPace',
+        params: { wpm: Math.round(fluency.speechRate) }
+      });
+    }
+
+    return feedback;
+  }
+
+  /**
+   * Generate advice on word stress and sentence intonation
+   */
+  private generateProsodyFeedback(prosody: ProsodyAnalysis): FeedbackItem[] {
+    const feedback: FeedbackItem[] = [];
+
+    prosody.wordStress
+      .filter(word => word.detected !== null && word.detected !== word.expected)
+      .slice(0, MAX_STRESS_TIPS)
+      .forEach(word => {
+        feedback.push({
+          category: 'prosody',
+          severity: 'issue',
+          messageKey: 'prosody.wordStress',
+          params: { word: word.word, syllable: ORDINALS[word.expected] ?? `${word.expected + 1}th` },
+          targetWord: word.word
+        });
+      });
+
+    const { expected, detected } = prosody.intonation;
+    if (detected && detected !== expected) {
+      feedback.push({
+        category: 'prosody',
+        severity: 'issue',
+        messageKey: expected === 'rise' ? 'prosody.questionRise' : 'prosody.statementFall'
+      });
+    }
+
+    if (prosody.pitchRange < FLAT_RANGE_SEMITONES) {
+      feedback.push({ category: 'prosody', severity: 'tip', messageKey: 'prosody.flat' });
+    }
+
+    if (feedback.length === 0 && prosody.score >= 80) {
+      feedback.push({ category: 'prosody', severity: 'praise', messageKey: 'prosody.natural' });
+    }
+
+    return feedback;
+  }
+
   /**
    * Generate technical feedback based on text analysis
    */
-  private generateTechnicalFeedback(userText: string, targetText: string): string[] {
-    const feedback: string[] = [];
-    const userWords = userText.toLowerCase().trim().split(/\s+/);
-    const targetWords = targetText.toLowerCase().trim().split(/\s+/);
+  private generateTechnicalFeedback(userText: string, targetText: string, profile: L1Profile): FeedbackItem[] {
+    const feedback: FeedbackItem[] = [];
+    const userWords = normalizeText(userText);
+    const targetWords = normalizeText(targetText);
     
     // Check for common issues
     if (userWords.length < targetWords.length * 0.7) {
-      feedback.push("⚡ Try to speak all the words in the text. Take your time!");
+      feedback.push({ category: 'completeness', severity: 'issue', messageKey: 'completeness.missingWords' });
     }
     
     if (userWords.length > targetWords.length * 1.3) {
-      feedback.push("🎯 Focus on speaking just the words shown. Avoid adding extra words.");
+      feedback.push({ category: 'completeness', severity: 'issue', messageKey: 'completeness.extraWords' });
     }
     
     // Check for word order issues
-    const orderCorrect = this.checkWordOrder(userWords, targetWords);
+    const orderCorrect = this.checkWordOrder(userText, targetText);
     if (orderCorrect < 0.8) {
-      feedback.push("📝 Pay attention to the word order in the text.");
+      feedback.push({ category: 'completeness', severity: 'issue', messageKey: 'completeness.wordOrder' });
     }
     
-    // Check for specific sound patterns
-    const soundIssues = this.detectSoundIssues(userText, targetText);
-    if (soundIssues.length > 0) {
-      feedback.push(`🔤 Focus on these sounds: ${soundIssues.join(', ')}`);
+    // Check for the sound swaps typical for the learner, most typical first
+    const confusions = detectSoundConfusions(userText, targetText, profile);
+    if (confusions.length > 0) {
+      const sounds = confusions.map(confusion => confusion.sound).filter((sound, index, all) => all.indexOf(sound) === index);
+      feedback.push({
+        category: 'sound',
+        severity: 'issue',
+        messageKey: 'sound.focus',
+        params: { sounds: sounds.join(', ') }
+      });
+
+      confusions.slice(0, MAX_CONFUSION_TIPS).forEach(confusion => {
+        feedback.push({
+          category: 'sound',
+          severity: 'tip',
+          messageKey: 'sound.confusion',
+          params: { expected: phonemeToIpa(confusion.expected), spoken: phonemeToIpa(confusion.spoken), tip: confusion.tip },
+          targetSound: confusion.sound
+        });
+      });
     }
     
     return feedback;
@@ -89,47 +221,18 @@ export class FeedbackAgent {
 
   /**
    * Check word order accuracy
+   * Share of target words that appear as in-order matches in the word alignment,
+   * homophones counting as matches
    */
-  private checkWordOrder(userWords: string[], targetWords: string[]): number {
-    let correctOrder = 0;
-    const minLength = Math.min(userWords.length, targetWords.length);
-    
-    for (let i = 0; i < minLength; i++) {
-      if (userWords[i] === targetWords[i]) {
-        correctOrder++;
-      }
-    }
-    
-    return targetWords.length > 0 ? correctOrder / targetWords.length : 0;
-  }
+  private checkWordOrder(userText: string, targetText: string): number {
+    const targetWordCount = normalizeText(targetText).length;
+    if (targetWordCount === 0) return 0;
 
-  /**
-   * Detect specific sound issues
-   */
-  private detectSoundIssues(userText: string, targetText: string): string[] {
-    const issues: string[] = [];
-    const userLower = userText.toLowerCase();
-    const targetLower = targetText.toLowerCase();
-    
-    // Common sound substitutions to check for
-    const soundChecks = [
-      { target: 'th', user: 'd', sound: 'th' },
-      { target: 'th', user: 'f', sound: 'th' },
-      { target: 'r', user: 'w', sound: 'r' },
-      { target: 'l', user: 'r', sound: 'l' },
-      { target: 'v', user: 'b', sound: 'v' },
-      { target: 'w', user: 'v', sound: 'w' }
-    ];
-    
-    soundChecks.forEach(check => {
-      if (targetLower.includes(check.target) && userLower.includes(check.user)) {
-        if (!issues.includes(check.sound)) {
-          issues.push(check.sound);
-        }
-      }
-    });
+    const correctOrder = alignTextPhonemes(userText, targetText)
+      .filter(step => step.operation === 'match')
+      .length;
     
-    return issues;
+    return correctOrder / targetWordCount;
   }
 
   /**
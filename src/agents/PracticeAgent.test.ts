@@ -3,6 +3,7 @@
  */
 
 import { PracticeAgent } from './PracticeAgent';
+import { ADVANCED_PHRASES, BASIC_PHRASES, INTERMEDIATE_PHRASES, SOUND_FOCUS_PHRASES } from '../phrases';
 
 // Mock localStorage
 const localStorageMock = {
@@ -42,6 +43,70 @@ describe('PracticeAgent', () => {
       // Should get some variation
       expect(texts.size).toBeGreaterThan(1);
     });
+
+    it('should pick harder texts for strong learners', () => {
+      [95, 92, 94, 96, 93].forEach(score => agent.recordSession(score));
+      expect(ADVANCED_PHRASES).toContain(agent.generatePracticeText());
+    });
+
+    it('should pick basic texts for beginners', () => {
+      [40, 45, 50].forEach(score => agent.recordSession(score));
+      expect(BASIC_PHRASES).toContain(agent.generatePracticeText());
+    });
+
+    it('should not repeat a recently read text', () => {
+      const readText = BASIC_PHRASES[0];
+      [40, 45, 50].forEach(score => agent.recordSession(score, { targetText: readText }));
+
+      for (let i = 0; i < 4; i++) {
+        expect(agent.generatePracticeText()).not.toBe(readText);
+      }
+    });
+
+    it('should drill sounds the learner keeps missing', () => {
+      const wordErrors = [
+        { status: 'mispronounced' as const, targetWord: 'think', spokenWord: 'sink' },
+        { status: 'mispronounced' as const, targetWord: 'three', spokenWord: 'tree' }
+      ];
+      [40, 45, 50].forEach(score => agent.recordSession(score, { wordErrors }));
+
+      const texts = Array.from({ length: 20 }, () => agent.generatePracticeText());
+      expect(texts.some(text => SOUND_FOCUS_PHRASES.th.includes(text))).toBe(true);
+    });
+  });
+
+  describe('createPracticeSession', () => {
+    it('should default to adaptive mode at the recommended level', () => {
+      const session = agent.createPracticeSession();
+      expect(session.mode).toBe('adaptive');
+      expect(session.level).toBe('basic');
+      expect(BASIC_PHRASES).toContain(session.text);
+    });
+
+    it('should use the chosen level', () => {
+      const session = agent.createPracticeSession({ mode: 'level', level: 'intermediate' });
+      expect(session).toMatchObject({ mode: 'level', level: 'intermediate', sound: null });
+      expect(INTERMEDIATE_PHRASES).toContain(session.text);
+    });
+
+    it('should drill sounds typical for the learner\'s first language', () => {
+      const sessions = Array.from({ length: 20 }, () => agent.createPracticeSession({ mode: 'adaptive' }, 'japanese'));
+      expect(sessions.some(session => session.sound === 'r_l')).toBe(true);
+      expect(sessions.every(session => session.sound === null || session.sound === 'r_l')).toBe(true);
+    });
+
+    it('should drill sounds the learner has not mastered yet', () => {
+      agent.recordSoundResults(Array.from({ length: 6 }, (_, index) => ({ sound: 'V', correct: index === 0 })));
+
+      const sessions = Array.from({ length: 20 }, () => agent.createPracticeSession());
+      expect(sessions.some(session => session.sound === 'v_w')).toBe(true);
+    });
+
+    it('should use the chosen sound drill', () => {
+      const session = agent.createPracticeSession({ mode: 'sound', sound: 's_sh' });
+      expect(session).toMatchObject({ mode: 'sound', level: null, sound: 's_sh' });
+      expect(SOUND_FOCUS_PHRASES.s_sh).toContain(session.text);
+    });
   });
 
   describe('recordSession and getStats', () => {
@@ -198,6 +263,38 @@ describe('PracticeAgent', () => {
     });
   });
 
+  describe('sound mastery', () => {
+    it('should start without tracked sounds', () => {
+      expect(agent.getSoundMastery()).toEqual([]);
+    });
+
+    it('should track each sound weakest first and save it', () => {
+      agent.recordSoundResults([
+        { sound: 'R', correct: false },
+        { sound: 'R', correct: true },
+        { sound: 'TH', correct: true }
+      ], '2024-03-01T10:00:00.000Z');
+
+      expect(agent.getSoundMastery().map(estimate => [estimate.sound, estimate.estimate])).toEqual([['R', 50], ['TH', 100]]);
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('pronunciation_sound_mastery', expect.stringContaining('"R"'));
+    });
+
+    it('should load saved mastery on construction', () => {
+      localStorageMock.getItem.mockImplementation(key => key === 'pronunciation_sound_mastery'
+        ? JSON.stringify({ R: { correct: 3, attempts: 4, history: [40, 75], updatedAt: '2024-03-01T10:00:00.000Z' } })
+        : null);
+
+      expect(new PracticeAgent().getSoundMastery()[0]).toMatchObject({ sound: 'R', estimate: 75, firstEstimate: 40 });
+      localStorageMock.getItem.mockReset();
+    });
+
+    it('should be cleared with the statistics', () => {
+      agent.recordSoundResults([{ sound: 'R', correct: true }]);
+      agent.resetStats();
+      expect(agent.getSoundMastery()).toEqual([]);
+    });
+  });
+
   describe('exportData', () => {
     it('should export complete practice data', () => {
       [80, 85, 90].forEach(score => agent.recordSession(score));
@@ -205,11 +302,77 @@ describe('PracticeAgent', () => {
       const exportedData = agent.exportData();
       
       expect(exportedData).toHaveProperty('sessionsCompleted', 3);
-      expect(exportedData).toHaveProperty('sessionHistory');
+      expect(exportedData).toHaveProperty('sessions');
       expect(exportedData).toHaveProperty('stats');
       expect(exportedData).toHaveProperty('trend');
       expect(exportedData).toHaveProperty('exportDate');
-      expect(exportedData.sessionHistory).toEqual([80, 85, 90]);
+      expect(exportedData.version).toBe(2);
+      expect(exportedData.sessions.map(session => session.score)).toEqual([80, 85, 90]);
+    });
+
+    it('should keep the sound mastery through an export and import', () => {
+      agent.recordSession(80);
+      agent.recordSoundResults([{ sound: 'TH', correct: false }, { sound: 'R', correct: true }]);
+      const exported = JSON.parse(JSON.stringify(agent.exportData()));
+
+      const otherAgent = new PracticeAgent();
+      otherAgent.resetStats();
+      expect(otherAgent.importData(exported)).toBe(true);
+      expect(otherAgent.getSoundMastery()).toEqual(agent.getSoundMastery());
+      expect(localStorageMock.setItem).toHaveBeenLastCalledWith('pronunciation_sound_mastery', expect.any(String));
+    });
+  });
+
+  describe('session records', () => {
+    it('should store the details of each session', () => {
+      agent.recordSession(72, {
+        targetText: 'think about it',
+        transcript: 'sink about it',
+        durationSeconds: 3.2,
+        wordErrors: [{ status: 'mispronounced', targetWord: 'think', spokenWord: 'sink' }],
+        difficulty: 4
+      });
+
+      const [session] = agent.getSessionHistory();
+      expect(session).toMatchObject({
+        targetText: 'think about it',
+        transcript: 'sink about it',
+        score: 72,
+        letterGrade: 'C-',
+        durationSeconds: 3.2,
+        difficulty: 4
+      });
+      expect(session.wordErrors).toEqual([{ status: 'mispronounced', targetWord: 'think', spokenWord: 'sink' }]);
+      expect(Number.isNaN(Date.parse(session.timestamp))).toBe(false);
+    });
+
+    it('should fill defaults when only a score is recorded', () => {
+      agent.recordSession(95);
+
+      expect(agent.getSessionHistory()[0]).toMatchObject({
+        targetText: '',
+        transcript: '',
+        letterGrade: 'A',
+        durationSeconds: null,
+        wordErrors: [],
+        difficulty: null
+      });
+    });
+
+    it('should keep the id of a stored recording', () => {
+      agent.recordSession(80, { recordingId: 'recording-1' });
+      agent.recordSession(85);
+
+      const [withRecording, withoutRecording] = agent.getSessionHistory();
+      expect(withRecording.recordingId).toBe('recording-1');
+      expect(withoutRecording).not.toHaveProperty('recordingId');
+    });
+
+    it('should report the last session in stats', () => {
+      agent.recordSession(60, { targetText: 'first' });
+      agent.recordSession(70, { targetText: 'second' });
+
+      expect(agent.getStats().lastSession?.targetText).toBe('second');
     });
   });
 
@@ -238,6 +401,21 @@ describe('PracticeAgent', () => {
       expect(result).toBe(false);
     });
 
+    it('should import session records from an export', () => {
+      agent.recordSession(88, { targetText: 'hello world', transcript: 'hello word' });
+      const exported = agent.exportData();
+
+      const otherAgent = new PracticeAgent();
+      otherAgent.resetStats();
+      expect(otherAgent.importData(exported)).toBe(true);
+      expect(otherAgent.getSessionHistory()).toEqual(exported.sessions);
+    });
+
+    it('should reject malformed session records', () => {
+      const invalidData = { sessions: [{ score: 80 }] } as any;
+      expect(agent.importData(invalidData)).toBe(false);
+    });
+
     it('should handle missing sessionHistory', () => {
       const invalidData = {} as any;
       const result = agent.importData(invalidData);
@@ -252,7 +430,7 @@ describe('PracticeAgent', () => {
       
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
         'pronunciation_practice_stats',
-        expect.stringContaining('sessionHistory')
+        expect.stringContaining('"version":2')
       );
     });
 
@@ -278,5 +456,32 @@ describe('PracticeAgent', () => {
       expect(stats.sessionsCompleted).toBe(3);
       expect(stats.recentScores).toEqual([75, 80, 85]);
     });
+
+    it('should migrate version 1 stats to session records', () => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({
+        sessionHistory: [64, 91],
+        lastUpdated: '2024-03-01T10:00:00.000Z'
+      }));
+
+      const history = new PracticeAgent().getSessionHistory();
+
+      expect(history).toHaveLength(2);
+      expect(history[1]).toEqual({
+        timestamp: '2024-03-01T10:00:00.000Z',
+        targetText: '',
+        transcript: '',
+        score: 91,
+        letterGrade: 'A-',
+        durationSeconds: null,
+        wordErrors: [],
+        difficulty: null
+      });
+    });
+
+    it('should ignore unreadable stored stats', () => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({ sessions: 'broken' }));
+
+      expect(new PracticeAgent().getStats().sessionsCompleted).toBe(0);
+    });
   });
 });
\ No newline at end of file
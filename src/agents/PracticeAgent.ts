@@ -1,4 +1,86 @@
-import { getRandomPracticeText } from '../utils/phonemeUtils';
+import { getLetterGrade } from '../utils/phonemeUtils';
+import {
+  findMissedFocusSounds,
+  focusSoundsForPhonemes,
+  prioritizeFocusSounds,
+  selectPracticeText
+} from '../utils/textSelection';
+import {
+  findWeakSounds,
+  isSoundMastery,
+  SoundMastery,
+  SoundMasteryEstimate,
+  SoundObservation,
+  summarizeSoundMastery,
+  updateSoundMastery
+} from '../utils/soundMastery';
+import { ComparisonAgent, WordStatus } from './ComparisonAgent';
+import { FocusSound, PhraseLevel } from '../phrases';
+import { L1_PROFILES, NativeLanguage } from '../l1Profiles';
+
+/**
+ * A word the learner got wrong in one session
+ */
+export interface SessionWordError {
+  status: Exclude<WordStatus, 'correct'>;
+  targetWord: string | null;
+  spokenWord: string | null;
+}
+
+/**
+ * Everything remembered about one completed practice session
+ * Fields that older saved data never recorded are empty strings, empty lists or null
+ */
+export interface PracticeSessionRecord {
+  timestamp: string; // ISO date the session was recorded
+  targetText: string;
+  transcript: string;
+  score: number;
+  letterGrade: string;
+  durationSeconds: number | null;
+  wordErrors: SessionWordError[];
+  difficulty: number | null; // 1-10, see ComparisonAgent.calculateDifficulty
+  recordingId?: string; // key of the recording kept in the recording store
+}
+
+/**
+ * Optional details for recordSession; the grade and timestamp default from the score and clock
+ */
+export type SessionDetails = Partial<Omit<PracticeSessionRecord, 'score'>>;
+
+/**
+ * How the practice text is chosen
+ * - adaptive: matches the learner's recommended difficulty and missed sounds
+ * - level: a phrase from the chosen level
+ * - sound: a drill for the chosen sound
+ * - listen: adaptive texts read aloud before the learner repeats them
+ * - pairs: single words from minimal pairs, see PronCoachAgent.startMinimalPairDrill
+ * - review: words and phrases due for review, see PronCoachAgent.getDueReviews
+ * Asked for a text, the listen, pairs and review modes use adaptive selection
+ */
+export type PracticeMode = 'adaptive' | 'level' | 'sound' | 'listen' | 'pairs' | 'review';
+
+export interface PracticeOptions {
+  mode: PracticeMode;
+  level?: PhraseLevel; // required for the level mode
+  sound?: FocusSound; // required for the sound mode
+}
+
+/**
+ * A practice text with the mode and the level or sound drill it was taken from
+ */
+export interface PracticeSession {
+  text: string;
+  mode: PracticeMode;
+  level: PhraseLevel | null;
+  sound: FocusSound | null;
+}
+
+/**
+ * Version of the data saved under PracticeAgent's storage key
+ * 1: { sessionHistory: number[] }, 2: { version: 2, sessions: PracticeSessionRecord[] }
+ */
+export const STATS_SCHEMA_VERSION = 2;
 
 /**
  * PracticeAgent manages practice sessions, text generation, and progress tracking
@@ -6,34 +88,109 @@ import { getRandomPracticeText } from '../utils/phonemeUtils';
  */
 export class PracticeAgent {
   private static readonly STORAGE_KEY = 'pronunciation_practice_stats';
-  private sessionHistory: number[] = [];
+  private static readonly MASTERY_STORAGE_KEY = 'pronunciation_sound_mastery';
+  private static readonly MAX_SESSIONS = 50;
+  private static readonly RECENT_TEXT_COUNT = 5;
+  private sessions: PracticeSessionRecord[] = [];
+  private soundMastery: SoundMastery = {};
+  private servedTexts: string[] = [];
+  private comparisonAgent = new ComparisonAgent();
   
   constructor() {
     this.loadStats();
+    this.loadSoundMastery();
   }
 
   /**
    * Generate a practice text for the user to read
-   * TODO: In future versions, this could adapt difficulty based on user progress
    */
-  public generatePracticeText(): string {
-    return getRandomPracticeText();
+  public generatePracticeText(options: PracticeOptions = { mode: 'adaptive' }): string {
+    return this.createPracticeSession(options).text;
+  }
+
+  /**
+   * Choose a practice text for the given mode
+   * Adaptive mode follows the recommended difficulty and drills sounds the learner
+   * keeps missing or has not mastered yet, those typical for their first language
+   * first; every mode avoids texts read recently
+   */
+  public createPracticeSession(
+    options: PracticeOptions = { mode: 'adaptive' },
+    nativeLanguage: NativeLanguage | null = null
+  ): PracticeSession {
+    const recentSessions = this.sessions.slice(-PracticeAgent.RECENT_TEXT_COUNT);
+    const missedSounds = findMissedFocusSounds(recentSessions.flatMap(session => session.wordErrors));
+    const weakSounds = focusSoundsForPhonemes(findWeakSounds(this.getSoundMastery()))
+      .filter(sound => !missedSounds.includes(sound));
+    const focusSounds = [...missedSounds, ...weakSounds];
+    const selection = selectPracticeText({
+      targetDifficulty: this.getRecommendedDifficulty(),
+      recentTexts: [...recentSessions.map(session => session.targetText), ...this.servedTexts],
+      focusSounds: nativeLanguage ? prioritizeFocusSounds(focusSounds, L1_PROFILES[nativeLanguage]) : focusSounds,
+      rateDifficulty: candidate => this.comparisonAgent.calculateDifficulty(candidate),
+      level: options.mode === 'level' ? options.level : undefined,
+      sound: options.mode === 'sound' ? options.sound : undefined
+    });
+
+    this.servedTexts = [...this.servedTexts, selection.text].slice(-PracticeAgent.RECENT_TEXT_COUNT);
+    return { ...selection, mode: options.mode };
   }
 
   /**
    * Record a completed practice session
    */
-  public recordSession(score: number): void {
-    this.sessionHistory.push(score);
+  public recordSession(score: number, details: SessionDetails = {}): void {
+    this.sessions.push({
+      timestamp: details.timestamp ?? new Date().toISOString(),
+      targetText: details.targetText ?? '',
+      transcript: details.transcript ?? '',
+      score,
+      letterGrade: details.letterGrade ?? getLetterGrade(score),
+      durationSeconds: details.durationSeconds ?? null,
+      wordErrors: details.wordErrors ?? [],
+      difficulty: details.difficulty ?? null,
+      ...(details.recordingId ? { recordingId: details.recordingId } : {})
+    });
     
     // Keep only the last 50 sessions to avoid storage bloat
-    if (this.sessionHistory.length > 50) {
-      this.sessionHistory = this.sessionHistory.slice(-50);
+    if (this.sessions.length > PracticeAgent.MAX_SESSIONS) {
+      this.sessions = this.sessions.slice(-PracticeAgent.MAX_SESSIONS);
     }
     
     this.saveStats();
   }
 
+  /**
+   * Update the per-sound mastery with the sounds practiced in one session
+   */
+  public recordSoundResults(observations: SoundObservation[], timestamp?: string): void {
+    if (observations.length === 0) return;
+
+    this.soundMastery = updateSoundMastery(this.soundMastery, observations, timestamp);
+    this.saveSoundMastery();
+  }
+
+  /**
+   * Mastery of every practiced sound with its confidence range, weakest first
+   */
+  public getSoundMastery(): SoundMasteryEstimate[] {
+    return summarizeSoundMastery(this.soundMastery);
+  }
+
+  /**
+   * Get the recorded sessions, oldest first
+   */
+  public getSessionHistory(): PracticeSessionRecord[] {
+    return this.sessions.map(session => ({ ...session, wordErrors: [...session.wordErrors] }));
+  }
+
+  /**
+   * Scores of the recorded sessions, oldest first
+   */
+  private getScores(): number[] {
+    return this.sessions.map(session => session.score);
+  }
+
   /**
    * Get practice statistics
    */
@@ -41,17 +198,20 @@ export class PracticeAgent {
     sessionsCompleted: number;
     averageScore: number;
     recentScores: number[];
+    lastSession: PracticeSessionRecord | null;
   } {
-    const sessionsCompleted = this.sessionHistory.length;
+    const scores = this.getScores();
+    const sessionsCompleted = scores.length;
     const averageScore = sessionsCompleted > 0 
-      ? Math.round(this.sessionHistory.reduce((sum, score) => sum + score, 0) / sessionsCompleted)
+      ? Math.round(scores.reduce((sum, score) => sum + score, 0) / sessionsCompleted)
       : 0;
-    const recentScores = this.sessionHistory.slice(-10); // Last 10 sessions
+    const recentScores = scores.slice(-10); // Last 10 sessions
     
     return {
       sessionsCompleted,
       averageScore,
-      recentScores
+      recentScores,
+      lastSession: sessionsCompleted > 0 ? this.sessions[sessionsCompleted - 1] : null
     };
   }
 
@@ -62,12 +222,13 @@ export class PracticeAgent {
     trend: 'improving' | 'stable' | 'declining' | 'insufficient_data';
     trendPercentage: number;
   } {
-    if (this.sessionHistory.length < 3) {
+    const scores = this.getScores();
+    if (scores.length < 3) {
       return { trend: 'insufficient_data', trendPercentage: 0 };
     }
 
-    const recent = this.sessionHistory.slice(-5);
-    const earlier = this.sessionHistory.slice(-10, -5);
+    const recent = scores.slice(-5);
+    const earlier = scores.slice(-10, -5);
     
     if (earlier.length === 0) {
       return { trend: 'insufficient_data', trendPercentage: 0 };
@@ -98,11 +259,12 @@ export class PracticeAgent {
    * Get recommended difficulty level based on performance
    */
   public getRecommendedDifficulty(): number {
-    if (this.sessionHistory.length < 3) {
+    const scores = this.getScores();
+    if (scores.length < 3) {
       return 3; // Start with medium difficulty
     }
 
-    const recentAverage = this.sessionHistory.slice(-5).reduce((sum, score) => sum + score, 0) / Math.min(5, this.sessionHistory.length);
+    const recentAverage = scores.slice(-5).reduce((sum, score) => sum + score, 0) / Math.min(5, scores.length);
     
     if (recentAverage >= 90) {
       return 8; // Hard
@@ -163,8 +325,10 @@ export class PracticeAgent {
    * Reset practice statistics
    */
   public resetStats(): void {
-    this.sessionHistory = [];
+    this.sessions = [];
+    this.soundMastery = {};
     this.saveStats();
+    this.saveSoundMastery();
   }
 
   /**
@@ -173,7 +337,8 @@ export class PracticeAgent {
   private saveStats(): void {
     try {
       const stats = {
-        sessionHistory: this.sessionHistory,
+        version: STATS_SCHEMA_VERSION,
+        sessions: this.sessions,
         lastUpdated: new Date().toISOString()
       };
       localStorage.setItem(PracticeAgent.STORAGE_KEY, JSON.stringify(stats));
@@ -183,18 +348,42 @@ export class PracticeAgent {
   }
 
   /**
-   * Load statistics from localStorage
+   * Load statistics from localStorage, migrating data saved by older versions
    */
   private loadStats(): void {
     try {
       const saved = localStorage.getItem(PracticeAgent.STORAGE_KEY);
       if (saved) {
-        const stats = JSON.parse(saved);
-        this.sessionHistory = stats.sessionHistory || [];
+        this.sessions = migrateStoredStats(JSON.parse(saved)) || [];
       }
     } catch (error) {
       console.warn('Could not load practice statistics:', error);
-      this.sessionHistory = [];
+      this.sessions = [];
+    }
+  }
+
+  /**
+   * Save the per-sound mastery to localStorage
+   */
+  private saveSoundMastery(): void {
+    try {
+      localStorage.setItem(PracticeAgent.MASTERY_STORAGE_KEY, JSON.stringify(this.soundMastery));
+    } catch (error) {
+      console.warn('Could not save sound mastery:', error);
+    }
+  }
+
+  /**
+   * Load the per-sound mastery from localStorage, starting over when it is unreadable
+   */
+  private loadSoundMastery(): void {
+    try {
+      const saved = localStorage.getItem(PracticeAgent.MASTERY_STORAGE_KEY);
+      const parsed = saved ? JSON.parse(saved) : {};
+      this.soundMastery = isSoundMastery(parsed) ? parsed : {};
+    } catch (error) {
+      console.warn('Could not load sound mastery:', error);
+      this.soundMastery = {};
     }
   }
 
@@ -203,22 +392,33 @@ export class PracticeAgent {
    */
   public exportData() {
     return {
-      sessionsCompleted: this.sessionHistory.length,
-      sessionHistory: [...this.sessionHistory],
+      version: STATS_SCHEMA_VERSION,
+      sessionsCompleted: this.sessions.length,
+      sessions: this.getSessionHistory(),
       stats: this.getStats(),
       trend: this.getProgressTrend(),
+      soundMastery: { ...this.soundMastery },
       exportDate: new Date().toISOString()
     };
   }
 
   /**
    * Import practice data from backup
+   * Accepts current exports as well as legacy ones holding only sessionHistory scores;
+   * the sound mastery is restored when the backup holds valid mastery data
    */
-  public importData(data: { sessionHistory: number[] }): boolean {
+  public importData(
+    data: { sessions: PracticeSessionRecord[]; soundMastery?: SoundMastery } | { sessionHistory: number[] }
+  ): boolean {
     try {
-      if (Array.isArray(data.sessionHistory) && data.sessionHistory.every(score => typeof score === 'number' && score >= 0 && score <= 100)) {
-        this.sessionHistory = data.sessionHistory;
+      const sessions = migrateStoredStats(data);
+      if (sessions) {
+        this.sessions = sessions.slice(-PracticeAgent.MAX_SESSIONS);
         this.saveStats();
+        if ('soundMastery' in data && isSoundMastery(data.soundMastery)) {
+          this.soundMastery = data.soundMastery;
+          this.saveSoundMastery();
+        }
         return true;
       }
       return false;
@@ -227,4 +427,63 @@ export class PracticeAgent {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Read saved or imported statistics of any schema version as session records
+ * Returns null when the data is not valid
+ */
+function migrateStoredStats(data: unknown): PracticeSessionRecord[] | null {
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+
+  // Version 2: full session records
+  if ('sessions' in data && Array.isArray(data.sessions)) {
+    const sessions: unknown[] = data.sessions;
+    return sessions.every(isSessionRecord) ? sessions : null;
+  }
+
+  // Version 1: bare scores, all stamped with the last save time
+  if ('sessionHistory' in data && Array.isArray(data.sessionHistory)) {
+    const scores: unknown[] = data.sessionHistory;
+    if (!scores.every(isValidScore)) {
+      return null;
+    }
+    const timestamp = 'lastUpdated' in data && typeof data.lastUpdated === 'string'
+      ? data.lastUpdated
+      : new Date(0).toISOString();
+    return scores.map(score => ({
+      timestamp,
+      targetText: '',
+      transcript: '',
+      score,
+      letterGrade: getLetterGrade(score),
+      durationSeconds: null,
+      wordErrors: [],
+      difficulty: null
+    }));
+  }
+
+  return null;
+}
+
+function isValidScore(score: unknown): score is number {
+  return typeof score === 'number' && score >= 0 && score <= 100;
+}
+
+function isSessionRecord(record: unknown): record is PracticeSessionRecord {
+  if (typeof record !== 'object' || record === null) {
+    return false;
+  }
+  const fields: Partial<Record<keyof PracticeSessionRecord, unknown>> = record;
+  return typeof fields.timestamp === 'string'
+    && typeof fields.targetText === 'string'
+    && typeof fields.transcript === 'string'
+    && isValidScore(fields.score)
+    && typeof fields.letterGrade === 'string'
+    && (fields.durationSeconds === null || typeof fields.durationSeconds === 'number')
+    && (fields.difficulty === null || typeof fields.difficulty === 'number')
+    && (fields.recordingId === undefined || typeof fields.recordingId === 'string')
+    && Array.isArray(fields.wordErrors);
+}
@@ -3,12 +3,22 @@
  */
 
 import { PronCoachAgent } from './PronCoachAgent';
+import { PracticeAgent } from './PracticeAgent';
+import { TranscriptionAgent } from './TranscriptionAgent';
+import { ComparisonAgent } from './ComparisonAgent';
+import { FeedbackAgent } from './FeedbackAgent';
+import { ReviewAgent } from './ReviewAgent';
+import { formatFeedbackItem } from '../utils/feedbackMessages';
+import { loadRecording, pruneRecordings, saveRecording } from '../utils/recordingStore';
+import * as audioCodec from '../utils/audioCodec';
 
 // Mock the dependencies
 jest.mock('./TranscriptionAgent');
 jest.mock('./ComparisonAgent');
 jest.mock('./FeedbackAgent');
 jest.mock('./PracticeAgent');
+jest.mock('./ReviewAgent');
+jest.mock('../utils/recordingStore');
 
 describe('PronCoachAgent', () => {
   let agent: PronCoachAgent;
@@ -25,15 +35,22 @@ describe('PronCoachAgent', () => {
 
   describe('startPracticeSession', () => {
     it('should return a practice text', () => {
-      const text = agent.startPracticeSession();
+      const { text } = agent.startPracticeSession();
       expect(typeof text).toBe('string');
       expect(text.length).toBeGreaterThan(0);
     });
 
+    it('should pass the chosen mode to the practice agent', () => {
+      agent.startPracticeSession({ mode: 'sound', sound: 'th' });
+
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      expect(practiceAgent.createPracticeSession).toHaveBeenCalledWith({ mode: 'sound', sound: 'th' }, null);
+    });
+
     it('should return different texts on multiple calls (statistically)', () => {
       const texts = new Set();
       for (let i = 0; i < 20; i++) {
-        texts.add(agent.startPracticeSession());
+        texts.add(agent.startPracticeSession().text);
       }
       // Should get some variation
       expect(texts.size).toBeGreaterThan(1);
@@ -56,6 +73,7 @@ describe('PronCoachAgent', () => {
       expect(typeof result.score).toBe('number');
       expect(Array.isArray(result.feedback)).toBe(true);
       expect(typeof result.letterGrade).toBe('string');
+      expect(Array.isArray(result.wordResults)).toBe(true);
     });
 
     it('should return valid score range', async () => {
@@ -76,8 +94,8 @@ describe('PronCoachAgent', () => {
       
       expect(result.feedback.length).toBeGreaterThan(0);
       result.feedback.forEach(item => {
-        expect(typeof item).toBe('string');
-        expect(item.length).toBeGreaterThan(0);
+        expect(typeof item.messageKey).toBe('string');
+        expect(formatFeedbackItem(item).length).toBeGreaterThan(0);
       });
     });
 
@@ -119,6 +137,25 @@ describe('PronCoachAgent', () => {
       // This should not throw even if there are internal errors
       await expect(agent.processRecording(audioBlob, targetText)).resolves.toBeDefined();
     });
+
+    it('should decode the recording once for transcription and analysis', async () => {
+      const decoded = { samples: new Float32Array(8000), sampleRate: 8000 };
+      const decodeAudioBlob = jest.spyOn(audioCodec, 'decodeAudioBlob').mockResolvedValue(decoded);
+      const transcriptionAgent = jest.mocked(TranscriptionAgent).mock.instances.slice(-1)[0];
+      jest.mocked(transcriptionAgent.transcribeAudio).mockResolvedValue('hello world');
+      const comparisonAgent = jest.mocked(ComparisonAgent).mock.instances.slice(-1)[0];
+      jest.mocked(comparisonAgent.compareTexts).mockReturnValue(100);
+      jest.mocked(comparisonAgent.compareWords).mockReturnValue([]);
+      const feedbackAgent = jest.mocked(FeedbackAgent).mock.instances.slice(-1)[0];
+      jest.mocked(feedbackAgent.generateFeedback).mockReturnValue([]);
+      const audioBlob = new Blob(['test audio'], { type: 'audio/wav' });
+
+      const result = await agent.processRecording(audioBlob, 'hello world');
+
+      expect(decodeAudioBlob).toHaveBeenCalledTimes(1);
+      expect(transcriptionAgent.transcribeAudio).toHaveBeenCalledWith(audioBlob, decoded);
+      expect(result.audioAnalysis!.duration).toBe(1);
+    });
   });
 
   describe('checkBrowserSupport', () => {
@@ -181,12 +218,271 @@ describe('PronCoachAgent', () => {
       const updatedStats = agent.getPracticeStats();
       expect(updatedStats.sessionsCompleted).toBeGreaterThanOrEqual(initialStats.sessionsCompleted);
     });
+
+    it('should keep the transcript and word errors of a full result', () => {
+      agent.recordPracticeSession({
+        transcription: 'hello word',
+        score: 70,
+        feedback: [],
+        letterGrade: 'C-',
+        wordResults: [
+          { status: 'correct', targetWord: 'hello', spokenWord: 'hello', targetIndex: 0, spokenIndex: 0, score: 100 },
+          { status: 'mispronounced', targetWord: 'world', spokenWord: 'word', targetIndex: 1, spokenIndex: 1, score: 75 }
+        ],
+        audioAnalysis: null,
+        fluency: null,
+        prosody: null
+      }, 'hello world', 2.5);
+
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      expect(practiceAgent.recordSession).toHaveBeenCalledWith(70, expect.objectContaining({
+        targetText: 'hello world',
+        transcript: 'hello word',
+        durationSeconds: 2.5,
+        wordErrors: [{ status: 'mispronounced', targetWord: 'world', spokenWord: 'word' }]
+      }));
+    });
+
+    it('should update the sound mastery from the compared words', () => {
+      agent.recordPracticeSession({
+        transcription: 'sink',
+        score: 75,
+        feedback: [],
+        letterGrade: 'C',
+        wordResults: [
+          { status: 'mispronounced', targetWord: 'think', spokenWord: 'sink', targetIndex: 0, spokenIndex: 0, score: 75 }
+        ],
+        audioAnalysis: null,
+        fluency: null,
+        prosody: null
+      }, 'think');
+
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      expect(practiceAgent.recordSoundResults).toHaveBeenCalledWith(expect.arrayContaining([
+        { sound: 'TH', correct: false },
+        { sound: 'K', correct: true }
+      ]));
+    });
+
+    it('should queue the missed words for review', () => {
+      agent.recordPracticeSession({
+        transcription: 'the dog',
+        score: 60,
+        feedback: [],
+        letterGrade: 'F',
+        wordResults: [],
+        audioAnalysis: null,
+        fluency: null,
+        prosody: null
+      }, 'the lazy dog');
+
+      const reviewAgent = jest.mocked(ReviewAgent).mock.instances.slice(-1)[0];
+      expect(reviewAgent.addMissedWords).toHaveBeenCalledWith('the dog', 'the lazy dog');
+    });
+  });
+
+  describe('recordings', () => {
+    const result = {
+      transcription: 'hello world',
+      score: 90,
+      feedback: [],
+      letterGrade: 'A-',
+      wordResults: [],
+      audioAnalysis: null,
+      fluency: null,
+      prosody: null
+    };
+    const recording = new Blob(['audio'], { type: 'audio/webm' });
+    const session = {
+      timestamp: '2024-01-01T00:00:00.000Z',
+      targetText: 'hello world',
+      transcript: 'hello world',
+      score: 90,
+      letterGrade: 'A-',
+      durationSeconds: null,
+      wordErrors: [],
+      difficulty: null
+    };
+
+    beforeEach(() => {
+      jest.mocked(saveRecording).mockResolvedValue();
+      jest.mocked(pruneRecordings).mockResolvedValue();
+    });
+
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    it('should not store the recording unless the learner keeps recordings', () => {
+      agent.updateSettings({ keepRecordings: false });
+      agent.recordPracticeSession(result, 'hello world', 2, recording);
+
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      expect(practiceAgent.recordSession).toHaveBeenCalledWith(90, expect.objectContaining({ recordingId: undefined }));
+      expect(saveRecording).not.toHaveBeenCalled();
+    });
+
+    it('should store the recording and drop the ones no longer in the history', async () => {
+      agent.updateSettings({ keepRecordings: true });
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      jest.mocked(practiceAgent.getSessionHistory).mockReturnValue([
+        { ...session, recordingId: 'recording-1' },
+        { ...session, recordingId: undefined }
+      ]);
+
+      agent.recordPracticeSession(result, 'hello world', 2, recording);
+
+      const recordingId = jest.mocked(practiceAgent.recordSession).mock.calls[0][1]?.recordingId;
+      expect(recordingId).toMatch(/^recording-\d+$/);
+      expect(saveRecording).toHaveBeenCalledWith(recordingId, recording);
+      await Promise.resolve();
+      expect(pruneRecordings).toHaveBeenCalledWith(['recording-1']);
+    });
+
+    it('should load the latest stored take of the same text', async () => {
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      jest.mocked(practiceAgent.getSessionHistory).mockReturnValue([
+        { ...session, timestamp: '2024-01-01T00:00:00.000Z', recordingId: 'recording-1' },
+        { ...session, timestamp: '2024-01-02T00:00:00.000Z', recordingId: 'recording-2' },
+        { ...session, targetText: 'other text', recordingId: 'recording-3' }
+      ]);
+      jest.mocked(loadRecording).mockResolvedValue(recording);
+
+      expect(await agent.loadPreviousTake('hello world')).toEqual({
+        audioBlob: recording,
+        timestamp: '2024-01-02T00:00:00.000Z'
+      });
+      expect(loadRecording).toHaveBeenCalledWith('recording-2');
+    });
+
+    it('should resolve with null when there is no stored take', async () => {
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      jest.mocked(practiceAgent.getSessionHistory).mockReturnValue([{ ...session }]);
+
+      expect(await agent.loadPreviousTake('hello world')).toBeNull();
+      expect(loadRecording).not.toHaveBeenCalled();
+    });
+
+    it('should resolve with null when the stored take cannot be loaded', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      jest.mocked(practiceAgent.getSessionHistory).mockReturnValue([{ ...session, recordingId: 'recording-1' }]);
+      jest.mocked(loadRecording).mockRejectedValue(new Error('blocked'));
+
+      expect(await agent.loadPreviousTake('hello world')).toBeNull();
+    });
+  });
+
+  describe('reviews', () => {
+    const item = {
+      text: 'lazy',
+      easiness: 2.5,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      due: '2024-03-10',
+      addedAt: '2024-03-10T08:00:00.000Z',
+      lastReviewedAt: null
+    };
+
+    it('should count the reviews due today', () => {
+      const reviewAgent = jest.mocked(ReviewAgent).mock.instances.slice(-1)[0];
+      jest.mocked(reviewAgent.countDueReviews).mockReturnValue(3);
+
+      expect(agent.countDueReviews()).toBe(3);
+    });
+
+    it('should grade a review attempt from its transcription and update the sound mastery', async () => {
+      const transcriptionAgent = jest.mocked(TranscriptionAgent).mock.instances.slice(-1)[0];
+      jest.mocked(transcriptionAgent.transcribeAudio).mockResolvedValue('lazy');
+      const reviewAgent = jest.mocked(ReviewAgent).mock.instances.slice(-1)[0];
+      const graded = {
+        item: { ...item, interval: 1, repetitions: 1, due: '2024-03-11' },
+        transcription: 'lazy',
+        score: 100,
+        quality: 5 as const,
+        wordResults: [
+          { status: 'correct' as const, targetWord: 'lazy', spokenWord: 'lazy', targetIndex: 0, spokenIndex: 0, score: 100 }
+        ]
+      };
+      jest.mocked(reviewAgent.gradeAttempt).mockReturnValue(graded);
+
+      expect(await agent.reviewAttempt(new Blob(['audio']), item)).toBe(graded);
+      expect(reviewAgent.gradeAttempt).toHaveBeenCalledWith('lazy', 'lazy');
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      expect(practiceAgent.recordSoundResults).toHaveBeenCalledWith(expect.arrayContaining([
+        { sound: 'L', correct: true }
+      ]));
+    });
+
+    it('should report a failed transcription', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const transcriptionAgent = jest.mocked(TranscriptionAgent).mock.instances.slice(-1)[0];
+      jest.mocked(transcriptionAgent.transcribeAudio).mockRejectedValue(new Error('no speech'));
+
+      await expect(agent.reviewAttempt(new Blob(['audio']), item))
+        .rejects.toThrow('Failed to process recording. Please try again.');
+    });
+  });
+
+  describe('minimal-pair drills', () => {
+    const sheep = { target: 'sheep', distractor: 'ship', expected: 'IY', confusedWith: 'IH' };
+
+    it('should drill the sounds swapped in earlier sessions first', () => {
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      jest.mocked(practiceAgent.getSessionHistory).mockReturnValue([{
+        timestamp: '2024-01-01T00:00:00.000Z',
+        targetText: 'a very big boat',
+        transcript: 'a berry big boat',
+        score: 75,
+        letterGrade: 'C',
+        durationSeconds: null,
+        wordErrors: [{ status: 'mispronounced', targetWord: 'very', spokenWord: 'berry' }],
+        difficulty: null
+      }]);
+
+      const items = agent.startMinimalPairDrill(4);
+      expect(items).toHaveLength(4);
+      expect(['B', 'V']).toContain(items[0].expected);
+    });
+
+    it('should score an attempt by the word that was heard', async () => {
+      const transcriptionAgent = jest.mocked(TranscriptionAgent).mock.instances.slice(-1)[0];
+      jest.mocked(transcriptionAgent.transcribeAudio).mockResolvedValue('Ship');
+
+      const result = await agent.scoreMinimalPairAttempt(new Blob(['audio']), sheep);
+      expect(result).toEqual({ item: sheep, heard: 'Ship', outcome: 'confused' });
+    });
+
+    it('should record the drill with the confused words as errors', () => {
+      agent.recordMinimalPairDrill([
+        { item: sheep, heard: 'Ship', outcome: 'confused' },
+        { item: { target: 'ship', distractor: 'sheep', expected: 'IH', confusedWith: 'IY' }, heard: 'ship', outcome: 'correct' },
+        { item: sheep, heard: '', outcome: 'unclear' },
+        { item: sheep, heard: 'shop', outcome: 'unclear' }
+      ]);
+
+      const practiceAgent = jest.mocked(PracticeAgent).mock.instances.slice(-1)[0];
+      expect(practiceAgent.recordSession).toHaveBeenCalledWith(25, {
+        targetText: 'sheep ship sheep sheep',
+        transcript: 'Ship ship shop',
+        wordErrors: [
+          { status: 'mispronounced', targetWord: 'sheep', spokenWord: 'ship' },
+          { status: 'missed', targetWord: 'sheep', spokenWord: null },
+          { status: 'missed', targetWord: 'sheep', spokenWord: null }
+        ]
+      });
+      expect(practiceAgent.recordSoundResults).toHaveBeenCalledWith([
+        { sound: 'IY', correct: false },
+        { sound: 'IH', correct: true }
+      ]);
+    });
   });
 
   describe('integration scenarios', () => {
     it('should handle complete workflow', async () => {
       // Start a practice session
-      const practiceText = agent.startPracticeSession();
+      const { text: practiceText } = agent.startPracticeSession();
       expect(practiceText).toBeTruthy();
       
       // Process a recording
@@ -205,7 +501,7 @@ describe('PronCoachAgent', () => {
       const sessions = 3;
       
       for (let i = 0; i < sessions; i++) {
-        const practiceText = agent.startPracticeSession();
+        const { text: practiceText } = agent.startPracticeSession();
         const audioBlob = new Blob([`test audio ${i}`], { type: 'audio/wav' });
         const result = await agent.processRecording(audioBlob, practiceText);
         agent.recordPracticeSession(result.score);
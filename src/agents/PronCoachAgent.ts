@@ -1,7 +1,50 @@
 import { TranscriptionAgent } from './TranscriptionAgent';
-import { ComparisonAgent } from './ComparisonAgent';
+import { ComparisonAgent, WordResult, WordStatus } from './ComparisonAgent';
 import { FeedbackAgent } from './FeedbackAgent';
-import { PracticeAgent } from './PracticeAgent';
+import { PracticeAgent, PracticeOptions, PracticeSession, PracticeSessionRecord, SessionWordError } from './PracticeAgent';
+import { TranscriptionProvider } from './TranscriptionProviders';
+import { ReferenceAccent, ReferenceAudioAgent } from './ReferenceAudioAgent';
+import { ReviewAgent, ReviewResult } from './ReviewAgent';
+import { FeedbackItem } from '../utils/feedbackMessages';
+import { analyzeSamples, AudioAnalysis, TimeSegment } from '../utils/audioAnalysis';
+import { decodeAudioBlob } from '../utils/audioCodec';
+import { computeFluencyMetrics, countWords, FluencyMetrics } from '../utils/fluency';
+import { analyzeProsody, ProsodyAnalysis } from '../utils/prosody';
+import { loadRecording, pruneRecordings, saveRecording } from '../utils/recordingStore';
+import { loadUserSettings, saveUserSettings, UserSettings } from '../utils/userSettings';
+import {
+  generateMinimalPairDrill,
+  MinimalPairItem,
+  MinimalPairResult,
+  rankConfusions,
+  scoreMinimalPairDrill,
+  scoreMinimalPairItem
+} from '../utils/minimalPairDrill';
+import { observeWordResults, SoundMasteryEstimate, SoundObservation } from '../utils/soundMastery';
+import { ReviewItem } from '../utils/spacedRepetition';
+import { getL1Profile } from '../l1Profiles';
+
+/**
+ * Everything produced by analysing one recording
+ */
+export interface RecordingResult {
+  transcription: string;
+  score: number;
+  feedback: FeedbackItem[];
+  letterGrade: string;
+  wordResults: WordResult[];
+  audioAnalysis: AudioAnalysis | null; // null when the browser could not decode the recording
+  fluency: FluencyMetrics | null; // speaking rate and pauses, when the recording could be analysed
+  prosody: ProsodyAnalysis | null; // word stress and intonation, when enough voiced speech was found
+}
+
+/**
+ * A stored recording of an earlier session
+ */
+export interface PreviousTake {
+  audioBlob: Blob;
+  timestamp: string;
+}
 
 /**
  * Main orchestrator agent that coordinates all pronunciation coaching functionality
@@ -12,47 +55,137 @@ export class PronCoachAgent {
   private comparisonAgent: ComparisonAgent;
   private feedbackAgent: FeedbackAgent;
   private practiceAgent: PracticeAgent;
+  private referenceAudioAgent: ReferenceAudioAgent;
+  private reviewAgent: ReviewAgent;
+  private settings: UserSettings;
 
-  constructor() {
-    this.transcriptionAgent = new TranscriptionAgent();
+  constructor(options: { transcriptionProvider?: TranscriptionProvider } = {}) {
+    this.transcriptionAgent = new TranscriptionAgent(options.transcriptionProvider);
     this.comparisonAgent = new ComparisonAgent();
     this.feedbackAgent = new FeedbackAgent();
     this.practiceAgent = new PracticeAgent();
+    this.referenceAudioAgent = new ReferenceAudioAgent();
+    this.reviewAgent = new ReviewAgent();
+    this.settings = loadUserSettings();
+  }
+
+  /**
+   * Get the learner's saved preferences
+   */
+  public getSettings(): UserSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Change and remember some of the learner's preferences
+   */
+  public updateSettings(changes: Partial<UserSettings>): UserSettings {
+    this.settings = saveUserSettings(changes);
+    return this.getSettings();
   }
 
   /**
    * Start a new practice session
-   * Returns the text for the user to read
+   * Returns the text for the user to read along with the mode and level it came from
+   */
+  public startPracticeSession(options: PracticeOptions = { mode: 'adaptive' }): PracticeSession {
+    return this.practiceAgent.createPracticeSession(options, this.settings.nativeLanguage);
+  }
+
+  /**
+   * Check if reference audio ("listen first") can be played in this browser
+   */
+  public isReferenceAudioSupported(): boolean {
+    return this.referenceAudioAgent.isSupported();
+  }
+
+  /**
+   * Read a text or word aloud with the learner's chosen voice, accent and rate
+   */
+  public playReference(text: string): Promise<void> {
+    return this.referenceAudioAgent.speak(text, this.settings.referenceVoice);
+  }
+
+  /**
+   * Stop reference audio that is still playing
+   */
+  public stopReference(): void {
+    this.referenceAudioAgent.stop();
+  }
+
+  /**
+   * List the reference voices installed for an accent
    */
-  public startPracticeSession(): string {
-    return this.practiceAgent.generatePracticeText();
+  public getReferenceVoices(accent: ReferenceAccent): SpeechSynthesisVoice[] {
+    return this.referenceAudioAgent.getVoices(accent);
+  }
+
+  /**
+   * Listen for the browser to finish loading its voices
+   * Returns a function that removes the listener
+   */
+  public onReferenceVoicesChanged(listener: () => void): () => void {
+    return this.referenceAudioAgent.onVoicesChanged(listener);
+  }
+
+  /**
+   * Get the transcription backend used for recordings
+   */
+  public getTranscriptionProvider(): TranscriptionProvider {
+    return this.transcriptionAgent.getProvider();
+  }
+
+  /**
+   * Switch the transcription backend (e.g. demo, Web Speech or HTTP)
+   */
+  public setTranscriptionProvider(provider: TranscriptionProvider): void {
+    this.transcriptionAgent.setProvider(provider);
+  }
+
+  /**
+   * Signal that the learner started recording
+   * Live transcription providers start listening at this point
+   */
+  public beginRecording(): void {
+    this.transcriptionAgent.beginCapture();
   }
 
   /**
    * Process audio recording and provide comprehensive feedback
    */
-  public async processRecording(audioBlob: Blob, targetText: string): Promise<{
-    transcription: string;
-    score: number;
-    feedback: string[];
-    letterGrade: string;
-  }> {
+  public async processRecording(audioBlob: Blob, targetText: string): Promise<RecordingResult> {
     try {
-      // Step 1: Transcribe the audio
-      const transcription = await this.transcriptionAgent.transcribeAudio(audioBlob);
+      // Step 1: Transcribe the audio with the configured provider while measuring the recording itself;
+      // the recording is decoded once and shared, since decoding is the slow part of both
+      const decoded = await decodeAudioBlob(audioBlob);
+      const [transcription, audioAnalysis] = await Promise.all([
+        this.transcriptionAgent.transcribeAudio(audioBlob, decoded),
+        decoded ? analyzeSamples(decoded.samples, decoded.sampleRate) : null
+      ]);
       
       // Step 2: Compare transcription with target text
       const score = this.comparisonAgent.compareTexts(transcription, targetText);
+      const wordResults = this.comparisonAgent.compareWords(transcription, targetText);
       
-      // Step 3: Generate detailed feedback
-      const feedback = this.feedbackAgent.generateFeedback(transcription, targetText, score);
+      // Step 3: Measure speaking rate, pauses, stress and intonation from the recording
+      const fluency = audioAnalysis ? computeFluencyMetrics(audioAnalysis, countWords(transcription)) : null;
+      const prosody = audioAnalysis ? analyzeProsody(audioAnalysis, targetText, this.getWordTimings(wordResults)) : null;
+      
+      // Step 4: Generate detailed feedback
+      const feedback = this.feedbackAgent.generateFeedback(
+        transcription, targetText, score, fluency, prosody, this.settings.nativeLanguage
+      );
       const letterGrade = this.feedbackAgent.getLetterGrade(score);
       
       return {
         transcription,
         score,
         feedback,
-        letterGrade
+        letterGrade,
+        wordResults,
+        audioAnalysis,
+        fluency,
+        prosody
       };
     } catch (error) {
       console.error('Error processing recording:', error);
@@ -60,6 +193,95 @@ export class PronCoachAgent {
     }
   }
 
+  /**
+   * Start a minimal-pair drill for the sounds the learner confuses
+   * Swaps found in the session history come first, then the typical confusions of
+   * the learner's first language (or common ones when none is set)
+   */
+  public startMinimalPairDrill(count?: number): MinimalPairItem[] {
+    const history = this.practiceAgent.getSessionHistory().flatMap(session => session.wordErrors);
+    const profileConfusions = [...getL1Profile(this.settings.nativeLanguage).confusions]
+      .sort((a, b) => b.weight - a.weight);
+
+    return generateMinimalPairDrill([...rankConfusions(history), ...profileConfusions], { count });
+  }
+
+  /**
+   * Transcribe one minimal-pair attempt and check which word of the pair was heard
+   */
+  public async scoreMinimalPairAttempt(audioBlob: Blob, item: MinimalPairItem): Promise<MinimalPairResult> {
+    try {
+      const transcription = await this.transcriptionAgent.transcribeAudio(audioBlob);
+      return scoreMinimalPairItem(item, transcription);
+    } catch (error) {
+      console.error('Error processing recording:', error);
+      throw new Error('Failed to process recording. Please try again.');
+    }
+  }
+
+  /**
+   * Record a finished minimal-pair drill in the session history and sound mastery
+   * Words heard as the other word of their pair are kept as mispronounced, so the
+   * swapped sounds count towards the learner's missed sounds; words heard as
+   * neither word of the pair say nothing about the contrasted sound, so they are
+   * kept as missed rather than as a swap with whatever the recognizer guessed
+   */
+  public recordMinimalPairDrill(results: MinimalPairResult[]): void {
+    if (results.length === 0) return;
+
+    const wordErrors: SessionWordError[] = results
+      .filter(result => result.outcome !== 'correct')
+      .map(({ item, outcome }) => outcome === 'confused'
+        ? { status: 'mispronounced', targetWord: item.target, spokenWord: item.distractor }
+        : { status: 'missed', targetWord: item.target, spokenWord: null });
+
+    this.practiceAgent.recordSession(scoreMinimalPairDrill(results), {
+      targetText: results.map(result => result.item.target).join(' '),
+      transcript: results.map(result => result.heard).filter(Boolean).join(' '),
+      wordErrors
+    });
+    this.practiceAgent.recordSoundResults(results
+      .filter(result => result.outcome !== 'unclear')
+      .map((result): SoundObservation => ({ sound: result.item.expected, correct: result.outcome === 'correct' })));
+  }
+
+  /**
+   * Words and phrases due for review today, most overdue first
+   */
+  public getDueReviews(): ReviewItem[] {
+    return this.reviewAgent.getDueReviews();
+  }
+
+  /**
+   * Number of words and phrases due for review today
+   */
+  public countDueReviews(): number {
+    return this.reviewAgent.countDueReviews();
+  }
+
+  /**
+   * Transcribe a review attempt, grade it and schedule the next review
+   * The compared words also update the per-sound mastery
+   */
+  public async reviewAttempt(audioBlob: Blob, item: ReviewItem): Promise<ReviewResult> {
+    try {
+      const transcription = await this.transcriptionAgent.transcribeAudio(audioBlob);
+      const result = this.reviewAgent.gradeAttempt(item.text, transcription);
+      this.practiceAgent.recordSoundResults(observeWordResults(result.wordResults));
+      return result;
+    } catch (error) {
+      console.error('Error processing recording:', error);
+      throw new Error('Failed to process recording. Please try again.');
+    }
+  }
+
+  /**
+   * Mastery of every practiced sound with its confidence range, weakest first
+   */
+  public getSoundMastery(): SoundMasteryEstimate[] {
+    return this.practiceAgent.getSoundMastery();
+  }
+
   /**
    * Check if the browser supports the required features
    */
@@ -80,14 +302,104 @@ export class PronCoachAgent {
     sessionsCompleted: number;
     averageScore: number;
     recentScores: number[];
+    lastSession: PracticeSessionRecord | null;
   } {
     return this.practiceAgent.getStats();
   }
 
+  /**
+   * Get the recorded practice sessions, oldest first
+   */
+  public getSessionHistory(): PracticeSessionRecord[] {
+    return this.practiceAgent.getSessionHistory();
+  }
+
   /**
    * Record a completed practice session for statistics
+   * Pass the full result and text to keep the transcript and missed words in the history,
+   * queue the missed words for review and update the per-sound mastery; the recording
+   * is kept too when the learner enabled keepRecordings
+   */
+  public recordPracticeSession(
+    result: RecordingResult | number,
+    targetText = '',
+    durationSeconds: number | null = null,
+    recording: Blob | null = null
+  ): void {
+    if (typeof result === 'number') {
+      this.practiceAgent.recordSession(result, { durationSeconds });
+      return;
+    }
+
+    const recordingId = recording && this.settings.keepRecordings ? `recording-${Date.now()}` : undefined;
+
+    this.practiceAgent.recordSession(result.score, {
+      targetText,
+      transcript: result.transcription,
+      letterGrade: result.letterGrade,
+      durationSeconds,
+      wordErrors: result.wordResults
+        .filter(word => word.status !== 'correct')
+        .map(word => ({
+          status: word.status as Exclude<WordStatus, 'correct'>,
+          targetWord: word.targetWord,
+          spokenWord: word.spokenWord
+        })),
+      difficulty: targetText ? this.comparisonAgent.calculateDifficulty(targetText) : null,
+      recordingId
+    });
+    this.practiceAgent.recordSoundResults(observeWordResults(result.wordResults));
+    if (targetText) {
+      this.reviewAgent.addMissedWords(result.transcription, targetText);
+    }
+
+    if (recording && recordingId) {
+      this.storeRecording(recordingId, recording);
+    }
+  }
+
+  /**
+   * Load the most recent stored recording of the same text, if any
+   */
+  public async loadPreviousTake(targetText: string): Promise<PreviousTake | null> {
+    const previous = this.practiceAgent.getSessionHistory()
+      .reverse()
+      .find(session => session.targetText === targetText && session.recordingId);
+    if (!previous) return null;
+
+    try {
+      const audioBlob = await loadRecording(previous.recordingId!);
+      return audioBlob ? { audioBlob, timestamp: previous.timestamp } : null;
+    } catch (error) {
+      console.warn('Could not load previous recording:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a recording in the background and drop recordings of sessions no longer in the history
+   */
+  private storeRecording(recordingId: string, recording: Blob): void {
+    const keepIds = this.practiceAgent.getSessionHistory()
+      .map(session => session.recordingId)
+      .filter((id): id is string => !!id);
+
+    saveRecording(recordingId, recording)
+      .then(() => pruneRecordings(keepIds))
+      .catch(error => console.warn('Could not store recording:', error));
+  }
+
+  /**
+   * Timing of each target word, null where the transcription gave none
    */
-  public recordPracticeSession(score: number): void {
-    this.practiceAgent.recordSession(score);
+  private getWordTimings(wordResults: WordResult[]): (TimeSegment | null)[] {
+    const timings: (TimeSegment | null)[] = [];
+    wordResults.forEach(result => {
+      if (result.targetIndex === null) return;
+      timings[result.targetIndex] = result.startTime !== undefined && result.endTime !== undefined
+        ? { start: result.startTime, end: result.endTime }
+        : null;
+    });
+    return timings;
   }
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+/**
+ * Tests for ReferenceAudioAgent
+ */
+
+import { ReferenceAudioAgent } from './ReferenceAudioAgent';
+
+class MockUtterance {
+  public text: string;
+  public lang = '';
+  public rate = 1;
+  public voice: any = null;
+  public onend: (() => void) | null = null;
+  public onerror: ((event: any) => void) | null = null;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+const voices = [
+  { name: 'Samantha', lang: 'en-US', voiceURI: 'samantha' },
+  { name: 'Daniel', lang: 'en-GB', voiceURI: 'daniel' },
+  { name: 'Kate', lang: 'en_GB', voiceURI: 'kate' },
+  { name: 'Karen', lang: 'en-AU', voiceURI: 'karen' }
+];
+
+const createSynth = () => ({
+  getVoices: jest.fn(() => voices),
+  speak: jest.fn(),
+  cancel: jest.fn(),
+  addEventListener: jest.fn(),
+  removeEventListener: jest.fn()
+});
+
+describe('ReferenceAudioAgent', () => {
+  let synth: ReturnType<typeof createSynth>;
+  let agent: ReferenceAudioAgent;
+
+  beforeEach(() => {
+    (window as any).SpeechSynthesisUtterance = MockUtterance;
+    synth = createSynth();
+    agent = new ReferenceAudioAgent(synth as any);
+  });
+
+  afterEach(() => {
+    delete (window as any).SpeechSynthesisUtterance;
+  });
+
+  describe('isSupported', () => {
+    it('should return true when speech synthesis is available', () => {
+      expect(agent.isSupported()).toBe(true);
+    });
+
+    it('should return false without speech synthesis', () => {
+      expect(new ReferenceAudioAgent(undefined).isSupported()).toBe(false);
+    });
+  });
+
+  describe('getVoices', () => {
+    it('should list voices for an accent', () => {
+      expect(agent.getVoices('en-GB').map(voice => voice.name)).toEqual(['Daniel', 'Kate']);
+      expect(agent.getVoices('en-AU').map(voice => voice.name)).toEqual(['Karen']);
+    });
+  });
+
+  describe('speak', () => {
+    it('should speak with the chosen accent, voice and rate', async () => {
+      const done = agent.speak('hello', { accent: 'en-GB', voiceURI: 'kate', rate: 0.8 });
+      const utterance = synth.speak.mock.calls[0][0];
+
+      expect(synth.cancel).toHaveBeenCalled();
+      expect(utterance).toMatchObject({ text: 'hello', lang: 'en-GB', rate: 0.8 });
+      expect(utterance.voice.name).toBe('Kate');
+
+      utterance.onend();
+      await expect(done).resolves.toBeUndefined();
+    });
+
+    it('should fall back to the first voice for the accent', () => {
+      agent.speak('hello', { accent: 'en-GB', voiceURI: 'samantha', rate: 1 });
+      expect(synth.speak.mock.calls[0][0].voice.name).toBe('Daniel');
+    });
+
+    it('should resolve when interrupted', async () => {
+      const done = agent.speak('hello');
+      synth.speak.mock.calls[0][0].onerror({ error: 'interrupted' });
+      await expect(done).resolves.toBeUndefined();
+    });
+
+    it('should reject on synthesis errors', async () => {
+      const done = agent.speak('hello');
+      synth.speak.mock.calls[0][0].onerror({ error: 'synthesis-failed' });
+      await expect(done).rejects.toThrow('synthesis-failed');
+    });
+
+    it('should reject when not supported', async () => {
+      await expect(new ReferenceAudioAgent(undefined).speak('hello')).rejects.toThrow('not supported');
+    });
+  });
+
+  describe('onVoicesChanged', () => {
+    it('should add and remove the listener', () => {
+      const listener = jest.fn();
+      const unsubscribe = agent.onVoicesChanged(listener);
+
+      expect(synth.addEventListener).toHaveBeenCalledWith('voiceschanged', listener);
+      unsubscribe();
+      expect(synth.removeEventListener).toHaveBeenCalledWith('voiceschanged', listener);
+    });
+  });
+
+  describe('stop', () => {
+    it('should cancel speech in progress', () => {
+      agent.stop();
+      expect(synth.cancel).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Accents offered for the reference voice
+ */
+export type ReferenceAccent = 'en-US' | 'en-GB' | 'en-AU';
+
+export const REFERENCE_ACCENTS: ReferenceAccent[] = ['en-US', 'en-GB', 'en-AU'];
+
+export interface ReferenceVoiceOptions {
+  accent: ReferenceAccent;
+  voiceURI: string | null; // null picks the first voice for the accent
+  rate: number; // 1 is the normal speaking rate
+}
+
+export const DEFAULT_REFERENCE_VOICE: ReferenceVoiceOptions = {
+  accent: 'en-US',
+  voiceURI: null,
+  rate: 0.9
+};
+
+/**
+ * ReferenceAudioAgent reads practice texts aloud with the browser's speechSynthesis
+ * so learners can hear how the text should sound before they say it
+ */
+export class ReferenceAudioAgent {
+  private synth: SpeechSynthesis | undefined;
+
+  constructor(synth: SpeechSynthesis | undefined = typeof window !== 'undefined' ? window.speechSynthesis : undefined) {
+    this.synth = synth;
+  }
+
+  /**
+   * Check if speech synthesis is available in this browser
+   */
+  public isSupported(): boolean {
+    return !!this.synth && typeof SpeechSynthesisUtterance !== 'undefined';
+  }
+
+  /**
+   * List the installed voices for an accent
+   * Some browsers report languages as "en_GB", so underscores are accepted
+   */
+  public getVoices(accent: ReferenceAccent): SpeechSynthesisVoice[] {
+    if (!this.synth) return [];
+    return this.synth.getVoices().filter(voice => voice.lang.replace('_', '-').startsWith(accent));
+  }
+
+  /**
+   * Listen for the voice list to change
+   * Browsers load voices asynchronously, so the first getVoices() call may be empty
+   * Returns a function that removes the listener
+   */
+  public onVoicesChanged(listener: () => void): () => void {
+    const synth = this.synth;
+    if (!synth || !synth.addEventListener) return () => undefined;
+
+    synth.addEventListener('voiceschanged', listener);
+    return () => synth.removeEventListener('voiceschanged', listener);
+  }
+
+  /**
+   * Read text aloud, interrupting anything already playing
+   * Resolves when the speech ends or is interrupted
+   */
+  public speak(text: string, options: ReferenceVoiceOptions = DEFAULT_REFERENCE_VOICE): Promise<void> {
+    const synth = this.synth;
+    if (!synth || !this.isSupported()) {
+      return Promise.reject(new Error('Speech synthesis not supported'));
+    }
+
+    synth.cancel();
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voices = this.getVoices(options.accent);
+    const voice = voices.find(candidate => candidate.voiceURI === options.voiceURI) || voices[0];
+
+    utterance.lang = options.accent;
+    utterance.rate = options.rate;
+    if (voice) {
+      utterance.voice = voice;
+    }
+
+    return new Promise((resolve, reject) => {
+      utterance.onend = () => resolve();
+      utterance.onerror = (event: SpeechSynthesisErrorEvent) => {
+        // Cancelling for the next utterance or stop() is not a failure
+        if (event.error === 'interrupted' || event.error === 'canceled') {
+          resolve();
+        } else {
+          reject(new Error(`Speech synthesis error: ${event.error}`));
+        }
+      };
+      synth.speak(utterance);
+    });
+  }
+
+  /**
+   * Stop any speech in progress
+   */
+  public stop(): void {
+    this.synth?.cancel();
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Tests for ReviewAgent
+ */
+
+import { ReviewAgent } from './ReviewAgent';
+import { createReviewItem } from '../utils/spacedRepetition';
+
+// Mock localStorage
+const localStorageMock = {
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+  clear: jest.fn(),
+};
+
+Object.defineProperty(window, 'localStorage', {
+  value: localStorageMock
+});
+
+describe('ReviewAgent', () => {
+  const now = new Date(2024, 2, 10, 9, 30);
+  let agent: ReviewAgent;
+
+  beforeEach(() => {
+    localStorageMock.getItem.mockReturnValue(null);
+    agent = new ReviewAgent();
+  });
+
+  describe('addMissedWords', () => {
+    it('should queue the missed and mispronounced words of a practice text', () => {
+      const added = agent.addMissedWords('the quick brown fox jumps over the dog', 'the quick brown fox jumps over the lazy dog', now);
+
+      expect(added).toEqual(['lazy']);
+      expect(agent.getQueue().map(item => item.text)).toEqual(['lazy']);
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('pronunciation_review_queue', expect.any(String));
+    });
+
+    it('should keep neighbouring wrong words together as a phrase', () => {
+      const added = agent.addMissedWords('I sink sree trees are tall', 'I think three trees are tall', now);
+      expect(added).toEqual(['think three']);
+    });
+
+    it('should skip short function words on their own', () => {
+      expect(agent.addMissedWords('cup tea', 'cup of tea', now)).toEqual([]);
+      expect(localStorageMock.setItem).not.toHaveBeenCalled();
+    });
+
+    it('should queue nothing when nothing was heard', () => {
+      expect(agent.addMissedWords('  ', 'think three', now)).toEqual([]);
+      expect(agent.getQueue()).toEqual([]);
+    });
+  });
+
+  describe('getDueReviews', () => {
+    it('should return the items due today', () => {
+      agent.addMissedWords('the dog', 'the lazy dog', now);
+
+      expect(agent.getDueReviews(now).map(item => item.text)).toEqual(['lazy']);
+      expect(agent.countDueReviews(now)).toBe(1);
+      expect(agent.countDueReviews(new Date(2024, 2, 9))).toBe(0);
+    });
+  });
+
+  describe('gradeAttempt', () => {
+    it('should reschedule a remembered item', () => {
+      agent.addMissedWords('the dog', 'the lazy dog', now);
+      const result = agent.gradeAttempt('lazy', 'lazy', now);
+
+      expect(result.score).toBe(100);
+      expect(result.quality).toBe(5);
+      expect(result.item).toMatchObject({ text: 'lazy', interval: 1, repetitions: 1, due: '2024-03-11' });
+      expect(result.wordResults).toEqual([expect.objectContaining({ status: 'correct', targetWord: 'lazy', spokenWord: 'lazy' })]);
+      expect(agent.countDueReviews(now)).toBe(0);
+    });
+
+    it('should bring a forgotten item back tomorrow', () => {
+      agent.addMissedWords('the dog', 'the lazy dog', now);
+      const result = agent.gradeAttempt('lazy', '', now);
+
+      expect(result.quality).toBe(0);
+      expect(result.item).toMatchObject({ interval: 1, repetitions: 0, due: '2024-03-11' });
+      expect(result.wordResults[0].status).toBe('missed');
+    });
+
+    it('should give partial credit for a phrase that was partly right', () => {
+      agent.addMissedWords('I sink sree trees', 'I think three trees', now);
+      const result = agent.gradeAttempt('think three', 'think sree', now);
+
+      expect(result.score).toBeGreaterThan(50);
+      expect(result.score).toBeLessThan(100);
+    });
+
+    it('should grade a text that is not queued without adding it', () => {
+      const result = agent.gradeAttempt('lazy', 'lazy', now);
+
+      expect(result.item.text).toBe('lazy');
+      expect(agent.getQueue()).toEqual([]);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should load a saved queue', () => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify([createReviewItem('thirty', now)]));
+      agent = new ReviewAgent();
+
+      expect(agent.getQueue().map(item => item.text)).toEqual(['thirty']);
+    });
+
+    it('should start over when the saved queue is unreadable', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      localStorageMock.getItem.mockReturnValue('not json');
+      agent = new ReviewAgent();
+
+      expect(agent.getQueue()).toEqual([]);
+      expect(warn).toHaveBeenCalled();
+    });
+
+    it('should empty the queue on reset', () => {
+      agent.addMissedWords('the dog', 'the lazy dog', now);
+      agent.resetQueue();
+
+      expect(agent.getQueue()).toEqual([]);
+      expect(localStorageMock.setItem).toHaveBeenLastCalledWith('pronunciation_review_queue', '[]');
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { ComparisonAgent, WordResult } from './ComparisonAgent';
+import {
+  addReviewItems,
+  createReviewItem,
+  getDueItems,
+  gradeReviewItem,
+  isReviewQueue,
+  ReviewItem,
+  ReviewQuality,
+  scoreToQuality,
+  trimReviewQueue
+} from '../utils/spacedRepetition';
+
+/**
+ * One graded review attempt
+ */
+export interface ReviewResult {
+  item: ReviewItem; // the item with its new due date
+  transcription: string;
+  score: number;
+  quality: ReviewQuality;
+  wordResults: WordResult[];
+}
+
+/**
+ * ReviewAgent keeps the spaced-repetition queue of words and phrases the learner
+ * got wrong, grades review attempts and reschedules them
+ * The queue is stored in localStorage
+ */
+export class ReviewAgent {
+  private static readonly STORAGE_KEY = 'pronunciation_review_queue';
+  private static readonly MAX_ITEMS = 200;
+  private static readonly MAX_PHRASE_WORDS = 3;
+  private queue: ReviewItem[] = [];
+  private comparisonAgent = new ComparisonAgent();
+
+  constructor() {
+    this.loadQueue();
+  }
+
+  /**
+   * Queue the words of a practice text that were missed or mispronounced
+   * Neighbouring wrong words are kept together as a phrase of up to three words;
+   * nothing is queued when nothing was heard
+   * Returns the texts queued
+   */
+  public addMissedWords(transcript: string, targetText: string, now: Date = new Date()): string[] {
+    if (!transcript.trim() || !targetText.trim()) return [];
+
+    const { alignment } = this.comparisonAgent.analyzeErrors(transcript, targetText);
+    const texts: string[] = [];
+    let run: string[] = [];
+
+    const flush = () => {
+      for (let start = 0; start < run.length; start += ReviewAgent.MAX_PHRASE_WORDS) {
+        const phrase = run.slice(start, start + ReviewAgent.MAX_PHRASE_WORDS);
+        // Short function words ("a", "of") are rarely a pronunciation problem on their own
+        if (phrase.some(word => word.length > 2)) {
+          texts.push(phrase.join(' '));
+        }
+      }
+      run = [];
+    };
+
+    alignment.forEach(step => {
+      if (step.operation === 'match') {
+        flush();
+      } else if (step.operation !== 'insertion') {
+        run.push(step.targetWord!);
+      }
+    });
+    flush();
+
+    if (texts.length > 0) {
+      this.queue = trimReviewQueue(addReviewItems(this.queue, texts, now), ReviewAgent.MAX_ITEMS);
+      this.saveQueue();
+    }
+    return texts;
+  }
+
+  /**
+   * Items due today or earlier, most overdue first
+   */
+  public getDueReviews(now: Date = new Date()): ReviewItem[] {
+    return getDueItems(this.queue, now).map(item => ({ ...item }));
+  }
+
+  /**
+   * Number of items due today or earlier
+   */
+  public countDueReviews(now: Date = new Date()): number {
+    return getDueItems(this.queue, now).length;
+  }
+
+  /**
+   * Every queued item, in the order they were added
+   */
+  public getQueue(): ReviewItem[] {
+    return this.queue.map(item => ({ ...item }));
+  }
+
+  /**
+   * Grade a review attempt of a queued text and reschedule it
+   * The score is the average word score, extra words counting as 0, since the
+   * whole-text score is built for longer passages and stays low for one word
+   */
+  public gradeAttempt(text: string, transcription: string, now: Date = new Date()): ReviewResult {
+    const wordResults = this.comparisonAgent.compareWords(transcription, text);
+    const score = wordResults.length > 0
+      ? Math.round(wordResults.reduce((sum, word) => sum + word.score, 0) / wordResults.length)
+      : 0;
+    const quality = scoreToQuality(score);
+
+    const index = this.queue.findIndex(item => item.text === text);
+    const item = gradeReviewItem(index === -1 ? createReviewItem(text, now) : this.queue[index], quality, now);
+    if (index !== -1) {
+      this.queue[index] = item;
+      this.saveQueue();
+    }
+
+    return { item: { ...item }, transcription, score, quality, wordResults };
+  }
+
+  /**
+   * Empty the review queue
+   */
+  public resetQueue(): void {
+    this.queue = [];
+    this.saveQueue();
+  }
+
+  /**
+   * Save the queue to localStorage
+   */
+  private saveQueue(): void {
+    try {
+      localStorage.setItem(ReviewAgent.STORAGE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.warn('Could not save review queue:', error);
+    }
+  }
+
+  /**
+   * Load the queue from localStorage, starting over when it is unreadable
+   */
+  private loadQueue(): void {
+    try {
+      const saved = localStorage.getItem(ReviewAgent.STORAGE_KEY);
+      const parsed = saved ? JSON.parse(saved) : [];
+      this.queue = isReviewQueue(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('Could not load review queue:', error);
+      this.queue = [];
+    }
+  }
+}
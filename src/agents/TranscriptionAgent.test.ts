@@ -3,6 +3,7 @@
  */
 
 import { TranscriptionAgent } from './TranscriptionAgent';
+import { DemoTranscriptionProvider } from './TranscriptionProviders';
 
 // Speech Recognition API is mocked globally in setupTests.ts
 
@@ -47,38 +48,83 @@ describe('TranscriptionAgent', () => {
   });
 
   describe('transcribeAudio', () => {
-    it('should return a promise', async () => {
+    it('should transcribe with the configured provider', async () => {
+      const provider = new DemoTranscriptionProvider({ delayMs: 0 });
+      const demoAgent = new TranscriptionAgent(provider);
       const audioBlob = new Blob(['test'], { type: 'audio/wav' });
-      const result = agent.transcribeAudio(audioBlob);
-      expect(result).toBeInstanceOf(Promise);
-      
-      // Wait for the promise to resolve
-      const transcription = await result;
-      expect(typeof transcription).toBe('string');
+
+      const transcription = await demoAgent.transcribeAudio(audioBlob);
+      expect(transcription).toContain('The quick brown fox jumps');
     });
 
-    it('should return simulated transcription for different audio sizes', async () => {
-      // Small audio blob
-      const smallBlob = new Blob(['x'.repeat(1000)], { type: 'audio/wav' });
-      const smallTranscription = await agent.transcribeAudio(smallBlob);
-      expect(smallTranscription).toContain('The quick brown fox jumps');
-      
-      // Medium audio blob
-      const mediumBlob = new Blob(['x'.repeat(10000)], { type: 'audio/wav' });
-      const mediumTranscription = await agent.transcribeAudio(mediumBlob);
-      expect(mediumTranscription.length).toBeGreaterThan(smallTranscription.length);
-      
-      // Large audio blob
-      const largeBlob = new Blob(['x'.repeat(20000)], { type: 'audio/wav' });
-      const largeTranscription = await agent.transcribeAudio(largeBlob);
-      expect(largeTranscription.length).toBeGreaterThan(mediumTranscription.length);
+    it('should pass the recorded blob to the provider', async () => {
+      const provider = {
+        name: 'stub',
+        isSupported: () => true,
+        transcribe: jest.fn().mockResolvedValue('hello world')
+      };
+      const stubAgent = new TranscriptionAgent(provider);
+      const audioBlob = new Blob(['test'], { type: 'audio/wav' });
+
+      await expect(stubAgent.transcribeAudio(audioBlob)).resolves.toBe('hello world');
+      expect(provider.transcribe).toHaveBeenCalledWith(audioBlob, undefined);
+    });
+
+    it('should pass the decoded recording to the provider', async () => {
+      const provider = {
+        name: 'stub',
+        isSupported: () => true,
+        transcribe: jest.fn().mockResolvedValue('hello world')
+      };
+      const stubAgent = new TranscriptionAgent(provider);
+      const audioBlob = new Blob(['test'], { type: 'audio/wav' });
+      const decoded = { samples: new Float32Array(8000), sampleRate: 8000 };
+
+      await stubAgent.transcribeAudio(audioBlob, decoded);
+      expect(provider.transcribe).toHaveBeenCalledWith(audioBlob, decoded);
     });
 
-    it('should handle empty audio blob', async () => {
-      const emptyBlob = new Blob([], { type: 'audio/wav' });
-      const transcription = await agent.transcribeAudio(emptyBlob);
-      expect(typeof transcription).toBe('string');
-      expect(transcription.length).toBeGreaterThan(0);
+    it('should reject when the provider is not supported', async () => {
+      const provider = {
+        name: 'stub',
+        isSupported: () => false,
+        transcribe: jest.fn()
+      };
+      const stubAgent = new TranscriptionAgent(provider);
+
+      await expect(stubAgent.transcribeAudio(new Blob(['test']))).rejects.toThrow('not supported');
+      expect(provider.transcribe).not.toHaveBeenCalled();
+    });
+
+    it('should start live capture before a recording is transcribed', () => {
+      const provider = {
+        name: 'stub',
+        isSupported: () => true,
+        startCapture: jest.fn(),
+        transcribe: jest.fn()
+      };
+      const stubAgent = new TranscriptionAgent(provider);
+
+      stubAgent.beginCapture();
+      expect(provider.startCapture).toHaveBeenCalled();
+    });
+  });
+
+  describe('setProvider', () => {
+    it('should switch providers and cancel pending capture on the old one', () => {
+      const oldProvider = {
+        name: 'old',
+        isSupported: () => true,
+        cancelCapture: jest.fn(),
+        transcribe: jest.fn()
+      };
+      const newProvider = new DemoTranscriptionProvider({ delayMs: 0 });
+      const stubAgent = new TranscriptionAgent(oldProvider);
+
+      stubAgent.setProvider(newProvider);
+
+      expect(oldProvider.cancelCapture).toHaveBeenCalled();
+      expect(stubAgent.getProvider()).toBe(newProvider);
     });
   });
 
@@ -1,19 +1,21 @@
-// Extend the Window interface to include speech recognition
-declare global {
-  interface Window {
-    webkitSpeechRecognition: any;
-    SpeechRecognition: any;
-  }
-}
+import {
+  TranscriptionProvider,
+  createSpeechRecognition,
+  createTranscriptionProvider
+} from './TranscriptionProviders';
+import { DecodedAudio } from '../utils/audioCodec';
 
 /**
- * TranscriptionAgent handles speech-to-text conversion using the Web Speech API
- * Provides methods to transcribe audio recordings into text for comparison
+ * TranscriptionAgent handles speech-to-text conversion
+ * Recordings are transcribed by a pluggable TranscriptionProvider; the Web Speech
+ * API is also exposed directly for live recognition without a recording
  */
 export class TranscriptionAgent {
   private recognition: any = null;
+  private provider: TranscriptionProvider;
 
-  constructor() {
+  constructor(provider: TranscriptionProvider = createTranscriptionProvider()) {
+    this.provider = provider;
     this.initializeSpeechRecognition();
   }
 
@@ -21,17 +23,7 @@ export class TranscriptionAgent {
    * Initialize the Web Speech API if available
    */
   private initializeSpeechRecognition(): void {
-    if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-      const SpeechRecognition = window.webkitSpeechRecognition || window.SpeechRecognition;
-      this.recognition = new SpeechRecognition();
-      
-      if (this.recognition) {
-        this.recognition.continuous = false;
-        this.recognition.interimResults = false;
-        this.recognition.lang = 'en-US';
-        this.recognition.maxAlternatives = 1;
-      }
-    }
+    this.recognition = createSpeechRecognition();
   }
 
   /**
@@ -42,24 +34,38 @@ export class TranscriptionAgent {
   }
 
   /**
-   * Transcribe audio using Web Speech API
-   * For now, this is a placeholder that would work with live speech recognition
-   * In a full implementation, this would process the audio blob
+   * Get the provider used to transcribe recordings
    */
-  public async transcribeAudio(audioBlob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-      if (!this.recognition) {
-        reject(new Error('Speech recognition not supported'));
-        return;
-      }
+  public getProvider(): TranscriptionProvider {
+    return this.provider;
+  }
 
-      // For this MVP, we'll simulate transcription based on audio length
-      // In a real implementation, this would process the actual audio
-      setTimeout(() => {
-        // Simulate transcription - in reality, this would be the actual transcribed text
-        resolve(this.simulateTranscription(audioBlob));
-      }, 1000);
-    });
+  /**
+   * Swap the transcription backend
+   */
+  public setProvider(provider: TranscriptionProvider): void {
+    this.provider.cancelCapture?.();
+    this.provider = provider;
+  }
+
+  /**
+   * Notify the provider that a recording has started
+   * Live providers such as Web Speech begin listening here
+   */
+  public beginCapture(): void {
+    this.provider.startCapture?.();
+  }
+
+  /**
+   * Transcribe a recorded audio blob with the configured provider
+   * Pass the decoded recording when it is already at hand, so it isn't decoded twice
+   */
+  public async transcribeAudio(audioBlob: Blob, audio?: DecodedAudio | null): Promise<string> {
+    if (!this.provider.isSupported()) {
+      throw new Error(`The "${this.provider.name}" transcription provider is not supported in this browser`);
+    }
+
+    return this.provider.transcribe(audioBlob, audio);
   }
 
   /**
@@ -104,24 +110,6 @@ export class TranscriptionAgent {
     }
   }
 
-  /**
-   * Simulate transcription based on audio properties
-   * This is a placeholder for the MVP - in production, this would use actual transcription
-   */
-  private simulateTranscription(audioBlob: Blob): string {
-    // For the MVP, we'll return a simulated transcription
-    // In production, this would process the actual audio
-    const duration = audioBlob.size / 16000; // Rough estimate of duration
-    
-    if (duration < 5) {
-      return "The quick brown fox jumps."; // Shorter transcription for short audio
-    } else if (duration < 15) {
-      return "The quick brown fox jumps over the lazy dog near the river.";
-    } else {
-      return "The quick brown fox jumps over the lazy dog near the peaceful river today.";
-    }
-  }
-
   /**
    * Get transcription confidence score (0-1)
    * This would be provided by the actual speech recognition API
@@ -0,0 +1,187 @@
+/**
+ * Tests for transcription providers
+ */
+
+import {
+  DemoTranscriptionProvider,
+  WebSpeechTranscriptionProvider,
+  HttpTranscriptionProvider,
+  createTranscriptionProvider
+} from './TranscriptionProviders';
+import * as audioCodec from '../utils/audioCodec';
+import * as audioAnalysis from '../utils/audioAnalysis';
+
+// Speech Recognition API is mocked globally in setupTests.ts
+
+/**
+ * Minimal stand-in for a local transcription server
+ */
+const createStubServer = (reply: { status?: number; body?: any }) => {
+  const requests: { url: string; init: any }[] = [];
+  const fetchImpl = jest.fn(async (url: any, init: any) => {
+    requests.push({ url: String(url), init });
+    return {
+      ok: (reply.status ?? 200) < 400,
+      status: reply.status ?? 200,
+      json: async () => reply.body
+    } as Response;
+  });
+  return { fetchImpl, requests };
+};
+
+describe('TranscriptionProviders', () => {
+  describe('DemoTranscriptionProvider', () => {
+    it('should always be supported', () => {
+      expect(new DemoTranscriptionProvider().isSupported()).toBe(true);
+    });
+
+    it('should return longer transcriptions for longer recordings', async () => {
+      const provider = new DemoTranscriptionProvider({ delayMs: 0 });
+
+      const short = await provider.transcribe(new Blob(['x'.repeat(1000)]));
+      const medium = await provider.transcribe(new Blob(['x'.repeat(100000)]));
+      const long = await provider.transcribe(new Blob(['x'.repeat(300000)]));
+
+      expect(short).toContain('The quick brown fox jumps');
+      expect(medium.length).toBeGreaterThan(short.length);
+      expect(long.length).toBeGreaterThan(medium.length);
+    });
+
+    it('should use the decoded recording length when available', async () => {
+      const provider = new DemoTranscriptionProvider({ delayMs: 0 });
+      jest.spyOn(audioCodec, 'decodeAudioBlob').mockResolvedValue({ samples: new Float32Array(20 * 8000), sampleRate: 8000 });
+      const analyzeRecording = jest.spyOn(audioAnalysis, 'analyzeRecording');
+
+      const transcript = await provider.transcribe(new Blob(['x'.repeat(1000)]));
+
+      expect(transcript).toBe('The quick brown fox jumps over the lazy dog near the peaceful river today.');
+      expect(analyzeRecording).not.toHaveBeenCalled();
+    });
+
+    it('should use the recording decoded by the caller', async () => {
+      const provider = new DemoTranscriptionProvider({ delayMs: 0 });
+      const decodeAudioBlob = jest.spyOn(audioCodec, 'decodeAudioBlob');
+
+      const transcript = await provider.transcribe(
+        new Blob(['x'.repeat(1000)]),
+        { samples: new Float32Array(8 * 8000), sampleRate: 8000 }
+      );
+
+      expect(transcript).toBe('The quick brown fox jumps over the lazy dog near the river.');
+      expect(decodeAudioBlob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('WebSpeechTranscriptionProvider', () => {
+    it('should return the text heard during live capture', async () => {
+      const provider = new WebSpeechTranscriptionProvider();
+      const recognition = (provider as any).recognition;
+      recognition.stop.mockImplementation(() => recognition.onend());
+
+      provider.startCapture();
+      expect(recognition.start).toHaveBeenCalled();
+
+      recognition.onresult({
+        resultIndex: 0,
+        results: [{ isFinal: true, 0: { transcript: 'hello world' } }]
+      });
+
+      await expect(provider.transcribe(new Blob(['audio']))).resolves.toBe('hello world');
+      expect(recognition.stop).toHaveBeenCalled();
+    });
+
+    it('should treat no-speech errors as an empty transcript', async () => {
+      const provider = new WebSpeechTranscriptionProvider();
+      const recognition = (provider as any).recognition;
+      recognition.stop.mockImplementation(() => recognition.onerror({ error: 'no-speech' }));
+
+      provider.startCapture();
+
+      await expect(provider.transcribe(new Blob(['audio']))).resolves.toBe('');
+    });
+
+    it('should reject when capture was never started', async () => {
+      const provider = new WebSpeechTranscriptionProvider();
+      await expect(provider.transcribe(new Blob(['audio']))).rejects.toThrow('Live capture was not started');
+    });
+
+    it('should report unsupported browsers', () => {
+      const originalWebkit = window.webkitSpeechRecognition;
+      const originalSpeech = (window as any).SpeechRecognition;
+      (window as any).webkitSpeechRecognition = undefined;
+      (window as any).SpeechRecognition = undefined;
+
+      expect(new WebSpeechTranscriptionProvider().isSupported()).toBe(false);
+
+      (window as any).webkitSpeechRecognition = originalWebkit;
+      (window as any).SpeechRecognition = originalSpeech;
+    });
+  });
+
+  describe('HttpTranscriptionProvider', () => {
+    it('should post the recording to the configured endpoint', async () => {
+      const server = createStubServer({ body: { transcript: ' hello world ' } });
+      const provider = new HttpTranscriptionProvider({
+        endpoint: 'http://localhost:5000/transcribe',
+        fetchImpl: server.fetchImpl
+      });
+      const audioBlob = new Blob(['audio'], { type: 'audio/webm' });
+
+      const transcript = await provider.transcribe(audioBlob);
+
+      expect(transcript).toBe('hello world');
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].url).toBe('http://localhost:5000/transcribe');
+      expect(server.requests[0].init.method).toBe('POST');
+
+      const uploaded = server.requests[0].init.body.get('audio');
+      expect(uploaded).toBeInstanceOf(Blob);
+      expect(uploaded.name).toBe('recording.webm');
+    });
+
+    it('should accept a "text" field in the response', async () => {
+      const server = createStubServer({ body: { text: 'good morning' } });
+      const provider = new HttpTranscriptionProvider({ endpoint: '/stt', fetchImpl: server.fetchImpl });
+
+      await expect(provider.transcribe(new Blob(['audio']))).resolves.toBe('good morning');
+    });
+
+    it('should reject on server errors', async () => {
+      const server = createStubServer({ status: 500, body: {} });
+      const provider = new HttpTranscriptionProvider({ endpoint: '/stt', fetchImpl: server.fetchImpl });
+
+      await expect(provider.transcribe(new Blob(['audio']))).rejects.toThrow('responded with 500');
+    });
+
+    it('should reject responses without a transcript', async () => {
+      const server = createStubServer({ body: { result: 'nope' } });
+      const provider = new HttpTranscriptionProvider({ endpoint: '/stt', fetchImpl: server.fetchImpl });
+
+      await expect(provider.transcribe(new Blob(['audio']))).rejects.toThrow('no transcript');
+    });
+  });
+
+  describe('createTranscriptionProvider', () => {
+    it('should create the named provider', () => {
+      expect(createTranscriptionProvider('demo').name).toBe('demo');
+      expect(createTranscriptionProvider('http', '/stt').name).toBe('http');
+      expect(createTranscriptionProvider('webspeech').name).toBe('webspeech');
+    });
+
+    it('should default to Web Speech when the browser supports it', () => {
+      expect(createTranscriptionProvider(undefined).name).toBe('webspeech');
+    });
+
+    it('should fall back to demo without Web Speech support', () => {
+      const originalWebkit = window.webkitSpeechRecognition;
+      const originalSpeech = (window as any).SpeechRecognition;
+      (window as any).webkitSpeechRecognition = undefined;
+      (window as any).SpeechRecognition = undefined;
+
+      expect(createTranscriptionProvider(undefined).name).toBe('demo');
+
+      (window as any).webkitSpeechRecognition = originalWebkit;
+      (window as any).SpeechRecognition = originalSpeech;
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { decodeAudioBlob, DecodedAudio } from '../utils/audioCodec';
+
+// Extend the Window interface to include speech recognition
+declare global {
+  interface Window {
+    webkitSpeechRecognition: any;
+    SpeechRecognition: any;
+  }
+}
+
+/**
+ * Pluggable speech-to-text backends used by TranscriptionAgent
+ * Each provider turns a recorded audio blob into the text the learner said
+ */
+export interface TranscriptionProvider {
+  /** Short identifier shown in diagnostics ("demo", "webspeech", "http") */
+  readonly name: string;
+
+  /** Whether the provider can run in the current environment */
+  isSupported(): boolean;
+
+  /**
+   * Called when the learner starts recording
+   * Live providers begin listening here; blob-based providers can ignore it
+   */
+  startCapture?(): void;
+
+  /**
+   * Called if the recording is abandoned before transcription
+   */
+  cancelCapture?(): void;
+
+  /**
+   * Convert the recorded audio into text
+   * Callers that already decoded the recording pass it along (null when it could not
+   * be decoded), so providers that need the samples don't decode it again
+   */
+  transcribe(audioBlob: Blob, audio?: DecodedAudio | null): Promise<string>;
+}
+
+/**
+ * Create a configured Web Speech recognizer, or null when the browser has none
+ */
+export function createSpeechRecognition(lang: string = 'en-US'): any {
+  const SpeechRecognition = window.webkitSpeechRecognition || window.SpeechRecognition;
+  if (!SpeechRecognition) {
+    return null;
+  }
+
+  const recognition = new SpeechRecognition();
+
+  if (recognition) {
+    recognition.continuous = false;
+    recognition.interimResults = false;
+    recognition.lang = lang;
+    recognition.maxAlternatives = 1;
+  }
+
+  return recognition || null;
+}
+
+/**
+ * Demo provider that returns canned sentences based on the recording length
+ * Useful for trying the app without a microphone or recognition backend
+ */
+export class DemoTranscriptionProvider implements TranscriptionProvider {
+  public readonly name = 'demo';
+  private delayMs: number;
+
+  constructor(options: { delayMs?: number } = {}) {
+    this.delayMs = options.delayMs ?? 1000;
+  }
+
+  public isSupported(): boolean {
+    return true;
+  }
+
+  public async transcribe(audioBlob: Blob, audio?: DecodedAudio | null): Promise<string> {
+    // Only the length is needed, so decode without the full recording analysis;
+    // fall back to a rough estimate from the size when the recording can't be decoded
+    const decoded = audio !== undefined ? audio : await decodeAudioBlob(audioBlob);
+    const duration = decoded ? decoded.samples.length / decoded.sampleRate : audioBlob.size / 16000;
+
+    return new Promise(resolve => {
+      setTimeout(() => resolve(this.simulateTranscription(duration)), this.delayMs);
+    });
+  }
+
+  /**
+   * Pick a canned transcription from the recording length in seconds
+   */
+  private simulateTranscription(duration: number): string {
+
+    if (duration < 5) {
+      return "The quick brown fox jumps.";
+    } else if (duration < 15) {
+      return "The quick brown fox jumps over the lazy dog near the river.";
+    } else {
+      return "The quick brown fox jumps over the lazy dog near the peaceful river today.";
+    }
+  }
+}
+
+/**
+ * Web Speech API provider
+ * The browser recognizer cannot decode a finished blob, so it listens to the
+ * microphone from startCapture() and transcribe() returns what it heard
+ */
+export class WebSpeechTranscriptionProvider implements TranscriptionProvider {
+  public readonly name = 'webspeech';
+  private recognition: any;
+  private pendingResult: Promise<string> | null = null;
+
+  constructor(options: { lang?: string } = {}) {
+    this.recognition = createSpeechRecognition(options.lang);
+    if (this.recognition) {
+      // Keep listening through pauses until the recording is stopped
+      this.recognition.continuous = true;
+    }
+  }
+
+  public isSupported(): boolean {
+    return this.recognition !== null;
+  }
+
+  public startCapture(): void {
+    if (!this.recognition) return;
+
+    let finalTranscript = '';
+
+    this.pendingResult = new Promise((resolve, reject) => {
+      this.recognition.onresult = (event: any) => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          if (event.results[i].isFinal) {
+            finalTranscript += `${event.results[i][0].transcript} `;
+          }
+        }
+      };
+
+      this.recognition.onend = () => {
+        resolve(finalTranscript.trim());
+      };
+
+      this.recognition.onerror = (event: any) => {
+        // "no-speech" just means the learner was silent
+        if (event.error === 'no-speech') {
+          resolve('');
+        } else {
+          reject(new Error(`Speech recognition error: ${event.error}`));
+        }
+      };
+    });
+
+    this.recognition.start();
+  }
+
+  public cancelCapture(): void {
+    if (this.recognition && this.pendingResult) {
+      this.recognition.abort?.();
+      this.pendingResult.catch(() => undefined);
+      this.pendingResult = null;
+    }
+  }
+
+  public async transcribe(_audioBlob: Blob): Promise<string> {
+    if (!this.recognition) {
+      throw new Error('Speech recognition not supported');
+    }
+    if (!this.pendingResult) {
+      throw new Error('Live capture was not started for this recording');
+    }
+
+    const result = this.pendingResult;
+    this.pendingResult = null;
+    this.recognition.stop();
+    return result;
+  }
+}
+
+/**
+ * HTTP provider that uploads the recording to a transcription server
+ * The server receives multipart form data and replies with JSON such as
+ * { "transcript": "..." } (a "text" field is accepted as well)
+ */
+export class HttpTranscriptionProvider implements TranscriptionProvider {
+  public readonly name = 'http';
+  private endpoint: string;
+  private fieldName: string;
+  private headers: Record<string, string>;
+  private fetchImpl: typeof fetch | undefined;
+
+  constructor(options: {
+    endpoint: string;
+    fieldName?: string;
+    headers?: Record<string, string>;
+    fetchImpl?: typeof fetch;
+  }) {
+    this.endpoint = options.endpoint;
+    this.fieldName = options.fieldName ?? 'audio';
+    this.headers = options.headers ?? {};
+    this.fetchImpl = options.fetchImpl ?? (typeof fetch === 'function' ? fetch.bind(window) : undefined);
+  }
+
+  public isSupported(): boolean {
+    return !!this.endpoint && !!this.fetchImpl;
+  }
+
+  public async transcribe(audioBlob: Blob): Promise<string> {
+    if (!this.fetchImpl) {
+      throw new Error('fetch is not available for HTTP transcription');
+    }
+
+    const body = new FormData();
+    body.append(this.fieldName, audioBlob, `recording.${extensionFor(audioBlob.type)}`);
+
+    const response = await this.fetchImpl(this.endpoint, {
+      method: 'POST',
+      headers: this.headers,
+      body
+    });
+
+    if (!response.ok) {
+      throw new Error(`Transcription server responded with ${response.status}`);
+    }
+
+    const data = await response.json();
+    const transcript = data.transcript ?? data.text;
+    if (typeof transcript !== 'string') {
+      throw new Error('Transcription server returned no transcript');
+    }
+    return transcript.trim();
+  }
+}
+
+/**
+ * Pick a file extension for the uploaded recording from its MIME type
+ */
+function extensionFor(mimeType: string): string {
+  if (mimeType.includes('webm')) return 'webm';
+  if (mimeType.includes('mp4')) return 'mp4';
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('wav')) return 'wav';
+  return 'bin';
+}
+
+/**
+ * Build the provider selected by the app configuration
+ * REACT_APP_TRANSCRIPTION_PROVIDER picks the backend and
+ * REACT_APP_TRANSCRIPTION_ENDPOINT sets the URL for the HTTP provider.
+ * Without configuration, Web Speech is used where available and demo otherwise.
+ */
+export function createTranscriptionProvider(
+  name: string | undefined = process.env.REACT_APP_TRANSCRIPTION_PROVIDER,
+  endpoint: string | undefined = process.env.REACT_APP_TRANSCRIPTION_ENDPOINT
+): TranscriptionProvider {
+  switch (name) {
+    case 'demo':
+      return new DemoTranscriptionProvider();
+    case 'http':
+      return new HttpTranscriptionProvider({ endpoint: endpoint || 'http://localhost:5000/transcribe' });
+    case 'webspeech':
+      return new WebSpeechTranscriptionProvider();
+    default: {
+      const webSpeech = new WebSpeechTranscriptionProvider();
+      return webSpeech.isSupported() ? webSpeech : new DemoTranscriptionProvider();
+    }
+  }
+}
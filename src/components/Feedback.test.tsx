@@ -3,7 +3,7 @@
  */
 
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import Feedback from './Feedback';
 
@@ -11,7 +11,10 @@ describe('Feedback Component', () => {
   const defaultProps = {
     transcription: 'Hello world',
     score: 85,
-    feedback: ['Great job!', 'Keep practicing!'],
+    feedback: [
+      { category: 'motivation' as const, severity: 'praise' as const, messageKey: 'score.great' },
+      { category: 'fluency' as const, severity: 'tip' as const, messageKey: 'next.consistency' }
+    ],
     letterGrade: 'B',
     targetText: 'Hello world'
   };
@@ -46,8 +49,75 @@ describe('Feedback Component', () => {
 
   it('should display feedback messages', () => {
     render(<Feedback {...defaultProps} />);
-    expect(screen.getByText('Great job!')).toBeInTheDocument();
-    expect(screen.getByText('Keep practicing!')).toBeInTheDocument();
+    expect(screen.getByText('🎯 Great work! Your pronunciation is very good.')).toBeInTheDocument();
+    expect(screen.getByText('Focus on maintaining this level of clarity consistently.')).toBeInTheDocument();
+  });
+
+  it('should group feedback by category', () => {
+    const feedback = [
+      { category: 'sound' as const, severity: 'issue' as const, messageKey: 'sound.focus', params: { sounds: 'th' } },
+      { category: 'motivation' as const, severity: 'praise' as const, messageKey: 'score.good' },
+      { category: 'sound' as const, severity: 'tip' as const, messageKey: 'sound.articulate' }
+    ];
+    render(<Feedback {...defaultProps} feedback={feedback} />);
+
+    const groupHeadings = screen.getAllByRole('heading', { level: 5 });
+    expect(groupHeadings.map(heading => heading.textContent)).toEqual(['🔤 Sounds', '💪 Motivation']);
+    expect(screen.getAllByRole('listitem')).toHaveLength(3);
+    expect(screen.getByText('🔤 Focus on these sounds: th')).toHaveClass('severity-issue');
+  });
+
+  it('should offer playback of the recording', () => {
+    const audioBlob = new Blob(['audio'], { type: 'audio/webm' });
+    render(<Feedback {...defaultProps} audioBlob={audioBlob} />);
+
+    expect(screen.getByText('🎧 Listen to Yourself:')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Play This take' })).toBeInTheDocument();
+    expect(screen.getByRole('slider', { name: 'Position in This take' })).toBeInTheDocument();
+  });
+
+  it('should not show playback without a recording', () => {
+    render(<Feedback {...defaultProps} />);
+    expect(screen.queryByText('🎧 Listen to Yourself:')).not.toBeInTheDocument();
+  });
+
+  it('should show an earlier take next to this one', () => {
+    const audioBlob = new Blob(['audio'], { type: 'audio/webm' });
+    const previousTake = { audioBlob: new Blob(['old audio']), timestamp: '2024-03-01T10:00:00.000Z' };
+    render(<Feedback {...defaultProps} audioBlob={audioBlob} previousTake={previousTake} />);
+
+    expect(screen.getByText(/^Earlier take/)).toBeInTheDocument();
+  });
+
+  it('should replay a single word when word timings are known', () => {
+    const play = jest.spyOn(window.HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+    const wordResults = [
+      { status: 'mispronounced' as const, targetWord: 'hello', spokenWord: 'hallo', targetIndex: 0, spokenIndex: 0, score: 80, startTime: 0.4, endTime: 0.9 },
+      { status: 'correct' as const, targetWord: 'world', spokenWord: 'world', targetIndex: 1, spokenIndex: 1, score: 100 }
+    ];
+    const audioBlob = new Blob(['audio'], { type: 'audio/webm' });
+    render(<Feedback {...defaultProps} wordResults={wordResults} audioBlob={audioBlob} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'world' }));
+    expect(screen.queryByRole('button', { name: /Play word/ })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Hello' }));
+    fireEvent.click(screen.getByRole('button', { name: /Play word/ }));
+    expect(play).toHaveBeenCalled();
+
+    play.mockRestore();
+  });
+
+  it('should play the reference for a selected word', () => {
+    const onPlayReference = jest.fn();
+    const wordResults = [
+      { status: 'mispronounced' as const, targetWord: 'hello', spokenWord: 'hallo', targetIndex: 0, spokenIndex: 0, score: 80 }
+    ];
+    render(<Feedback {...defaultProps} wordResults={wordResults} onPlayReference={onPlayReference} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Hello' }));
+    fireEvent.click(screen.getByRole('button', { name: /Hear it/ }));
+    expect(onPlayReference).toHaveBeenCalledWith('Hello');
   });
 
   it('should show no speech detected message when transcription is empty', () => {
@@ -100,6 +170,86 @@ describe('Feedback Component', () => {
     // The exact WPM value will depend on the implementation
   });
 
+  it('should use the recording length for words per minute', () => {
+    render(<Feedback {...defaultProps} recordingDuration={1.5} />);
+    expect(screen.getByText('80')).toBeInTheDocument();
+  });
+
+  it('should show the measured speaking rate and pauses', () => {
+    const fluency = {
+      speakingTime: 1.2,
+      speechRate: 100,
+      articulationRate: 150,
+      pauses: [{ start: 0.5, end: 0.9 }],
+      pauseTime: 0.4,
+      longestPause: 0.4
+    };
+    render(<Feedback {...defaultProps} recordingDuration={3} fluency={fluency} />);
+
+    expect(screen.getByText('100')).toBeInTheDocument();
+    expect(screen.getByText('Articulation Rate')).toBeInTheDocument();
+    expect(screen.getByText('150')).toBeInTheDocument();
+    expect(screen.getByText('Pauses')).toBeInTheDocument();
+    expect(screen.getByText('0.4s')).toBeInTheDocument();
+  });
+
+  it('should plot the pitch and show the stress and intonation checks', () => {
+    const prosody = {
+      score: 63,
+      pitchRange: 5,
+      wordStress: [
+        { word: 'photography', wordIndex: 0, syllables: 4, expected: 1, detected: 0 },
+        { word: 'lesson', wordIndex: 1, syllables: 2, expected: 0, detected: null }
+      ],
+      intonation: { expected: 'rise' as const, detected: 'fall' as const, change: -3 },
+      contour: [null, 120, 140, 110, null],
+      frameDuration: 0.02
+    };
+    render(<Feedback {...defaultProps} prosody={prosody} />);
+
+    expect(screen.getByText('🎶 Intonation & Stress: 63%')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: /Pitch curve: 110 to 140 Hz/ })).toBeInTheDocument();
+    expect(screen.getByText('Sentence ending: falling (expected rising)')).toBeInTheDocument();
+    expect(screen.getByText('"photography": stress heard on syllable 1 of 4 (expected 2)')).toBeInTheDocument();
+    expect(screen.queryByText(/"lesson"/)).not.toBeInTheDocument();
+  });
+
+  it('should show both texts in IPA with the differing sounds highlighted', () => {
+    const onShowIpaChange = jest.fn();
+    render(
+      <Feedback
+        {...defaultProps}
+        transcription="I sink so"
+        targetText="I think so"
+        showIpa
+        onShowIpaChange={onShowIpaChange}
+      />
+    );
+
+    const target = screen.getByRole('group', { name: 'Target text in IPA' });
+    const spoken = screen.getByRole('group', { name: 'What you said in IPA' });
+    expect(within(target).getByRole('button', { name: 'θ' })).toHaveClass('mismatch');
+    expect(within(spoken).getAllByRole('button', { name: 's' }).map(button => button.className)).toEqual([
+      'ipa-symbol mismatch',
+      'ipa-symbol'
+    ]);
+
+    fireEvent.click(screen.getByLabelText(/Show IPA/));
+    expect(onShowIpaChange).toHaveBeenCalledWith(false);
+  });
+
+  it('should hide IPA unless asked', () => {
+    render(<Feedback {...defaultProps} onShowIpaChange={jest.fn()} />);
+
+    expect(screen.getByLabelText(/Show IPA/)).not.toBeChecked();
+    expect(screen.queryByRole('group', { name: /IPA/ })).not.toBeInTheDocument();
+  });
+
+  it('should not show intonation without a prosody analysis', () => {
+    render(<Feedback {...defaultProps} />);
+    expect(screen.queryByText(/Intonation & Stress/)).not.toBeInTheDocument();
+  });
+
   it('should handle empty feedback array', () => {
     const props = { ...defaultProps, feedback: [] };
     render(<Feedback {...props} />);
@@ -145,4 +295,60 @@ describe('Feedback Component', () => {
     expect(screen.getByText('🎤 What You Said:')).toBeInTheDocument();
     expect(screen.getByText('💡 Personalized Feedback & Tips:')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  describe('word-by-word diff', () => {
+    const wordResults = [
+      { status: 'correct' as const, targetWord: 'i', spokenWord: 'i', targetIndex: 0, spokenIndex: 0, score: 100 },
+      { status: 'mispronounced' as const, targetWord: 'think', spokenWord: 'sink', targetIndex: 1, spokenIndex: 1, score: 75 },
+      { status: 'missed' as const, targetWord: 'so.', targetIndex: 2, spokenWord: null, spokenIndex: null, score: 0 },
+      { status: 'extra' as const, targetWord: null, spokenWord: 'um', targetIndex: null, spokenIndex: 2, score: 0 }
+    ];
+    const diffProps = { ...defaultProps, transcription: 'I sink um', targetText: 'I think so.', wordResults };
+
+    it('should not render the diff without word results', () => {
+      render(<Feedback {...defaultProps} />);
+      expect(screen.queryByText('🔍 Word by Word:')).not.toBeInTheDocument();
+    });
+
+    it('should color-code each word by status', () => {
+      render(<Feedback {...diffProps} />);
+
+      expect(screen.getByRole('button', { name: 'I' })).toHaveClass('word-correct');
+      expect(screen.getByRole('button', { name: 'think' })).toHaveClass('word-mispronounced');
+      expect(screen.getByRole('button', { name: 'so.' })).toHaveClass('word-missed');
+      expect(screen.getByRole('button', { name: 'um' })).toHaveClass('word-extra');
+    });
+
+    it('should show the word score and spoken variant on hover', () => {
+      render(<Feedback {...diffProps} />);
+      expect(screen.getByRole('button', { name: 'think' })).toHaveAttribute('title', 'Mispronounced (75%): heard "sink"');
+    });
+
+    it('should show word details when a word is tapped', () => {
+      render(<Feedback {...diffProps} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'think' }));
+      expect(screen.getByRole('status')).toHaveTextContent('Mispronounced (75%): heard "sink"');
+
+      fireEvent.click(screen.getByRole('button', { name: 'think' }));
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    });
+
+    it('should show homophones as correct words recognized as another spelling', () => {
+      const homophoneResults = [
+        { status: 'correct' as const, targetWord: 'over', spokenWord: 'over', targetIndex: 0, spokenIndex: 0, score: 100 },
+        {
+          status: 'correct' as const, targetWord: 'there', spokenWord: 'their', targetIndex: 1, spokenIndex: 1,
+          score: 100, recognizedAs: 'their'
+        }
+      ];
+      render(<Feedback {...defaultProps} transcription="over their" targetText="over there" wordResults={homophoneResults} />);
+
+      const word = screen.getByRole('button', { name: 'there' });
+      expect(word).toHaveClass('word-correct');
+      expect(word).toHaveClass('recognized-as');
+      expect(word).toHaveAttribute('title', 'Correct (100%): recognized as "their"');
+      expect(screen.getByRole('button', { name: 'over' })).not.toHaveClass('recognized-as');
+    });
+  });
+});
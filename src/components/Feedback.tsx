@@ -1,14 +1,53 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
+import { WordResult, WordStatus } from '../agents/ComparisonAgent';
+import { PreviousTake } from '../agents/PronCoachAgent';
+import RecordingPlayer, { RecordingPlayerHandle } from './RecordingPlayer';
+import PitchCurve from './PitchCurve';
+import IpaTranscription from './IpaTranscription';
+import { FeedbackCategory, FeedbackItem, formatFeedbackItem } from '../utils/feedbackMessages';
+import { countWords, FluencyMetrics } from '../utils/fluency';
+import { PitchDirection, ProsodyAnalysis } from '../utils/prosody';
+import { compareIpa } from '../utils/ipa';
 import './Components.css';
 
 interface FeedbackProps {
   transcription: string;
   score: number;
-  feedback: string[];
+  feedback: FeedbackItem[];
   letterGrade: string;
   targetText: string;
+  wordResults?: WordResult[];
+  audioBlob?: Blob | null;
+  recordingDuration?: number | null;
+  fluency?: FluencyMetrics | null; // measured speaking rate and pauses
+  prosody?: ProsodyAnalysis | null; // measured word stress and intonation
+  showIpa?: boolean; // show both texts in IPA with the differing phonemes highlighted
+  onShowIpaChange?: (showIpa: boolean) => void; // offers the IPA toggle when given
+  previousTake?: PreviousTake | null;
+  onPlayReference?: (text: string) => void; // plays how a word should sound
 }
 
+const CATEGORY_LABELS: { [category in FeedbackCategory]: string } = {
+  sound: '🔤 Sounds',
+  fluency: '🗣️ Fluency',
+  prosody: '🎶 Intonation & Stress',
+  completeness: '✅ Completeness',
+  motivation: '💪 Motivation'
+};
+
+const PITCH_DIRECTION_LABELS: { [direction in PitchDirection]: string } = {
+  rise: 'rising',
+  fall: 'falling',
+  level: 'level'
+};
+
+const STATUS_LABELS: { [status in WordStatus]: string } = {
+  correct: 'Correct',
+  mispronounced: 'Mispronounced',
+  missed: 'Missed',
+  extra: 'Extra'
+};
+
 /**
  * Feedback component that displays pronunciation analysis results
  * Shows score, grade, transcription comparison, and improvement suggestions
@@ -18,8 +57,20 @@ const Feedback: React.FC<FeedbackProps> = ({
   score,
   feedback,
   letterGrade,
-  targetText
+  targetText,
+  wordResults = [],
+  audioBlob = null,
+  recordingDuration = null,
+  fluency = null,
+  prosody = null,
+  showIpa = false,
+  onShowIpaChange,
+  previousTake = null,
+  onPlayReference
 }) => {
+  const [selectedWord, setSelectedWord] = useState<number | null>(null);
+  const playerRef = useRef<RecordingPlayerHandle | null>(null);
+
   /**
    * Get color based on score
    */
@@ -44,14 +95,52 @@ const Feedback: React.FC<FeedbackProps> = ({
   };
 
   /**
-   * Calculate words per minute (rough estimate)
+   * Calculate words per minute
+   * Uses the measured speech rate, falling back to the recording length (or the 30 second limit)
    */
   const calculateWPM = (text: string, durationSeconds: number = 30): number => {
-    const wordCount = text.trim().split(/\s+/).length;
-    return Math.round((wordCount / durationSeconds) * 60);
+    if (fluency) return Math.round(fluency.speechRate);
+    return Math.round((countWords(text) / durationSeconds) * 60);
   };
 
-  const wpm = calculateWPM(transcription);
+  const wpm = calculateWPM(transcription, recordingDuration || undefined);
+
+  // Show words as they were written/heard rather than lowercased
+  const targetTokens = targetText.trim().split(/\s+/);
+  const spokenTokens = transcription.trim().split(/\s+/);
+
+  /**
+   * Text shown for a word in the diff
+   */
+  const displayWord = (result: WordResult): string => {
+    if (result.targetIndex !== null) return targetTokens[result.targetIndex] ?? result.targetWord ?? '';
+    return spokenTokens[result.spokenIndex!] ?? result.spokenWord ?? '';
+  };
+
+  /**
+   * Hover/tap description of a word's result
+   */
+  const describeWord = (result: WordResult): string => {
+    const label = STATUS_LABELS[result.status];
+    if (result.status === 'missed') return `${label}: not heard`;
+    if (result.status === 'extra') return `${label}: "${result.spokenWord}" is not in the text`;
+    if (result.status === 'mispronounced') return `${label} (${result.score}%): heard "${result.spokenWord}"`;
+    if (result.recognizedAs) return `${label} (${result.score}%): recognized as "${result.recognizedAs}"`;
+    return `${label} (${result.score}%)`;
+  };
+
+  // Feedback grouped by category, in CATEGORY_LABELS order
+  const feedbackGroups = (Object.keys(CATEGORY_LABELS) as FeedbackCategory[])
+    .map(category => ({ category, items: feedback.filter(item => item.category === category) }))
+    .filter(group => group.items.length > 0);
+
+  const selected = selectedWord !== null ? wordResults[selectedWord] : undefined;
+
+  const ipa = showIpa ? compareIpa(transcription, targetText) : null;
+
+  // Single words can be replayed once the transcription reports word timings
+  const canPlayWord = (result: WordResult): boolean =>
+    !!audioBlob && result.startTime !== undefined && result.endTime !== undefined;
 
   return (
     <div className="feedback card">
@@ -77,6 +166,22 @@ const Feedback: React.FC<FeedbackProps> = ({
           <div className="stat-value">{wpm}</div>
           <div className="stat-label">Words/Min</div>
         </div>
+        {fluency && (
+          <>
+            <div className="stat-item">
+              <div className="stat-value">{Math.round(fluency.articulationRate)}</div>
+              <div className="stat-label">Articulation Rate</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{fluency.pauses.length}</div>
+              <div className="stat-label">Pauses</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{fluency.longestPause.toFixed(1)}s</div>
+              <div className="stat-label">Longest Pause</div>
+            </div>
+          </>
+        )}
         <div className="stat-item">
           <div className="stat-value">{transcription.trim().split(/\s+/).length}</div>
           <div className="stat-label">Words Spoken</div>
@@ -95,6 +200,7 @@ const Feedback: React.FC<FeedbackProps> = ({
             <div className="text-display target-text">
               {targetText}
             </div>
+            {ipa && <IpaTranscription words={ipa.target} label="Target text in IPA" />}
           </div>
         </div>
         
@@ -104,19 +210,129 @@ const Feedback: React.FC<FeedbackProps> = ({
             <div className="text-display user-text">
               {transcription || <em>No speech detected. Try speaking louder or closer to the microphone.</em>}
             </div>
+            {ipa && transcription && <IpaTranscription words={ipa.spoken} label="What you said in IPA" />}
           </div>
         </div>
+
+        {onShowIpaChange && (
+          <label className="setting-toggle">
+            <input
+              type="checkbox"
+              checked={showIpa}
+              onChange={event => onShowIpaChange(event.target.checked)}
+            />
+            {' '}🔤 Show IPA
+          </label>
+        )}
       </div>
 
+      {/* Recording playback */}
+      {audioBlob && (
+        <div className="playback-section">
+          <h4>🎧 Listen to Yourself:</h4>
+          <RecordingPlayer
+            ref={playerRef}
+            audioBlob={audioBlob}
+            label="This take"
+            durationSeconds={recordingDuration}
+          />
+          {previousTake && (
+            <RecordingPlayer
+              audioBlob={previousTake.audioBlob}
+              label={`Earlier take (${new Date(previousTake.timestamp).toLocaleDateString()})`}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Word-by-word diff */}
+      {wordResults.length > 0 && (
+        <div className="word-diff-section">
+          <h4>🔍 Word by Word:</h4>
+          <div className="text-display word-diff">
+            {wordResults.map((result, index) => (
+              <button
+                key={index}
+                type="button"
+                className={`word-chip word-${result.status}${result.recognizedAs ? ' recognized-as' : ''}${selectedWord === index ? ' selected' : ''}`}
+                title={describeWord(result)}
+                onClick={() => setSelectedWord(selectedWord === index ? null : index)}
+              >
+                {displayWord(result)}
+              </button>
+            ))}
+          </div>
+          {selected && (
+            <div className="word-detail" role="status">
+              <strong>{displayWord(selected)}</strong> — {describeWord(selected)}
+              {canPlayWord(selected) && (
+                <button
+                  type="button"
+                  className="button play-word"
+                  onClick={() => playerRef.current?.playRange(selected.startTime!, selected.endTime!)}
+                >
+                  ▶️ Play word
+                </button>
+              )}
+              {onPlayReference && selected.targetWord && (
+                <button
+                  type="button"
+                  className="button play-word"
+                  onClick={() => onPlayReference(displayWord(selected))}
+                >
+                  🔊 Hear it
+                </button>
+              )}
+            </div>
+          )}
+          <div className="word-legend">
+            {(Object.keys(STATUS_LABELS) as WordStatus[]).map(status => (
+              <span key={status} className={`word-chip word-${status}`}>{STATUS_LABELS[status]}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Intonation and word stress */}
+      {prosody && (
+        <div className="prosody-section">
+          <h4>🎶 Intonation & Stress: {prosody.score}%</h4>
+          <PitchCurve contour={prosody.contour} frameDuration={prosody.frameDuration} />
+          <ul className="prosody-details">
+            {prosody.intonation.detected && (
+              <li className={prosody.intonation.detected === prosody.intonation.expected ? 'prosody-match' : 'prosody-mismatch'}>
+                Sentence ending: {PITCH_DIRECTION_LABELS[prosody.intonation.detected]} (expected{' '}
+                {PITCH_DIRECTION_LABELS[prosody.intonation.expected]})
+              </li>
+            )}
+            {prosody.wordStress
+              .filter(word => word.detected !== null)
+              .map(word => (
+                <li key={word.wordIndex} className={word.detected === word.expected ? 'prosody-match' : 'prosody-mismatch'}>
+                  "{word.word}": stress heard on syllable {word.detected! + 1} of {word.syllables} (expected{' '}
+                  {word.expected + 1})
+                </li>
+              ))}
+          </ul>
+        </div>
+      )}
+
       {/* Feedback and tips */}
       <div className="feedback-section">
         <h4>💡 Personalized Feedback & Tips:</h4>
         <div className="feedback-list">
-          <ul>
-            {feedback.map((tip, index) => (
-              <li key={index}>{tip}</li>
-            ))}
-          </ul>
+          {feedbackGroups.map(group => (
+            <div key={group.category} className={`feedback-group feedback-${group.category}`}>
+              <h5>{CATEGORY_LABELS[group.category]}</h5>
+              <ul>
+                {group.items.map((item, index) => (
+                  <li key={index} className={`feedback-item severity-${item.severity}`}>
+                    {formatFeedbackItem(item)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
         </div>
       </div>
 
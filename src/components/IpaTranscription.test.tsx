@@ -0,0 +1,41 @@
+/**
+ * Tests for IpaTranscription component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import IpaTranscription from './IpaTranscription';
+import { compareIpa } from '../utils/ipa';
+import { PRONUNCIATION_PATTERNS } from '../utils/phonemeUtils';
+
+describe('IpaTranscription Component', () => {
+  const { target } = compareIpa('I sink so', 'I think so');
+
+  it('should show each word in IPA with the mismatched phonemes highlighted', () => {
+    render(<IpaTranscription words={target} label="Target text in IPA" />);
+
+    expect(screen.getByRole('group', { name: 'Target text in IPA' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'θ' })).toHaveClass('mismatch');
+    expect(screen.getByRole('button', { name: 'ŋ' })).not.toHaveClass('mismatch');
+  });
+
+  it('should explain a symbol with its pronunciation tip when clicked', () => {
+    render(<IpaTranscription words={target} label="Target text in IPA" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'θ' }));
+    expect(screen.getByRole('status')).toHaveTextContent('/θ/ as in "think"');
+    expect(screen.getByRole('status')).toHaveTextContent(PRONUNCIATION_PATTERNS.th.tip);
+
+    fireEvent.click(screen.getByRole('button', { name: 'θ' }));
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('should explain sounds without a tip', () => {
+    render(<IpaTranscription words={target} label="Target text in IPA" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'ŋ' }));
+    expect(screen.getByRole('status')).toHaveTextContent('/ŋ/ as in "sing"');
+    expect(screen.queryByText(/💡/)).not.toBeInTheDocument();
+  });
+});
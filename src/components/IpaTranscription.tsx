@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { describeIpaSymbol, IpaWord } from '../utils/ipa';
+import './Components.css';
+
+interface IpaTranscriptionProps {
+  words: IpaWord[];
+  label: string; // names the transcription for screen readers, e.g. "Target text in IPA"
+}
+
+/**
+ * Text in IPA, one /transcription/ per word
+ * Phonemes that differ from the other side are highlighted; clicking a symbol explains the sound
+ */
+const IpaTranscription: React.FC<IpaTranscriptionProps> = ({ words, label }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const info = selected ? describeIpaSymbol(selected) : null;
+
+  return (
+    <div className="ipa-transcription">
+      <div className="text-display ipa-text" role="group" aria-label={label}>
+        {words.filter(word => word.segments.length > 0).map((word, wordIndex) => (
+          <span key={wordIndex} className="ipa-word" title={word.word}>
+            /
+            {word.segments.map((segment, index) => (
+              <button
+                key={index}
+                type="button"
+                className={`ipa-symbol${segment.mismatch ? ' mismatch' : ''}${selected === segment.symbol ? ' selected' : ''}`}
+                onClick={() => setSelected(selected === segment.symbol ? null : segment.symbol)}
+              >
+                {segment.symbol}
+              </button>
+            ))}
+            /
+          </span>
+        ))}
+      </div>
+      {info && (
+        <div className="ipa-detail" role="status">
+          <strong>/{info.symbol}/</strong> as in "{info.example}" — {info.description}
+          {info.tip && <div className="ipa-tip">💡 {info.tip}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IpaTranscription;
@@ -0,0 +1,100 @@
+/**
+ * Tests for LevelMeter component
+ */
+
+import React from 'react';
+import { render, screen, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import LevelMeter, { LEVEL_WARNING_MESSAGES } from './LevelMeter';
+
+describe('LevelMeter Component', () => {
+  const stream = {} as MediaStream;
+  const originalAudioContext = window.AudioContext;
+  let frame: Float32Array;
+  let close: jest.Mock;
+  let disconnect: jest.Mock;
+
+  function fill(value: number): Float32Array {
+    return new Float32Array(2048).map((_, index) => (index % 2 === 0 ? value : -value));
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    frame = fill(0);
+    close = jest.fn(() => Promise.resolve());
+    disconnect = jest.fn();
+    const analyser = {
+      fftSize: 0,
+      getFloatTimeDomainData: (target: Float32Array) => target.set(frame)
+    };
+    window.AudioContext = jest.fn().mockImplementation(() => ({
+      createAnalyser: () => analyser,
+      createMediaStreamSource: () => ({ connect: jest.fn(), disconnect }),
+      close
+    })) as any;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    window.AudioContext = originalAudioContext;
+  });
+
+  it('should show the input level', () => {
+    render(<LevelMeter stream={stream} />);
+    expect(screen.getByRole('progressbar', { name: 'Input level' })).toHaveAttribute('aria-valuenow', '0');
+
+    frame = fill(0.1); // -20 dBFS
+    act(() => {
+      jest.advanceTimersByTime(50);
+    });
+
+    expect(screen.getByRole('progressbar', { name: 'Input level' })).toHaveAttribute('aria-valuenow', '67');
+  });
+
+  it('should warn when the input stays too quiet', () => {
+    frame = fill(0.001);
+    render(<LevelMeter stream={stream} />);
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+
+    act(() => {
+      jest.advanceTimersByTime(1500);
+    });
+    expect(screen.getByRole('alert')).toHaveTextContent(LEVEL_WARNING_MESSAGES.too_quiet);
+  });
+
+  it('should warn when the input clips', () => {
+    frame = fill(1);
+    render(<LevelMeter stream={stream} />);
+
+    act(() => {
+      jest.advanceTimersByTime(50);
+    });
+
+    expect(screen.getByRole('alert')).toHaveTextContent(LEVEL_WARNING_MESSAGES.clipping);
+  });
+
+  it('should release the audio graph when unmounted', () => {
+    const { unmount } = render(<LevelMeter stream={stream} />);
+    unmount();
+
+    expect(disconnect).toHaveBeenCalled();
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('should render without a level when Web Audio is unusable', () => {
+    window.AudioContext = jest.fn().mockImplementation(() => ({ close })) as any;
+
+    render(<LevelMeter stream={stream} />);
+    act(() => {
+      jest.advanceTimersByTime(3000);
+    });
+
+    expect(screen.getByRole('progressbar', { name: 'Input level' })).toHaveAttribute('aria-valuenow', '0');
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AudioLevel,
+  DEFAULT_LEVEL_THRESHOLDS,
+  LevelThresholds,
+  LevelWarning,
+  LevelWarningTracker,
+  measureLevel,
+  meterPosition
+} from '../utils/audioLevels';
+import { createStreamAnalyser } from '../utils/streamAnalyser';
+import './Components.css';
+
+interface LevelMeterProps {
+  stream: MediaStream;
+  thresholds?: LevelThresholds;
+}
+
+const UPDATE_INTERVAL_MS = 50;
+const WAVEFORM_LENGTH = 120; // frames shown, about 6 seconds
+const WAVEFORM_HEIGHT = 40;
+
+export const LEVEL_WARNING_MESSAGES: { [warning in LevelWarning]: string } = {
+  too_quiet: '🔈 Too quiet: move closer to the microphone or speak up',
+  clipping: '📢 Too loud: move back from the microphone a little'
+};
+
+/**
+ * Live input level meter and scrolling waveform for a microphone stream
+ * Warns when the input is too quiet to transcribe or loud enough to clip
+ */
+const LevelMeter: React.FC<LevelMeterProps> = ({ stream, thresholds = DEFAULT_LEVEL_THRESHOLDS }) => {
+  const [level, setLevel] = useState<AudioLevel | null>(null);
+  const [waveform, setWaveform] = useState<number[]>([]);
+  const [warning, setWarning] = useState<LevelWarning | null>(null);
+
+  // Sample the stream while mounted
+  useEffect(() => {
+    const analyser = createStreamAnalyser(stream);
+    if (!analyser) return;
+
+    const tracker = new LevelWarningTracker(thresholds);
+    const interval = setInterval(() => {
+      const current = measureLevel(analyser.read(), thresholds.clippingLevel);
+      setLevel(current);
+      setWaveform(previous => [...previous, current.peak].slice(-WAVEFORM_LENGTH));
+      setWarning(tracker.update(current, Date.now()));
+    }, UPDATE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      analyser.close();
+    };
+  }, [stream, thresholds]);
+
+  const position = level ? meterPosition(level.rms) : 0;
+  const offset = WAVEFORM_LENGTH - waveform.length;
+  const middle = WAVEFORM_HEIGHT / 2;
+
+  return (
+    <div className="level-meter">
+      <div
+        className="level-bar"
+        role="progressbar"
+        aria-label="Input level"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(position * 100)}
+      >
+        <div className={`level-fill ${warning || ''}`} style={{ width: `${position * 100}%` }} />
+      </div>
+      <svg
+        className="level-waveform"
+        viewBox={`0 0 ${WAVEFORM_LENGTH} ${WAVEFORM_HEIGHT}`}
+        preserveAspectRatio="none"
+        aria-hidden="true"
+      >
+        {waveform.map((peak, index) => (
+          <line
+            key={index}
+            x1={offset + index + 0.5}
+            x2={offset + index + 0.5}
+            y1={middle - peak * middle}
+            y2={middle + peak * middle}
+          />
+        ))}
+      </svg>
+      {warning && (
+        <p className={`level-warning ${warning}`} role="alert">
+          {LEVEL_WARNING_MESSAGES[warning]}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LevelMeter;
@@ -0,0 +1,51 @@
+/**
+ * Tests for MicrophoneSettings component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import MicrophoneSettings from './MicrophoneSettings';
+import { DEFAULT_MICROPHONE } from '../utils/microphone';
+
+describe('MicrophoneSettings Component', () => {
+  const devices = [
+    { deviceId: 'headset', kind: 'audioinput', label: 'Headset Microphone' },
+    { deviceId: 'usb', kind: 'audioinput', label: '' }
+  ] as MediaDeviceInfo[];
+
+  it('should list the microphones, numbering unlabelled ones', () => {
+    render(<MicrophoneSettings value={DEFAULT_MICROPHONE} devices={devices} onChange={jest.fn()} />);
+
+    expect(screen.getByRole('option', { name: 'Headset Microphone' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Microphone 2' })).toBeInTheDocument();
+    expect(screen.getByLabelText(/Microphone:/)).toHaveValue('');
+  });
+
+  it('should show the default when the saved microphone is unplugged', () => {
+    render(<MicrophoneSettings value={{ ...DEFAULT_MICROPHONE, deviceId: 'gone' }} devices={devices} onChange={jest.fn()} />);
+    expect(screen.getByLabelText(/Microphone:/)).toHaveValue('');
+  });
+
+  it('should change the microphone', () => {
+    const onChange = jest.fn();
+    render(<MicrophoneSettings value={DEFAULT_MICROPHONE} devices={devices} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText(/Microphone:/), { target: { value: 'headset' } });
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_MICROPHONE, deviceId: 'headset' });
+  });
+
+  it('should toggle the processing options', () => {
+    const onChange = jest.fn();
+    render(<MicrophoneSettings value={DEFAULT_MICROPHONE} devices={devices} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText(/Noise suppression/));
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_MICROPHONE, noiseSuppression: false });
+
+    fireEvent.click(screen.getByLabelText(/Echo cancellation/));
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_MICROPHONE, echoCancellation: false });
+
+    fireEvent.click(screen.getByLabelText(/Automatic volume/));
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_MICROPHONE, autoGainControl: false });
+  });
+});
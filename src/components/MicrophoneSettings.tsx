@@ -0,0 +1,65 @@
+import React from 'react';
+import { MicrophoneOptions } from '../utils/microphone';
+import './Components.css';
+
+interface MicrophoneSettingsProps {
+  value: MicrophoneOptions;
+  devices: MediaDeviceInfo[]; // audio inputs from enumerateDevices
+  onChange: (options: MicrophoneOptions) => void;
+}
+
+/**
+ * Input device and audio processing choices for the recorder
+ */
+const MicrophoneSettings: React.FC<MicrophoneSettingsProps> = ({ value, devices, onChange }) => {
+  const selectedDevice = devices.some(device => device.deviceId === value.deviceId) ? value.deviceId ?? '' : '';
+
+  return (
+    <details className="microphone-settings">
+      <summary>🎛️ Microphone settings</summary>
+      <label>
+        Microphone:{' '}
+        <select
+          value={selectedDevice}
+          onChange={event => onChange({ ...value, deviceId: event.target.value || null })}
+        >
+          <option value="">Default</option>
+          {devices.map((device, index) => (
+            <option key={device.deviceId || index} value={device.deviceId}>
+              {device.label || `Microphone ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label>
+        <input
+          type="checkbox"
+          checked={value.echoCancellation}
+          onChange={event => onChange({ ...value, echoCancellation: event.target.checked })}
+        />
+        {' '}Echo cancellation
+      </label>
+
+      <label>
+        <input
+          type="checkbox"
+          checked={value.noiseSuppression}
+          onChange={event => onChange({ ...value, noiseSuppression: event.target.checked })}
+        />
+        {' '}Noise suppression (turn off if /s/ and /f/ sound muffled)
+      </label>
+
+      <label>
+        <input
+          type="checkbox"
+          checked={value.autoGainControl}
+          onChange={event => onChange({ ...value, autoGainControl: event.target.checked })}
+        />
+        {' '}Automatic volume
+      </label>
+    </details>
+  );
+};
+
+export default MicrophoneSettings;
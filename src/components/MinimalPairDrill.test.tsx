@@ -0,0 +1,122 @@
+/**
+ * Tests for MinimalPairDrill component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import MinimalPairDrill from './MinimalPairDrill';
+import { MinimalPairItem, scoreMinimalPairItem } from '../utils/minimalPairDrill';
+
+// Mock the Recorder component: each click completes a recording
+let mockTranscript = '';
+let mockRecorderMounts = 0;
+jest.mock('./Recorder', () => {
+  const { useEffect } = jest.requireActual('react');
+  return function MockRecorder({ onRecordingComplete, onRecordingStateChange, maxDuration, disabled }: any) {
+    useEffect(() => {
+      mockRecorderMounts++;
+    }, []);
+    return (
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => {
+          onRecordingStateChange(true);
+          onRecordingComplete(new Blob(['test'], { type: 'audio/wav' }));
+        }}
+      >
+        Record ({maxDuration}s)
+      </button>
+    );
+  };
+});
+
+describe('MinimalPairDrill Component', () => {
+  const items: MinimalPairItem[] = [
+    { target: 'sheep', distractor: 'ship', expected: 'IY', confusedWith: 'IH' },
+    { target: 'vest', distractor: 'west', expected: 'V', confusedWith: 'W' }
+  ];
+  // Scores the transcript the test set before recording
+  const scoreAttempt = async (audioBlob: Blob, item: MinimalPairItem) => scoreMinimalPairItem(item, mockTranscript);
+
+  it('should ask for the target word and show the word it could be mistaken for', () => {
+    render(<MinimalPairDrill items={items} onScoreAttempt={scoreAttempt} onComplete={jest.fn()} />);
+
+    expect(screen.getByText('Word 1 of 2')).toBeInTheDocument();
+    expect(screen.getByRole('heading')).toHaveTextContent('Say: sheep /ʃip/');
+    expect(screen.getByText('not ship /ʃɪp/')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Record (5s)' })).toBeInTheDocument();
+  });
+
+  it('should tell the learner which word was heard', async () => {
+    const onRecordingStart = jest.fn();
+    render(
+      <MinimalPairDrill
+        items={items}
+        onScoreAttempt={scoreAttempt}
+        onComplete={jest.fn()}
+        onRecordingStart={onRecordingStart}
+      />
+    );
+
+    mockTranscript = 'ship';
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Heard "ship": the /i/ sounded like /ɪ/');
+    expect(onRecordingStart).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: /Record/ })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: /Next word/ }));
+    expect(screen.getByText('Word 2 of 2')).toBeInTheDocument();
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Record/ })).toBeEnabled();
+  });
+
+  it('should keep the same recorder, and with it the microphone, for every word', async () => {
+    mockRecorderMounts = 0;
+    render(<MinimalPairDrill items={items} onScoreAttempt={scoreAttempt} onComplete={jest.fn()} />);
+
+    mockTranscript = 'sheep';
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    fireEvent.click(await screen.findByRole('button', { name: /Next word/ }));
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    await screen.findByRole('status');
+
+    expect(mockRecorderMounts).toBe(1);
+  });
+
+  it('should report the results when the drill is finished', async () => {
+    const onComplete = jest.fn();
+    render(<MinimalPairDrill items={items} onScoreAttempt={scoreAttempt} onComplete={onComplete} />);
+
+    mockTranscript = 'ship';
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    fireEvent.click(await screen.findByRole('button', { name: /Next word/ }));
+    mockTranscript = 'Vest.';
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    fireEvent.click(await screen.findByRole('button', { name: /See results/ }));
+
+    expect(onComplete).toHaveBeenCalledWith([
+      expect.objectContaining({ outcome: 'confused' }),
+      expect.objectContaining({ outcome: 'correct' })
+    ]);
+    expect(screen.getByText(/heard the word you meant 1 of 2 times \(50%\)/)).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+  });
+
+  it('should play either word of the pair when reference audio is available', () => {
+    const onPlayReference = jest.fn();
+    render(
+      <MinimalPairDrill items={items} onScoreAttempt={scoreAttempt} onComplete={jest.fn()} onPlayReference={onPlayReference} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: '🔊 ship' }));
+    expect(onPlayReference).toHaveBeenCalledWith('ship');
+  });
+
+  it('should explain when there are no pairs to practice', () => {
+    render(<MinimalPairDrill items={[]} onScoreAttempt={scoreAttempt} onComplete={jest.fn()} />);
+    expect(screen.getByText(/No word pairs are available yet/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,118 @@
+import React from 'react';
+import RecordedItemsDrill from './RecordedItemsDrill';
+import { MinimalPairItem, MinimalPairOutcome, MinimalPairResult, scoreMinimalPairDrill } from '../utils/minimalPairDrill';
+import { phonemesToIpa, phonemeToIpa, wordToPhonemes } from '../utils/g2p';
+import { MicrophoneOptions } from '../utils/microphone';
+import { VoiceActivityOptions } from '../utils/voiceActivity';
+import './Components.css';
+
+interface MinimalPairDrillProps {
+  items: MinimalPairItem[];
+  onScoreAttempt: (audioBlob: Blob, item: MinimalPairItem) => Promise<MinimalPairResult>;
+  onComplete: (results: MinimalPairResult[]) => void;
+  onRecordingStart?: () => void;
+  onPlayReference?: (word: string) => void; // shows a button to hear each word when given
+  voiceActivity?: VoiceActivityOptions;
+  microphone?: MicrophoneOptions;
+  onMicrophoneChange?: (options: MicrophoneOptions) => void;
+}
+
+// Seconds allowed for saying one word
+const MAX_WORD_SECONDS = 5;
+
+const OUTCOME_CLASSES: { [outcome in MinimalPairOutcome]: string } = {
+  correct: 'word-correct',
+  confused: 'word-mispronounced',
+  unclear: 'word-missed'
+};
+
+/**
+ * A word with its pronunciation, e.g. sheep /ʃip/
+ */
+function withIpa(word: string): string {
+  return `${word} /${phonemesToIpa(wordToPhonemes(word))}/`;
+}
+
+/**
+ * What the recognizer made of one attempt
+ */
+function describeResult(result: MinimalPairResult): string {
+  const { item, heard, outcome } = result;
+  if (outcome === 'correct') return `✅ Heard "${item.target}" — well done!`;
+  if (outcome === 'confused') {
+    const expected = phonemeToIpa(item.expected);
+    return `❌ Heard "${item.distractor}": the /${expected}/ sounded like /${phonemeToIpa(item.confusedWith)}/`;
+  }
+  return heard ? `🤔 Heard "${heard}", which is neither word` : '🤔 No word was heard, try speaking a little louder';
+}
+
+/**
+ * Minimal-pair practice: say one word of a pair such as ship / sheep and find out
+ * which of the two the recognizer heard
+ */
+const MinimalPairDrill: React.FC<MinimalPairDrillProps> = ({
+  items,
+  onScoreAttempt,
+  onComplete,
+  onRecordingStart,
+  onPlayReference,
+  voiceActivity,
+  microphone,
+  onMicrophoneChange
+}) => (
+  <RecordedItemsDrill
+    className="minimal-pair-drill"
+    items={items}
+    onAttempt={onScoreAttempt}
+    onComplete={onComplete}
+    itemLabel="Word"
+    nextLabel="Next word ➡️"
+    loadingMessage="🔄 Listening to your word..."
+    maxDuration={MAX_WORD_SECONDS}
+    emptyMessage="No word pairs are available yet. Practice a few texts first so we can find the sounds you mix up."
+    renderPrompt={item => (
+      <>
+        <h3>
+          Say: <strong className="drill-prompt">{withIpa(item.target)}</strong>
+        </h3>
+        <p className="minimal-pair-distractor">not {withIpa(item.distractor)}</p>
+        {onPlayReference && (
+          <div className="reference-words">
+            <button type="button" className="word-chip" onClick={() => onPlayReference(item.target)}>
+              🔊 {item.target}
+            </button>
+            <button type="button" className="word-chip" onClick={() => onPlayReference(item.distractor)}>
+              🔊 {item.distractor}
+            </button>
+          </div>
+        )}
+      </>
+    )}
+    renderResult={result => (
+      <p className={`drill-result ${OUTCOME_CLASSES[result.outcome]}`}>{describeResult(result)}</p>
+    )}
+    renderSummary={results => (
+      <>
+        <h3>👯 Drill complete</h3>
+        <p>
+          The recognizer heard the word you meant {results.filter(drilled => drilled.outcome === 'correct').length} of{' '}
+          {results.length} times ({scoreMinimalPairDrill(results)}%).
+        </p>
+        <ul className="drill-results">
+          {results.map((drilled, drilledIndex) => (
+            <li key={drilledIndex}>
+              <span className={`word-chip ${OUTCOME_CLASSES[drilled.outcome]}`}>{drilled.item.target}</span>
+              {' '}{describeResult(drilled)}
+            </li>
+          ))}
+        </ul>
+      </>
+    )}
+    onRecordingStart={onRecordingStart}
+    voiceActivity={voiceActivity}
+    microphone={microphone}
+    onMicrophoneChange={onMicrophoneChange}
+  />
+);
+
+export default MinimalPairDrill;
@@ -0,0 +1,23 @@
+/**
+ * Tests for PitchCurve component
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import PitchCurve from './PitchCurve';
+
+describe('PitchCurve Component', () => {
+  it('should plot the voiced pitch with its range and length', () => {
+    render(<PitchCurve contour={[null, 100, 120, null, 150, 200, null, null]} frameDuration={0.25} />);
+
+    expect(screen.getByRole('img', { name: 'Pitch curve: 100 to 200 Hz over 2.0s' })).toBeInTheDocument();
+    expect(screen.getByText('100–200 Hz')).toBeInTheDocument();
+    expect(screen.getByText('2.0s')).toBeInTheDocument();
+  });
+
+  it('should draw nothing without voiced frames', () => {
+    render(<PitchCurve contour={[null, null]} frameDuration={0.02} />);
+    expect(screen.queryByRole('img')).not.toBeInTheDocument();
+  });
+});
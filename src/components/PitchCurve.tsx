@@ -0,0 +1,70 @@
+import React from 'react';
+import './Components.css';
+
+interface PitchCurveProps {
+  contour: (number | null)[]; // Hz per frame, null when unvoiced
+  frameDuration: number; // seconds between contour values
+}
+
+const CURVE_HEIGHT = 60;
+const MARGIN_SEMITONES = 1; // room above and below the highest and lowest pitch
+
+/**
+ * Split the contour into voiced runs; unvoiced frames break the line
+ */
+const voicedRuns = (contour: (number | null)[]): { index: number; hz: number }[][] => {
+  const runs: { index: number; hz: number }[][] = [];
+  let current: { index: number; hz: number }[] = [];
+  contour.forEach((hz, index) => {
+    if (hz === null) {
+      if (current.length > 0) runs.push(current);
+      current = [];
+    } else {
+      current.push({ index, hz });
+    }
+  });
+  if (current.length > 0) runs.push(current);
+  return runs;
+};
+
+/**
+ * Plot of the voice pitch over the recording
+ * The vertical axis is in semitones, so rises and falls look the same for low and high voices
+ */
+const PitchCurve: React.FC<PitchCurveProps> = ({ contour, frameDuration }) => {
+  const voiced = contour.filter((hz): hz is number => hz !== null);
+  if (voiced.length === 0) return null;
+
+  const lowest = Math.min(...voiced);
+  const highest = Math.max(...voiced);
+  const toSemitones = (hz: number): number => 12 * Math.log2(hz / lowest);
+  const span = toSemitones(highest) + 2 * MARGIN_SEMITONES;
+  const toY = (hz: number): number =>
+    CURVE_HEIGHT - ((toSemitones(hz) + MARGIN_SEMITONES) / span) * CURVE_HEIGHT;
+
+  const seconds = (contour.length * frameDuration).toFixed(1);
+
+  return (
+    <figure className="pitch-curve">
+      <svg
+        viewBox={`0 0 ${Math.max(contour.length, 1)} ${CURVE_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`Pitch curve: ${Math.round(lowest)} to ${Math.round(highest)} Hz over ${seconds}s`}
+      >
+        {voicedRuns(contour).map(run => (
+          <polyline
+            key={run[0].index}
+            points={run.map(point => `${point.index + 0.5},${toY(point.hz).toFixed(1)}`).join(' ')}
+          />
+        ))}
+      </svg>
+      <figcaption>
+        <span>{Math.round(lowest)}–{Math.round(highest)} Hz</span>
+        <span>{seconds}s</span>
+      </figcaption>
+    </figure>
+  );
+};
+
+export default PitchCurve;
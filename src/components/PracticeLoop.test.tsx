@@ -3,22 +3,39 @@
  */
 
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import PracticeLoop from './PracticeLoop';
+import { DEFAULT_VOICE_ACTIVITY } from '../utils/voiceActivity';
 
 // Mock the PronCoachAgent
 jest.mock('../agents/PronCoachAgent', () => {
   return {
     PronCoachAgent: jest.fn().mockImplementation(() => ({
-      startPracticeSession: jest.fn(() => 'Hello world test phrase'),
+      startPracticeSession: jest.fn(() => ({
+        text: 'Hello world test phrase',
+        mode: 'adaptive',
+        level: 'basic',
+        sound: null
+      })),
       processRecording: jest.fn(() => Promise.resolve({
         transcription: 'Hello world test phrase',
         score: 85,
-        feedback: ['Great job!', 'Keep practicing!'],
-        letterGrade: 'B'
+        feedback: [
+          { category: 'motivation', severity: 'praise', messageKey: 'score.great' },
+          { category: 'fluency', severity: 'tip', messageKey: 'next.consistency' }
+        ],
+        letterGrade: 'B',
+        wordResults: []
       })),
       recordPracticeSession: jest.fn(),
+      beginRecording: jest.fn(),
+      getSettings: jest.fn(() => ({ keepRecordings: false })),
+      updateSettings: jest.fn(changes => ({ keepRecordings: false, ...changes })),
+      loadPreviousTake: jest.fn(() => Promise.resolve(null)),
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
     })),
   };
 });
@@ -58,8 +75,8 @@ jest.mock('./Feedback', () => {
         <div data-testid="feedback-grade">{letterGrade}</div>
         <div data-testid="feedback-transcription">{transcription}</div>
         <div data-testid="feedback-target">{targetText}</div>
-        {feedback.map((item: string, index: number) => (
-          <div key={index} data-testid={`feedback-item-${index}`}>{item}</div>
+        {feedback.map((item: any, index: number) => (
+          <div key={index} data-testid={`feedback-item-${index}`}>{item.messageKey}</div>
         ))}
       </div>
     );
@@ -96,6 +113,301 @@ describe('PracticeLoop Component', () => {
     expect(screen.getByTestId('recorder')).toBeInTheDocument();
   });
 
+  it('should start the session in the chosen practice mode', async () => {
+    const startPracticeSession = jest.fn(() => ({
+      text: 'Larry loves lovely lilies in the local library.',
+      mode: 'sound',
+      level: null,
+      sound: 'r_l'
+    }));
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      startPracticeSession,
+      processRecording: jest.fn(),
+      recordPracticeSession: jest.fn(),
+      beginRecording: jest.fn(),
+      getSettings: jest.fn(() => ({ keepRecordings: false, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
+    }));
+
+    render(<PracticeLoop />);
+
+    fireEvent.click(screen.getByLabelText(/Sound drill/));
+    fireEvent.change(screen.getByLabelText(/Sound:/), { target: { value: 'r_l' } });
+    fireEvent.click(screen.getByRole('button', { name: /Start Practice Session/ }));
+
+    expect(startPracticeSession).toHaveBeenCalledWith({ mode: 'sound', sound: 'r_l' });
+    expect(await screen.findByText('🔤 Sound drill · R / L (right, light)')).toBeInTheDocument();
+    expect(screen.getByText('Larry loves lovely lilies in the local library.')).toBeInTheDocument();
+  });
+
+  it('should start a minimal-pair drill in minimal pairs mode', async () => {
+    const item = { target: 'sheep', distractor: 'ship', expected: 'IY', confusedWith: 'IH' };
+    const startPracticeSession = jest.fn();
+    const scoreMinimalPairAttempt = jest.fn(() => Promise.resolve({ item, heard: 'sheep', outcome: 'correct' }));
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      startPracticeSession,
+      startMinimalPairDrill: jest.fn(() => [item]),
+      scoreMinimalPairAttempt,
+      recordMinimalPairDrill: jest.fn(),
+      beginRecording: jest.fn(),
+      getSettings: jest.fn(() => ({ keepRecordings: false, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
+    }));
+
+    render(<PracticeLoop />);
+
+    fireEvent.click(screen.getByLabelText(/Minimal pairs/));
+    fireEvent.click(screen.getByRole('button', { name: /Start Practice Session/ }));
+
+    expect(startPracticeSession).not.toHaveBeenCalled();
+    expect(screen.getByRole('heading', { name: /Say: sheep/ })).toBeInTheDocument();
+    expect(screen.getByTestId('max-duration')).toHaveTextContent('5');
+
+    fireEvent.click(screen.getByTestId('start-recording'));
+    expect(await screen.findByRole('status')).toHaveTextContent('Heard "sheep"');
+    expect(scoreMinimalPairAttempt).toHaveBeenCalledWith(expect.any(Blob), item);
+  });
+
+  it('should show how many reviews are due on the welcome screen', () => {
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      getSettings: jest.fn(() => ({ keepRecordings: false, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 3),
+    }));
+
+    render(<PracticeLoop />);
+
+    expect(screen.getByText('🔁 3 reviews due today')).toBeInTheDocument();
+  });
+
+  it('should review the due items in review mode', async () => {
+    const item = {
+      text: 'lazy',
+      easiness: 2.5,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      due: '2024-03-10',
+      addedAt: '2024-03-10T08:00:00.000Z',
+      lastReviewedAt: null
+    };
+    const startPracticeSession = jest.fn();
+    const reviewAttempt = jest.fn(() => Promise.resolve({
+      item: { ...item, interval: 1, repetitions: 1 },
+      transcription: 'lazy',
+      score: 100,
+      quality: 5,
+      wordResults: []
+    }));
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      startPracticeSession,
+      getDueReviews: jest.fn(() => [item]),
+      reviewAttempt,
+      beginRecording: jest.fn(),
+      getSettings: jest.fn(() => ({ keepRecordings: false, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 1),
+    }));
+
+    render(<PracticeLoop />);
+
+    expect(screen.getByText('🔁 1 review due today')).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText(/Review/));
+    fireEvent.click(screen.getByRole('button', { name: /Start Practice Session/ }));
+
+    expect(startPracticeSession).not.toHaveBeenCalled();
+    expect(screen.getByRole('heading', { name: /Say: lazy/ })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId('start-recording'));
+    expect(await screen.findByRole('status')).toHaveTextContent('✅ Remembered');
+    expect(reviewAttempt).toHaveBeenCalledWith(expect.any(Blob), item);
+  });
+
+  it('should remember the keep recordings choice', () => {
+    const updateSettings = jest.fn(() => ({ keepRecordings: true, voiceActivity: DEFAULT_VOICE_ACTIVITY }));
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      startPracticeSession: jest.fn(),
+      getSettings: jest.fn(() => ({ keepRecordings: false, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      updateSettings,
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
+    }));
+
+    render(<PracticeLoop />);
+
+    const checkbox = screen.getByLabelText(/Keep my recordings/);
+    expect(checkbox).not.toBeChecked();
+    fireEvent.click(checkbox);
+
+    expect(updateSettings).toHaveBeenCalledWith({ keepRecordings: true });
+    expect(checkbox).toBeChecked();
+  });
+
+  it('should remember the recording options', () => {
+    const updateSettings = jest.fn(changes => ({ keepRecordings: false, ...changes }));
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      startPracticeSession: jest.fn(),
+      getSettings: jest.fn(() => ({ keepRecordings: false, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      updateSettings,
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
+    }));
+
+    render(<PracticeLoop />);
+
+    fireEvent.click(screen.getByLabelText(/Start recording when I start speaking/));
+
+    expect(updateSettings).toHaveBeenCalledWith({ voiceActivity: { ...DEFAULT_VOICE_ACTIVITY, autoStart: true } });
+    expect(screen.getByLabelText(/Start recording when I start speaking/)).toBeChecked();
+  });
+
+  it('should remember the learner\'s first language', () => {
+    const updateSettings = jest.fn(changes => ({
+      keepRecordings: false, nativeLanguage: null, voiceActivity: DEFAULT_VOICE_ACTIVITY, ...changes
+    }));
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      startPracticeSession: jest.fn(),
+      getSettings: jest.fn(() => ({ keepRecordings: false, nativeLanguage: null, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      updateSettings,
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
+    }));
+
+    render(<PracticeLoop />);
+
+    const select = screen.getByLabelText(/My first language/);
+    expect(select).toHaveValue('');
+    fireEvent.change(select, { target: { value: 'hindi' } });
+
+    expect(updateSettings).toHaveBeenCalledWith({ nativeLanguage: 'hindi' });
+    expect(select).toHaveValue('hindi');
+  });
+
+  it('should show the syllables and stress of the text when asked', async () => {
+    const updateSettings = jest.fn(changes => ({ keepRecordings: false, showSyllables: false, ...changes }));
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      startPracticeSession: jest.fn(() => ({ text: 'I love photography.', mode: 'adaptive', level: 'basic', sound: null })),
+      getSettings: jest.fn(() => ({ keepRecordings: false, showSyllables: false, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      updateSettings,
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
+    }));
+
+    render(<PracticeLoop />);
+    fireEvent.click(screen.getByRole('button', { name: /Start Practice Session/ }));
+    expect(await screen.findByText('I love photography.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText(/Show syllables and stress/));
+
+    expect(updateSettings).toHaveBeenCalledWith({ showSyllables: true });
+    expect(screen.getByText('TOG')).toHaveClass('stress-primary');
+  });
+
+  it('should show the text in IPA when asked', async () => {
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      startPracticeSession: jest.fn(() => ({ text: 'I think so.', mode: 'adaptive', level: 'basic', sound: null })),
+      getSettings: jest.fn(() => ({ keepRecordings: false, showIpa: true, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
+    }));
+
+    render(<PracticeLoop />);
+    fireEvent.click(screen.getByRole('button', { name: /Start Practice Session/ }));
+
+    expect(await screen.findByRole('group', { name: 'Practice text in IPA' })).toHaveTextContent('/aɪ//θɪŋk//soʊ/');
+    expect(screen.getByLabelText(/Show IPA/)).toBeChecked();
+  });
+
+  it('should play the reference before recording in listen and repeat mode', async () => {
+    let finishReference: () => void = () => undefined;
+    const playReference = jest.fn(() => new Promise<void>(resolve => { finishReference = resolve; }));
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      startPracticeSession: jest.fn(() => ({ text: 'Hello world', mode: 'listen', level: 'basic', sound: null })),
+      getSettings: jest.fn(() => ({
+        keepRecordings: false,
+        referenceVoice: { accent: 'en-US', voiceURI: null, rate: 0.9 },
+        voiceActivity: DEFAULT_VOICE_ACTIVITY
+      })),
+      isReferenceAudioSupported: jest.fn(() => true),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
+      onReferenceVoicesChanged: jest.fn(() => () => undefined),
+      getReferenceVoices: jest.fn(() => []),
+      playReference,
+    }));
+
+    render(<PracticeLoop />);
+    fireEvent.click(screen.getByLabelText(/Listen and repeat/));
+    fireEvent.click(screen.getByRole('button', { name: /Start Practice Session/ }));
+
+    expect(playReference).toHaveBeenCalledWith('Hello world');
+    expect(screen.getByText(/Listen carefully/)).toBeInTheDocument();
+    expect(screen.getByTestId('start-recording')).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Play "Hello"' })).toBeDisabled();
+
+    finishReference();
+    expect(await screen.findByText(/Start reading now/)).toBeInTheDocument();
+    expect(screen.getByTestId('start-recording')).toBeEnabled();
+  });
+
+  it('should ignore the reference of an abandoned listen and repeat session', async () => {
+    const finishReferences: (() => void)[] = [];
+    const playReference = jest.fn(() => new Promise<void>(resolve => { finishReferences.push(resolve); }));
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      startPracticeSession: jest.fn(() => ({ text: 'Hello world', mode: 'listen', level: 'basic', sound: null })),
+      getSettings: jest.fn(() => ({
+        keepRecordings: false,
+        referenceVoice: { accent: 'en-US', voiceURI: null, rate: 0.9 },
+        voiceActivity: DEFAULT_VOICE_ACTIVITY
+      })),
+      isReferenceAudioSupported: jest.fn(() => true),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
+      onReferenceVoicesChanged: jest.fn(() => () => undefined),
+      getReferenceVoices: jest.fn(() => []),
+      stopReference: jest.fn(),
+      playReference,
+    }));
+
+    render(<PracticeLoop />);
+    fireEvent.click(screen.getByLabelText(/Listen and repeat/));
+    fireEvent.click(screen.getByRole('button', { name: /Start Practice Session/ }));
+    fireEvent.click(screen.getByRole('button', { name: /New Text/ }));
+    fireEvent.click(screen.getByRole('button', { name: /Start Practice Session/ }));
+
+    // Stopping the first reading resolves its playback while the second one is still going
+    await act(async () => finishReferences[0]());
+    expect(screen.getByText(/Listen carefully/)).toBeInTheDocument();
+    expect(screen.getByTestId('start-recording')).toBeDisabled();
+
+    finishReferences[1]();
+    expect(await screen.findByText(/Start reading now/)).toBeInTheDocument();
+  });
+
+  it('should only offer listen and repeat when reference audio is supported', () => {
+    require('../agents/PronCoachAgent').PronCoachAgent.mockImplementation(() => ({
+      getSettings: jest.fn(() => ({ keepRecordings: false, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
+    }));
+
+    render(<PracticeLoop />);
+    expect(screen.getByLabelText(/Sound drill/)).toBeInTheDocument();
+    expect(screen.queryByLabelText(/Listen and repeat/)).not.toBeInTheDocument();
+  });
+
   it('should display timer during practice session', async () => {
     render(<PracticeLoop />);
     
@@ -144,7 +456,7 @@ describe('PracticeLoop Component', () => {
     
     expect(screen.getByTestId('feedback-score')).toHaveTextContent('85');
     expect(screen.getByTestId('feedback-grade')).toHaveTextContent('B');
-    expect(screen.getByTestId('feedback-item-0')).toHaveTextContent('Great job!');
+    expect(screen.getByTestId('feedback-item-0')).toHaveTextContent('score.great');
   });
 
   it('should allow starting a new session after completing one', async () => {
@@ -223,9 +535,15 @@ describe('PracticeLoop Component', () => {
     // Mock an error in processing
     const mockAgent = require('../agents/PronCoachAgent').PronCoachAgent;
     mockAgent.mockImplementation(() => ({
-      startPracticeSession: jest.fn(() => 'Test phrase'),
+      startPracticeSession: jest.fn(() => ({ text: 'Test phrase', mode: 'adaptive', level: 'basic', sound: null })),
       processRecording: jest.fn(() => Promise.reject(new Error('Processing failed'))),
       recordPracticeSession: jest.fn(),
+      beginRecording: jest.fn(),
+      getSettings: jest.fn(() => ({ keepRecordings: false, voiceActivity: DEFAULT_VOICE_ACTIVITY })),
+      loadPreviousTake: jest.fn(() => Promise.resolve(null)),
+      isReferenceAudioSupported: jest.fn(() => false),
+      getSoundMastery: jest.fn(() => []),
+      countDueReviews: jest.fn(() => 0),
     }));
     
     render(<PracticeLoop />);
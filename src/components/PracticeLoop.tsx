@@ -1,9 +1,31 @@
-import React, { useState, useEffect } from 'react';
-import { PronCoachAgent } from '../agents/PronCoachAgent';
+import React, { useState, useEffect, useRef } from 'react';
+import { PreviousTake, PronCoachAgent, RecordingResult } from '../agents/PronCoachAgent';
+import { PracticeMode, PracticeOptions, PracticeSession } from '../agents/PracticeAgent';
 import Recorder from './Recorder';
 import Feedback from './Feedback';
+import PracticeModePicker, { describePracticeSession, MODE_LABELS } from './PracticeModePicker';
+import MinimalPairDrill from './MinimalPairDrill';
+import SoundMasteryPanel from './SoundMasteryPanel';
+import ReviewSession from './ReviewSession';
+import ReferenceVoiceSettings from './ReferenceVoiceSettings';
+import VoiceActivitySettings from './VoiceActivitySettings';
+import SyllableText from './SyllableText';
+import IpaTranscription from './IpaTranscription';
+import { UserSettings } from '../utils/userSettings';
+import { textToIpaWords } from '../utils/ipa';
+import { MinimalPairItem } from '../utils/minimalPairDrill';
+import { ReviewItem } from '../utils/spacedRepetition';
+import { L1_PROFILES, NATIVE_LANGUAGES, NativeLanguage } from '../l1Profiles';
 import './Components.css';
 
+/**
+ * Number of reviews due today for the welcome screen
+ */
+function describeDueReviews(count: number): string {
+  if (count === 0) return '🔁 No reviews due today';
+  return `🔁 ${count} ${count === 1 ? 'review' : 'reviews'} due today`;
+}
+
 /**
  * Main practice interface component that orchestrates the pronunciation coaching session
  * Displays text for reading, handles recording, and shows feedback
@@ -11,17 +33,26 @@ import './Components.css';
 const PracticeLoop: React.FC = () => {
   const [agent] = useState(() => new PronCoachAgent());
   const [currentText, setCurrentText] = useState<string>('');
+  const [practiceOptions, setPracticeOptions] = useState<PracticeOptions>({ mode: 'adaptive' });
+  const [practiceSession, setPracticeSession] = useState<PracticeSession | null>(null);
+  const [pairDrill, setPairDrill] = useState<MinimalPairItem[] | null>(null);
+  const [reviewItems, setReviewItems] = useState<ReviewItem[] | null>(null);
   const [isRecording, setIsRecording] = useState<boolean>(false);
-  const [feedback, setFeedback] = useState<{
-    transcription: string;
-    score: number;
-    feedback: string[];
-    letterGrade: string;
-  } | null>(null);
+  const [feedback, setFeedback] = useState<RecordingResult | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
+  const [lastRecording, setLastRecording] = useState<Blob | null>(null);
+  const [lastDuration, setLastDuration] = useState<number | null>(null);
+  const [previousTake, setPreviousTake] = useState<PreviousTake | null>(null);
+  const [settings, setSettings] = useState<UserSettings>(() => agent.getSettings());
+  const [referenceSupported] = useState<boolean>(() => agent.isReferenceAudioSupported());
+  const [, setVoicesLoaded] = useState<number>(0);
+  const [listening, setListening] = useState<boolean>(false);
   const [sessionStarted, setSessionStarted] = useState<boolean>(false);
   const [timer, setTimer] = useState<number>(30);
   const [timerActive, setTimerActive] = useState<boolean>(false);
+  const recordingStartedAt = useRef<number | null>(null);
+  // Bumped for every new or abandoned session so a late reference playback is ignored
+  const sessionToken = useRef<number>(0);
 
   // Timer effect for 30-second reading countdown
   useEffect(() => {
@@ -44,16 +75,60 @@ const PracticeLoop: React.FC = () => {
     };
   }, [timerActive, timer, isRecording]);
 
+  // Re-render when the browser finishes loading its speech synthesis voices
+  useEffect(() => {
+    if (!referenceSupported) return;
+    return agent.onReferenceVoicesChanged(() => setVoicesLoaded(count => count + 1));
+  }, [agent, referenceSupported]);
+
+  /**
+   * Read a text or word aloud as a pronunciation reference
+   */
+  const playReference = (text: string): Promise<void> => {
+    return agent.playReference(text).catch(error => {
+      console.warn('Could not play reference audio:', error);
+    });
+  };
+
   /**
-   * Start a new practice session with fresh text
+   * Start a new practice session with fresh text in the chosen mode
+   * In listen-and-repeat mode the reference is played before the reading time starts;
+   * minimal-pairs and review modes start a word drill or the due reviews instead of a text
    */
   const startNewSession = (): void => {
-    const newText = agent.startPracticeSession();
-    setCurrentText(newText);
+    const token = ++sessionToken.current;
+    if (practiceOptions.mode === 'pairs' || practiceOptions.mode === 'review') {
+      setPairDrill(practiceOptions.mode === 'pairs' ? agent.startMinimalPairDrill() : null);
+      setReviewItems(practiceOptions.mode === 'review' ? agent.getDueReviews() : null);
+      setPracticeSession(null);
+      setCurrentText('');
+      setFeedback(null);
+      setSessionStarted(true);
+      return;
+    }
+
+    setPairDrill(null);
+    setReviewItems(null);
+    const session = agent.startPracticeSession(practiceOptions);
+    setPracticeSession(session);
+    setCurrentText(session.text);
     setFeedback(null);
+    setLastRecording(null);
+    setPreviousTake(null);
     setSessionStarted(true);
     setTimer(30);
-    setTimerActive(true);
+
+    if (practiceOptions.mode === 'listen' && referenceSupported) {
+      setListening(true);
+      setTimerActive(false);
+      playReference(session.text).then(() => {
+        if (sessionToken.current !== token) return;
+        setListening(false);
+        setTimerActive(true);
+      });
+    } else {
+      setTimerActive(true);
+    }
   };
 
   /**
@@ -64,13 +139,25 @@ const PracticeLoop: React.FC = () => {
     
     setLoading(true);
     setTimerActive(false);
+    const elapsedSeconds = recordingStartedAt.current !== null
+      ? Math.round((Date.now() - recordingStartedAt.current) / 100) / 10
+      : null;
     
     try {
       const result = await agent.processRecording(audioBlob, currentText);
+      // Prefer the decoded length; the wall clock also counts any silence trimmed off
+      const durationSeconds = result.audioAnalysis
+        ? Math.round(result.audioAnalysis.duration * 10) / 10
+        : elapsedSeconds;
       setFeedback(result);
+      setLastRecording(audioBlob);
+      setLastDuration(durationSeconds);
       
-      // Record the session for statistics
-      agent.recordPracticeSession(result.score);
+      // Look up an earlier take of this text before this one joins the history
+      setPreviousTake(await agent.loadPreviousTake(currentText));
+      
+      // Record the session for statistics and history
+      agent.recordPracticeSession(result, currentText, durationSeconds, audioBlob);
     } catch (error) {
       console.error('Error processing recording:', error);
       alert('Sorry, there was an error processing your recording. Please try again.');
@@ -79,6 +166,17 @@ const PracticeLoop: React.FC = () => {
     }
   };
 
+  /**
+   * Track recording state and let live transcription start listening
+   */
+  const handleRecordingStateChange = (recording: boolean): void => {
+    setIsRecording(recording);
+    if (recording) {
+      recordingStartedAt.current = Date.now();
+      agent.beginRecording();
+    }
+  };
+
   /**
    * Handle stop recording from timer or manual stop
    */
@@ -91,14 +189,31 @@ const PracticeLoop: React.FC = () => {
    * Reset to initial state
    */
   const resetSession = (): void => {
+    sessionToken.current++;
+    if (referenceSupported) {
+      agent.stopReference();
+    }
+    setListening(false);
     setSessionStarted(false);
+    setPracticeSession(null);
+    setPairDrill(null);
+    setReviewItems(null);
     setCurrentText('');
     setFeedback(null);
+    setLastRecording(null);
+    setPreviousTake(null);
     setTimer(30);
     setTimerActive(false);
     setIsRecording(false);
   };
 
+  /**
+   * Change and remember learner preferences
+   */
+  const handleSettingsChange = (changes: Partial<UserSettings>): void => {
+    setSettings(agent.updateSettings(changes));
+  };
+
   /**
    * Format timer display
    */
@@ -127,6 +242,37 @@ const PracticeLoop: React.FC = () => {
               <li>Get instant feedback and tips for improvement!</li>
             </ol>
           </div>
+          <p className="reviews-due">{describeDueReviews(agent.countDueReviews())}</p>
+          <SoundMasteryPanel estimates={agent.getSoundMastery()} />
+          <PracticeModePicker
+            value={practiceOptions}
+            onChange={setPracticeOptions}
+            modes={(Object.keys(MODE_LABELS) as PracticeMode[]).filter(mode => mode !== 'listen' || referenceSupported)}
+          />
+          <label className="setting-toggle">
+            🌍 My first language:{' '}
+            <select
+              value={settings.nativeLanguage ?? ''}
+              onChange={event => handleSettingsChange({ nativeLanguage: (event.target.value || null) as NativeLanguage | null })}
+            >
+              <option value="">Not set</option>
+              {NATIVE_LANGUAGES.map(language => (
+                <option key={language} value={language}>{L1_PROFILES[language].name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="setting-toggle">
+            <input
+              type="checkbox"
+              checked={settings.keepRecordings}
+              onChange={event => handleSettingsChange({ keepRecordings: event.target.checked })}
+            />
+            {' '}💾 Keep my recordings on this device to compare takes later
+          </label>
+          <VoiceActivitySettings
+            value={settings.voiceActivity}
+            onChange={voiceActivity => handleSettingsChange({ voiceActivity })}
+          />
           <button 
             className="button primary" 
             onClick={startNewSession}
@@ -135,6 +281,53 @@ const PracticeLoop: React.FC = () => {
             🚀 Start Practice Session
           </button>
         </div>
+      ) : pairDrill ? (
+        // Minimal-pair drill interface
+        <div className="practice-session">
+          <div className="session-header">
+            <span className="session-mode">{MODE_LABELS.pairs}</span>
+            <button 
+              className="button" 
+              onClick={resetSession}
+              style={{ marginLeft: 'auto' }}
+            >
+              🔄 New Drill
+            </button>
+          </div>
+          <MinimalPairDrill
+            items={pairDrill}
+            onScoreAttempt={(audioBlob, item) => agent.scoreMinimalPairAttempt(audioBlob, item)}
+            onComplete={results => agent.recordMinimalPairDrill(results)}
+            onRecordingStart={() => agent.beginRecording()}
+            onPlayReference={referenceSupported ? playReference : undefined}
+            voiceActivity={settings.voiceActivity}
+            microphone={settings.microphone}
+            onMicrophoneChange={microphone => handleSettingsChange({ microphone })}
+          />
+        </div>
+      ) : reviewItems ? (
+        // Review interface
+        <div className="practice-session">
+          <div className="session-header">
+            <span className="session-mode">{MODE_LABELS.review}</span>
+            <button 
+              className="button" 
+              onClick={resetSession}
+              style={{ marginLeft: 'auto' }}
+            >
+              🏠 Done
+            </button>
+          </div>
+          <ReviewSession
+            items={reviewItems}
+            onReviewAttempt={(audioBlob, item) => agent.reviewAttempt(audioBlob, item)}
+            onRecordingStart={() => agent.beginRecording()}
+            onPlayReference={referenceSupported ? playReference : undefined}
+            voiceActivity={settings.voiceActivity}
+            microphone={settings.microphone}
+            onMicrophoneChange={microphone => handleSettingsChange({ microphone })}
+          />
+        </div>
       ) : (
         // Practice session interface
         <div className="practice-session">
@@ -146,6 +339,9 @@ const PracticeLoop: React.FC = () => {
               </span>
               {timerActive && <span className="timer-status">Reading Time</span>}
             </div>
+            {practiceSession && (
+              <span className="session-mode">{describePracticeSession(practiceSession)}</span>
+            )}
             <button 
               className="button" 
               onClick={resetSession}
@@ -159,8 +355,63 @@ const PracticeLoop: React.FC = () => {
           <div className="practice-text card">
             <h3>📖 Read this text aloud:</h3>
             <div className="text-display">
-              {currentText}
+              {settings.showSyllables ? <SyllableText text={currentText} /> : currentText}
             </div>
+            <label className="setting-toggle">
+              <input
+                type="checkbox"
+                checked={settings.showSyllables}
+                onChange={event => handleSettingsChange({ showSyllables: event.target.checked })}
+              />
+              {' '}🔡 Show syllables and stress
+            </label>
+            <label className="setting-toggle">
+              <input
+                type="checkbox"
+                checked={settings.showIpa}
+                onChange={event => handleSettingsChange({ showIpa: event.target.checked })}
+              />
+              {' '}🔤 Show IPA
+            </label>
+            {settings.showIpa && (
+              <IpaTranscription words={textToIpaWords(currentText)} label="Practice text in IPA" />
+            )}
+            {referenceSupported && (
+              <div className="reference-audio">
+                <button
+                  type="button"
+                  className="button"
+                  onClick={() => playReference(currentText)}
+                  disabled={listening}
+                >
+                  🔊 Play text
+                </button>
+                <div className="reference-words">
+                  {currentText.split(/\s+/).filter(Boolean).map((word, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      className="word-chip"
+                      onClick={() => playReference(word)}
+                      disabled={listening}
+                      aria-label={`Play "${word}"`}
+                    >
+                      {word}
+                    </button>
+                  ))}
+                </div>
+                <ReferenceVoiceSettings
+                  value={settings.referenceVoice}
+                  voices={agent.getReferenceVoices(settings.referenceVoice.accent)}
+                  onChange={referenceVoice => handleSettingsChange({ referenceVoice })}
+                />
+              </div>
+            )}
+            {listening && (
+              <p className="instruction">
+                <strong>👂 Listen carefully...</strong> Recording unlocks when the reading ends.
+              </p>
+            )}
             {timerActive && (
               <p className="instruction">
                 <strong>Start reading now!</strong> You have {timer} seconds.
@@ -172,9 +423,12 @@ const PracticeLoop: React.FC = () => {
           <div className="recording-section card">
             <Recorder
               onRecordingComplete={handleRecordingComplete}
-              onRecordingStateChange={setIsRecording}
-              disabled={loading}
+              onRecordingStateChange={handleRecordingStateChange}
+              disabled={loading || listening}
               maxDuration={30}
+              voiceActivity={settings.voiceActivity}
+              microphone={settings.microphone}
+              onMicrophoneChange={microphone => handleSettingsChange({ microphone })}
             />
             
             {loading && (
@@ -192,6 +446,15 @@ const PracticeLoop: React.FC = () => {
               feedback={feedback.feedback}
               letterGrade={feedback.letterGrade}
               targetText={currentText}
+              wordResults={feedback.wordResults}
+              audioBlob={lastRecording}
+              recordingDuration={lastDuration}
+              fluency={feedback.fluency}
+              prosody={feedback.prosody}
+              showIpa={settings.showIpa}
+              onShowIpaChange={showIpa => handleSettingsChange({ showIpa })}
+              previousTake={previousTake}
+              onPlayReference={referenceSupported ? playReference : undefined}
             />
           )}
         </div>
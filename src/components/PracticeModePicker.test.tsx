@@ -0,0 +1,78 @@
+/**
+ * Tests for PracticeModePicker component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import PracticeModePicker, { describePracticeSession } from './PracticeModePicker';
+
+describe('PracticeModePicker Component', () => {
+  it('should show the six practice modes', () => {
+    render(<PracticeModePicker value={{ mode: 'adaptive' }} onChange={jest.fn()} />);
+
+    expect(screen.getByLabelText(/Adaptive/)).toBeChecked();
+    expect(screen.getByLabelText(/By level/)).not.toBeChecked();
+    expect(screen.getByLabelText(/Sound drill/)).not.toBeChecked();
+    expect(screen.getByLabelText(/Listen and repeat/)).not.toBeChecked();
+    expect(screen.getByLabelText(/Minimal pairs/)).not.toBeChecked();
+    expect(screen.getByLabelText(/Review/)).not.toBeChecked();
+  });
+
+  it('should only show the given modes', () => {
+    render(<PracticeModePicker value={{ mode: 'adaptive' }} onChange={jest.fn()} modes={['adaptive', 'level']} />);
+
+    expect(screen.getAllByRole('radio')).toHaveLength(2);
+    expect(screen.queryByLabelText(/Listen and repeat/)).not.toBeInTheDocument();
+  });
+
+  it('should default to the basic level when switching to level mode', () => {
+    const onChange = jest.fn();
+    render(<PracticeModePicker value={{ mode: 'adaptive' }} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText(/By level/));
+    expect(onChange).toHaveBeenCalledWith({ mode: 'level', level: 'basic' });
+  });
+
+  it('should switch to minimal pairs without a level or sound', () => {
+    const onChange = jest.fn();
+    render(<PracticeModePicker value={{ mode: 'sound', sound: 'th' }} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText(/Minimal pairs/));
+    expect(onChange).toHaveBeenCalledWith({ mode: 'pairs' });
+  });
+
+  it('should switch to review without a level or sound', () => {
+    const onChange = jest.fn();
+    render(<PracticeModePicker value={{ mode: 'level', level: 'basic' }} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText(/Review/));
+    expect(onChange).toHaveBeenCalledWith({ mode: 'review' });
+  });
+
+  it('should offer a level choice in level mode', () => {
+    const onChange = jest.fn();
+    render(<PracticeModePicker value={{ mode: 'level', level: 'basic' }} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText(/Level:/), { target: { value: 'intermediate' } });
+    expect(onChange).toHaveBeenCalledWith({ mode: 'level', level: 'intermediate' });
+  });
+
+  it('should offer a sound choice in sound mode', () => {
+    const onChange = jest.fn();
+    render(<PracticeModePicker value={{ mode: 'sound', sound: 'th' }} onChange={onChange} />);
+
+    expect(screen.queryByLabelText(/Level:/)).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText(/Sound:/), { target: { value: 'v_w' } });
+    expect(onChange).toHaveBeenCalledWith({ mode: 'sound', sound: 'v_w' });
+  });
+
+  describe('describePracticeSession', () => {
+    it('should name the mode with its level or sound', () => {
+      expect(describePracticeSession({ text: '', mode: 'level', level: 'advanced', sound: null }))
+        .toBe('📚 By level · Advanced');
+      expect(describePracticeSession({ text: '', mode: 'adaptive', level: null, sound: 'r_l' }))
+        .toBe('🎲 Adaptive · R / L (right, light)');
+    });
+  });
+});
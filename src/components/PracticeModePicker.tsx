@@ -0,0 +1,125 @@
+import React from 'react';
+import { PracticeMode, PracticeOptions, PracticeSession } from '../agents/PracticeAgent';
+import { FocusSound, PhraseLevel } from '../phrases';
+import './Components.css';
+
+interface PracticeModePickerProps {
+  value: PracticeOptions;
+  onChange: (options: PracticeOptions) => void;
+  modes?: PracticeMode[]; // modes to offer, all of them by default
+}
+
+export const MODE_LABELS: { [mode in PracticeMode]: string } = {
+  adaptive: '🎲 Adaptive',
+  level: '📚 By level',
+  sound: '🔤 Sound drill',
+  listen: '👂 Listen and repeat',
+  pairs: '👯 Minimal pairs',
+  review: '🔁 Review'
+};
+
+export const LEVEL_LABELS: { [level in PhraseLevel]: string } = {
+  basic: 'Basic',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced'
+};
+
+export const SOUND_LABELS: { [sound in FocusSound]: string } = {
+  th: 'TH (think, this)',
+  r_l: 'R / L (right, light)',
+  v_w: 'V / W (vest, west)',
+  s_sh: 'S / SH (sip, ship)'
+};
+
+const MODE_DESCRIPTIONS: { [mode in PracticeMode]: string } = {
+  adaptive: 'Texts follow your progress and mix in sounds you miss',
+  level: 'Choose how challenging the texts are',
+  sound: 'Practice one difficult sound pair',
+  listen: 'Hear each text read aloud first, then repeat it',
+  pairs: 'Say words like ship / sheep and check which one was heard',
+  review: 'Repeat the words you missed before, when they are due'
+};
+
+/**
+ * Short description of the active mode for the session header
+ * e.g. "📚 By level · Advanced" or "🎲 Adaptive · TH (think, this)"
+ */
+export function describePracticeSession(session: PracticeSession): string {
+  const detail = session.sound ? SOUND_LABELS[session.sound] : session.level ? LEVEL_LABELS[session.level] : '';
+  return detail ? `${MODE_LABELS[session.mode]} · ${detail}` : MODE_LABELS[session.mode];
+}
+
+/**
+ * Lets the learner choose between adaptive texts, a fixed level, a sound drill, listen and
+ * repeat, minimal pairs or a review of missed words
+ */
+const PracticeModePicker: React.FC<PracticeModePickerProps> = ({
+  value,
+  onChange,
+  modes = Object.keys(MODE_LABELS) as PracticeMode[]
+}) => {
+  /**
+   * Switch mode, starting from the first level or sound when none was chosen yet
+   */
+  const selectMode = (mode: PracticeMode): void => {
+    if (mode === 'level') {
+      onChange({ mode, level: value.level || 'basic' });
+    } else if (mode === 'sound') {
+      onChange({ mode, sound: value.sound || 'th' });
+    } else {
+      onChange({ mode });
+    }
+  };
+
+  return (
+    <fieldset className="mode-picker">
+      <legend>Choose your practice mode:</legend>
+
+      <div className="mode-options">
+        {modes.map(mode => (
+          <label key={mode} className={`mode-option ${value.mode === mode ? 'selected' : ''}`}>
+            <input
+              type="radio"
+              name="practice-mode"
+              value={mode}
+              checked={value.mode === mode}
+              onChange={() => selectMode(mode)}
+            />
+            <span className="mode-label">{MODE_LABELS[mode]}</span>
+            <span className="mode-description">{MODE_DESCRIPTIONS[mode]}</span>
+          </label>
+        ))}
+      </div>
+
+      {value.mode === 'level' && (
+        <label className="mode-choice">
+          Level:{' '}
+          <select
+            value={value.level}
+            onChange={event => onChange({ mode: 'level', level: event.target.value as PhraseLevel })}
+          >
+            {(Object.keys(LEVEL_LABELS) as PhraseLevel[]).map(level => (
+              <option key={level} value={level}>{LEVEL_LABELS[level]}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {value.mode === 'sound' && (
+        <label className="mode-choice">
+          Sound:{' '}
+          <select
+            value={value.sound}
+            onChange={event => onChange({ mode: 'sound', sound: event.target.value as FocusSound })}
+          >
+            {(Object.keys(SOUND_LABELS) as FocusSound[]).map(sound => (
+              <option key={sound} value={sound}>{SOUND_LABELS[sound]}</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </fieldset>
+  );
+};
+
+export default PracticeModePicker;
@@ -0,0 +1,120 @@
+/**
+ * Tests for RecordedItemsDrill component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import RecordedItemsDrill from './RecordedItemsDrill';
+
+// Mock the Recorder component: each click completes a recording
+let mockRecorderMounts = 0;
+jest.mock('./Recorder', () => {
+  const { useEffect } = jest.requireActual('react');
+  return function MockRecorder({ onRecordingComplete, onRecordingStateChange, maxDuration, disabled }: any) {
+    useEffect(() => {
+      mockRecorderMounts++;
+    }, []);
+    return (
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => {
+          onRecordingStateChange(true);
+          onRecordingComplete(new Blob(['test'], { type: 'audio/wav' }));
+        }}
+      >
+        Record ({maxDuration}s)
+      </button>
+    );
+  };
+});
+
+describe('RecordedItemsDrill Component', () => {
+  const renderDrill = (props: Partial<React.ComponentProps<typeof RecordedItemsDrill<string, string>>> = {}) => render(
+    <RecordedItemsDrill<string, string>
+      items={['one', 'two']}
+      onAttempt={async (audioBlob, item) => `said ${item}`}
+      renderPrompt={item => <h3>Say: {item}</h3>}
+      renderResult={result => <p>{result}</p>}
+      renderSummary={results => <p>Done: {results.join(', ')}</p>}
+      emptyMessage="Nothing to practice"
+      itemLabel="Item"
+      nextLabel="Next item"
+      loadingMessage="Scoring..."
+      maxDuration={7}
+      {...props}
+    />
+  );
+
+  beforeEach(() => {
+    mockRecorderMounts = 0;
+  });
+
+  it('should prompt for the first item', () => {
+    renderDrill();
+
+    expect(screen.getByText('Item 1 of 2')).toBeInTheDocument();
+    expect(screen.getByRole('heading')).toHaveTextContent('Say: one');
+    expect(screen.getByRole('button', { name: 'Record (7s)' })).toBeEnabled();
+  });
+
+  it('should show the result and lock the recorder until the next item', async () => {
+    const onRecordingStart = jest.fn();
+    renderDrill({ onRecordingStart });
+
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('said one');
+    expect(onRecordingStart).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: /Record/ })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next item' }));
+    expect(screen.getByRole('heading')).toHaveTextContent('Say: two');
+    expect(screen.getByRole('button', { name: /Record/ })).toBeEnabled();
+  });
+
+  it('should keep one recorder mounted for every item', async () => {
+    renderDrill();
+
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Next item' }));
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    await screen.findByRole('status');
+
+    expect(mockRecorderMounts).toBe(1);
+  });
+
+  it('should show the summary and report the results after the last item', async () => {
+    const onComplete = jest.fn();
+    renderDrill({ onComplete });
+
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Next item' }));
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    fireEvent.click(await screen.findByRole('button', { name: '📊 See results' }));
+
+    expect(screen.getByText('Done: said one, said two')).toBeInTheDocument();
+    expect(onComplete).toHaveBeenCalledWith(['said one', 'said two']);
+  });
+
+  it('should let the learner try again when scoring fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const onAttempt = jest.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue('said one');
+    renderDrill({ onAttempt });
+
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    await waitFor(() => expect(window.alert).toHaveBeenCalled());
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    expect(await screen.findByRole('status')).toHaveTextContent('said one');
+  });
+
+  it('should show the empty message when there are no items', () => {
+    renderDrill({ items: [] });
+
+    expect(screen.getByText('Nothing to practice')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import Recorder from './Recorder';
+import { MicrophoneOptions } from '../utils/microphone';
+import { VoiceActivityOptions } from '../utils/voiceActivity';
+import './Components.css';
+
+export interface RecordedItemsDrillProps<Item, Result> {
+  items: Item[];
+  onAttempt: (audioBlob: Blob, item: Item) => Promise<Result>;
+  onComplete?: (results: Result[]) => void;
+  renderPrompt: (item: Item) => React.ReactNode; // what to say, with any play buttons
+  renderResult: (result: Result) => React.ReactNode; // how the attempt went, announced as a status
+  renderSummary: (results: Result[]) => React.ReactNode; // shown after the last item
+  emptyMessage: string;
+  itemLabel: string; // e.g. "Word" for "Word 1 of 8"
+  nextLabel: string;
+  loadingMessage: string;
+  maxDuration: number; // seconds allowed for one item
+  className?: string;
+  onRecordingStart?: () => void;
+  voiceActivity?: VoiceActivityOptions;
+  microphone?: MicrophoneOptions;
+  onMicrophoneChange?: (options: MicrophoneOptions) => void;
+}
+
+/**
+ * Steps through items one recording at a time: prompt, record, show the result,
+ * then move on, with a summary after the last item
+ * A single Recorder stays mounted for the whole drill so the microphone stays open
+ * and voice activity can start each item
+ */
+function RecordedItemsDrill<Item, Result>({
+  items,
+  onAttempt,
+  onComplete,
+  renderPrompt,
+  renderResult,
+  renderSummary,
+  emptyMessage,
+  itemLabel,
+  nextLabel,
+  loadingMessage,
+  maxDuration,
+  className = '',
+  onRecordingStart,
+  voiceActivity,
+  microphone,
+  onMicrophoneChange
+}: RecordedItemsDrillProps<Item, Result>): JSX.Element {
+  const [position, setPosition] = useState<number>(0);
+  const [results, setResults] = useState<Result[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [finished, setFinished] = useState<boolean>(false);
+
+  const item: Item | undefined = items[position];
+  const result: Result | undefined = results[position];
+  const isLast = position === items.length - 1;
+  const classes = `recorded-items-drill card ${className}`.trim();
+
+  /**
+   * Score the recording of the current item
+   */
+  const handleRecordingComplete = async (audioBlob: Blob): Promise<void> => {
+    if (item === undefined || result !== undefined) return;
+
+    setLoading(true);
+    try {
+      const scored = await onAttempt(audioBlob, item);
+      setResults([...results, scored]);
+    } catch (error) {
+      console.error('Error scoring drill attempt:', error);
+      alert('Sorry, there was an error processing your recording. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Move on to the next item, or show the summary after the last one
+   */
+  const handleNext = (): void => {
+    if (isLast) {
+      setFinished(true);
+      onComplete?.(results);
+    } else {
+      setPosition(position + 1);
+    }
+  };
+
+  if (item === undefined) {
+    return (
+      <div className={classes}>
+        <p>{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  if (finished) {
+    return <div className={classes}>{renderSummary(results)}</div>;
+  }
+
+  return (
+    <div className={classes}>
+      <p className="drill-progress">{itemLabel} {position + 1} of {items.length}</p>
+      {renderPrompt(item)}
+
+      {result !== undefined && (
+        <>
+          <div role="status">{renderResult(result)}</div>
+          <button type="button" className="button primary" onClick={handleNext}>
+            {isLast ? '📊 See results' : nextLabel}
+          </button>
+        </>
+      )}
+
+      <Recorder
+        onRecordingComplete={handleRecordingComplete}
+        onRecordingStateChange={recording => {
+          if (recording) onRecordingStart?.();
+        }}
+        disabled={loading || result !== undefined}
+        maxDuration={maxDuration}
+        voiceActivity={voiceActivity}
+        microphone={microphone}
+        onMicrophoneChange={onMicrophoneChange}
+      />
+
+      {loading && (
+        <div className="loading">
+          <p>{loadingMessage}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RecordedItemsDrill;
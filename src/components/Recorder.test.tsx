@@ -213,4 +213,67 @@ describe('Recorder Component', () => {
       expect(screen.getByRole('button', { name: /Start Recording/i })).toBeInTheDocument();
     });
   });
+  describe('microphone settings', () => {
+    const usbMic = { deviceId: 'usb-mic', kind: 'audioinput', label: 'USB Microphone' } as MediaDeviceInfo;
+    const speaker = { deviceId: 'speaker', kind: 'audiooutput', label: 'Speakers' } as MediaDeviceInfo;
+    const microphone = {
+      deviceId: 'usb-mic',
+      echoCancellation: true,
+      noiseSuppression: false,
+      autoGainControl: true
+    };
+
+    beforeEach(() => {
+      (navigator.mediaDevices.getUserMedia as jest.Mock).mockResolvedValue({ getTracks: () => [] });
+      Object.assign(navigator.mediaDevices, { enumerateDevices: jest.fn().mockResolvedValue([usbMic, speaker]) });
+    });
+
+    afterEach(() => {
+      delete (navigator.mediaDevices as any).enumerateDevices;
+    });
+
+    it('should open the saved microphone with the saved processing options', async () => {
+      render(<Recorder {...defaultProps} microphone={microphone} />);
+
+      fireEvent.click(screen.getByText('Allow Microphone'));
+
+      await screen.findByText('🎤 Start Recording');
+      expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledWith({
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: false,
+          autoGainControl: true,
+          deviceId: { ideal: 'usb-mic' }
+        }
+      });
+    });
+
+    it('should list the audio inputs once permission is granted', async () => {
+      const onMicrophoneChange = jest.fn();
+      render(<Recorder {...defaultProps} microphone={microphone} onMicrophoneChange={onMicrophoneChange} />);
+
+      fireEvent.click(screen.getByText('Allow Microphone'));
+
+      expect(await screen.findByRole('option', { name: 'USB Microphone' })).toBeInTheDocument();
+      expect(screen.queryByRole('option', { name: 'Speakers' })).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText(/Noise suppression/));
+      expect(onMicrophoneChange).toHaveBeenCalledWith({ ...microphone, noiseSuppression: true });
+    });
+
+    it('should reopen the microphone when the choice changes', async () => {
+      const { rerender } = render(<Recorder {...defaultProps} microphone={microphone} />);
+
+      fireEvent.click(screen.getByText('Allow Microphone'));
+      await screen.findByText('🎤 Start Recording');
+
+      rerender(<Recorder {...defaultProps} microphone={{ ...microphone, deviceId: null }} />);
+
+      await waitFor(() => {
+        expect(navigator.mediaDevices.getUserMedia).toHaveBeenLastCalledWith({
+          audio: { echoCancellation: true, noiseSuppression: false, autoGainControl: true }
+        });
+      });
+    });
+  });
 });
\ No newline at end of file
@@ -1,4 +1,20 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import LevelMeter from './LevelMeter';
+import MicrophoneSettings from './MicrophoneSettings';
+import {
+  buildAudioConstraints,
+  DEFAULT_MICROPHONE,
+  listMicrophones,
+  MicrophoneOptions,
+  onMicrophonesChanged
+} from '../utils/microphone';
+import { createStreamAnalyser } from '../utils/streamAnalyser';
+import {
+  DEFAULT_VOICE_ACTIVITY,
+  trimRecordingSilence,
+  VoiceActivityDetector,
+  VoiceActivityOptions
+} from '../utils/voiceActivity';
 import './Components.css';
 
 interface RecorderProps {
@@ -6,21 +22,32 @@ interface RecorderProps {
   onRecordingStateChange: (isRecording: boolean) => void;
   disabled?: boolean;
   maxDuration?: number; // in seconds
+  voiceActivity?: VoiceActivityOptions;
+  microphone?: MicrophoneOptions;
+  onMicrophoneChange?: (options: MicrophoneOptions) => void; // shows the microphone picker when given
 }
 
+const VOICE_ACTIVITY_INTERVAL_MS = 30;
+
 /**
  * Audio recording component that handles microphone input and audio capture
- * Provides start/stop recording functionality with visual feedback
+ * Provides start/stop recording functionality with visual feedback and a live input level meter
+ * Voice activity detection can start and stop recording automatically and trims silence
  */
 const Recorder: React.FC<RecorderProps> = ({
   onRecordingComplete,
   onRecordingStateChange,
   disabled = false,
-  maxDuration = 30
+  maxDuration = 30,
+  voiceActivity = DEFAULT_VOICE_ACTIVITY,
+  microphone = DEFAULT_MICROPHONE,
+  onMicrophoneChange
 }) => {
   const [isRecording, setIsRecording] = useState<boolean>(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [recordingTime, setRecordingTime] = useState<number>(0);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -28,26 +55,46 @@ const Recorder: React.FC<RecorderProps> = ({
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
   /**
-   * Request microphone permission
+   * Request microphone permission and open the chosen microphone
+   * Any previously opened microphone is released once the new one is ready
    */
   const requestPermission = useCallback(async (): Promise<boolean> => {
     try {
+      const previousStream = streamRef.current;
       const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        } 
+        audio: buildAudioConstraints(microphone)
       });
+      if (previousStream && previousStream !== stream) {
+        previousStream.getTracks().forEach(track => track.stop());
+      }
       streamRef.current = stream;
+      setStream(stream);
       setHasPermission(true);
+      // Device labels are only available once permission is granted
+      setDevices(await listMicrophones());
       return true;
     } catch (error) {
       console.error('Microphone permission denied:', error);
       setHasPermission(false);
       return false;
     }
-  }, []);
+  }, [microphone]);
+
+  // Reopen the microphone when the device or processing options change, once any recording is over
+  const openedMicrophone = useRef(microphone);
+  useEffect(() => {
+    if (openedMicrophone.current === microphone || hasPermission !== true || isRecording) return;
+    openedMicrophone.current = microphone;
+    requestPermission();
+  }, [microphone, hasPermission, isRecording, requestPermission]);
+
+  // Keep the device list current as microphones are plugged in and removed
+  useEffect(() => {
+    if (hasPermission !== true) return;
+    return onMicrophonesChanged(() => {
+      listMicrophones().then(setDevices);
+    });
+  }, [hasPermission]);
 
   /**
    * Start recording audio
@@ -88,7 +135,10 @@ const Recorder: React.FC<RecorderProps> = ({
       });
       
       if (audioBlob.size > 0) {
-        await onRecordingComplete(audioBlob);
+        const recording = voiceActivity.trimSilence
+          ? await trimRecordingSilence(audioBlob, voiceActivity)
+          : audioBlob;
+        await onRecordingComplete(recording);
       }
       
       setRecordingTime(0);
@@ -120,7 +170,7 @@ const Recorder: React.FC<RecorderProps> = ({
         return newTime;
       });
     }, 1000);
-  }, [hasPermission, requestPermission, disabled, maxDuration, onRecordingComplete, onRecordingStateChange, isRecording]);
+  }, [hasPermission, requestPermission, disabled, maxDuration, onRecordingComplete, onRecordingStateChange, isRecording, voiceActivity]);
 
   /**
    * Stop recording audio
@@ -138,6 +188,43 @@ const Recorder: React.FC<RecorderProps> = ({
     }
   }, [isRecording, onRecordingStateChange]);
 
+  // The detector effect below calls the latest start/stop without restarting on every render
+  const startRecordingRef = useRef(startRecording);
+  const stopRecordingRef = useRef(stopRecording);
+  startRecordingRef.current = startRecording;
+  stopRecordingRef.current = stopRecording;
+
+  const detectingVoice = hasPermission === true && !disabled &&
+    (isRecording ? voiceActivity.autoStop : voiceActivity.autoStart);
+
+  /**
+   * Watch the microphone for speech to start or end the recording automatically
+   */
+  useEffect(() => {
+    if (!detectingVoice || !stream) return;
+
+    const analyser = createStreamAnalyser(stream, 1024);
+    if (!analyser) return;
+
+    const detector = new VoiceActivityDetector(voiceActivity);
+    const interval = setInterval(() => {
+      const state = detector.update(analyser.read(), Date.now());
+      if (isRecording ? state.finished : state.speaking) {
+        clearInterval(interval);
+        if (isRecording) {
+          stopRecordingRef.current();
+        } else {
+          startRecordingRef.current();
+        }
+      }
+    }, VOICE_ACTIVITY_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      analyser.close();
+    };
+  }, [detectingVoice, isRecording, voiceActivity, stream]);
+
   /**
    * Format recording time display
    */
@@ -150,7 +237,7 @@ const Recorder: React.FC<RecorderProps> = ({
   /**
    * Clean up resources
    */
-  React.useEffect(() => {
+  useEffect(() => {
     return () => {
       if (timerRef.current) {
         clearInterval(timerRef.current);
@@ -194,13 +281,21 @@ const Recorder: React.FC<RecorderProps> = ({
         {hasPermission === true && (
           <div className="recording-controls">
             {!isRecording ? (
-              <button
-                className="button primary record-button"
-                onClick={startRecording}
-                disabled={disabled}
-              >
-                🎤 Start Recording
-              </button>
+              <>
+                <button
+                  className="button primary record-button"
+                  onClick={startRecording}
+                  disabled={disabled}
+                >
+                  🎤 Start Recording
+                </button>
+                {detectingVoice && (
+                  <p className="voice-activity-hint">👂 Start speaking and recording begins automatically</p>
+                )}
+                {onMicrophoneChange && (
+                  <MicrophoneSettings value={microphone} devices={devices} onChange={onMicrophoneChange} />
+                )}
+              </>
             ) : (
               <div className="recording-active">
                 <button
@@ -216,6 +311,12 @@ const Recorder: React.FC<RecorderProps> = ({
                     {formatRecordingTime(recordingTime)} / {formatRecordingTime(maxDuration)}
                   </span>
                 </div>
+                {stream && <LevelMeter stream={stream} />}
+                {voiceActivity.autoStop && (
+                  <p className="voice-activity-hint">
+                    🤫 Recording stops after {voiceActivity.silenceMs / 1000}s of silence
+                  </p>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,79 @@
+/**
+ * Tests for RecordingPlayer component
+ */
+
+import React, { createRef } from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import RecordingPlayer, { RecordingPlayerHandle } from './RecordingPlayer';
+
+describe('RecordingPlayer Component', () => {
+  const audioBlob = new Blob(['audio'], { type: 'audio/webm' });
+  let play: jest.SpyInstance;
+  let pause: jest.SpyInstance;
+
+  beforeEach(() => {
+    play = jest.spyOn(window.HTMLMediaElement.prototype, 'play').mockImplementation(() => Promise.resolve());
+    pause = jest.spyOn(window.HTMLMediaElement.prototype, 'pause').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    play.mockRestore();
+    pause.mockRestore();
+  });
+
+  it('should create an object URL for the recording', () => {
+    render(<RecordingPlayer audioBlob={audioBlob} label="This take" />);
+    expect(URL.createObjectURL).toHaveBeenCalledWith(audioBlob);
+  });
+
+  it('should play the recording', () => {
+    render(<RecordingPlayer audioBlob={audioBlob} label="This take" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play This take' }));
+    expect(play).toHaveBeenCalled();
+  });
+
+  it('should go back to paused when the browser refuses to play', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    play.mockImplementation(function (this: HTMLMediaElement) {
+      this.dispatchEvent(new Event('play'));
+      return Promise.reject(new DOMException('Autoplay is blocked', 'NotAllowedError'));
+    });
+    render(<RecordingPlayer audioBlob={audioBlob} label="This take" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play This take' }));
+
+    expect(await screen.findByRole('button', { name: 'Play This take' })).toBeInTheDocument();
+    expect(warn).toHaveBeenCalledWith('Could not play recording:', expect.any(DOMException));
+  });
+
+  it('should disable the scrubber until the length is known', () => {
+    render(<RecordingPlayer audioBlob={audioBlob} label="This take" />);
+    expect(screen.getByRole('slider')).toBeDisabled();
+  });
+
+  it('should use the given duration for the scrubber', () => {
+    render(<RecordingPlayer audioBlob={audioBlob} label="This take" durationSeconds={6.5} />);
+
+    const scrubber = screen.getByRole('slider');
+    expect(scrubber).toBeEnabled();
+    expect(scrubber).toHaveAttribute('max', '6.5');
+    expect(screen.getByText('0:00 / 0:06')).toBeInTheDocument();
+  });
+
+  it('should seek when the scrubber moves', () => {
+    render(<RecordingPlayer audioBlob={audioBlob} label="This take" durationSeconds={10} />);
+
+    fireEvent.change(screen.getByRole('slider'), { target: { value: '4' } });
+    expect(screen.getByText('0:04 / 0:10')).toBeInTheDocument();
+  });
+
+  it('should play a range of the recording', () => {
+    const ref = createRef<RecordingPlayerHandle>();
+    render(<RecordingPlayer ref={ref} audioBlob={audioBlob} label="This take" durationSeconds={10} />);
+
+    act(() => ref.current!.playRange(1.5, 2));
+    expect(play).toHaveBeenCalled();
+  });
+});
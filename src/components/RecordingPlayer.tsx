@@ -0,0 +1,156 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import './Components.css';
+
+interface RecordingPlayerProps {
+  audioBlob: Blob;
+  label: string;
+  durationSeconds?: number | null; // fallback when the browser cannot tell the length
+}
+
+export interface RecordingPlayerHandle {
+  /** Play part of the recording, e.g. a single word */
+  playRange: (startTime: number, endTime: number) => void;
+}
+
+/**
+ * Plays back a recording with a play/pause button and a scrubber
+ */
+const RecordingPlayer = forwardRef<RecordingPlayerHandle, RecordingPlayerProps>(({
+  audioBlob,
+  label,
+  durationSeconds = null
+}, ref) => {
+  const [audioUrl, setAudioUrl] = useState<string>('');
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [duration, setDuration] = useState<number>(durationSeconds || 0);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const stopAtRef = useRef<number | null>(null);
+
+  // Give the audio element its own URL for each recording
+  useEffect(() => {
+    const url = URL.createObjectURL(audioBlob);
+    setAudioUrl(url);
+    setCurrentTime(0);
+    setIsPlaying(false);
+    return () => URL.revokeObjectURL(url);
+  }, [audioBlob]);
+
+  /**
+   * Start playback, going back to paused when the browser refuses
+   * play() rejects when autoplay is blocked or the recording cannot be decoded
+   */
+  const startPlayback = (audio: HTMLAudioElement): void => {
+    audio.play().catch(error => {
+      console.warn('Could not play recording:', error);
+      stopAtRef.current = null;
+      setIsPlaying(false);
+    });
+  };
+
+  useImperativeHandle(ref, () => ({
+    playRange: (startTime: number, endTime: number) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      audio.currentTime = startTime;
+      stopAtRef.current = endTime;
+      startPlayback(audio);
+    }
+  }));
+
+  /**
+   * Use the real length once the browser knows it
+   * MediaRecorder webm files report Infinity until they have been played through
+   */
+  const handleLoadedMetadata = (): void => {
+    const audio = audioRef.current;
+    if (audio && Number.isFinite(audio.duration)) {
+      setDuration(audio.duration);
+    }
+  };
+
+  /**
+   * Follow playback and stop at the end of a requested range
+   */
+  const handleTimeUpdate = (): void => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    setCurrentTime(audio.currentTime);
+    if (stopAtRef.current !== null && audio.currentTime >= stopAtRef.current) {
+      stopAtRef.current = null;
+      audio.pause();
+    }
+  };
+
+  const togglePlayback = (): void => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    stopAtRef.current = null;
+    if (isPlaying) {
+      audio.pause();
+    } else {
+      startPlayback(audio);
+    }
+  };
+
+  const handleSeek = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const time = Number(event.target.value);
+    if (audioRef.current) {
+      audioRef.current.currentTime = time;
+    }
+    setCurrentTime(time);
+  };
+
+  /**
+   * Format seconds as m:ss
+   */
+  const formatTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="recording-player">
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        preload="metadata"
+        onLoadedMetadata={handleLoadedMetadata}
+        onDurationChange={handleLoadedMetadata}
+        onTimeUpdate={handleTimeUpdate}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+      />
+      <span className="player-label">{label}</span>
+      <button
+        type="button"
+        className="button player-toggle"
+        onClick={togglePlayback}
+        aria-label={isPlaying ? `Pause ${label}` : `Play ${label}`}
+      >
+        {isPlaying ? '⏸️' : '▶️'}
+      </button>
+      <input
+        type="range"
+        className="player-scrubber"
+        min={0}
+        max={duration || 0}
+        step={0.01}
+        value={Math.min(currentTime, duration || 0)}
+        onChange={handleSeek}
+        disabled={!duration}
+        aria-label={`Position in ${label}`}
+      />
+      <span className="player-time">{formatTime(currentTime)} / {formatTime(duration)}</span>
+    </div>
+  );
+});
+
+RecordingPlayer.displayName = 'RecordingPlayer';
+
+export default RecordingPlayer;
@@ -0,0 +1,38 @@
+/**
+ * Tests for ReferenceVoiceSettings component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ReferenceVoiceSettings from './ReferenceVoiceSettings';
+
+describe('ReferenceVoiceSettings Component', () => {
+  const value = { accent: 'en-US' as const, voiceURI: null, rate: 0.9 };
+  const voices = [{ name: 'Samantha', lang: 'en-US', voiceURI: 'samantha' }] as SpeechSynthesisVoice[];
+
+  it('should list the voices for the accent', () => {
+    render(<ReferenceVoiceSettings value={value} voices={voices} onChange={jest.fn()} />);
+    expect(screen.getByRole('option', { name: 'Samantha' })).toBeInTheDocument();
+    expect(screen.getByText('0.9×')).toBeInTheDocument();
+  });
+
+  it('should reset the voice when the accent changes', () => {
+    const onChange = jest.fn();
+    render(<ReferenceVoiceSettings value={{ ...value, voiceURI: 'samantha' }} voices={voices} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText(/Accent:/), { target: { value: 'en-AU' } });
+    expect(onChange).toHaveBeenCalledWith({ accent: 'en-AU', voiceURI: null, rate: 0.9 });
+  });
+
+  it('should change the voice and speed', () => {
+    const onChange = jest.fn();
+    render(<ReferenceVoiceSettings value={value} voices={voices} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText(/Voice:/), { target: { value: 'samantha' } });
+    expect(onChange).toHaveBeenCalledWith({ ...value, voiceURI: 'samantha' });
+
+    fireEvent.change(screen.getByLabelText(/Speed:/), { target: { value: '1.2' } });
+    expect(onChange).toHaveBeenCalledWith({ ...value, rate: 1.2 });
+  });
+});
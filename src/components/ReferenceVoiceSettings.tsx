@@ -0,0 +1,64 @@
+import React from 'react';
+import { REFERENCE_ACCENTS, ReferenceAccent, ReferenceVoiceOptions } from '../agents/ReferenceAudioAgent';
+import './Components.css';
+
+interface ReferenceVoiceSettingsProps {
+  value: ReferenceVoiceOptions;
+  voices: SpeechSynthesisVoice[]; // installed voices for the selected accent
+  onChange: (options: ReferenceVoiceOptions) => void;
+}
+
+export const ACCENT_LABELS: { [accent in ReferenceAccent]: string } = {
+  'en-US': '🇺🇸 American',
+  'en-GB': '🇬🇧 British',
+  'en-AU': '🇦🇺 Australian'
+};
+
+/**
+ * Accent, voice and speed choices for the reference audio
+ */
+const ReferenceVoiceSettings: React.FC<ReferenceVoiceSettingsProps> = ({ value, voices, onChange }) => {
+  return (
+    <div className="reference-voice-settings">
+      <label>
+        Accent:{' '}
+        <select
+          value={value.accent}
+          onChange={event => onChange({ ...value, accent: event.target.value as ReferenceAccent, voiceURI: null })}
+        >
+          {REFERENCE_ACCENTS.map(accent => (
+            <option key={accent} value={accent}>{ACCENT_LABELS[accent]}</option>
+          ))}
+        </select>
+      </label>
+
+      <label>
+        Voice:{' '}
+        <select
+          value={value.voiceURI ?? ''}
+          onChange={event => onChange({ ...value, voiceURI: event.target.value || null })}
+        >
+          <option value="">Default</option>
+          {voices.map(voice => (
+            <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <label>
+        Speed:{' '}
+        <input
+          type="range"
+          min={0.5}
+          max={1.5}
+          step={0.1}
+          value={value.rate}
+          onChange={event => onChange({ ...value, rate: Number(event.target.value) })}
+        />
+        <span className="rate-value">{value.rate.toFixed(1)}×</span>
+      </label>
+    </div>
+  );
+};
+
+export default ReferenceVoiceSettings;
@@ -0,0 +1,100 @@
+/**
+ * Tests for ReviewSession component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ReviewSession, { describeNextReview } from './ReviewSession';
+import { ReviewResult } from '../agents/ReviewAgent';
+import { createReviewItem, ReviewItem, ReviewQuality } from '../utils/spacedRepetition';
+
+// Mock the Recorder component: each click completes a recording
+jest.mock('./Recorder', () => {
+  return function MockRecorder({ onRecordingComplete, onRecordingStateChange, maxDuration }: any) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          onRecordingStateChange(true);
+          onRecordingComplete(new Blob(['test'], { type: 'audio/wav' }));
+        }}
+      >
+        Record ({maxDuration}s)
+      </button>
+    );
+  };
+});
+
+describe('ReviewSession Component', () => {
+  const now = new Date(2024, 2, 10);
+  const items: ReviewItem[] = [createReviewItem('thirty three', now), createReviewItem('lazy', now)];
+
+  const graded = (item: ReviewItem, transcription: string, score: number, quality: ReviewQuality, interval: number): ReviewResult => ({
+    item: { ...item, interval },
+    transcription,
+    score,
+    quality,
+    wordResults: []
+  });
+
+  it('should ask for the first due item', () => {
+    render(<ReviewSession items={items} onReviewAttempt={jest.fn()} />);
+
+    expect(screen.getByText('Review 1 of 2')).toBeInTheDocument();
+    expect(screen.getByRole('heading')).toHaveTextContent('Say: thirty three');
+    expect(screen.getByRole('button', { name: 'Record (10s)' })).toBeInTheDocument();
+  });
+
+  it('should grade the attempt and say when the item comes back', async () => {
+    const onRecordingStart = jest.fn();
+    const onReviewAttempt = jest.fn(async (audioBlob: Blob, item: ReviewItem) => graded(item, 'thirty three', 100, 5, 1));
+    render(<ReviewSession items={items} onReviewAttempt={onReviewAttempt} onRecordingStart={onRecordingStart} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent(
+      '✅ Remembered (100%, heard "thirty three"). Next review tomorrow.'
+    );
+    expect(onReviewAttempt).toHaveBeenCalledWith(expect.any(Blob), items[0]);
+    expect(onRecordingStart).toHaveBeenCalled();
+  });
+
+  it('should show a summary after the last item', async () => {
+    const onReviewAttempt = jest.fn(async (audioBlob: Blob, item: ReviewItem) =>
+      item.text === 'lazy' ? graded(item, 'lady', 60, 2, 1) : graded(item, 'thirty three', 90, 4, 6));
+    render(<ReviewSession items={items} onReviewAttempt={onReviewAttempt} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Next ➡️' }));
+
+    expect(screen.getByText('Review 2 of 2')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /Record/ }));
+    expect(await screen.findByRole('status')).toHaveTextContent('🔁 Needs more practice (60%, heard "lady")');
+    fireEvent.click(screen.getByRole('button', { name: '📊 See results' }));
+
+    expect(screen.getByText('You remembered 1 of 2.')).toBeInTheDocument();
+    expect(screen.getByText(/next review in 6 days/)).toBeInTheDocument();
+  });
+
+  it('should offer to play the item when a reference voice is available', () => {
+    const onPlayReference = jest.fn();
+    render(<ReviewSession items={items} onReviewAttempt={jest.fn()} onPlayReference={onPlayReference} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '🔊 Play' }));
+    expect(onPlayReference).toHaveBeenCalledWith('thirty three');
+  });
+
+  it('should say when nothing is due', () => {
+    render(<ReviewSession items={[]} onReviewAttempt={jest.fn()} />);
+
+    expect(screen.getByText(/No reviews due today/)).toBeInTheDocument();
+  });
+
+  describe('describeNextReview', () => {
+    it('should describe the interval in days', () => {
+      expect(describeNextReview(1)).toBe('tomorrow');
+      expect(describeNextReview(6)).toBe('in 6 days');
+    });
+  });
+});
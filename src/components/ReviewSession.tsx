@@ -0,0 +1,100 @@
+import React from 'react';
+import RecordedItemsDrill from './RecordedItemsDrill';
+import { ReviewResult } from '../agents/ReviewAgent';
+import { ReviewItem } from '../utils/spacedRepetition';
+import { MicrophoneOptions } from '../utils/microphone';
+import { VoiceActivityOptions } from '../utils/voiceActivity';
+import './Components.css';
+
+interface ReviewSessionProps {
+  items: ReviewItem[]; // due items, see PronCoachAgent.getDueReviews
+  onReviewAttempt: (audioBlob: Blob, item: ReviewItem) => Promise<ReviewResult>;
+  onRecordingStart?: () => void;
+  onPlayReference?: (text: string) => void; // shows a button to hear the item when given
+  voiceActivity?: VoiceActivityOptions;
+  microphone?: MicrophoneOptions;
+  onMicrophoneChange?: (options: MicrophoneOptions) => void;
+}
+
+// Seconds allowed for saying one word or phrase
+const MAX_ITEM_SECONDS = 10;
+
+/**
+ * When the item comes back, e.g. "tomorrow" or "in 6 days"
+ */
+export function describeNextReview(interval: number): string {
+  return interval <= 1 ? 'tomorrow' : `in ${interval} days`;
+}
+
+/**
+ * How one review attempt went
+ */
+function describeResult(result: ReviewResult): string {
+  const heard = result.transcription.trim() ? `heard "${result.transcription.trim()}"` : 'nothing was heard';
+  const verdict = result.quality >= 3 ? '✅ Remembered' : '🔁 Needs more practice';
+  return `${verdict} (${result.score}%, ${heard}). Next review ${describeNextReview(result.item.interval)}.`;
+}
+
+/**
+ * Word class for a graded attempt
+ */
+function resultClass(result: ReviewResult): string {
+  return result.quality >= 3 ? 'word-correct' : 'word-mispronounced';
+}
+
+/**
+ * Review mode: say each due word or phrase once, get it graded and rescheduled
+ */
+const ReviewSession: React.FC<ReviewSessionProps> = ({
+  items,
+  onReviewAttempt,
+  onRecordingStart,
+  onPlayReference,
+  voiceActivity,
+  microphone,
+  onMicrophoneChange
+}) => (
+  <RecordedItemsDrill
+    className="review-session"
+    items={items}
+    onAttempt={onReviewAttempt}
+    itemLabel="Review"
+    nextLabel="Next ➡️"
+    loadingMessage="🔄 Grading your answer..."
+    maxDuration={MAX_ITEM_SECONDS}
+    emptyMessage="🎉 No reviews due today. Words you miss while practicing will come back here."
+    renderPrompt={item => (
+      <>
+        <h3>
+          Say: <strong className="drill-prompt">{item.text}</strong>
+        </h3>
+        {onPlayReference && (
+          <button type="button" className="button" onClick={() => onPlayReference(item.text)}>
+            🔊 Play
+          </button>
+        )}
+      </>
+    )}
+    renderResult={result => <p className={`drill-result ${resultClass(result)}`}>{describeResult(result)}</p>}
+    renderSummary={results => (
+      <>
+        <h3>🔁 Review complete</h3>
+        <p>You remembered {results.filter(reviewed => reviewed.quality >= 3).length} of {results.length}.</p>
+        <ul className="drill-results">
+          {results.map(reviewed => (
+            <li key={reviewed.item.text}>
+              <span className={`word-chip ${resultClass(reviewed)}`}>{reviewed.item.text}</span>
+              {' '}next review {describeNextReview(reviewed.item.interval)}
+            </li>
+          ))}
+        </ul>
+      </>
+    )}
+    onRecordingStart={onRecordingStart}
+    voiceActivity={voiceActivity}
+    microphone={microphone}
+    onMicrophoneChange={onMicrophoneChange}
+  />
+);
+
+export default ReviewSession;
@@ -0,0 +1,54 @@
+/**
+ * Tests for SoundMasteryPanel component
+ */
+
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import SoundMasteryPanel from './SoundMasteryPanel';
+import { SoundMasteryEstimate } from '../utils/soundMastery';
+
+describe('SoundMasteryPanel Component', () => {
+  const estimate = (sound: string, ipa: string, values: Partial<SoundMasteryEstimate>): SoundMasteryEstimate => ({
+    sound,
+    ipa,
+    pattern: null,
+    estimate: 50,
+    low: 30,
+    high: 70,
+    attempts: 5,
+    firstEstimate: 50,
+    updatedAt: '2024-03-01T10:00:00.000Z',
+    ...values
+  });
+
+  it('should show each sound with its estimate, range and progress', () => {
+    render(<SoundMasteryPanel estimates={[
+      estimate('R', 'ɹ', { estimate: 85, low: 70, high: 93, firstEstimate: 40 }),
+      estimate('TH', 'θ', { estimate: 60, firstEstimate: 75 }),
+      estimate('K', 'k', {})
+    ]} />);
+
+    const rows = within(screen.getByRole('region', { name: 'Sound mastery' })).getAllByRole('listitem');
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toHaveTextContent('/ɹ/85% (70–93%)↑ from 40%');
+    expect(rows[1]).toHaveTextContent('↓ from 75%');
+    expect(rows[2]).not.toHaveTextContent('from');
+  });
+
+  it('should hide sounds with too little evidence and limit the list', () => {
+    render(<SoundMasteryPanel
+      estimates={[estimate('R', 'ɹ', { attempts: 1 }), estimate('L', 'l', {}), estimate('K', 'k', {})]}
+      limit={1}
+    />);
+
+    const rows = screen.getAllByRole('listitem');
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toHaveTextContent('/l/');
+  });
+
+  it('should render nothing before any sound was practiced', () => {
+    const { container } = render(<SoundMasteryPanel estimates={[]} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,52 @@
+import React from 'react';
+import { SoundMasteryEstimate } from '../utils/soundMastery';
+import './Components.css';
+
+interface SoundMasteryPanelProps {
+  estimates: SoundMasteryEstimate[]; // weakest first, see PronCoachAgent.getSoundMastery
+  limit?: number; // number of sounds shown, default 6
+  minAttempts?: number; // hide sounds practiced fewer times, default 3
+}
+
+/**
+ * How well the learner masters each sound, weakest first
+ * The bar shows the estimate inside its confidence range, with the change since
+ * the sound was first practiced
+ */
+const SoundMasteryPanel: React.FC<SoundMasteryPanelProps> = ({ estimates, limit = 6, minAttempts = 3 }) => {
+  const shown = estimates.filter(estimate => estimate.attempts >= minAttempts).slice(0, limit);
+  if (shown.length === 0) return null;
+
+  return (
+    <section className="sound-mastery" aria-label="Sound mastery">
+      <h3>📈 Your sounds</h3>
+      <ul>
+        {shown.map(estimate => {
+          const change = estimate.estimate - estimate.firstEstimate;
+          return (
+            <li key={estimate.sound} className="sound-mastery-row">
+              <span className="sound-mastery-symbol">/{estimate.ipa}/</span>
+              <span className="sound-mastery-bar" aria-hidden="true">
+                <span
+                  className="sound-mastery-range"
+                  style={{ left: `${estimate.low}%`, width: `${estimate.high - estimate.low}%` }}
+                />
+                <span className="sound-mastery-value" style={{ width: `${estimate.estimate}%` }} />
+              </span>
+              <span className="sound-mastery-score">
+                {estimate.estimate}% <small>({estimate.low}–{estimate.high}%)</small>
+              </span>
+              {change !== 0 && (
+                <span className={`sound-mastery-change ${change > 0 ? 'up' : 'down'}`}>
+                  {change > 0 ? '↑' : '↓'} from {estimate.firstEstimate}%
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default SoundMasteryPanel;
@@ -0,0 +1,33 @@
+/**
+ * Tests for SyllableText component
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import SyllableText from './SyllableText';
+
+describe('SyllableText Component', () => {
+  it('should show the syllables with the primary stress in capitals', () => {
+    render(<SyllableText text="I love photography." />);
+
+    expect(screen.getByText('pho')).toHaveClass('syllable');
+    expect(screen.getByText('TOG')).toHaveClass('stress-primary');
+    expect(screen.getByText('ra')).not.toHaveClass('stress-primary');
+    expect(screen.getAllByText('·')).toHaveLength(3);
+  });
+
+  it('should mark secondary stress', () => {
+    render(<SyllableText text="education" />);
+
+    expect(screen.getByText('ed')).toHaveClass('stress-secondary');
+    expect(screen.getByText('CA')).toHaveClass('stress-primary');
+  });
+
+  it('should leave one-syllable words unmarked', () => {
+    render(<SyllableText text="Find my keys" />);
+
+    expect(screen.getByText('keys')).not.toHaveClass('stress-primary');
+    expect(screen.queryByText('·')).not.toBeInTheDocument();
+  });
+});
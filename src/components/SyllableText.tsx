@@ -0,0 +1,50 @@
+import React from 'react';
+import { annotateText, StressLevel } from '../utils/syllables';
+import './Components.css';
+
+interface SyllableTextProps {
+  text: string;
+}
+
+const STRESS_CLASSES: { [stress in StressLevel]: string } = {
+  0: 'syllable',
+  1: 'syllable stress-primary',
+  2: 'syllable stress-secondary'
+};
+
+/**
+ * Text split into syllables, with primary stress in capitals and secondary stress underlined
+ * ("pho·TOG·ra·phy"); one-syllable words are shown as they are
+ */
+const SyllableText: React.FC<SyllableTextProps> = ({ text }) => {
+  const words = annotateText(text);
+
+  return (
+    <span className="syllable-text">
+      {words.map((word, wordIndex) => {
+        const marked = word.syllables.length > 1;
+        return (
+          <React.Fragment key={wordIndex}>
+            {wordIndex > 0 && ' '}
+            <span className="syllable-word">
+              {word.leading}
+              {word.syllables.map((syllable, index) => (
+                <React.Fragment key={index}>
+                  {index > 0 && !word.syllables[index - 1].text.endsWith('-') && (
+                    <span className="syllable-separator">·</span>
+                  )}
+                  <span className={STRESS_CLASSES[marked ? syllable.stress : 0]}>
+                    {marked && syllable.stress === 1 ? syllable.text.toUpperCase() : syllable.text}
+                  </span>
+                </React.Fragment>
+              ))}
+              {word.trailing}
+            </span>
+          </React.Fragment>
+        );
+      })}
+    </span>
+  );
+};
+
+export default SyllableText;
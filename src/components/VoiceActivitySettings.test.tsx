@@ -0,0 +1,49 @@
+/**
+ * Tests for VoiceActivitySettings component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import VoiceActivitySettings from './VoiceActivitySettings';
+import { DEFAULT_VOICE_ACTIVITY } from '../utils/voiceActivity';
+
+describe('VoiceActivitySettings Component', () => {
+  const value = { ...DEFAULT_VOICE_ACTIVITY, energyThreshold: 0.01 };
+
+  it('should show the current options', () => {
+    render(<VoiceActivitySettings value={value} onChange={jest.fn()} />);
+
+    expect(screen.getByLabelText(/Start recording when I start speaking/)).not.toBeChecked();
+    expect(screen.getByLabelText(/Stop recording when I stop speaking/)).toBeChecked();
+    expect(screen.getByLabelText(/Stop after:/)).toHaveValue('1500');
+    expect(screen.getByText('-40 dB')).toBeInTheDocument();
+  });
+
+  it('should toggle automatic start and stop', () => {
+    const onChange = jest.fn();
+    render(<VoiceActivitySettings value={value} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText(/Start recording when I start speaking/));
+    expect(onChange).toHaveBeenCalledWith({ ...value, autoStart: true });
+
+    fireEvent.click(screen.getByLabelText(/Trim silence/));
+    expect(onChange).toHaveBeenCalledWith({ ...value, trimSilence: false });
+  });
+
+  it('should disable the silence length when auto-stop is off', () => {
+    render(<VoiceActivitySettings value={{ ...value, autoStop: false }} onChange={jest.fn()} />);
+    expect(screen.getByLabelText(/Stop after:/)).toBeDisabled();
+  });
+
+  it('should change the silence length and speech threshold', () => {
+    const onChange = jest.fn();
+    render(<VoiceActivitySettings value={value} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText(/Stop after:/), { target: { value: '3000' } });
+    expect(onChange).toHaveBeenCalledWith({ ...value, silenceMs: 3000 });
+
+    fireEvent.change(screen.getByLabelText(/Speech threshold:/), { target: { value: '-20' } });
+    expect(onChange).toHaveBeenCalledWith({ ...value, energyThreshold: 0.1 });
+  });
+});
@@ -0,0 +1,78 @@
+import React from 'react';
+import { VoiceActivityOptions } from '../utils/voiceActivity';
+import { toDecibels } from '../utils/audioLevels';
+import './Components.css';
+
+interface VoiceActivitySettingsProps {
+  value: VoiceActivityOptions;
+  onChange: (options: VoiceActivityOptions) => void;
+}
+
+export const SILENCE_CHOICES_MS = [1000, 1500, 2000, 3000];
+
+/**
+ * Automatic start/stop, silence trimming and speech threshold choices for the recorder
+ */
+const VoiceActivitySettings: React.FC<VoiceActivitySettingsProps> = ({ value, onChange }) => {
+  const thresholdDb = Math.round(toDecibels(value.energyThreshold));
+
+  return (
+    <details className="voice-activity-settings">
+      <summary>🎙️ Recording options</summary>
+      <label>
+        <input
+          type="checkbox"
+          checked={value.autoStart}
+          onChange={event => onChange({ ...value, autoStart: event.target.checked })}
+        />
+        {' '}🎙️ Start recording when I start speaking
+      </label>
+
+      <label>
+        <input
+          type="checkbox"
+          checked={value.autoStop}
+          onChange={event => onChange({ ...value, autoStop: event.target.checked })}
+        />
+        {' '}🤫 Stop recording when I stop speaking
+      </label>
+
+      <label>
+        Stop after:{' '}
+        <select
+          value={value.silenceMs}
+          onChange={event => onChange({ ...value, silenceMs: Number(event.target.value) })}
+          disabled={!value.autoStop}
+        >
+          {SILENCE_CHOICES_MS.map(silenceMs => (
+            <option key={silenceMs} value={silenceMs}>{silenceMs / 1000}s of silence</option>
+          ))}
+        </select>
+      </label>
+
+      <label>
+        <input
+          type="checkbox"
+          checked={value.trimSilence}
+          onChange={event => onChange({ ...value, trimSilence: event.target.checked })}
+        />
+        {' '}✂️ Trim silence from the start and end of recordings
+      </label>
+
+      <label>
+        Speech threshold:{' '}
+        <input
+          type="range"
+          min={-50}
+          max={-20}
+          step={1}
+          value={thresholdDb}
+          onChange={event => onChange({ ...value, energyThreshold: Math.pow(10, Number(event.target.value) / 20) })}
+        />
+        <span className="threshold-value">{thresholdDb} dB</span>
+      </label>
+    </details>
+  );
+};
+
+export default VoiceActivitySettings;
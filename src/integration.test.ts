@@ -8,16 +8,23 @@ import { PracticeAgent } from './agents/PracticeAgent';
 import { ComparisonAgent } from './agents/ComparisonAgent';
 import { FeedbackAgent } from './agents/FeedbackAgent';
 import { TranscriptionAgent } from './agents/TranscriptionAgent';
+import { DemoTranscriptionProvider } from './agents/TranscriptionProviders';
+
+// Use the demo backend so the workflow runs without a live microphone
+const createDemoCoach = () => new PronCoachAgent({
+  transcriptionProvider: new DemoTranscriptionProvider({ delayMs: 0 })
+});
 
 describe('Integration Tests', () => {
   describe('Complete pronunciation coaching workflow', () => {
     it('should handle a complete practice session', async () => {
-      const coach = new PronCoachAgent();
+      const coach = createDemoCoach();
       
       // Step 1: Start a practice session
-      const practiceText = coach.startPracticeSession();
+      const { text: practiceText, mode } = coach.startPracticeSession();
       expect(practiceText).toBeTruthy();
       expect(typeof practiceText).toBe('string');
+      expect(mode).toBe('adaptive');
       
       // Step 2: Simulate audio recording
       const audioBlob = new Blob(['simulated audio'], { type: 'audio/wav' });
@@ -44,7 +51,7 @@ describe('Integration Tests', () => {
       const practiceAgent = new PracticeAgent();
       const comparisonAgent = new ComparisonAgent();
       const feedbackAgent = new FeedbackAgent();
-      const transcriptionAgent = new TranscriptionAgent();
+      const transcriptionAgent = new TranscriptionAgent(new DemoTranscriptionProvider({ delayMs: 0 }));
       
       // Generate practice text
       const text = practiceAgent.generatePracticeText();
@@ -78,13 +85,13 @@ describe('Integration Tests', () => {
 
   describe('Error handling across components', () => {
     it('should handle errors gracefully in the complete workflow', async () => {
-      const coach = new PronCoachAgent();
+      const coach = createDemoCoach();
       
       // Should not throw with invalid inputs
       await expect(coach.processRecording(new Blob(), '')).rejects.toThrow();
       
       // But should still be functional for valid inputs
-      const text = coach.startPracticeSession();
+      const { text } = coach.startPracticeSession();
       const audioBlob = new Blob(['test'], { type: 'audio/wav' });
       const result = await coach.processRecording(audioBlob, text);
       
@@ -104,7 +111,7 @@ describe('Integration Tests', () => {
       // Export data
       const exportedData = agent1.exportData();
       expect(exportedData.sessionsCompleted).toBe(3);
-      expect(exportedData.sessionHistory).toEqual([80, 85, 90]);
+      expect(exportedData.sessions.map(session => session.score)).toEqual([80, 85, 90]);
       
       // Create new agent and import data
       const agent2 = new PracticeAgent();
@@ -0,0 +1,36 @@
+import { L1Profile } from './types';
+
+export const ARABIC_PROFILE: L1Profile = {
+  language: 'arabic',
+  name: 'Arabic',
+  confusions: [
+    {
+      sound: 'p', expected: 'P', spoken: 'B', weight: 0.9,
+      tip: 'Arabic has no p: close your lips, build up air and release it in a puff with the voice off'
+    },
+    {
+      sound: 'v', expected: 'V', spoken: 'F', weight: 0.8,
+      tip: 'v is f with the voice on: put your hand on your throat and feel it buzz'
+    },
+    {
+      sound: 'i', expected: 'IH', spoken: 'EH', weight: 0.6,
+      tip: '"Pin" is higher than "pen": raise the tongue a little and keep the vowel short'
+    },
+    {
+      sound: 'e', expected: 'EH', spoken: 'IH', weight: 0.5,
+      tip: '"Bed" is lower than "bid": drop your jaw slightly'
+    },
+    {
+      sound: 'ch', expected: 'CH', spoken: 'SH', weight: 0.6,
+      tip: 'Start ch with a t: stop the air with the tongue, then release it into sh'
+    },
+    {
+      sound: 'ng', expected: 'NG', spoken: 'N', weight: 0.5,
+      tip: 'For "sing", lift the back of the tongue to the soft palate and let the air go through the nose'
+    },
+    {
+      sound: 'o', expected: 'OW', spoken: 'AO', weight: 0.5,
+      tip: '"Boat" glides: start with rounded lips and close them further toward "oo"'
+    }
+  ]
+};
@@ -0,0 +1,18 @@
+import { PRONUNCIATION_PATTERNS } from '../utils/phonemeUtils';
+import { L1Profile } from './types';
+
+/**
+ * Swaps common across learners, used when no first language is chosen
+ */
+export const GENERAL_PROFILE: L1Profile = {
+  language: null,
+  name: 'General',
+  confusions: [
+    { sound: 'th', expected: 'TH', spoken: 'F', weight: 0.5, tip: PRONUNCIATION_PATTERNS.th.tip },
+    { sound: 'th', expected: 'DH', spoken: 'D', weight: 0.5, tip: PRONUNCIATION_PATTERNS.th.tip },
+    { sound: 'r', expected: 'R', spoken: 'W', weight: 0.5, tip: PRONUNCIATION_PATTERNS.r.tip },
+    { sound: 'l', expected: 'L', spoken: 'R', weight: 0.5, tip: PRONUNCIATION_PATTERNS.l.tip },
+    { sound: 'v', expected: 'V', spoken: 'B', weight: 0.5, tip: PRONUNCIATION_PATTERNS.v.tip },
+    { sound: 'w', expected: 'W', spoken: 'V', weight: 0.5, tip: PRONUNCIATION_PATTERNS.w.tip }
+  ]
+};
@@ -0,0 +1,36 @@
+import { L1Profile } from './types';
+
+export const HINDI_PROFILE: L1Profile = {
+  language: 'hindi',
+  name: 'Hindi',
+  confusions: [
+    {
+      sound: 'v', expected: 'V', spoken: 'W', weight: 0.9,
+      tip: 'Hindi व covers both v and w; for English v press the top teeth into the lower lip and buzz'
+    },
+    {
+      sound: 'w', expected: 'W', spoken: 'V', weight: 0.9,
+      tip: 'For w, round your lips like for "oo" and keep your teeth away from your lip'
+    },
+    {
+      sound: 'th', expected: 'TH', spoken: 'T', weight: 0.8,
+      tip: 'English th is not the dental त: let the tongue stick out between the teeth and let the air flow without a stop'
+    },
+    {
+      sound: 'th', expected: 'DH', spoken: 'D', weight: 0.8,
+      tip: 'English "this" is not the dental द: keep air flowing over the tongue between the teeth, with no stop'
+    },
+    {
+      sound: 'z', expected: 'Z', spoken: 'JH', weight: 0.6,
+      tip: 'Keep z a smooth buzz like a bee; do not start it with the tongue touching the roof of the mouth like ज'
+    },
+    {
+      sound: 'zh', expected: 'ZH', spoken: 'JH', weight: 0.5,
+      tip: 'The middle of "measure" is a steady buzz like a voiced sh, without a stop before it'
+    },
+    {
+      sound: 'a', expected: 'AE', spoken: 'EH', weight: 0.5,
+      tip: 'Open the mouth wider for "bad" than for "bed"'
+    }
+  ]
+};
@@ -0,0 +1,34 @@
+/**
+ * Tests for first-language profiles
+ */
+
+import { GENERAL_PROFILE, getL1Profile, L1_PROFILES, NATIVE_LANGUAGES } from '.';
+import { ARPABET_TO_IPA } from '../utils/g2p';
+
+describe('l1Profiles', () => {
+  it('should have a profile for every supported language', () => {
+    expect(NATIVE_LANGUAGES).toEqual(['spanish', 'mandarin', 'japanese', 'hindi', 'arabic']);
+    NATIVE_LANGUAGES.forEach(language => {
+      expect(L1_PROFILES[language].language).toBe(language);
+      expect(L1_PROFILES[language].confusions.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('should only list valid confusions', () => {
+    [GENERAL_PROFILE, ...Object.values(L1_PROFILES)].forEach(profile => {
+      profile.confusions.forEach(confusion => {
+        expect(ARPABET_TO_IPA[confusion.expected]).toBeDefined();
+        expect(ARPABET_TO_IPA[confusion.spoken]).toBeDefined();
+        expect(confusion.expected).not.toBe(confusion.spoken);
+        expect(confusion.weight).toBeGreaterThan(0);
+        expect(confusion.weight).toBeLessThanOrEqual(1);
+        expect(confusion.tip.length).toBeGreaterThan(0);
+      });
+    });
+  });
+
+  it('should fall back to the general profile without a language', () => {
+    expect(getL1Profile(null)).toBe(GENERAL_PROFILE);
+    expect(getL1Profile('japanese')).toBe(L1_PROFILES.japanese);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * First-language profiles by language
+ */
+
+import { ARABIC_PROFILE } from './arabic';
+import { GENERAL_PROFILE } from './general';
+import { HINDI_PROFILE } from './hindi';
+import { JAPANESE_PROFILE } from './japanese';
+import { MANDARIN_PROFILE } from './mandarin';
+import { SPANISH_PROFILE } from './spanish';
+import { L1Profile, NativeLanguage } from './types';
+
+export type { L1Profile, NativeLanguage, SoundConfusion } from './types';
+export { GENERAL_PROFILE };
+
+export const L1_PROFILES: { [language in NativeLanguage]: L1Profile } = {
+  spanish: SPANISH_PROFILE,
+  mandarin: MANDARIN_PROFILE,
+  japanese: JAPANESE_PROFILE,
+  hindi: HINDI_PROFILE,
+  arabic: ARABIC_PROFILE
+};
+
+export const NATIVE_LANGUAGES = Object.keys(L1_PROFILES) as NativeLanguage[];
+
+/**
+ * The profile for a learner's first language, or the general one when none is chosen
+ */
+export function getL1Profile(language: NativeLanguage | null): L1Profile {
+  return (language && L1_PROFILES[language]) || GENERAL_PROFILE;
+}
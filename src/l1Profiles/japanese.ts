@@ -0,0 +1,40 @@
+import { L1Profile } from './types';
+
+export const JAPANESE_PROFILE: L1Profile = {
+  language: 'japanese',
+  name: 'Japanese',
+  confusions: [
+    {
+      sound: 'r', expected: 'R', spoken: 'L', weight: 0.9,
+      tip: 'The Japanese r taps the roof of the mouth; for English r curl the tongue back and never touch anything'
+    },
+    {
+      sound: 'l', expected: 'L', spoken: 'R', weight: 0.9,
+      tip: 'For l press the tongue tip firmly behind the top teeth and hold it there while you voice the sound'
+    },
+    {
+      sound: 'th', expected: 'TH', spoken: 'S', weight: 0.8,
+      tip: 'Put the tongue tip between your teeth for "think"; behind the teeth it becomes "sink"'
+    },
+    {
+      sound: 'th', expected: 'DH', spoken: 'Z', weight: 0.8,
+      tip: 'For "this" the tongue comes out between the teeth; keep the voice on without the z buzz'
+    },
+    {
+      sound: 'v', expected: 'V', spoken: 'B', weight: 0.8,
+      tip: 'Do not close your lips for v: top teeth on the lower lip and let the air buzz through'
+    },
+    {
+      sound: 'f', expected: 'F', spoken: 'HH', weight: 0.6,
+      tip: 'The Japanese fu is made with both lips; for English f touch your top teeth to the lower lip'
+    },
+    {
+      sound: 'a', expected: 'AE', spoken: 'AA', weight: 0.6,
+      tip: '"Cat" needs a wide, spread mouth and a forward tongue, not the Japanese a'
+    },
+    {
+      sound: 's', expected: 'S', spoken: 'SH', weight: 0.5,
+      tip: 'Keep "see" as s: tongue tip close behind the teeth, lips spread, not the shi of Japanese'
+    }
+  ]
+};
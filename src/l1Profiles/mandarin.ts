@@ -0,0 +1,40 @@
+import { L1Profile } from './types';
+
+export const MANDARIN_PROFILE: L1Profile = {
+  language: 'mandarin',
+  name: 'Mandarin Chinese',
+  confusions: [
+    {
+      sound: 'th', expected: 'TH', spoken: 'S', weight: 0.9,
+      tip: 'Mandarin has no th: put the tongue tip between the teeth instead of behind them, then blow like for s'
+    },
+    {
+      sound: 'th', expected: 'DH', spoken: 'D', weight: 0.8,
+      tip: 'For "this", push the tongue tip out between the teeth and keep your voice on while the air flows'
+    },
+    {
+      sound: 'v', expected: 'V', spoken: 'W', weight: 0.8,
+      tip: 'Do not round your lips for v: touch your top teeth to your lower lip and buzz'
+    },
+    {
+      sound: 'r', expected: 'R', spoken: 'L', weight: 0.6,
+      tip: 'English r is close to the Mandarin r in "rè", but the tongue tip never touches the roof of the mouth'
+    },
+    {
+      sound: 'l', expected: 'L', spoken: 'N', weight: 0.5,
+      tip: 'Let the air flow over the sides of your tongue for l; for n it goes through the nose'
+    },
+    {
+      sound: 'i', expected: 'IH', spoken: 'IY', weight: 0.7,
+      tip: '"Ship" has a short, lax vowel; keep it shorter and lower than the i in "mǐ"'
+    },
+    {
+      sound: 'a', expected: 'AE', spoken: 'EH', weight: 0.7,
+      tip: 'Drop your jaw further for "bad" than for "bed" and spread your lips'
+    },
+    {
+      sound: 'z', expected: 'Z', spoken: 'S', weight: 0.6,
+      tip: 'English z is voiced: feel your throat buzz, unlike the Mandarin s'
+    }
+  ]
+};
@@ -0,0 +1,44 @@
+import { L1Profile } from './types';
+
+export const SPANISH_PROFILE: L1Profile = {
+  language: 'spanish',
+  name: 'Spanish',
+  confusions: [
+    {
+      sound: 'v', expected: 'V', spoken: 'B', weight: 0.9,
+      tip: 'Spanish b and v are the same sound, English keeps them apart: rest your top teeth on your lower lip for v'
+    },
+    {
+      sound: 'i', expected: 'IH', spoken: 'IY', weight: 0.9,
+      tip: 'Spanish has one "i"; English "ship" is shorter and more relaxed than "sheep", with the jaw slightly lower'
+    },
+    {
+      sound: 'z', expected: 'Z', spoken: 'S', weight: 0.8,
+      tip: 'Keep your voice on for z: "zoo" buzzes where "sue" hisses'
+    },
+    {
+      sound: 'th', expected: 'DH', spoken: 'D', weight: 0.7,
+      tip: 'The th in "this" is like the soft d in "nada", but with the tongue tip pushed out between the teeth'
+    },
+    {
+      sound: 'th', expected: 'TH', spoken: 'T', weight: 0.6,
+      tip: 'Say the Castilian z of "zapato" for the th in "think": tongue between the teeth, air flowing'
+    },
+    {
+      sound: 'sh', expected: 'SH', spoken: 'CH', weight: 0.6,
+      tip: 'Start "sh" without the "t" of ch: round your lips and let the air flow without stopping it'
+    },
+    {
+      sound: 'j', expected: 'JH', spoken: 'Y', weight: 0.5,
+      tip: 'Start "j" in "jam" with the tongue pressed to the roof of the mouth, like a d, before releasing'
+    },
+    {
+      sound: 'a', expected: 'AE', spoken: 'AA', weight: 0.6,
+      tip: 'For "cat", spread your lips and push the tongue forward; the Spanish a is closer to "cot"'
+    },
+    {
+      sound: 'u', expected: 'UH', spoken: 'UW', weight: 0.5,
+      tip: '"Full" is shorter and looser than "fool"; relax your lips instead of rounding them tightly'
+    }
+  ]
+};
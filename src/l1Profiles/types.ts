@@ -0,0 +1,25 @@
+/**
+ * Native-language (L1) confusion profiles
+ * Each profile lists the English sounds speakers of that language typically
+ * replace with a sound from their own language
+ */
+
+export type NativeLanguage = 'spanish' | 'mandarin' | 'japanese' | 'hindi' | 'arabic';
+
+/**
+ * One expected phoneme swap
+ * Phonemes are ARPAbet without stress digits
+ */
+export interface SoundConfusion {
+  sound: string; // the target sound as learners know it, e.g. "th"; PRONUNCIATION_PATTERNS key where there is one
+  expected: string; // phoneme of the target word
+  spoken: string; // phoneme said instead
+  weight: number; // 0-1, how typical the swap is for the profile
+  tip: string;
+}
+
+export interface L1Profile {
+  language: NativeLanguage | null; // null for the general profile
+  name: string;
+  confusions: SoundConfusion[];
+}
@@ -0,0 +1,41 @@
+/**
+ * Tests for minimal pairs
+ */
+
+import { contrastKey, getMinimalPairs, hasMinimalPairs, MINIMAL_PAIRS } from './minimalPairs';
+import { alignPhonemes, wordToPhonemes } from './utils/g2p';
+
+describe('minimalPairs', () => {
+  it('should pair words that differ only in the contrasted phoneme', () => {
+    MINIMAL_PAIRS.forEach(({ phonemes: [first, second], pairs }) => {
+      pairs.forEach(([withFirst, withSecond]) => {
+        const differences = alignPhonemes(wordToPhonemes(withSecond), wordToPhonemes(withFirst))
+          .filter(step => step.operation !== 'match')
+          .map(step => `${step.targetWord}>${step.spokenWord}`);
+        expect({ pair: [withFirst, withSecond], differences }).toEqual({
+          pair: [withFirst, withSecond],
+          differences: [`${first}>${second}`]
+        });
+      });
+    });
+  });
+
+  it('should list each contrast once', () => {
+    const keys = MINIMAL_PAIRS.map(set => contrastKey(...set.phonemes));
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  describe('getMinimalPairs', () => {
+    it('should order each pair by the requested phonemes', () => {
+      expect(getMinimalPairs('IH', 'IY')).toContainEqual(['ship', 'sheep']);
+      expect(getMinimalPairs('IY', 'IH')).toContainEqual(['sheep', 'ship']);
+      expect(getMinimalPairs('R', 'L')).toContainEqual(['right', 'light']);
+    });
+
+    it('should return no pairs for an unknown contrast', () => {
+      expect(getMinimalPairs('K', 'G')).toEqual([]);
+      expect(hasMinimalPairs('K', 'G')).toBe(false);
+      expect(hasMinimalPairs('W', 'V')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Minimal pairs for sound contrast drills
+ * Each pair differs in exactly one phoneme, so hearing the wrong word means the
+ * recognizer heard the wrong sound: "ship" for "sheep", "light" for "right"
+ */
+
+/**
+ * Word pairs for one phoneme contrast
+ * The first word of each pair has phonemes[0] where the second has phonemes[1]
+ */
+export interface MinimalPairSet {
+  phonemes: [string, string]; // ARPAbet without stress
+  pairs: [string, string][];
+}
+
+export const MINIMAL_PAIRS: MinimalPairSet[] = [
+  {
+    phonemes: ['IH', 'IY'],
+    pairs: [
+      ['ship', 'sheep'], ['bit', 'beat'], ['live', 'leave'], ['fill', 'feel'], ['sit', 'seat'],
+      ['hit', 'heat'], ['still', 'steal'], ['rich', 'reach']
+    ]
+  },
+  {
+    phonemes: ['L', 'R'],
+    pairs: [
+      ['light', 'right'], ['lock', 'rock'], ['glass', 'grass'], ['fly', 'fry'], ['load', 'road'],
+      ['lead', 'read'], ['long', 'wrong']
+    ]
+  },
+  {
+    phonemes: ['V', 'W'],
+    pairs: [
+      ['vest', 'west'], ['vet', 'wet'], ['vine', 'wine'], ['vow', 'wow'], ['veal', 'wheel']
+    ]
+  },
+  {
+    phonemes: ['TH', 'S'],
+    pairs: [
+      ['think', 'sink'], ['thick', 'sick'], ['thing', 'sing'], ['path', 'pass'], ['mouth', 'mouse'],
+      ['thank', 'sank'], ['theme', 'seem']
+    ]
+  },
+  {
+    phonemes: ['TH', 'T'],
+    pairs: [
+      ['three', 'tree'], ['thin', 'tin'], ['thought', 'taught'], ['thank', 'tank'], ['path', 'pat'],
+      ['theme', 'team']
+    ]
+  },
+  {
+    phonemes: ['DH', 'D'],
+    pairs: [
+      ['they', 'day'], ['those', 'doze'], ['then', 'den'], ['there', 'dare'], ['though', 'dough']
+    ]
+  },
+  {
+    phonemes: ['DH', 'Z'],
+    pairs: [
+      ['then', 'zen']
+    ]
+  },
+  {
+    phonemes: ['B', 'V'],
+    pairs: [
+      ['best', 'vest'], ['berry', 'very'], ['ban', 'van'], ['boat', 'vote'], ['curb', 'curve'], ['bet', 'vet']
+    ]
+  },
+  {
+    phonemes: ['F', 'TH'],
+    pairs: [
+      ['free', 'three'], ['fin', 'thin'], ['fought', 'thought'], ['deaf', 'death'], ['first', 'thirst']
+    ]
+  },
+  {
+    phonemes: ['S', 'SH'],
+    pairs: [
+      ['sip', 'ship'], ['see', 'she'], ['sell', 'shell'], ['sort', 'short'], ['mass', 'mash'],
+      ['seat', 'sheet']
+    ]
+  },
+  {
+    phonemes: ['S', 'Z'],
+    pairs: [
+      ['sip', 'zip'], ['sue', 'zoo'], ['price', 'prize'], ['place', 'plays']
+    ]
+  },
+  {
+    phonemes: ['B', 'P'],
+    pairs: [
+      ['bat', 'pat'], ['bin', 'pin'], ['cab', 'cap'], ['robe', 'rope']
+    ]
+  },
+  {
+    phonemes: ['AE', 'EH'],
+    pairs: [
+      ['bad', 'bed'], ['man', 'men'], ['pan', 'pen'], ['bat', 'bet']
+    ]
+  },
+  {
+    phonemes: ['AA', 'AE'],
+    pairs: [
+      ['cot', 'cat'], ['hot', 'hat'], ['block', 'black'], ['sock', 'sack'], ['cop', 'cap'], ['mop', 'map']
+    ]
+  },
+  {
+    phonemes: ['F', 'HH'],
+    pairs: [
+      ['fold', 'hold'], ['fit', 'hit'], ['feel', 'heel'], ['fall', 'hall'], ['fire', 'hire']
+    ]
+  },
+  {
+    phonemes: ['CH', 'SH'],
+    pairs: [
+      ['chip', 'ship'], ['cheap', 'sheep'], ['match', 'mash'], ['chop', 'shop']
+    ]
+  },
+  {
+    phonemes: ['JH', 'Y'],
+    pairs: [
+      ['jam', 'yam'], ['jet', 'yet']
+    ]
+  },
+  {
+    phonemes: ['UH', 'UW'],
+    pairs: [
+      ['full', 'fool'], ['pull', 'pool'], ['could', 'cooed'], ['should', 'shooed']
+    ]
+  },
+  {
+    phonemes: ['L', 'N'],
+    pairs: [
+      ['light', 'night'], ['low', 'no'], ['lock', 'knock'], ['line', 'nine'], ['slow', 'snow']
+    ]
+  },
+  {
+    phonemes: ['N', 'NG'],
+    pairs: [
+      ['sin', 'sing'], ['thin', 'thing'], ['ran', 'rang'], ['win', 'wing'], ['sun', 'sung'], ['ban', 'bang']
+    ]
+  },
+  {
+    phonemes: ['EH', 'IH'],
+    pairs: [
+      ['pen', 'pin'], ['bet', 'bit'], ['set', 'sit'], ['led', 'lid'], ['ten', 'tin']
+    ]
+  },
+  {
+    phonemes: ['AO', 'OW'],
+    pairs: [
+      ['bought', 'boat'], ['caught', 'coat'], ['law', 'low'], ['raw', 'row'], ['saw', 'so']
+    ]
+  },
+  {
+    phonemes: ['F', 'V'],
+    pairs: [
+      ['fan', 'van'], ['fine', 'vine'], ['fast', 'vast'], ['safe', 'save'], ['leaf', 'leave'],
+      ['fail', 'veil']
+    ]
+  },
+  {
+    phonemes: ['JH', 'Z'],
+    pairs: [
+      ['jest', 'zest'], ['page', 'pays']
+    ]
+  }
+];
+
+/**
+ * Key of a phoneme contrast regardless of order, e.g. "IH/IY"
+ */
+export function contrastKey(first: string, second: string): string {
+  return [first, second].sort().join('/');
+}
+
+const PAIRS_BY_CONTRAST = new Map<string, MinimalPairSet>(
+  MINIMAL_PAIRS.map(set => [contrastKey(...set.phonemes), set])
+);
+
+/**
+ * Word pairs contrasting two phonemes, each ordered as [word with first, word with second]
+ * e.g. getMinimalPairs('IY', 'IH') includes ['sheep', 'ship']; empty when no pairs are known
+ */
+export function getMinimalPairs(first: string, second: string): [string, string][] {
+  const set = PAIRS_BY_CONTRAST.get(contrastKey(first, second));
+  if (!set) return [];
+
+  return set.phonemes[0] === first
+    ? set.pairs.map(([a, b]) => [a, b])
+    : set.pairs.map(([a, b]) => [b, a]);
+}
+
+/**
+ * Whether minimal pairs are known for a phoneme contrast
+ */
+export function hasMinimalPairs(first: string, second: string): boolean {
+  return PAIRS_BY_CONTRAST.has(contrastKey(first, second));
+}
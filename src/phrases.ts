@@ -3,6 +3,8 @@
  * Organized by difficulty level and pronunciation focus areas
  */
 
+export type PhraseLevel = 'basic' | 'intermediate' | 'advanced';
+
 // Basic level phrases - common words and sounds
 export const BASIC_PHRASES = [
   "The quick brown fox jumps over the lazy dog.",
@@ -54,6 +56,15 @@ export const SOUND_FOCUS_PHRASES = {
   ]
 };
 
+export type FocusSound = keyof typeof SOUND_FOCUS_PHRASES;
+
+// Leveled phrase lists keyed by level
+export const PHRASES_BY_LEVEL: { [level in PhraseLevel]: string[] } = {
+  basic: BASIC_PHRASES,
+  intermediate: INTERMEDIATE_PHRASES,
+  advanced: ADVANCED_PHRASES
+};
+
 // All phrases combined for random selection
 export const ALL_PHRASES = [
   ...BASIC_PHRASES,
@@ -73,22 +84,8 @@ export function getRandomPhrase(): string {
 /**
  * Get a phrase by difficulty level
  */
-export function getPhraseByLevel(level: 'basic' | 'intermediate' | 'advanced'): string {
-  let phrases: string[];
-  
-  switch (level) {
-    case 'basic':
-      phrases = BASIC_PHRASES;
-      break;
-    case 'intermediate':
-      phrases = INTERMEDIATE_PHRASES;
-      break;
-    case 'advanced':
-      phrases = ADVANCED_PHRASES;
-      break;
-    default:
-      phrases = ALL_PHRASES;
-  }
+export function getPhraseByLevel(level: PhraseLevel): string {
+  const phrases = PHRASES_BY_LEVEL[level] || ALL_PHRASES;
   
   const randomIndex = Math.floor(Math.random() * phrases.length);
   return phrases[randomIndex];
@@ -97,7 +94,7 @@ export function getPhraseByLevel(level: 'basic' | 'intermediate' | 'advanced'):
 /**
  * Get phrases focused on specific sound patterns
  */
-export function getPhraseBySound(sound: keyof typeof SOUND_FOCUS_PHRASES): string {
+export function getPhraseBySound(sound: FocusSound): string {
   const phrases = SOUND_FOCUS_PHRASES[sound];
   const randomIndex = Math.floor(Math.random() * phrases.length);
   return phrases[randomIndex];
@@ -106,7 +103,7 @@ export function getPhraseBySound(sound: keyof typeof SOUND_FOCUS_PHRASES): strin
 /**
  * Get phrase difficulty level based on content analysis
  */
-export function analyzeDifficulty(phrase: string): 'basic' | 'intermediate' | 'advanced' {
+export function analyzeDifficulty(phrase: string): PhraseLevel {
   const wordCount = phrase.split(/\s+/).length;
   const avgWordLength = phrase.replace(/\s+/g, '').length / wordCount;
   const hasComplexSounds = /th|sh|ch|ng|qu|ck|ph/.test(phrase.toLowerCase());
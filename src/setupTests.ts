@@ -64,13 +64,18 @@ afterEach(() => {
 });
 
 // Mock Web Audio API if needed
-Object.defineProperty(window, 'AudioContext', {
-  writable: true,
-  value: jest.fn().mockImplementation(() => ({
+// A plain constructor, so resetMocks doesn't strip close() from the instances
+const audioContextConstructor = function() {
+  return {
     createAnalyser: jest.fn(),
     createMediaStreamSource: jest.fn(),
-    close: jest.fn(),
-  })),
+    close: jest.fn(() => Promise.resolve()),
+  };
+};
+
+Object.defineProperty(window, 'AudioContext', {
+  writable: true,
+  value: audioContextConstructor,
 });
 
 Object.defineProperty(window, 'webkitAudioContext', {
@@ -0,0 +1,109 @@
+/**
+ * Tests for word alignment utilities
+ */
+
+import {
+  splitWords,
+  levenshteinDistance,
+  sequenceSimilarity,
+  alignWords,
+  alignTexts
+} from './alignment';
+
+describe('alignment', () => {
+  describe('splitWords', () => {
+    it('should lowercase and split on whitespace', () => {
+      expect(splitWords('  Hello   World ')).toEqual(['hello', 'world']);
+    });
+
+    it('should return an empty list for blank text', () => {
+      expect(splitWords('')).toEqual([]);
+      expect(splitWords('   ')).toEqual([]);
+    });
+  });
+
+  describe('levenshteinDistance', () => {
+    it('should compute character edit distance for strings', () => {
+      expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+      expect(levenshteinDistance('', 'abc')).toBe(3);
+      expect(levenshteinDistance('same', 'same')).toBe(0);
+    });
+
+    it('should work on arrays of symbols', () => {
+      expect(levenshteinDistance(['TH', 'IH', 'NG', 'K'], ['S', 'IH', 'NG', 'K'])).toBe(1);
+    });
+  });
+
+  describe('sequenceSimilarity', () => {
+    it('should return 1 for identical or empty sequences', () => {
+      expect(sequenceSimilarity('word', 'word')).toBe(1);
+      expect(sequenceSimilarity('', '')).toBe(1);
+    });
+
+    it('should return partial similarity for close words', () => {
+      const similarity = sequenceSimilarity('brown', 'crown');
+      expect(similarity).toBeGreaterThan(0.7);
+      expect(similarity).toBeLessThan(1);
+    });
+  });
+
+  describe('alignWords', () => {
+    it('should match identical sequences', () => {
+      const alignment = alignWords(['a', 'b'], ['a', 'b']);
+      expect(alignment.map(step => step.operation)).toEqual(['match', 'match']);
+    });
+
+    it('should mark a skipped word as a deletion without shifting the rest', () => {
+      const alignment = alignWords(
+        ['quick', 'brown', 'fox'],
+        ['the', 'quick', 'brown', 'fox']
+      );
+      expect(alignment.map(step => step.operation)).toEqual(['deletion', 'match', 'match', 'match']);
+      expect(alignment[0]).toEqual({
+        operation: 'deletion',
+        targetIndex: 0,
+        spokenIndex: null,
+        targetWord: 'the',
+        spokenWord: null
+      });
+      expect(alignment[1].targetIndex).toBe(1);
+      expect(alignment[1].spokenIndex).toBe(0);
+    });
+
+    it('should mark extra words as insertions', () => {
+      const alignment = alignWords(['hello', 'there', 'world'], ['hello', 'world']);
+      expect(alignment.map(step => step.operation)).toEqual(['match', 'insertion', 'match']);
+      expect(alignment[1].spokenWord).toBe('there');
+    });
+
+    it('should pair similar words as substitutions', () => {
+      const alignment = alignWords(['the', 'quick', 'crown', 'fox'], ['the', 'quick', 'brown', 'fox']);
+      expect(alignment[2]).toEqual({
+        operation: 'substitution',
+        targetIndex: 2,
+        spokenIndex: 2,
+        targetWord: 'brown',
+        spokenWord: 'crown'
+      });
+    });
+
+    it('should handle empty inputs', () => {
+      expect(alignWords([], [])).toEqual([]);
+      expect(alignWords([], ['a']).map(step => step.operation)).toEqual(['deletion']);
+      expect(alignWords(['a'], []).map(step => step.operation)).toEqual(['insertion']);
+    });
+
+    it('should accept a custom similarity function', () => {
+      const alwaysSimilar = () => 1;
+      const alignment = alignWords(['cat'], ['dog'], alwaysSimilar);
+      expect(alignment[0].operation).toBe('substitution');
+    });
+  });
+
+  describe('alignTexts', () => {
+    it('should align texts case-insensitively', () => {
+      const alignment = alignTexts('Hello World', 'hello world');
+      expect(alignment.every(step => step.operation === 'match')).toBe(true);
+    });
+  });
+});
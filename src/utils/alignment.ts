@@ -0,0 +1,154 @@
+/**
+ * Sequence alignment utilities
+ * Aligns spoken words against target words with a weighted edit distance so
+ * that a single skipped or extra word does not shift every following word
+ */
+
+export type AlignmentOperation = 'match' | 'substitution' | 'insertion' | 'deletion';
+
+/**
+ * One step of a word alignment
+ * - match: spoken word equals the target word (or, in phoneme alignment, is a homophone of it)
+ * - substitution: a different word was spoken in place of the target word
+ * - insertion: an extra spoken word with no target counterpart
+ * - deletion: a target word that was not spoken
+ */
+export interface WordAlignment {
+  operation: AlignmentOperation;
+  targetIndex: number | null;
+  spokenIndex: number | null;
+  targetWord: string | null;
+  spokenWord: string | null;
+}
+
+/**
+ * Split text into lowercase words, returning an empty list for blank text
+ */
+export function splitWords(text: string): string[] {
+  const trimmed = (text || '').toLowerCase().trim();
+  return trimmed ? trimmed.split(/\s+/) : [];
+}
+
+/**
+ * Calculate the Levenshtein distance between two sequences
+ * Works on strings (character level) and arrays (e.g. phoneme lists)
+ */
+export function levenshteinDistance<T>(a: ArrayLike<T>, b: ArrayLike<T>): number {
+  const previous: number[] = [];
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = a[i - 1] === b[j - 1]
+        ? diagonal
+        : Math.min(diagonal + 1, previous[j - 1] + 1, above + 1);
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity between two sequences from 0 (nothing shared) to 1 (identical)
+ */
+export function sequenceSimilarity<T>(a: ArrayLike<T>, b: ArrayLike<T>): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1.0;
+
+  return (longest - levenshteinDistance(a, b)) / longest;
+}
+
+/**
+ * Align spoken words to target words using a weighted edit distance
+ * Insertions and deletions cost 1; a substitution costs 1 minus the similarity
+ * of the two words, so near-misses pair up with the word they were meant to be.
+ * The result is ordered by position in both sequences.
+ */
+export function alignWords(
+  spokenWords: string[],
+  targetWords: string[],
+  similarity: (spoken: string, target: string) => number = sequenceSimilarity
+): WordAlignment[] {
+  const rows = targetWords.length;
+  const cols = spokenWords.length;
+
+  // cost[i][j] = cheapest alignment of the first i target and first j spoken words
+  const cost: number[][] = [];
+  for (let i = 0; i <= rows; i++) {
+    cost[i] = [i];
+  }
+  for (let j = 1; j <= cols; j++) {
+    cost[0][j] = j;
+  }
+
+  const substitutionCost = (i: number, j: number): number => {
+    const target = targetWords[i - 1];
+    const spoken = spokenWords[j - 1];
+    return target === spoken ? 0 : 1 - similarity(spoken, target);
+  };
+
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= cols; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitutionCost(i, j),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  // Walk back from the end, preferring diagonal steps, then deletions
+  const alignment: WordAlignment[] = [];
+  let i = rows;
+  let j = cols;
+  const epsilon = 1e-9;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && Math.abs(cost[i][j] - (cost[i - 1][j - 1] + substitutionCost(i, j))) < epsilon) {
+      const targetWord = targetWords[i - 1];
+      const spokenWord = spokenWords[j - 1];
+      alignment.push({
+        operation: targetWord === spokenWord ? 'match' : 'substitution',
+        targetIndex: i - 1,
+        spokenIndex: j - 1,
+        targetWord,
+        spokenWord
+      });
+      i--;
+      j--;
+    } else if (i > 0 && Math.abs(cost[i][j] - (cost[i - 1][j] + 1)) < epsilon) {
+      alignment.push({
+        operation: 'deletion',
+        targetIndex: i - 1,
+        spokenIndex: null,
+        targetWord: targetWords[i - 1],
+        spokenWord: null
+      });
+      i--;
+    } else {
+      alignment.push({
+        operation: 'insertion',
+        targetIndex: null,
+        spokenIndex: j - 1,
+        targetWord: null,
+        spokenWord: spokenWords[j - 1]
+      });
+      j--;
+    }
+  }
+
+  return alignment.reverse();
+}
+
+/**
+ * Align two texts word by word (case-insensitive)
+ */
+export function alignTexts(userText: string, targetText: string): WordAlignment[] {
+  return alignWords(splitWords(userText), splitWords(targetText));
+}
@@ -0,0 +1,151 @@
+/**
+ * Tests for recording analysis on generated sine and noise buffers
+ */
+
+import {
+  analyzeRecording,
+  analyzeSamples,
+  computeEnergyFrames,
+  downsample,
+  estimatePitch,
+  findSilences
+} from './audioAnalysis';
+import * as audioCodec from './audioCodec';
+
+const SAMPLE_RATE = 48000;
+
+function sine(frequency: number, seconds: number, amplitude: number = 0.3, sampleRate: number = SAMPLE_RATE): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+}
+
+/** Repeatable white noise from a linear congruential generator */
+function noise(seconds: number, amplitude: number = 0.3, sampleRate: number = SAMPLE_RATE): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  let seed = 12345;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    samples[i] = amplitude * (seed / 1073741824 - 1);
+  }
+  return samples;
+}
+
+function silence(seconds: number, sampleRate: number = SAMPLE_RATE): Float32Array {
+  return new Float32Array(Math.round(seconds * sampleRate));
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const result = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+describe('audioAnalysis', () => {
+  describe('downsample', () => {
+    it('should average blocks down to the target rate', () => {
+      const result = downsample(new Float32Array([0, 1, 2, 3, 4, 5]), 48000, 16000);
+
+      expect(result.sampleRate).toBe(16000);
+      expect(Array.from(result.samples)).toEqual([1, 4]);
+    });
+
+    it('should leave lower sample rates alone', () => {
+      const samples = new Float32Array(10);
+      expect(downsample(samples, 16000, 16000)).toEqual({ samples, sampleRate: 16000 });
+    });
+  });
+
+  describe('computeEnergyFrames', () => {
+    it('should measure the RMS of each frame', () => {
+      const energy = computeEnergyFrames(concat(sine(200, 0.1), silence(0.1)), 960);
+
+      expect(energy).toHaveLength(10);
+      expect(energy[0]).toBeCloseTo(0.3 / Math.SQRT2, 2);
+      expect(energy[9]).toBe(0);
+    });
+
+    it('should include a final partial frame', () => {
+      expect(computeEnergyFrames(new Float32Array([0.5, 0.5, 0.5]), 2)).toEqual([0.5, 0.5]);
+    });
+  });
+
+  describe('estimatePitch', () => {
+    it.each([100, 180, 250, 400])('should find the frequency of a %i Hz tone', frequency => {
+      const pitch = estimatePitch(sine(frequency, 0.04, 0.3, 16000), 16000);
+      expect(pitch).toBeCloseTo(frequency, -0.3); // within about 1 Hz
+    });
+
+    it('should not report pitch for noise', () => {
+      expect(estimatePitch(noise(0.04, 0.3, 16000), 16000)).toBeNull();
+    });
+
+    it('should not report pitch for silence', () => {
+      expect(estimatePitch(silence(0.04, 16000), 16000)).toBeNull();
+    });
+
+    it('should not report pitch below the voice range', () => {
+      expect(estimatePitch(sine(50, 0.04, 0.3, 16000), 16000)).toBeNull();
+    });
+  });
+
+  describe('findSilences', () => {
+    it('should return long quiet stretches in seconds', () => {
+      const energy = [0.1, 0, 0, 0, 0, 0, 0.1, 0, 0.1, 0, 0, 0, 0, 0, 0];
+      expect(findSilences(energy, 0.05, 0.01, 200)).toEqual([
+        { start: expect.closeTo(0.05, 5), end: expect.closeTo(0.3, 5) },
+        { start: expect.closeTo(0.45, 5), end: expect.closeTo(0.75, 5) }
+      ]);
+    });
+
+    it('should return nothing for continuous sound', () => {
+      expect(findSilences([0.2, 0.3, 0.2], 0.02)).toEqual([]);
+    });
+  });
+
+  describe('analyzeSamples', () => {
+    const samples = concat(silence(0.5), sine(150, 1), silence(0.6), noise(0.5), silence(0.1));
+    const analysis = analyzeSamples(samples, SAMPLE_RATE);
+
+    it('should report the true duration', () => {
+      expect(analysis.duration).toBeCloseTo(2.7, 5);
+      expect(analysis.energy).toHaveLength(135);
+      expect(analysis.pitch).toHaveLength(135);
+    });
+
+    it('should find the leading and inner silences but not short gaps', () => {
+      expect(analysis.silences).toEqual([
+        { start: 0, end: expect.closeTo(0.5, 5) },
+        { start: expect.closeTo(1.5, 5), end: expect.closeTo(2.1, 5) }
+      ]);
+    });
+
+    it('should track the pitch of the tone and leave noise and silence unvoiced', () => {
+      const frameAt = (seconds: number) => Math.round(seconds / analysis.frameDuration);
+
+      expect(analysis.pitch[frameAt(0.2)]).toBeNull();
+      expect(analysis.pitch[frameAt(1)]).toBeCloseTo(150, -0.3);
+      expect(analysis.pitch[frameAt(2.3)]).toBeNull();
+    });
+  });
+
+  describe('analyzeRecording', () => {
+    it('should analyze the decoded recording', async () => {
+      jest.spyOn(audioCodec, 'decodeAudioBlob').mockResolvedValue({ samples: sine(200, 1.5), sampleRate: SAMPLE_RATE });
+
+      const analysis = await analyzeRecording(new Blob(['audio']));
+      expect(analysis!.duration).toBeCloseTo(1.5, 5);
+    });
+
+    it('should return null when the recording cannot be decoded', async () => {
+      jest.spyOn(audioCodec, 'decodeAudioBlob').mockResolvedValue(null);
+      expect(await analyzeRecording(new Blob(['audio']))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Acoustic analysis of a recording: true duration, energy and pitch contours and silences
+ * Everything below analyzeRecording() works on plain mono PCM, so it can be tested with generated buffers
+ */
+
+import { decodeAudioBlob } from './audioCodec';
+
+export interface TimeSegment {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export interface AudioAnalysis {
+  duration: number; // seconds
+  frameDuration: number; // seconds between contour values
+  energy: number[]; // RMS of each frame, 0 to 1
+  pitch: (number | null)[]; // F0 of each frame in Hz, null when unvoiced or silent
+  silences: TimeSegment[]; // includes any leading and trailing silence
+}
+
+export interface AnalysisOptions {
+  frameMs: number;
+  silenceThreshold: number; // frames below this RMS are silent
+  minSilenceMs: number; // shorter gaps are stop closures between sounds, not pauses
+  minPitchHz: number;
+  maxPitchHz: number;
+  voicingThreshold: number; // minimum normalized autocorrelation for a voiced frame
+}
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  frameMs: 20,
+  silenceThreshold: 0.01,
+  minSilenceMs: 200,
+  minPitchHz: 75,
+  maxPitchHz: 500,
+  voicingThreshold: 0.6
+};
+
+const PITCH_SAMPLE_RATE = 16000; // plenty for speech F0 and keeps autocorrelation cheap
+const PITCH_WINDOW_FRAMES = 2; // pitch needs a few periods of the lowest voice
+
+/**
+ * Reduce the sample rate by averaging blocks of samples
+ * Averaging doubles as a rough low-pass filter, which is enough for pitch tracking
+ */
+export function downsample(samples: Float32Array, sampleRate: number, targetRate: number): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.floor(sampleRate / targetRate);
+  if (factor <= 1) {
+    return { samples, sampleRate };
+  }
+
+  const result = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < result.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) {
+      sum += samples[i * factor + j];
+    }
+    result[i] = sum / factor;
+  }
+  return { samples: result, sampleRate: sampleRate / factor };
+}
+
+/**
+ * RMS energy of consecutive frames
+ */
+export function computeEnergyFrames(samples: Float32Array, frameSize: number): number[] {
+  const energy: number[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(start + frameSize, samples.length);
+    let sumOfSquares = 0;
+    for (let i = start; i < end; i++) {
+      sumOfSquares += samples[i] * samples[i];
+    }
+    energy.push(Math.sqrt(sumOfSquares / (end - start)));
+  }
+  return energy;
+}
+
+/**
+ * Estimate the fundamental frequency of a frame with normalized autocorrelation
+ * Returns null for unvoiced frames (noise, fricatives, silence)
+ */
+export function estimatePitch(
+  frame: Float32Array,
+  sampleRate: number,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
+): number | null {
+  const minLag = Math.floor(sampleRate / options.maxPitchHz);
+  const maxLag = Math.min(Math.ceil(sampleRate / options.minPitchHz), frame.length - 1);
+  if (minLag >= maxLag) return null;
+
+  let mean = 0;
+  for (let i = 0; i < frame.length; i++) mean += frame[i];
+  mean /= frame.length;
+  const centered = frame.map(sample => sample - mean);
+
+  const correlations: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let product = 0;
+    let headEnergy = 0;
+    let tailEnergy = 0;
+    for (let i = 0; i + lag < centered.length; i++) {
+      product += centered[i] * centered[i + lag];
+      headEnergy += centered[i] * centered[i];
+      tailEnergy += centered[i + lag] * centered[i + lag];
+    }
+    const correlation = headEnergy > 0 && tailEnergy > 0 ? product / Math.sqrt(headEnergy * tailEnergy) : 0;
+    correlations.push(correlation);
+  }
+
+  // Skip the falling slope at the shortest lags; a slow wave (below the voice range) looks similar to itself there
+  let searchFrom = 0;
+  while (searchFrom + 1 < correlations.length && correlations[searchFrom + 1] < correlations[searchFrom]) {
+    searchFrom++;
+  }
+
+  const best = Math.max(0, ...correlations.slice(searchFrom));
+  if (best < options.voicingThreshold) return null;
+
+  // Take the first peak close to the best one; later peaks are multiples of the period (octave errors)
+  let index = correlations.findIndex((correlation, lagIndex) => lagIndex >= searchFrom && correlation >= best * 0.9);
+  while (index + 1 < correlations.length && correlations[index + 1] > correlations[index]) {
+    index++;
+  }
+
+  // Refine the lag between samples with a parabola through the peak and its neighbours
+  let offset = 0;
+  if (index > 0 && index < correlations.length - 1) {
+    const previous = correlations[index - 1];
+    const next = correlations[index + 1];
+    const curvature = previous - 2 * correlations[index] + next;
+    if (curvature !== 0) {
+      offset = (previous - next) / (2 * curvature);
+    }
+  }
+
+  return sampleRate / (minLag + index + offset);
+}
+
+/**
+ * Find the stretches of silent frames long enough to count as pauses
+ */
+export function findSilences(
+  energy: number[],
+  frameDuration: number,
+  threshold: number = DEFAULT_ANALYSIS_OPTIONS.silenceThreshold,
+  minSilenceMs: number = DEFAULT_ANALYSIS_OPTIONS.minSilenceMs
+): TimeSegment[] {
+  const silences: TimeSegment[] = [];
+  let silentFrom: number | null = null;
+
+  for (let i = 0; i <= energy.length; i++) {
+    const silent = i < energy.length && energy[i] < threshold;
+    if (silent && silentFrom === null) {
+      silentFrom = i;
+    } else if (!silent && silentFrom !== null) {
+      if ((i - silentFrom) * frameDuration * 1000 >= minSilenceMs) {
+        silences.push({ start: silentFrom * frameDuration, end: i * frameDuration });
+      }
+      silentFrom = null;
+    }
+  }
+
+  return silences;
+}
+
+/**
+ * Analyze mono PCM samples
+ */
+export function analyzeSamples(
+  samples: Float32Array,
+  sampleRate: number,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
+): AudioAnalysis {
+  const frameDuration = options.frameMs / 1000;
+  const frameSize = Math.max(1, Math.round(sampleRate * frameDuration));
+  const energy = computeEnergyFrames(samples, frameSize);
+
+  const reduced = downsample(samples, sampleRate, PITCH_SAMPLE_RATE);
+  const pitchFrameSize = Math.max(1, Math.round(reduced.sampleRate * frameDuration));
+  const pitch = energy.map((frameEnergy, index) => {
+    if (frameEnergy < options.silenceThreshold) return null;
+    const start = index * pitchFrameSize;
+    const frame = reduced.samples.subarray(start, start + pitchFrameSize * PITCH_WINDOW_FRAMES);
+    return estimatePitch(frame, reduced.sampleRate, options);
+  });
+
+  return {
+    duration: samples.length / sampleRate,
+    frameDuration,
+    energy,
+    pitch,
+    silences: findSilences(energy, frameDuration, options.silenceThreshold, options.minSilenceMs)
+  };
+}
+
+/**
+ * Decode and analyze a recording
+ * Returns null when the browser cannot decode it
+ */
+export async function analyzeRecording(
+  audioBlob: Blob,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
+): Promise<AudioAnalysis | null> {
+  const decoded = await decodeAudioBlob(audioBlob);
+  if (!decoded) return null;
+  return analyzeSamples(decoded.samples, decoded.sampleRate, options);
+}
@@ -0,0 +1,96 @@
+/**
+ * Tests for recording decoding and WAV encoding helpers
+ */
+
+import { decodeAudioBlob, encodeWav, mixToMono, readBlob } from './audioCodec';
+
+describe('audioCodec', () => {
+  describe('mixToMono', () => {
+    it('should return a single channel unchanged', () => {
+      const channel = new Float32Array([0.1, 0.2]);
+      expect(mixToMono([channel])).toBe(channel);
+    });
+
+    it('should average the channels', () => {
+      const mono = mixToMono([new Float32Array([0.5, 1, 0]), new Float32Array([-0.5, 0, 0.4])]);
+      expect(Array.from(mono)).toEqual([0, 0.5, expect.closeTo(0.2, 5)]);
+    });
+  });
+
+  describe('encodeWav', () => {
+    it('should write a 16-bit mono WAV header', async () => {
+      const blob = encodeWav(new Float32Array(100), 16000);
+      const view = new DataView(await readBlob(blob));
+      const text = (offset: number) => String.fromCharCode(...Array.from(new Uint8Array(view.buffer, offset, 4)));
+
+      expect(blob.type).toBe('audio/wav');
+      expect(blob.size).toBe(44 + 200);
+      expect(text(0)).toBe('RIFF');
+      expect(text(8)).toBe('WAVE');
+      expect(view.getUint16(22, true)).toBe(1);
+      expect(view.getUint32(24, true)).toBe(16000);
+      expect(view.getUint16(34, true)).toBe(16);
+      expect(view.getUint32(40, true)).toBe(200);
+    });
+
+    it('should scale and clamp samples', async () => {
+      const view = new DataView(await readBlob(encodeWav(new Float32Array([1, -1, 0.5, 2]), 8000)));
+
+      expect(view.getInt16(44, true)).toBe(32767);
+      expect(view.getInt16(46, true)).toBe(-32768);
+      expect(view.getInt16(48, true)).toBe(16383);
+      expect(view.getInt16(50, true)).toBe(32767);
+    });
+  });
+
+  describe('decodeAudioBlob', () => {
+    const originalAudioContext = window.AudioContext;
+
+    afterEach(() => {
+      window.AudioContext = originalAudioContext;
+    });
+
+    it('should decode to mono samples', async () => {
+      const close = jest.fn(() => Promise.resolve());
+      window.AudioContext = jest.fn().mockImplementation(() => ({
+        decodeAudioData: () => Promise.resolve({
+          numberOfChannels: 2,
+          sampleRate: 44100,
+          getChannelData: (channel: number) => new Float32Array(channel === 0 ? [0.2, 0.4] : [0, 0])
+        }),
+        close
+      })) as any;
+
+      const decoded = await decodeAudioBlob(new Blob(['audio']));
+
+      expect(decoded!.sampleRate).toBe(44100);
+      expect(Array.from(decoded!.samples)).toEqual([expect.closeTo(0.1, 5), expect.closeTo(0.2, 5)]);
+      expect(close).toHaveBeenCalled();
+    });
+
+    it('should return null when decoding fails', async () => {
+      window.AudioContext = jest.fn().mockImplementation(() => ({
+        decodeAudioData: () => Promise.reject(new Error('Unsupported format')),
+        close: jest.fn(() => Promise.resolve())
+      })) as any;
+
+      expect(await decodeAudioBlob(new Blob(['audio']))).toBeNull();
+    });
+
+    it('should not fail when the audio context cannot be closed', async () => {
+      window.AudioContext = jest.fn().mockImplementation(() => ({
+        decodeAudioData: () => Promise.resolve({
+          numberOfChannels: 1,
+          sampleRate: 16000,
+          getChannelData: () => new Float32Array([0.1])
+        }),
+        close: jest.fn(() => Promise.reject(new DOMException('Cannot close a closed AudioContext', 'InvalidStateError')))
+      })) as any;
+
+      expect(await decodeAudioBlob(new Blob(['audio']))).not.toBeNull();
+      await Promise.resolve();
+
+      expect(console.warn).toHaveBeenCalledWith('Could not close audio context:', expect.any(DOMException));
+    });
+  });
+});
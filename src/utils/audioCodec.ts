@@ -0,0 +1,115 @@
+/**
+ * Converts recordings between Blobs and mono PCM samples
+ * MediaRecorder output (webm/mp4) is decoded with Web Audio; edited audio is written back as 16-bit WAV
+ */
+
+export interface DecodedAudio {
+  samples: Float32Array; // mono, -1 to 1
+  sampleRate: number;
+}
+
+/**
+ * Read a Blob's bytes
+ * Falls back to FileReader for environments without Blob.arrayBuffer()
+ */
+export function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer();
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Mix the channels of a decoded buffer down to mono
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+
+  const length = Math.min(...channels.map(channel => channel.length));
+  const mono = new Float32Array(length);
+  channels.forEach(channel => {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i] / channels.length;
+    }
+  });
+  return mono;
+}
+
+/**
+ * Release an audio context
+ * close() rejects when the context is already closed, e.g. when two effects clean up
+ */
+export function closeContext(context: AudioContext): void {
+  context.close().catch(error => {
+    console.warn('Could not close audio context:', error);
+  });
+}
+
+/**
+ * Decode a recording to mono PCM
+ * Returns null when the browser cannot decode it
+ */
+export async function decodeAudioBlob(blob: Blob): Promise<DecodedAudio | null> {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) return null;
+
+  let context: AudioContext | null = null;
+  try {
+    context = new AudioContextClass();
+    const buffer = await context.decodeAudioData(await readBlob(blob));
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      channels.push(buffer.getChannelData(channel));
+    }
+    return { samples: mixToMono(channels), sampleRate: buffer.sampleRate };
+  } catch (error) {
+    console.warn('Could not decode recording:', error);
+    return null;
+  } finally {
+    if (context) {
+      closeContext(context);
+    }
+  }
+}
+
+/**
+ * Encode mono PCM samples as a 16-bit WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string): void => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true); // byte rate
+  view.setUint16(32, bytesPerSample, true); // block align
+  view.setUint16(34, 8 * bytesPerSample, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * bytesPerSample, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
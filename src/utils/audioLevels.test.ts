@@ -0,0 +1,143 @@
+/**
+ * Tests for input level analysis on synthetic PCM frames
+ */
+
+import {
+  DEFAULT_LEVEL_THRESHOLDS,
+  LevelWarningTracker,
+  measureLevel,
+  meterPosition,
+  toDecibels
+} from './audioLevels';
+
+const SAMPLE_RATE = 48000;
+
+function sine(amplitude: number, length: number = 2048, frequency: number = 220): Float32Array {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+function clipped(samples: Float32Array, limit: number): Float32Array {
+  return samples.map(sample => Math.max(-limit, Math.min(limit, sample)));
+}
+
+describe('audioLevels', () => {
+  describe('measureLevel', () => {
+    it('should measure silence as zero', () => {
+      expect(measureLevel(new Float32Array(1024))).toEqual({ rms: 0, peak: 0, clippedRatio: 0 });
+    });
+
+    it('should handle an empty frame', () => {
+      expect(measureLevel(new Float32Array(0))).toEqual({ rms: 0, peak: 0, clippedRatio: 0 });
+    });
+
+    it('should give a sine wave an RMS of amplitude / sqrt(2)', () => {
+      const level = measureLevel(sine(0.5, SAMPLE_RATE));
+
+      expect(level.rms).toBeCloseTo(0.5 / Math.SQRT2, 3);
+      expect(level.peak).toBeCloseTo(0.5, 3);
+      expect(level.clippedRatio).toBe(0);
+    });
+
+    it('should count samples at full scale as clipped', () => {
+      const level = measureLevel(clipped(sine(2), 1));
+
+      expect(level.peak).toBe(1);
+      expect(level.clippedRatio).toBeGreaterThan(0.5);
+    });
+
+    it('should use the given clipping level', () => {
+      expect(measureLevel(sine(0.8), 0.7).clippedRatio).toBeGreaterThan(0);
+      expect(measureLevel(sine(0.8), 0.9).clippedRatio).toBe(0);
+    });
+  });
+
+  describe('toDecibels', () => {
+    it('should put full scale at 0 dB and halve amplitude at about -6 dB', () => {
+      expect(toDecibels(1)).toBe(0);
+      expect(toDecibels(0.5)).toBeCloseTo(-6.02, 2);
+    });
+
+    it('should floor silence at -100 dB', () => {
+      expect(toDecibels(0)).toBe(-100);
+      expect(toDecibels(1e-9)).toBe(-100);
+    });
+  });
+
+  describe('meterPosition', () => {
+    it('should map the floor to 0 and full scale to 1', () => {
+      expect(meterPosition(0)).toBe(0);
+      expect(meterPosition(0.0005)).toBe(0);
+      expect(meterPosition(1)).toBe(1);
+    });
+
+    it('should place -30 dB halfway on the default scale', () => {
+      expect(meterPosition(Math.pow(10, -30 / 20))).toBeCloseTo(0.5, 5);
+    });
+  });
+
+  describe('LevelWarningTracker', () => {
+    const speech = measureLevel(sine(0.3));
+    const whisper = measureLevel(sine(0.005));
+    const overload = measureLevel(clipped(sine(2), 1));
+
+    it('should not warn for normal speech', () => {
+      const tracker = new LevelWarningTracker();
+      for (let time = 0; time <= 5000; time += 50) {
+        expect(tracker.update(speech, time)).toBeNull();
+      }
+    });
+
+    it('should warn once the input stays quiet for the whole window', () => {
+      const tracker = new LevelWarningTracker();
+
+      expect(tracker.update(whisper, 0)).toBeNull();
+      expect(tracker.update(whisper, DEFAULT_LEVEL_THRESHOLDS.quietWindowMs - 50)).toBeNull();
+      expect(tracker.update(whisper, DEFAULT_LEVEL_THRESHOLDS.quietWindowMs)).toBe('too_quiet');
+    });
+
+    it('should not warn for a short pause between words', () => {
+      const tracker = new LevelWarningTracker();
+
+      tracker.update(speech, 0);
+      expect(tracker.update(whisper, 500)).toBeNull();
+      expect(tracker.update(speech, 1000)).toBeNull();
+      expect(tracker.update(whisper, 2500)).toBeNull();
+    });
+
+    it('should warn about clipping straight away and hold the warning', () => {
+      const tracker = new LevelWarningTracker();
+
+      expect(tracker.update(overload, 0)).toBe('clipping');
+      expect(tracker.update(speech, 1000)).toBe('clipping');
+      expect(tracker.update(speech, DEFAULT_LEVEL_THRESHOLDS.clippingHoldMs)).toBeNull();
+    });
+
+    it('should ignore a single stray full-scale sample', () => {
+      const tracker = new LevelWarningTracker();
+      const samples = sine(0.3);
+      samples[100] = 1;
+
+      expect(tracker.update(measureLevel(samples), 0)).toBeNull();
+    });
+
+    it('should use custom thresholds', () => {
+      const tracker = new LevelWarningTracker({ ...DEFAULT_LEVEL_THRESHOLDS, quietRms: 0.5 });
+
+      tracker.update(speech, 0);
+      expect(tracker.update(speech, DEFAULT_LEVEL_THRESHOLDS.quietWindowMs)).toBe('too_quiet');
+    });
+
+    it('should start over after reset', () => {
+      const tracker = new LevelWarningTracker();
+      tracker.update(whisper, 0);
+      expect(tracker.update(whisper, 3000)).toBe('too_quiet');
+
+      tracker.reset();
+      expect(tracker.update(whisper, 3100)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Input level analysis for live microphone audio
+ * Works on plain Float32 PCM frames (-1 to 1) so it can be tested without Web Audio
+ */
+
+export interface AudioLevel {
+  rms: number; // 0 to 1
+  peak: number; // largest absolute sample, 0 to 1
+  clippedRatio: number; // share of samples at or above the clipping level
+}
+
+export type LevelWarning = 'too_quiet' | 'clipping';
+
+export interface LevelThresholds {
+  quietRms: number; // speech below this RMS is too quiet to transcribe reliably
+  clippingLevel: number; // absolute sample value treated as clipped
+  clippedRatio: number; // share of clipped samples in a frame that counts as clipping
+  quietWindowMs: number; // how long the input must stay quiet before warning
+  clippingHoldMs: number; // how long a clipping warning stays up after the last clipped frame
+}
+
+export const DEFAULT_LEVEL_THRESHOLDS: LevelThresholds = {
+  quietRms: 0.02, // about -34 dBFS
+  clippingLevel: 0.99,
+  clippedRatio: 0.001,
+  quietWindowMs: 2000,
+  clippingHoldMs: 1500
+};
+
+const MIN_DECIBELS = -100;
+
+/**
+ * Measure the loudness of one PCM frame
+ */
+export function measureLevel(
+  samples: Float32Array,
+  clippingLevel: number = DEFAULT_LEVEL_THRESHOLDS.clippingLevel
+): AudioLevel {
+  if (samples.length === 0) {
+    return { rms: 0, peak: 0, clippedRatio: 0 };
+  }
+
+  let sumOfSquares = 0;
+  let peak = 0;
+  let clipped = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const magnitude = Math.abs(samples[i]);
+    sumOfSquares += magnitude * magnitude;
+    if (magnitude > peak) peak = magnitude;
+    if (magnitude >= clippingLevel) clipped++;
+  }
+
+  return {
+    rms: Math.sqrt(sumOfSquares / samples.length),
+    peak: Math.min(peak, 1),
+    clippedRatio: clipped / samples.length
+  };
+}
+
+/**
+ * Convert a linear amplitude to dBFS, with silence floored at -100 dB
+ */
+export function toDecibels(amplitude: number): number {
+  if (amplitude <= 0) return MIN_DECIBELS;
+  return Math.max(MIN_DECIBELS, 20 * Math.log10(amplitude));
+}
+
+/**
+ * Position of a level on a meter from floorDb (0) to 0 dBFS (1)
+ * A decibel scale keeps normal speech in the middle of the meter instead of near the bottom
+ */
+export function meterPosition(rms: number, floorDb: number = -60): number {
+  const decibels = toDecibels(rms);
+  if (decibels <= floorDb) return 0;
+  return Math.min(1, (decibels - floorDb) / -floorDb);
+}
+
+/**
+ * Turns a stream of frame levels into warnings that don't flicker
+ * Short pauses between words are not "too quiet", and a single clipped frame
+ * keeps the clipping warning up long enough to be read
+ */
+export class LevelWarningTracker {
+  private thresholds: LevelThresholds;
+  private startedAt: number | null = null;
+  private lastLoudAt: number | null = null;
+  private lastClippedAt: number | null = null;
+
+  constructor(thresholds: LevelThresholds = DEFAULT_LEVEL_THRESHOLDS) {
+    this.thresholds = thresholds;
+  }
+
+  /**
+   * Add the level of the latest frame and get the warning to show, if any
+   */
+  public update(level: AudioLevel, timeMs: number): LevelWarning | null {
+    if (this.startedAt === null) {
+      this.startedAt = timeMs;
+    }
+    if (level.rms >= this.thresholds.quietRms) {
+      this.lastLoudAt = timeMs;
+    }
+    if (level.clippedRatio > 0 && level.clippedRatio >= this.thresholds.clippedRatio) {
+      this.lastClippedAt = timeMs;
+    }
+
+    if (this.lastClippedAt !== null && timeMs - this.lastClippedAt < this.thresholds.clippingHoldMs) {
+      return 'clipping';
+    }
+
+    const quietSince = this.lastLoudAt ?? this.startedAt;
+    if (timeMs - quietSince >= this.thresholds.quietWindowMs) {
+      return 'too_quiet';
+    }
+
+    return null;
+  }
+
+  /**
+   * Forget earlier frames, e.g. when a new recording starts
+   */
+  public reset(): void {
+    this.startedAt = null;
+    this.lastLoudAt = null;
+    this.lastClippedAt = null;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for the structured feedback model
+ */
+
+import {
+  FEEDBACK_MESSAGES,
+  FeedbackItem,
+  getScoreBand,
+  createScoreSummary,
+  formatFeedbackItem,
+  dedupeFeedback
+} from './feedbackMessages';
+
+describe('feedbackMessages', () => {
+  describe('getScoreBand', () => {
+    it('should bucket scores from best to worst', () => {
+      expect(getScoreBand(100)).toBe('outstanding');
+      expect(getScoreBand(90)).toBe('great');
+      expect(getScoreBand(80)).toBe('good');
+      expect(getScoreBand(70)).toBe('improving');
+      expect(getScoreBand(55)).toBe('developing');
+      expect(getScoreBand(10)).toBe('beginner');
+    });
+  });
+
+  describe('createScoreSummary', () => {
+    it('should use a message key for the score band', () => {
+      const summary = createScoreSummary(96);
+      expect(summary).toMatchObject({ category: 'motivation', severity: 'praise', messageKey: 'score.outstanding' });
+      expect(FEEDBACK_MESSAGES[summary.messageKey]).toBeDefined();
+    });
+  });
+
+  describe('formatFeedbackItem', () => {
+    const item: FeedbackItem = {
+      category: 'sound',
+      severity: 'issue',
+      messageKey: 'sound.practice',
+      params: { sound: 'th', tip: 'Put your tongue between your teeth' },
+      targetSound: 'th'
+    };
+
+    it('should fill template parameters', () => {
+      expect(formatFeedbackItem(item)).toBe('Practice the "th" sound: Put your tongue between your teeth');
+    });
+
+    it('should use a custom message catalog', () => {
+      const spanish = { 'sound.practice': 'Practica el sonido "{sound}"' };
+      expect(formatFeedbackItem(item, spanish)).toBe('Practica el sonido "th"');
+    });
+
+    it('should fall back to the key for unknown messages', () => {
+      expect(formatFeedbackItem({ category: 'fluency', severity: 'tip', messageKey: 'fluency.unknown' }))
+        .toBe('fluency.unknown');
+    });
+  });
+
+  describe('dedupeFeedback', () => {
+    it('should drop repeated messages but keep per-sound tips', () => {
+      const items: FeedbackItem[] = [
+        createScoreSummary(80),
+        { category: 'fluency', severity: 'tip', messageKey: 'fluency.slowDown' },
+        createScoreSummary(80),
+        { category: 'fluency', severity: 'tip', messageKey: 'fluency.slowDown' },
+        { category: 'sound', severity: 'issue', messageKey: 'sound.practice', targetSound: 'th' },
+        { category: 'sound', severity: 'issue', messageKey: 'sound.practice', targetSound: 'r' }
+      ];
+
+      const deduped = dedupeFeedback(items);
+      expect(deduped.map(item => item.messageKey)).toEqual([
+        'score.good',
+        'fluency.slowDown',
+        'sound.practice',
+        'sound.practice'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Structured feedback model
+ * Agents produce FeedbackItems that refer to messages by key; the UI turns
+ * them into text with formatFeedbackItem, so items can be grouped, filtered,
+ * deduplicated and translated before they are shown
+ */
+
+export type FeedbackCategory = 'sound' | 'fluency' | 'prosody' | 'completeness' | 'motivation';
+
+/**
+ * - praise: something the learner did well
+ * - tip: general advice for the next attempt
+ * - issue: a specific problem found in this attempt
+ */
+export type FeedbackSeverity = 'praise' | 'tip' | 'issue';
+
+export interface FeedbackItem {
+  category: FeedbackCategory;
+  severity: FeedbackSeverity;
+  messageKey: string;
+  params?: { [name: string]: string | number };
+  targetSound?: string;
+  targetWord?: string;
+}
+
+export type ScoreBand = 'outstanding' | 'great' | 'good' | 'improving' | 'developing' | 'beginner';
+
+/**
+ * English message templates; {name} placeholders are filled from item params
+ */
+export const FEEDBACK_MESSAGES: { [key: string]: string } = {
+  'score.outstanding': '🌟 Outstanding! You have excellent pronunciation clarity.',
+  'score.great': '🎯 Great work! Your pronunciation is very good.',
+  'score.good': "👍 Good job! You're making solid progress.",
+  'score.improving': "📈 Keep improving! You're on the right track.",
+  'score.developing': "💪 Don't give up! Pronunciation skills take time to develop.",
+  'score.beginner': '🌱 Every expert was once a beginner. Keep practicing!',
+
+  'next.challenge': 'Consider trying more challenging texts to further improve.',
+  'next.consistency': 'Focus on maintaining this level of clarity consistently.',
+  'next.longerSentences': 'Try practicing with longer sentences to build fluency.',
+  'next.dailyReading': 'Practice reading aloud daily to build muscle memory.',
+  'next.breakDownWords': 'Try breaking down difficult words into smaller parts.',
+
+  'fluency.slowDown': 'Tip: Try reading more slowly and enunciating each word clearly.',
+  'fluency.longPauses': '⏸️ You paused {count} times for over {ms} ms. Look a few words ahead so you can keep going.',
+  'fluency.hesitation': '⏳ Your longest hesitation was {seconds}s. Keep going even when you are unsure of a word.',
+  'fluency.tooFast': '🐇 You spoke at {wpm} words per minute. Slow down a little so every sound is clear.',
+  'fluency.tooSlow': '🐢 Between pauses you spoke at {wpm} words per minute. Try joining words into smoother phrases.',
+  'fluency.goodPace': '🎵 Nice steady pace at {wpm} words per minute.',
+
+  'prosody.wordStress': '🎯 Stress the {syllable} syllable of "{word}".',
+  'prosody.questionRise': '⤴️ Let your voice go up at the end of yes/no questions like this one.',
+  'prosody.statementFall': '⤵️ Let your voice go down at the end of this sentence.',
+  'prosody.flat': '🎚️ Your voice stayed quite flat. Let the pitch move up on the important words.',
+  'prosody.natural': '🎶 Natural intonation: your stress and melody sounded like English.',
+
+  'sound.articulate': 'Focus on moving your mouth and tongue deliberately for each sound.',
+  'sound.practice': 'Practice the "{sound}" sound: {tip}',
+  'sound.swap': '🔎 {targetWord} → {spokenWord}: {expected}→{spoken}',
+  'sound.focus': '🔤 Focus on these sounds: {sounds}',
+  'sound.confusion': '🗣️ /{expected}/ sounded like /{spoken}/: {tip}',
+
+  'completeness.missingWords': '⚡ Try to speak all the words in the text. Take your time!',
+  'completeness.extraWords': '🎯 Focus on speaking just the words shown. Avoid adding extra words.',
+  'completeness.wordOrder': '📝 Pay attention to the word order in the text.'
+};
+
+/**
+ * Bucket a score so every agent describes it with the same message
+ */
+export function getScoreBand(score: number): ScoreBand {
+  if (score >= 95) return 'outstanding';
+  if (score >= 85) return 'great';
+  if (score >= 75) return 'good';
+  if (score >= 65) return 'improving';
+  if (score >= 50) return 'developing';
+  return 'beginner';
+}
+
+/**
+ * Summary item describing the overall score
+ */
+export function createScoreSummary(score: number): FeedbackItem {
+  const band = getScoreBand(score);
+  return {
+    category: 'motivation',
+    severity: score >= 75 ? 'praise' : 'tip',
+    messageKey: `score.${band}`,
+    params: { score }
+  };
+}
+
+/**
+ * Turn an item into display text using a message catalog
+ * Unknown keys fall back to the key itself so missing translations stay visible
+ */
+export function formatFeedbackItem(
+  item: FeedbackItem,
+  messages: { [key: string]: string } = FEEDBACK_MESSAGES
+): string {
+  const template = messages[item.messageKey] ?? item.messageKey;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = item.params?.[name];
+    return value === undefined ? placeholder : String(value);
+  });
+}
+
+/**
+ * Remove items that would show the same message for the same sound or word,
+ * keeping the first occurrence
+ */
+export function dedupeFeedback(items: FeedbackItem[]): FeedbackItem[] {
+  const seen = new Set<string>();
+
+  return items.filter(item => {
+    const key = [item.category, item.messageKey, item.targetSound ?? '', item.targetWord ?? ''].join('|');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Tests for speaking-rate and pause metrics
+ */
+
+import { AudioAnalysis } from './audioAnalysis';
+import { computeFluencyMetrics, countWords, longPauses } from './fluency';
+
+const analysis = (duration: number, silences: AudioAnalysis['silences']): AudioAnalysis => ({
+  duration,
+  frameDuration: 0.02,
+  energy: [],
+  pitch: [],
+  silences
+});
+
+describe('fluency', () => {
+  describe('countWords', () => {
+    it('should count words separated by any whitespace', () => {
+      expect(countWords('  the quick\tbrown\nfox ')).toBe(4);
+      expect(countWords('')).toBe(0);
+    });
+  });
+
+  describe('computeFluencyMetrics', () => {
+    it('should leave out leading and trailing silence', () => {
+      const metrics = computeFluencyMetrics(analysis(8, [
+        { start: 0, end: 1 },
+        { start: 5, end: 8 }
+      ]), 10);
+
+      expect(metrics!.speakingTime).toBe(4);
+      expect(metrics!.speechRate).toBe(150);
+      expect(metrics!.pauses).toEqual([]);
+      expect(metrics!.longestPause).toBe(0);
+    });
+
+    it('should leave pauses out of the articulation rate', () => {
+      const metrics = computeFluencyMetrics(analysis(6, [
+        { start: 1, end: 2 },
+        { start: 3, end: 3.5 }
+      ]), 9);
+
+      expect(metrics!.speakingTime).toBe(6);
+      expect(metrics!.speechRate).toBe(90);
+      expect(metrics!.pauseTime).toBe(1.5);
+      expect(metrics!.articulationRate).toBe(120);
+      expect(metrics!.longestPause).toBe(1);
+    });
+
+    it('should treat silences within a frame of the ends as leading or trailing', () => {
+      const metrics = computeFluencyMetrics(analysis(4, [
+        { start: 0.02, end: 0.5 },
+        { start: 3.5, end: 3.99 }
+      ]), 6);
+
+      expect(metrics!.speakingTime).toBe(3);
+      expect(metrics!.pauses).toEqual([]);
+    });
+
+    it('should return null for a silent recording', () => {
+      expect(computeFluencyMetrics(analysis(3, [{ start: 0, end: 3 }]), 4)).toBeNull();
+    });
+
+    it('should return null when no words were recognised', () => {
+      expect(computeFluencyMetrics(analysis(4, [{ start: 0, end: 1 }]), 0)).toBeNull();
+    });
+  });
+
+  describe('longPauses', () => {
+    it('should keep pauses of at least the given length', () => {
+      const metrics = computeFluencyMetrics(analysis(10, [
+        { start: 1, end: 1.5 },
+        { start: 3, end: 3.8 },
+        { start: 5, end: 7 }
+      ]), 20);
+
+      expect(longPauses(metrics!, 0.8)).toEqual([{ start: 3, end: 3.8 }, { start: 5, end: 7 }]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Speaking-rate and pause metrics from the analysis of a recording
+ */
+
+import { AudioAnalysis, TimeSegment } from './audioAnalysis';
+
+export interface FluencyMetrics {
+  speakingTime: number; // seconds from the first to the last sound, without leading/trailing silence
+  speechRate: number; // words per minute over the speaking time, pauses included
+  articulationRate: number; // words per minute with pauses left out
+  pauses: TimeSegment[]; // silences between the first and last sound
+  pauseTime: number; // seconds
+  longestPause: number; // seconds, 0 without pauses
+}
+
+/**
+ * Count the words in a transcript
+ */
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Measure how fast and how smoothly the learner spoke
+ * Returns null when the recording has no sound at all, or no words were recognised to time
+ */
+export function computeFluencyMetrics(analysis: AudioAnalysis, wordCount: number): FluencyMetrics | null {
+  if (wordCount === 0) return null;
+
+  // Silences touching the ends of the recording are the wait before starting and after finishing
+  const edgeTolerance = analysis.frameDuration;
+  let speechStart = 0;
+  let speechEnd = analysis.duration;
+  const pauses: TimeSegment[] = [];
+
+  analysis.silences.forEach(silence => {
+    const leading = silence.start <= edgeTolerance;
+    const trailing = silence.end >= analysis.duration - edgeTolerance;
+    if (leading) speechStart = Math.max(speechStart, silence.end);
+    if (trailing) speechEnd = Math.min(speechEnd, silence.start);
+    if (!leading && !trailing) pauses.push(silence);
+  });
+
+  const speakingTime = speechEnd - speechStart;
+  if (speakingTime <= 0) return null;
+
+  const pauseDurations = pauses.map(pause => pause.end - pause.start);
+  const pauseTime = pauseDurations.reduce((total, duration) => total + duration, 0);
+  const articulationTime = Math.max(speakingTime - pauseTime, analysis.frameDuration);
+
+  return {
+    speakingTime,
+    speechRate: (wordCount / speakingTime) * 60,
+    articulationRate: (wordCount / articulationTime) * 60,
+    pauses,
+    pauseTime,
+    longestPause: Math.max(0, ...pauseDurations)
+  };
+}
+
+/**
+ * Pauses at least minSeconds long
+ * Allows for rounding, since pause edges are sums of frame durations
+ */
+export function longPauses(metrics: FluencyMetrics, minSeconds: number): TimeSegment[] {
+  return metrics.pauses.filter(pause => pause.end - pause.start >= minSeconds - 1e-6);
+}
@@ -0,0 +1,162 @@
+/**
+ * Tests for grapheme-to-phoneme conversion
+ */
+
+import {
+  ARPABET_TO_IPA,
+  stripStress,
+  isVowel,
+  phonemeToIpa,
+  phonemesToIpa,
+  lookupWord,
+  letterToSound,
+  wordToPhonemes,
+  textToPhonemes,
+  textToIpa,
+  alignPhonemes,
+  phonemeWordSimilarity,
+  findPhonemeSubstitutions
+} from './g2p';
+import { PRONOUNCING_DICTIONARY } from './pronouncingDictionary';
+
+describe('g2p', () => {
+  describe('PRONOUNCING_DICTIONARY', () => {
+    it('should only use known ARPAbet phonemes', () => {
+      Object.values(PRONOUNCING_DICTIONARY).forEach(entry => {
+        entry.split(' ').forEach(phoneme => {
+          expect(ARPABET_TO_IPA).toHaveProperty(stripStress(phoneme));
+        });
+      });
+    });
+
+    it('should mark stress on every vowel', () => {
+      Object.values(PRONOUNCING_DICTIONARY).forEach(entry => {
+        entry.split(' ').filter(isVowel).forEach(vowel => {
+          expect(vowel).toMatch(/[0-2]$/);
+        });
+      });
+    });
+  });
+
+  describe('stripStress and isVowel', () => {
+    it('should strip stress digits', () => {
+      expect(stripStress('AH0')).toBe('AH');
+      expect(stripStress('TH')).toBe('TH');
+    });
+
+    it('should recognize vowels with or without stress', () => {
+      expect(isVowel('IY1')).toBe(true);
+      expect(isVowel('IY')).toBe(true);
+      expect(isVowel('S')).toBe(false);
+    });
+  });
+
+  describe('IPA conversion', () => {
+    it('should map phonemes to IPA', () => {
+      expect(phonemeToIpa('TH')).toBe('θ');
+      expect(phonemeToIpa('R')).toBe('ɹ');
+      expect(phonemeToIpa('AH0')).toBe('ə');
+      expect(phonemeToIpa('AH1')).toBe('ʌ');
+    });
+
+    it('should convert phoneme sequences', () => {
+      expect(phonemesToIpa(['TH', 'IH1', 'NG', 'K'])).toBe('θɪŋk');
+    });
+
+    it('should convert text word by word', () => {
+      expect(textToIpa('the thick')).toEqual(['ðə', 'θɪk']);
+    });
+  });
+
+  describe('lookupWord', () => {
+    it('should find dictionary words ignoring case and punctuation', () => {
+      expect(lookupWord('Dog.')).toEqual(['D', 'AO1', 'G']);
+    });
+
+    it('should return null for unknown words', () => {
+      expect(lookupWord('zorblax')).toBeNull();
+    });
+  });
+
+  describe('letterToSound', () => {
+    it('should handle common consonant digraphs', () => {
+      expect(letterToSound('think').map(stripStress)).toEqual(['TH', 'IH', 'NG', 'K']);
+      expect(letterToSound('shipping').map(stripStress)).toEqual(['SH', 'IH', 'P', 'IH', 'NG']);
+    });
+
+    it('should apply the silent final e', () => {
+      expect(letterToSound('stone').map(stripStress)).toEqual(['S', 'T', 'OW', 'N']);
+      expect(letterToSound('times').map(stripStress)).toEqual(['T', 'AY', 'M', 'Z']);
+    });
+
+    it('should handle silent letters and past tense endings', () => {
+      expect(letterToSound('knight').map(stripStress)).toEqual(['N', 'AY', 'T']);
+      expect(letterToSound('jumped').map(stripStress)).toEqual(['JH', 'AH', 'M', 'P', 'T']);
+      expect(letterToSound('wanted').map(stripStress)).toEqual(['W', 'AE', 'N', 'T', 'IH', 'D']);
+    });
+
+    it('should mark one primary stress', () => {
+      const phonemes = letterToSound('blanket');
+      expect(phonemes.filter(phoneme => phoneme.endsWith('1'))).toHaveLength(1);
+    });
+
+    it('should stress the syllable before -tion', () => {
+      const phonemes = letterToSound('nation');
+      expect(phonemes).toEqual(['N', 'AE1', 'SH', 'AH0', 'N']);
+    });
+  });
+
+  describe('wordToPhonemes', () => {
+    it('should prefer dictionary pronunciations', () => {
+      expect(wordToPhonemes('through')).toEqual(['TH', 'R', 'UW1']);
+    });
+
+    it('should split hyphenated compounds', () => {
+      expect(wordToPhonemes('thirty-three')).toEqual(['TH', 'ER1', 'T', 'IY0', 'TH', 'R', 'IY1']);
+    });
+
+    it('should add possessive endings', () => {
+      expect(wordToPhonemes("York's")).toEqual(['Y', 'AO1', 'R', 'K', 'S']);
+      expect(wordToPhonemes("Vivian's")).toEqual(['V', 'IH1', 'V', 'IY0', 'AH0', 'N', 'Z']);
+    });
+
+    it('should fall back to rules for unknown words', () => {
+      expect(wordToPhonemes('blanket').length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('textToPhonemes', () => {
+    it('should return one sequence per word', () => {
+      expect(textToPhonemes('The dog.')).toEqual([['DH', 'AH0'], ['D', 'AO1', 'G']]);
+    });
+
+    it('should return nothing for blank text', () => {
+      expect(textToPhonemes('  ')).toEqual([]);
+    });
+  });
+
+  describe('phoneme comparison', () => {
+    it('should align phoneme sequences ignoring stress', () => {
+      const alignment = alignPhonemes(['S', 'IH1', 'NG', 'K'], ['TH', 'IH1', 'NG', 'K']);
+      expect(alignment.map(step => step.operation)).toEqual(['substitution', 'match', 'match', 'match']);
+    });
+
+    it('should treat homophones as identical', () => {
+      expect(phonemeWordSimilarity('threw', 'through')).toBe(1);
+    });
+
+    it('should give partial similarity for one wrong phoneme', () => {
+      expect(phonemeWordSimilarity('sink', 'think')).toBe(0.75);
+    });
+
+    it('should report the exact phoneme substitution', () => {
+      expect(findPhonemeSubstitutions('sink', 'think')).toEqual([
+        { expected: 'TH', spoken: 'S', expectedIpa: 'θ', spokenIpa: 's', position: 0 }
+      ]);
+    });
+
+    it('should report no substitutions for homophones', () => {
+      expect(findPhonemeSubstitutions('threw', 'through')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Grapheme-to-phoneme conversion
+ * Converts English words to ARPAbet phonemes using the bundled pronouncing
+ * dictionary, falling back to letter-to-sound rules for unknown words.
+ * Also maps ARPAbet to IPA and compares phoneme sequences.
+ */
+
+import { PRONOUNCING_DICTIONARY } from './pronouncingDictionary';
+import { alignWords, levenshteinDistance, WordAlignment } from './alignment';
+
+// ARPAbet phonemes (without stress digits) and their IPA symbols
+export const ARPABET_TO_IPA: { [phoneme: string]: string } = {
+  'AA': 'ɑ', 'AE': 'æ', 'AH': 'ʌ', 'AO': 'ɔ', 'AW': 'aʊ', 'AY': 'aɪ',
+  'EH': 'ɛ', 'ER': 'ɝ', 'EY': 'eɪ', 'IH': 'ɪ', 'IY': 'i', 'OW': 'oʊ',
+  'OY': 'ɔɪ', 'UH': 'ʊ', 'UW': 'u',
+  'B': 'b', 'CH': 'tʃ', 'D': 'd', 'DH': 'ð', 'F': 'f', 'G': 'ɡ',
+  'HH': 'h', 'JH': 'dʒ', 'K': 'k', 'L': 'l', 'M': 'm', 'N': 'n',
+  'NG': 'ŋ', 'P': 'p', 'R': 'ɹ', 'S': 's', 'SH': 'ʃ', 'T': 't',
+  'TH': 'θ', 'V': 'v', 'W': 'w', 'Y': 'j', 'Z': 'z', 'ZH': 'ʒ'
+};
+
+const VOWELS = new Set(['AA', 'AE', 'AH', 'AO', 'AW', 'AY', 'EH', 'ER', 'EY', 'IH', 'IY', 'OW', 'OY', 'UH', 'UW']);
+const VOICELESS = new Set(['P', 'T', 'K', 'F', 'TH', 'S', 'SH', 'CH', 'HH']);
+const SIBILANTS = new Set(['S', 'Z', 'SH', 'ZH', 'CH', 'JH']);
+
+/**
+ * A phoneme that was replaced by another one in the learner's speech
+ */
+export interface PhonemeSubstitution {
+  expected: string;
+  spoken: string;
+  expectedIpa: string;
+  spokenIpa: string;
+  position: number; // index of the expected phoneme in the target word
+}
+
+/**
+ * Remove the stress digit from an ARPAbet vowel ("AH0" -> "AH")
+ */
+export function stripStress(phoneme: string): string {
+  return phoneme.replace(/[0-2]$/, '');
+}
+
+/**
+ * Check whether an ARPAbet phoneme is a vowel
+ */
+export function isVowel(phoneme: string): boolean {
+  return VOWELS.has(stripStress(phoneme));
+}
+
+/**
+ * Convert one ARPAbet phoneme to IPA
+ * Unstressed AH and ER become the reduced vowels ə and ɚ
+ */
+export function phonemeToIpa(phoneme: string): string {
+  if (phoneme === 'AH0') return 'ə';
+  if (phoneme === 'ER0') return 'ɚ';
+  return ARPABET_TO_IPA[stripStress(phoneme)] || phoneme.toLowerCase();
+}
+
+/**
+ * Convert a phoneme sequence to an IPA string
+ */
+export function phonemesToIpa(phonemes: string[]): string {
+  return phonemes.map(phonemeToIpa).join('');
+}
+
+/**
+ * Reduce a word to the letters and apostrophes used for lookup
+ */
+function cleanWord(word: string): string {
+  return word.toLowerCase().replace(/[’‘]/g, "'").replace(/[^a-z']/g, '').replace(/^'+|'+$/g, '');
+}
+
+/**
+ * Look up a word in the bundled dictionary
+ */
+export function lookupWord(word: string): string[] | null {
+  const entry = PRONOUNCING_DICTIONARY[cleanWord(word)];
+  return entry ? entry.split(' ') : null;
+}
+
+// Letter-to-sound rules, tried longest first at each position
+interface LetterRule {
+  graph: string;
+  phones: string[];
+  when?: (word: string, index: number) => boolean;
+}
+
+const isVowelLetter = (letter: string | undefined): boolean => !!letter && 'aeiou'.includes(letter);
+const atStart = (_word: string, index: number): boolean => index === 0;
+const atEnd = (graph: string) => (word: string, index: number): boolean => index + graph.length === word.length;
+const beforeFront = (graph: string) => (word: string, index: number): boolean => 'eiy'.includes(word[index + graph.length] || '-');
+const notBeforeVowel = (graph: string) => (word: string, index: number): boolean => !isVowelLetter(word[index + graph.length]);
+// Vowel + single consonant + final "e" (optionally followed by s/d), as in "time", "times", "hoped"
+const magicE = (word: string, index: number): boolean => /^[aeiouy][bcdfgklmnprstvz]e[sd]?$/.test(word.slice(index));
+
+const LETTER_RULES: LetterRule[] = [
+  // Multi-letter consonant patterns
+  { graph: 'tion', phones: ['SH', 'AH', 'N'] },
+  { graph: 'sion', phones: ['ZH', 'AH', 'N'] },
+  { graph: 'ture', phones: ['CH', 'ER'] },
+  { graph: 'tch', phones: ['CH'] },
+  { graph: 'sch', phones: ['S', 'K'] },
+  { graph: 'igh', phones: ['AY'] },
+  { graph: 'eigh', phones: ['EY'] },
+  { graph: 'augh', phones: ['AO'] },
+  { graph: 'ough', phones: ['AO'] },
+  { graph: 'ch', phones: ['CH'] },
+  { graph: 'sh', phones: ['SH'] },
+  { graph: 'th', phones: ['TH'] },
+  { graph: 'ph', phones: ['F'] },
+  { graph: 'wh', phones: ['W'] },
+  { graph: 'ck', phones: ['K'] },
+  { graph: 'ng', phones: ['NG'] },
+  { graph: 'nk', phones: ['NG', 'K'] },
+  { graph: 'qu', phones: ['K', 'W'] },
+  { graph: 'kn', phones: ['N'], when: atStart },
+  { graph: 'wr', phones: ['R'], when: atStart },
+  { graph: 'gh', phones: [] },
+
+  // Inflectional endings
+  { graph: 'ed', phones: ['IH', 'D'], when: (word, index) => atEnd('ed')(word, index) && 'td'.includes(word[index - 1]) },
+  { graph: 'ed', phones: ['T'], when: (word, index) => atEnd('ed')(word, index) && 'pkfsx'.includes(word[index - 1]) && index > 2 },
+  { graph: 'ed', phones: ['D'], when: (word, index) => atEnd('ed')(word, index) && index > 2 },
+  { graph: 'es', phones: ['IH', 'Z'], when: (word, index) => atEnd('es')(word, index) && /(s|x|z|ch|sh)$/.test(word.slice(0, index)) },
+
+  // Vowel digraphs and r-colored vowels
+  { graph: 'ee', phones: ['IY'] },
+  { graph: 'ea', phones: ['IY'] },
+  { graph: 'ai', phones: ['EY'] },
+  { graph: 'ay', phones: ['EY'] },
+  { graph: 'oa', phones: ['OW'] },
+  { graph: 'oo', phones: ['UW'] },
+  { graph: 'ou', phones: ['AW'] },
+  { graph: 'ow', phones: ['OW'] },
+  { graph: 'oi', phones: ['OY'] },
+  { graph: 'oy', phones: ['OY'] },
+  { graph: 'au', phones: ['AO'] },
+  { graph: 'aw', phones: ['AO'] },
+  { graph: 'ew', phones: ['UW'] },
+  { graph: 'ey', phones: ['IY'], when: atEnd('ey') },
+  { graph: 'ie', phones: ['AY'], when: (word, index) => atEnd('ie')(word, index) && word.length <= 3 },
+  { graph: 'ie', phones: ['IY'] },
+  { graph: 'ei', phones: ['IY'] },
+  { graph: 'ue', phones: ['UW'] },
+  { graph: 'ui', phones: ['UW'] },
+  { graph: 'ar', phones: ['AA', 'R'], when: notBeforeVowel('ar') },
+  { graph: 'er', phones: ['ER'], when: notBeforeVowel('er') },
+  { graph: 'ir', phones: ['ER'], when: notBeforeVowel('ir') },
+  { graph: 'ur', phones: ['ER'], when: notBeforeVowel('ur') },
+  { graph: 'or', phones: ['AO', 'R'], when: notBeforeVowel('or') },
+
+  // Single vowels
+  { graph: 'a', phones: ['EY'], when: magicE },
+  { graph: 'a', phones: ['AE'] },
+  { graph: 'e', phones: [], when: (word, index) => atEnd('e')(word, index) && word.length > 2 },
+  { graph: 'e', phones: [], when: (word, index) => word.length > 3 && /^e[sd]$/.test(word.slice(index)) && magicE(word, index - 2) },
+  { graph: 'e', phones: ['IY'], when: magicE },
+  { graph: 'e', phones: ['IY'], when: atEnd('e') },
+  { graph: 'e', phones: ['EH'] },
+  { graph: 'i', phones: ['AY'], when: magicE },
+  { graph: 'i', phones: ['IH'] },
+  { graph: 'o', phones: ['OW'], when: (word, index) => magicE(word, index) || atEnd('o')(word, index) },
+  { graph: 'o', phones: ['AA'] },
+  { graph: 'u', phones: ['UW'], when: magicE },
+  { graph: 'u', phones: ['AH'] },
+  { graph: 'y', phones: ['Y'], when: (word, index) => index === 0 && isVowelLetter(word[1]) },
+  { graph: 'y', phones: ['IY'], when: (word, index) => atEnd('y')(word, index) && /[aeiou]/.test(word.slice(0, index)) },
+  { graph: 'y', phones: ['AY'], when: atEnd('y') },
+  { graph: 'y', phones: ['IH'] },
+
+  // Single consonants
+  { graph: 'c', phones: ['S'], when: beforeFront('c') },
+  { graph: 'c', phones: ['K'] },
+  { graph: 'g', phones: ['JH'], when: (word, index) => beforeFront('g')(word, index) && index > 0 },
+  { graph: 'g', phones: ['G'] },
+  { graph: 'x', phones: ['Z'], when: atStart },
+  { graph: 'x', phones: ['K', 'S'] },
+  { graph: 'h', phones: [], when: (word, index) => isVowelLetter(word[index - 1]) && !isVowelLetter(word[index + 1]) },
+  { graph: 'b', phones: ['B'] },
+  { graph: 'd', phones: ['D'] },
+  { graph: 'f', phones: ['F'] },
+  { graph: 'h', phones: ['HH'] },
+  { graph: 'j', phones: ['JH'] },
+  { graph: 'k', phones: ['K'] },
+  { graph: 'l', phones: ['L'] },
+  { graph: 'm', phones: ['M'] },
+  { graph: 'n', phones: ['N'] },
+  { graph: 'p', phones: ['P'] },
+  { graph: 'q', phones: ['K'] },
+  { graph: 'r', phones: ['R'] },
+  { graph: 's', phones: ['Z'], when: (word, index) => atEnd('s')(word, index) && index > 0 && !'sptkf'.includes(word[index - 1]) },
+  { graph: 's', phones: ['S'] },
+  { graph: 't', phones: ['T'] },
+  { graph: 'v', phones: ['V'] },
+  { graph: 'w', phones: ['W'] },
+  { graph: 'z', phones: ['Z'] }
+];
+
+// Suffixes that pull primary stress onto the syllable just before them,
+// with the number of syllables each suffix adds
+const PRE_STRESSING_SUFFIXES: [string, number][] = [['tion', 1], ['sion', 1], ['ical', 2], ['ic', 1], ['ity', 2]];
+
+/**
+ * Assign CMU-style stress digits to rule-generated phonemes
+ * Primary stress goes on the first syllable unless a stress-attracting suffix
+ * applies; unstressed open vowels are reduced to schwa.
+ */
+function assignStress(word: string, phonemes: string[]): string[] {
+  const vowelPositions = phonemes
+    .map((phoneme, index) => (VOWELS.has(phoneme) ? index : -1))
+    .filter(index => index >= 0);
+  if (vowelPositions.length === 0) return phonemes;
+
+  let stressed = 0;
+  const suffix = PRE_STRESSING_SUFFIXES.find(([ending]) => word.endsWith(ending));
+  if (suffix && vowelPositions.length > suffix[1] + 1) {
+    stressed = vowelPositions.length - suffix[1] - 1;
+  }
+
+  return phonemes.map((phoneme, index) => {
+    const syllable = vowelPositions.indexOf(index);
+    if (syllable < 0) return phoneme;
+    if (syllable === stressed) return `${phoneme}1`;
+    if (['AE', 'AA', 'AO', 'EH', 'AH'].includes(phoneme)) return 'AH0';
+    return `${phoneme}0`;
+  });
+}
+
+/**
+ * Find the first letter-to-sound rule that applies at a position
+ */
+function findLetterRule(letters: string, index: number): LetterRule | undefined {
+  return LETTER_RULES.find(candidate =>
+    letters.startsWith(candidate.graph, index) && (!candidate.when || candidate.when(letters, index))
+  );
+}
+
+/**
+ * Convert a word to phonemes with letter-to-sound rules
+ */
+export function letterToSound(word: string): string[] {
+  const letters = cleanWord(word).replace(/'/g, '');
+  const phonemes: string[] = [];
+  let index = 0;
+
+  while (index < letters.length) {
+    // Doubled consonants are pronounced once ("pp", "ll", "ss")
+    if (index > 0 && letters[index] === letters[index - 1] && !isVowelLetter(letters[index])) {
+      index++;
+      continue;
+    }
+
+    const rule = findLetterRule(letters, index);
+
+    if (rule) {
+      phonemes.push(...rule.phones);
+      index += rule.graph.length;
+    } else {
+      index++;
+    }
+  }
+
+  return assignStress(letters, phonemes);
+}
+
+/**
+ * Append the possessive/plural "'s" ending in the right voicing
+ */
+function addSuffixS(phonemes: string[]): string[] {
+  const last = stripStress(phonemes[phonemes.length - 1] || '');
+  if (SIBILANTS.has(last)) return [...phonemes, 'IH0', 'Z'];
+  if (VOICELESS.has(last)) return [...phonemes, 'S'];
+  return [...phonemes, 'Z'];
+}
+
+const phonemeCache = new Map<string, string[]>();
+
+/**
+ * Convert a single word to ARPAbet phonemes (with stress digits)
+ * Handles hyphenated compounds ("thirty-three") and possessives ("york's")
+ */
+export function wordToPhonemes(word: string): string[] {
+  const key = word.toLowerCase();
+  const cached = phonemeCache.get(key);
+  if (cached) return cached;
+
+  let phonemes: string[];
+  const parts = key.split(/[-–—]/).filter(part => cleanWord(part));
+
+  if (parts.length > 1) {
+    phonemes = parts.flatMap(part => wordToPhonemes(part));
+  } else {
+    const cleaned = cleanWord(key);
+    const entry = lookupWord(cleaned);
+    if (entry) {
+      phonemes = entry;
+    } else if (cleaned.endsWith("'s") && lookupWord(cleaned.slice(0, -2))) {
+      phonemes = addSuffixS(lookupWord(cleaned.slice(0, -2))!);
+    } else {
+      phonemes = cleaned ? letterToSound(cleaned) : [];
+    }
+  }
+
+  phonemeCache.set(key, phonemes);
+  return phonemes;
+}
+
+/**
+ * Convert text to one phoneme sequence per word
+ */
+export function textToPhonemes(text: string): string[][] {
+  return (text || '')
+    .trim()
+    .split(/\s+/)
+    .filter(word => cleanWord(word))
+    .map(wordToPhonemes);
+}
+
+/**
+ * Convert text to IPA, one transcription per word
+ */
+export function textToIpa(text: string): string[] {
+  return textToPhonemes(text).map(phonemesToIpa);
+}
+
+/**
+ * Align two phoneme sequences (stress is ignored)
+ * Reuses the word aligner with phonemes as tokens
+ */
+export function alignPhonemes(spoken: string[], target: string[]): WordAlignment[] {
+  return alignWords(spoken.map(stripStress), target.map(stripStress), () => 0);
+}
+
+/**
+ * Phoneme-level similarity between two words from 0 to 1
+ * Homophones such as "threw" and "through" score 1
+ */
+export function phonemeWordSimilarity(spokenWord: string, targetWord: string): number {
+  const spoken = wordToPhonemes(spokenWord).map(stripStress);
+  const target = wordToPhonemes(targetWord).map(stripStress);
+  const longest = Math.max(spoken.length, target.length);
+  if (longest === 0) return 1;
+
+  return (longest - levenshteinDistance(spoken, target)) / longest;
+}
+
+/**
+ * List the phonemes that were swapped for other phonemes in a spoken word
+ * e.g. "sink" for "think" reports TH (θ) -> S (s)
+ */
+export function findPhonemeSubstitutions(spokenWord: string, targetWord: string): PhonemeSubstitution[] {
+  return alignPhonemes(wordToPhonemes(spokenWord), wordToPhonemes(targetWord))
+    .filter(step => step.operation === 'substitution')
+    .map(step => ({
+      expected: step.targetWord!,
+      spoken: step.spokenWord!,
+      expectedIpa: phonemeToIpa(step.targetWord!),
+      spokenIpa: phonemeToIpa(step.spokenWord!),
+      position: step.targetIndex!
+    }));
+}
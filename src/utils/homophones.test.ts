@@ -0,0 +1,34 @@
+/**
+ * Tests for homophone detection
+ */
+
+import { areHomophones } from './homophones';
+
+describe('homophones', () => {
+  describe('areHomophones', () => {
+    it('should match words with identical dictionary pronunciations', () => {
+      expect(areHomophones('their', 'there')).toBe(true);
+      expect(areHomophones('buy', 'by')).toBe(true);
+      expect(areHomophones('sea', 'see')).toBe(true);
+      expect(areHomophones('too', 'two')).toBe(true);
+      expect(areHomophones('threw', 'through')).toBe(true);
+    });
+
+    it('should match words from the curated list', () => {
+      expect(areHomophones('write', 'right')).toBe(true);
+      expect(areHomophones('four', 'for')).toBe(true);
+      expect(areHomophones('paws', 'pause')).toBe(true);
+      expect(areHomophones('read', 'red')).toBe(true);
+    });
+
+    it('should not match words that sound different', () => {
+      expect(areHomophones('sink', 'think')).toBe(false);
+      expect(areHomophones('there', 'three')).toBe(false);
+      expect(areHomophones('by', 'sea')).toBe(false);
+    });
+
+    it('should not treat a word as its own homophone', () => {
+      expect(areHomophones('there', 'there')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Homophone detection
+ * Recognizers write a correctly pronounced word as whichever spelling fits
+ * their language model ("their" for "there", "buy" for "by"). Two words count
+ * as the same sound when the pronouncing dictionary gives them identical
+ * phonemes, or when they are listed together below for words the dictionary
+ * does not cover
+ */
+
+import { lookupWord, stripStress } from './g2p';
+
+// Pairs the pronouncing dictionary does not cover
+const HOMOPHONE_GROUPS: string[][] = [
+  ['for', 'four', 'fore'], ['right', 'write', 'rite'], ['road', 'rode', 'rowed'], ['pair', 'pear', 'pare'],
+  ['which', 'witch'], ['red', 'read'], ['sail', 'sale'], ['bare', 'bear'], ['hair', 'hare'],
+  ['heel', 'heal'], ['hi', 'high'], ['in', 'inn'], ['mist', 'missed'], ['passed', 'past'],
+  ['principal', 'principle'], ['rain', 'reign', 'rein'], ['role', 'roll'], ['sew', 'so', 'sow'],
+  ['some', 'sum'], ['stair', 'stare'], ['tea', 'tee'], ['toe', 'tow'], ['vain', 'vein'], ['waist', 'waste'],
+  ['way', 'weigh'], ['cent', 'scent', 'sent'], ['allowed', 'aloud'], ['ad', 'add'], ['be', 'bee'],
+  ['board', 'bored'], ['cereal', 'serial'], ['groan', 'grown'], ['guessed', 'guest'], ['higher', 'hire'],
+  ['lead', 'led'], ['loan', 'lone'], ['main', 'mane'], ['morning', 'mourning'], ['knows', 'nose'],
+  ['oh', 'owe'], ['rose', 'rows'], ['seam', 'seem'], ['sole', 'soul'], ['suite', 'sweet'], ['tide', 'tied'],
+  ['wail', 'whale'], ['whine', 'wine'], ['yoke', 'yolk'], ['band', 'banned'], ['chews', 'choose'],
+  ['days', 'daze'], ['find', 'fined'], ['flew', 'flu'], ['hymn', 'him'], ['idle', 'idol'], ['links', 'lynx'],
+  ['pause', 'paws'], ['poll', 'pole'], ['pray', 'prey']
+];
+
+const GROUP_OF = new Map<string, number>();
+HOMOPHONE_GROUPS.forEach((group, index) => group.forEach(word => GROUP_OF.set(word, index)));
+
+/**
+ * Whether two different spellings sound the same
+ * Uses dictionary pronunciations when both words have one, and the curated
+ * homophone list otherwise
+ */
+export function areHomophones(spokenWord: string, targetWord: string): boolean {
+  if (spokenWord === targetWord) return false;
+
+  const group = GROUP_OF.get(spokenWord);
+  if (group !== undefined && group === GROUP_OF.get(targetWord)) return true;
+
+  const spoken = lookupWord(spokenWord);
+  const target = lookupWord(targetWord);
+  return !!spoken && !!target && spoken.map(stripStress).join(' ') === target.map(stripStress).join(' ');
+}
@@ -0,0 +1,82 @@
+/**
+ * Tests for IPA transcription and symbol descriptions
+ */
+
+import { compareIpa, describeIpaSymbol, IpaWord, textToIpaWords } from './ipa';
+import { ARPABET_TO_IPA } from './g2p';
+import { PRONUNCIATION_PATTERNS } from './phonemeUtils';
+
+const symbols = (word: IpaWord): string => word.segments.map(segment => segment.symbol).join('');
+const mismatched = (word: IpaWord): string[] =>
+  word.segments.filter(segment => segment.mismatch).map(segment => segment.symbol);
+
+describe('ipa', () => {
+  describe('textToIpaWords', () => {
+    it('should transcribe each word without its punctuation', () => {
+      const words = textToIpaWords('Think, then.');
+
+      expect(words.map(word => word.word)).toEqual(['Think,', 'then.']);
+      expect(words.map(symbols)).toEqual(['θɪŋk', 'ðɛn']);
+      expect(words[0].segments.every(segment => !segment.mismatch)).toBe(true);
+    });
+
+    it('should transcribe numerals and contractions as they are said', () => {
+      expect(textToIpaWords('33').map(symbols)).toEqual([textToIpaWords('thirty three').map(symbols).join('')]);
+      expect(textToIpaWords("I'd").map(symbols)).toEqual([textToIpaWords('I would').map(symbols).join('')]);
+    });
+  });
+
+  describe('compareIpa', () => {
+    it('should mark substituted phonemes on both sides', () => {
+      const { target, spoken } = compareIpa('I sink so', 'I think so');
+
+      expect(mismatched(target[1])).toEqual(['θ']);
+      expect(mismatched(spoken[1])).toEqual(['s']);
+      expect(mismatched(target[0])).toEqual([]);
+    });
+
+    it('should mark missed and extra words entirely', () => {
+      const { target, spoken } = compareIpa('the very red car', 'the red car');
+
+      expect(mismatched(spoken[1])).toEqual(['v', 'ɛ', 'ɹ', 'i']);
+      expect(target.every(word => mismatched(word).length === 0)).toBe(true);
+
+      const missed = compareIpa('the car', 'the red car');
+      expect(mismatched(missed.target[1])).toEqual(['ɹ', 'ɛ', 'd']);
+    });
+
+    it('should pair numerals with the words they are read as', () => {
+      const { target, spoken } = compareIpa('thirty tree', '33');
+
+      expect(target.map(word => word.word)).toEqual(['33']);
+      expect(mismatched(target[0])).toEqual(['θ']);
+      expect(mismatched(spoken[0])).toEqual([]);
+      expect(mismatched(spoken[1])).toEqual(['t']);
+    });
+
+    it('should not mark homophones', () => {
+      const { target, spoken } = compareIpa('threw', 'through');
+      expect(mismatched(target[0])).toEqual([]);
+      expect(mismatched(spoken[0])).toEqual([]);
+    });
+  });
+
+  describe('describeIpaSymbol', () => {
+    it('should describe every symbol used in transcriptions', () => {
+      [...Object.values(ARPABET_TO_IPA), 'ə', 'ɚ'].forEach(symbol => {
+        expect(describeIpaSymbol(symbol)).not.toBeNull();
+      });
+    });
+
+    it('should add the tip for sounds with a pronunciation pattern', () => {
+      expect(describeIpaSymbol('θ')).toMatchObject({ example: 'think', tip: PRONUNCIATION_PATTERNS.th.tip });
+      expect(describeIpaSymbol('ð')!.tip).toBe(PRONUNCIATION_PATTERNS.th.tip);
+      expect(describeIpaSymbol('ɹ')!.tip).toBe(PRONUNCIATION_PATTERNS.r.tip);
+      expect(describeIpaSymbol('æ')!.tip).toBeNull();
+    });
+
+    it('should return null for unknown symbols', () => {
+      expect(describeIpaSymbol('x')).toBeNull();
+    });
+  });
+});
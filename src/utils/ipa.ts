@@ -0,0 +1,149 @@
+/**
+ * IPA display helpers
+ * Transcribes target and spoken text to IPA with the phonemes that differ
+ * marked, and explains each IPA symbol with an example word and, where one
+ * exists, the matching tip from PRONUNCIATION_PATTERNS
+ */
+
+import { alignPhonemes, phonemeToIpa, wordToPhonemes } from './g2p';
+import { alignTextPhonemes, PRONUNCIATION_PATTERNS } from './phonemeUtils';
+import { normalizeWords } from './textNormalization';
+
+export interface IpaSegment {
+  symbol: string; // IPA
+  phoneme: string; // ARPAbet with stress digit
+  mismatch: boolean; // substituted, missed (target side) or extra (spoken side)
+}
+
+export interface IpaWord {
+  word: string;
+  segments: IpaSegment[];
+}
+
+export interface IpaComparison {
+  target: IpaWord[];
+  spoken: IpaWord[];
+}
+
+export interface IpaSymbolInfo {
+  symbol: string;
+  example: string; // a common word with the sound
+  description: string;
+  tip: string | null; // from PRONUNCIATION_PATTERNS
+}
+
+const IPA_SYMBOLS: { [symbol: string]: { example: string; description: string; spelling?: string } } = {
+  'ɑ': { example: 'father', description: 'Open back vowel: mouth wide open, tongue low and back' },
+  'æ': { example: 'cat', description: 'Open front vowel: jaw low, lips spread, tongue low and forward' },
+  'ʌ': { example: 'cup', description: 'Short central vowel: relaxed mouth, half open' },
+  'ɔ': { example: 'thought', description: 'Open-mid back vowel with slightly rounded lips' },
+  'aʊ': { example: 'now', description: 'Glide from an open "ah" to a rounded "oo"' },
+  'aɪ': { example: 'my', description: 'Glide from an open "ah" to "ee"' },
+  'ɛ': { example: 'bed', description: 'Short front vowel: mouth half open, lips relaxed' },
+  'ɝ': { example: 'bird', description: 'Stressed r-colored vowel: tongue bunched or curled back throughout' },
+  'eɪ': { example: 'day', description: 'Glide from "eh" to "ee"' },
+  'ɪ': { example: 'sit', description: 'Short, relaxed "i": shorter and lower than "ee"' },
+  'i': { example: 'see', description: 'Long "ee": lips spread, tongue high and forward' },
+  'oʊ': { example: 'go', description: 'Glide from "oh" to a rounded "oo"' },
+  'ɔɪ': { example: 'boy', description: 'Glide from a rounded "aw" to "ee"' },
+  'ʊ': { example: 'book', description: 'Short, relaxed "oo" with loosely rounded lips' },
+  'u': { example: 'food', description: 'Long "oo": lips tightly rounded, tongue high and back' },
+  'ə': { example: 'about', description: 'Schwa: the short, weak vowel of unstressed syllables' },
+  'ɚ': { example: 'butter', description: 'Unstressed r-colored schwa' },
+  'b': { example: 'bat', description: 'Voiced stop: close both lips, then release with voice' },
+  'tʃ': { example: 'chair', description: 'Voiceless "ch": a "t" released into "sh"' },
+  'd': { example: 'dog', description: 'Voiced stop: tongue tip on the ridge behind the upper teeth' },
+  'ð': { example: 'this', description: 'Voiced "th": tongue between the teeth with the voice on', spelling: 'th' },
+  'f': { example: 'fan', description: 'Voiceless: upper teeth on the lower lip, blow air' },
+  'ɡ': { example: 'go', description: 'Voiced stop: back of the tongue against the soft palate' },
+  'h': { example: 'hat', description: 'A breath of air from the throat' },
+  'dʒ': { example: 'jump', description: 'Voiced "j": a "d" released into the sound in "measure"' },
+  'k': { example: 'cat', description: 'Voiceless stop: back of the tongue against the soft palate' },
+  'l': { example: 'light', description: 'Tongue tip on the ridge behind the upper teeth, air around the sides' },
+  'm': { example: 'man', description: 'Lips closed, air through the nose' },
+  'n': { example: 'no', description: 'Tongue tip on the ridge behind the upper teeth, air through the nose' },
+  'ŋ': { example: 'sing', description: 'Back of the tongue against the soft palate, air through the nose; no "g" after it' },
+  'p': { example: 'pen', description: 'Voiceless stop: close both lips, then release a puff of air' },
+  'ɹ': { example: 'red', description: 'English "r": tongue curled back without touching the roof of the mouth' },
+  's': { example: 'see', description: 'Voiceless hiss: tongue close to the ridge behind the upper teeth' },
+  'ʃ': { example: 'she', description: 'Voiceless "sh": lips rounded, tongue further back than for "s"' },
+  't': { example: 'top', description: 'Voiceless stop: tongue tip on the ridge behind the upper teeth' },
+  'θ': { example: 'think', description: 'Voiceless "th": tongue between the teeth, blow air', spelling: 'th' },
+  'v': { example: 'very', description: 'Voiced: upper teeth on the lower lip with the voice on' },
+  'w': { example: 'we', description: 'Rounded lips gliding into the next vowel' },
+  'j': { example: 'yes', description: 'Tongue high and forward, gliding into the next vowel' },
+  'z': { example: 'zoo', description: 'Voiced buzz: like "s" with the voice on' },
+  'ʒ': { example: 'measure', description: 'Voiced: like "sh" with the voice on' }
+};
+
+/**
+ * Describe an IPA symbol, with the pronunciation tip for the sound when there is one
+ * Returns null for symbols outside the English inventory
+ */
+export function describeIpaSymbol(symbol: string): IpaSymbolInfo | null {
+  const info = IPA_SYMBOLS[symbol];
+  if (!info) return null;
+
+  const pattern = Object.entries(PRONUNCIATION_PATTERNS).find(([sound, candidate]) =>
+    candidate.correct_sound === symbol || sound === info.spelling);
+
+  return { symbol, example: info.example, description: info.description, tip: pattern ? pattern[1].tip : null };
+}
+
+const toSegments = (phonemes: string[], mismatch: boolean): IpaSegment[] =>
+  phonemes.map(phoneme => ({ symbol: phonemeToIpa(phoneme), phoneme, mismatch }));
+
+/**
+ * Transcribe text to IPA, one word per whitespace-separated word
+ * Words are normalized as for scoring, so "33" is transcribed as thirty three;
+ * parts holds the segments of each normalized word, in scoring order
+ */
+function transcribe(text: string): { words: IpaWord[]; parts: IpaSegment[][] } {
+  const words: IpaWord[] = (text || '').trim().split(/\s+/).filter(Boolean).map(word => ({ word, segments: [] }));
+  const parts = normalizeWords(text).map(({ word, source }) => {
+    const segments = toSegments(wordToPhonemes(word), false);
+    words[source].segments.push(...segments);
+    return segments;
+  });
+  return { words, parts };
+}
+
+/**
+ * Transcribe text to IPA, one word per whitespace-separated word
+ */
+export function textToIpaWords(text: string): IpaWord[] {
+  return transcribe(text).words;
+}
+
+/**
+ * Transcribe target and spoken text to IPA, marking the phonemes that differ
+ * Words are paired the way scoring pairs them, then the phonemes of each pair are aligned
+ * The written words are shown as they stand, with the sounds of their normalized words
+ */
+export function compareIpa(userText: string, targetText: string): IpaComparison {
+  const target = transcribe(targetText);
+  const spoken = transcribe(userText);
+  const markAll = (segments: IpaSegment[]): void => segments.forEach(segment => { segment.mismatch = true; });
+
+  alignTextPhonemes(userText, targetText).forEach(step => {
+    if (step.targetIndex === null) {
+      markAll(spoken.parts[step.spokenIndex!]);
+      return;
+    }
+    if (step.spokenIndex === null) {
+      markAll(target.parts[step.targetIndex]);
+      return;
+    }
+
+    const targetSegments = target.parts[step.targetIndex];
+    const spokenSegments = spoken.parts[step.spokenIndex];
+    alignPhonemes(spokenSegments.map(segment => segment.phoneme), targetSegments.map(segment => segment.phoneme))
+      .forEach(phonemeStep => {
+        if (phonemeStep.operation === 'match') return;
+        if (phonemeStep.targetIndex !== null) targetSegments[phonemeStep.targetIndex].mismatch = true;
+        if (phonemeStep.spokenIndex !== null) spokenSegments[phonemeStep.spokenIndex].mismatch = true;
+      });
+  });
+
+  return { target: target.words, spoken: spoken.words };
+}
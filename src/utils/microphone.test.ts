@@ -0,0 +1,65 @@
+/**
+ * Tests for microphone constraints and device listing
+ */
+
+import { buildAudioConstraints, DEFAULT_MICROPHONE, listMicrophones, onMicrophonesChanged } from './microphone';
+
+describe('microphone', () => {
+  describe('buildAudioConstraints', () => {
+    it('should use the default device with all processing on by default', () => {
+      expect(buildAudioConstraints()).toEqual({
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true
+      });
+    });
+
+    it('should prefer the chosen device and processing options', () => {
+      expect(buildAudioConstraints({ ...DEFAULT_MICROPHONE, deviceId: 'headset', noiseSuppression: false })).toEqual({
+        echoCancellation: true,
+        noiseSuppression: false,
+        autoGainControl: true,
+        deviceId: { ideal: 'headset' }
+      });
+    });
+  });
+
+  describe('listMicrophones', () => {
+    afterEach(() => {
+      delete (navigator.mediaDevices as any).enumerateDevices;
+      delete (navigator.mediaDevices as any).addEventListener;
+      delete (navigator.mediaDevices as any).removeEventListener;
+    });
+
+    it('should return only audio inputs', async () => {
+      const devices = [
+        { deviceId: 'mic', kind: 'audioinput' },
+        { deviceId: 'camera', kind: 'videoinput' },
+        { deviceId: 'speakers', kind: 'audiooutput' }
+      ];
+      Object.assign(navigator.mediaDevices, { enumerateDevices: jest.fn().mockResolvedValue(devices) });
+
+      expect(await listMicrophones()).toEqual([devices[0]]);
+    });
+
+    it('should return an empty list when devices cannot be listed', async () => {
+      expect(await listMicrophones()).toEqual([]);
+
+      Object.assign(navigator.mediaDevices, { enumerateDevices: jest.fn().mockRejectedValue(new Error('Blocked')) });
+      expect(await listMicrophones()).toEqual([]);
+    });
+
+    it('should add and remove a device change listener', () => {
+      const addEventListener = jest.fn();
+      const removeEventListener = jest.fn();
+      Object.assign(navigator.mediaDevices, { addEventListener, removeEventListener });
+      const listener = jest.fn();
+
+      const unsubscribe = onMicrophonesChanged(listener);
+      expect(addEventListener).toHaveBeenCalledWith('devicechange', listener);
+
+      unsubscribe();
+      expect(removeEventListener).toHaveBeenCalledWith('devicechange', listener);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Microphone choice and browser audio processing options
+ */
+
+export interface MicrophoneOptions {
+  deviceId: string | null; // null uses the browser's default input
+  echoCancellation: boolean;
+  noiseSuppression: boolean; // can muffle fricatives like /s/ and /f/
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_MICROPHONE: MicrophoneOptions = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true
+};
+
+/**
+ * Build the getUserMedia audio constraints for the chosen options
+ * The device is only "ideal" so an unplugged headset falls back to the default input
+ */
+export function buildAudioConstraints(options: MicrophoneOptions = DEFAULT_MICROPHONE): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = {
+    echoCancellation: options.echoCancellation,
+    noiseSuppression: options.noiseSuppression,
+    autoGainControl: options.autoGainControl
+  };
+  if (options.deviceId) {
+    constraints.deviceId = { ideal: options.deviceId };
+  }
+  return constraints;
+}
+
+/**
+ * List the audio inputs the browser can see
+ * Labels are empty until microphone permission has been granted
+ */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audioinput');
+  } catch (error) {
+    console.warn('Could not list microphones:', error);
+    return [];
+  }
+}
+
+/**
+ * Listen for microphones being plugged in or removed
+ * Returns a function that removes the listener
+ */
+export function onMicrophonesChanged(listener: () => void): () => void {
+  const mediaDevices = navigator.mediaDevices;
+  if (!mediaDevices?.addEventListener) return () => undefined;
+
+  mediaDevices.addEventListener('devicechange', listener);
+  return () => mediaDevices.removeEventListener('devicechange', listener);
+}
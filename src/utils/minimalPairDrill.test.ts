@@ -0,0 +1,91 @@
+/**
+ * Tests for minimal-pair drills
+ */
+
+import {
+  generateMinimalPairDrill,
+  MinimalPairItem,
+  rankConfusions,
+  scoreMinimalPairDrill,
+  scoreMinimalPairItem
+} from './minimalPairDrill';
+
+describe('minimalPairDrill', () => {
+  const sheep: MinimalPairItem = { target: 'sheep', distractor: 'ship', expected: 'IY', confusedWith: 'IH' };
+
+  describe('rankConfusions', () => {
+    it('should count swapped sounds, most frequent first', () => {
+      const ranked = rankConfusions([
+        { targetWord: 'very', spokenWord: 'berry' },
+        { targetWord: 'think', spokenWord: 'sink' },
+        { targetWord: 'vote', spokenWord: 'boat' },
+        { targetWord: 'dog', spokenWord: null }
+      ]);
+
+      expect(ranked).toEqual([
+        { expected: 'V', spoken: 'B', count: 2 },
+        { expected: 'TH', spoken: 'S', count: 1 }
+      ]);
+    });
+
+    it('should skip swaps without minimal pairs', () => {
+      expect(rankConfusions([{ targetWord: 'cat', spokenWord: 'gat' }])).toEqual([]);
+    });
+  });
+
+  describe('generateMinimalPairDrill', () => {
+    it('should take turns between contrasts without repeating words', () => {
+      const items = generateMinimalPairDrill(
+        [{ expected: 'IH', spoken: 'IY' }, { expected: 'V', spoken: 'W' }],
+        { count: 6 }
+      );
+
+      expect(items).toHaveLength(6);
+      expect(items.filter((item, index) => index % 2 === 0).every(item =>
+        ['IH', 'IY'].includes(item.expected))).toBe(true);
+      expect(items.filter((item, index) => index % 2 === 1).every(item =>
+        ['V', 'W'].includes(item.expected))).toBe(true);
+
+      const words = items.flatMap(item => [item.target, item.distractor]);
+      expect(new Set(words).size).toBe(words.length);
+    });
+
+    it('should ask for either word of a pair', () => {
+      const first = generateMinimalPairDrill([{ expected: 'IH', spoken: 'IY' }], { count: 1, random: () => 0 })[0];
+      const second = generateMinimalPairDrill([{ expected: 'IH', spoken: 'IY' }], { count: 1, random: () => 0.9 })[0];
+
+      expect(first).toMatchObject({ expected: 'IH', confusedWith: 'IY' });
+      expect(second).toMatchObject({ expected: 'IY', confusedWith: 'IH' });
+    });
+
+    it('should stop when the pairs run out', () => {
+      expect(generateMinimalPairDrill([{ expected: 'DH', spoken: 'Z' }], { count: 8 })).toHaveLength(1);
+      expect(generateMinimalPairDrill([{ expected: 'K', spoken: 'G' }])).toEqual([]);
+    });
+  });
+
+  describe('scoreMinimalPairItem', () => {
+    it('should check which word of the pair was heard', () => {
+      expect(scoreMinimalPairItem(sheep, 'Sheep.').outcome).toBe('correct');
+      expect(scoreMinimalPairItem(sheep, 'ship').outcome).toBe('confused');
+      expect(scoreMinimalPairItem(sheep, 'cheap').outcome).toBe('unclear');
+      expect(scoreMinimalPairItem(sheep, '').outcome).toBe('unclear');
+    });
+
+    it('should accept homophones of the target word', () => {
+      const right: MinimalPairItem = { target: 'right', distractor: 'light', expected: 'R', confusedWith: 'L' };
+      expect(scoreMinimalPairItem(right, 'write ')).toEqual({ item: right, heard: 'write', outcome: 'correct' });
+    });
+  });
+
+  describe('scoreMinimalPairDrill', () => {
+    it('should give the percentage of correct items', () => {
+      expect(scoreMinimalPairDrill([
+        scoreMinimalPairItem(sheep, 'sheep'),
+        scoreMinimalPairItem(sheep, 'ship'),
+        scoreMinimalPairItem(sheep, 'sheep')
+      ])).toBe(67);
+      expect(scoreMinimalPairDrill([])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Minimal-pair drills
+ * Builds drills from the sound contrasts a learner confuses most and scores each
+ * attempt by which word of the pair the recognizer heard
+ */
+
+import { contrastKey, getMinimalPairs, hasMinimalPairs } from '../minimalPairs';
+import { findPhonemeSubstitutions, stripStress } from './g2p';
+import { areHomophones } from './homophones';
+import { normalizeText } from './textNormalization';
+
+/**
+ * A sound the learner replaced with another one
+ */
+export interface SoundContrast {
+  expected: string; // ARPAbet phoneme of the target word, without stress
+  spoken: string; // phoneme heard instead
+}
+
+/**
+ * A confused contrast with how often it was heard
+ */
+export interface RankedContrast extends SoundContrast {
+  count: number;
+}
+
+/**
+ * One word to say in a drill, with the word it is easily mistaken for
+ */
+export interface MinimalPairItem {
+  target: string;
+  distractor: string;
+  expected: string; // phoneme of the target word that tells the pair apart
+  confusedWith: string; // phoneme of the distractor in the same place
+}
+
+/**
+ * - correct: the target word (or a homophone) was heard
+ * - confused: the other word of the pair was heard
+ * - unclear: neither word was heard
+ */
+export type MinimalPairOutcome = 'correct' | 'confused' | 'unclear';
+
+export interface MinimalPairResult {
+  item: MinimalPairItem;
+  heard: string; // the transcript of the attempt
+  outcome: MinimalPairOutcome;
+}
+
+export interface DrillOptions {
+  count?: number; // number of items, default 8
+  random?: () => number;
+}
+
+const DEFAULT_DRILL_LENGTH = 8;
+
+/**
+ * Count the phoneme swaps in a learner's word errors that have minimal pairs,
+ * most frequent first
+ */
+export function rankConfusions(
+  wordErrors: { targetWord: string | null; spokenWord: string | null }[]
+): RankedContrast[] {
+  const counts = new Map<string, RankedContrast>();
+
+  wordErrors.forEach(error => {
+    if (!error.targetWord || !error.spokenWord) return;
+
+    findPhonemeSubstitutions(error.spokenWord, error.targetWord).forEach(substitution => {
+      const expected = stripStress(substitution.expected);
+      const spoken = stripStress(substitution.spoken);
+      if (!hasMinimalPairs(expected, spoken)) return;
+
+      const key = `${expected}>${spoken}`;
+      const ranked = counts.get(key) || { expected, spoken, count: 0 };
+      counts.set(key, { ...ranked, count: ranked.count + 1 });
+    });
+  });
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Build a drill that takes turns between the given contrasts, most important first
+ * Each pair is used once; which word of the pair to say is chosen at random so the
+ * learner practices both sides of the contrast
+ */
+export function generateMinimalPairDrill(contrasts: SoundContrast[], options: DrillOptions = {}): MinimalPairItem[] {
+  const count = options.count ?? DEFAULT_DRILL_LENGTH;
+  const random = options.random ?? Math.random;
+
+  const seen = new Set<string>();
+  const queues = contrasts
+    .filter(contrast => {
+      const key = contrastKey(contrast.expected, contrast.spoken);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(contrast => shuffle(getMinimalPairs(contrast.expected, contrast.spoken), random)
+      .map(([withExpected, withSpoken]): MinimalPairItem => random() < 0.5
+        ? { target: withExpected, distractor: withSpoken, expected: contrast.expected, confusedWith: contrast.spoken }
+        : { target: withSpoken, distractor: withExpected, expected: contrast.spoken, confusedWith: contrast.expected }))
+    .filter(queue => queue.length > 0);
+
+  const items: MinimalPairItem[] = [];
+  const usedWords = new Set<string>();
+  while (items.length < count && queues.some(queue => queue.length > 0)) {
+    for (const queue of queues) {
+      if (items.length >= count) break;
+      // Skip pairs sharing a word with an earlier item, e.g. "ship" in ship/sheep and sip/ship
+      let item = queue.shift();
+      while (item && (usedWords.has(item.target) || usedWords.has(item.distractor))) {
+        item = queue.shift();
+      }
+      if (!item) continue;
+
+      items.push(item);
+      usedWords.add(item.target);
+      usedWords.add(item.distractor);
+    }
+  }
+  return items;
+}
+
+/**
+ * Score one attempt by whether the recognizer heard the intended word of the pair
+ */
+export function scoreMinimalPairItem(item: MinimalPairItem, transcript: string): MinimalPairResult {
+  const words = normalizeText(transcript);
+  const heardWord = (word: string) => words.some(heard => heard === word || areHomophones(heard, word));
+
+  let outcome: MinimalPairOutcome = 'unclear';
+  if (heardWord(item.target)) {
+    outcome = 'correct';
+  } else if (heardWord(item.distractor)) {
+    outcome = 'confused';
+  }
+  return { item, heard: transcript.trim(), outcome };
+}
+
+/**
+ * Share of drill items the learner got right, 0-100
+ */
+export function scoreMinimalPairDrill(results: MinimalPairResult[]): number {
+  if (results.length === 0) return 0;
+  const correct = results.filter(result => result.outcome === 'correct').length;
+  return Math.round((correct / results.length) * 100);
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -7,9 +7,13 @@ import {
   PRONUNCIATION_PATTERNS,
   getRandomPracticeText,
   comparePhonemes,
+  alignTextPhonemes,
+  findSoundErrors,
+  findPatternForPhoneme,
   generatePronunciationFeedback,
   getLetterGrade
 } from './phonemeUtils';
+import { formatFeedbackItem } from './feedbackMessages';
 
 describe('phonemeUtils', () => {
   describe('PRACTICE_TEXTS', () => {
@@ -105,35 +109,111 @@ describe('phonemeUtils', () => {
       const score = comparePhonemes('  hello   world  ', 'hello world');
       expect(score).toBe(100);
     });
+
+    it('should score words that sound the same as a perfect match', () => {
+      expect(comparePhonemes('he threw it', 'he through it')).toBe(100);
+    });
+
+    it('should ignore punctuation, numerals and contractions', () => {
+      expect(comparePhonemes("it's 33.", 'it is thirty-three')).toBe(100);
+    });
+
+    it('should only deduct the mispronounced phoneme', () => {
+      const score = comparePhonemes('i sink so', 'i think so');
+      expect(score).toBeGreaterThan(80);
+      expect(score).toBeLessThan(100);
+    });
+  });
+
+  describe('alignTextPhonemes', () => {
+    it('should pair words by pronunciation', () => {
+      const alignment = alignTextPhonemes('the sink is here', 'the think is here');
+      expect(alignment[1]).toMatchObject({ operation: 'substitution', targetWord: 'think', spokenWord: 'sink' });
+    });
+  });
+
+  describe('findSoundErrors', () => {
+    it('should report each phoneme swap with the word it happened in', () => {
+      const errors = findSoundErrors('i sink the bed is red', 'i think the bed is wed');
+
+      expect(errors.map(error => [error.targetWord, error.spokenWord, error.expectedIpa, error.spokenIpa])).toEqual([
+        ['think', 'sink', 'θ', 's'],
+        ['wed', 'red', 'w', 'ɹ']
+      ]);
+      expect(errors[0]).toMatchObject({ expected: 'TH', spoken: 'S', targetWord: 'think', spokenWord: 'sink', position: 0 });
+    });
+
+    it('should not report sounds of words that were said correctly', () => {
+      expect(findSoundErrors('the dog is there', 'the dog is there')).toEqual([]);
+      expect(findSoundErrors('that dog', 'that dog')).toEqual([]);
+    });
+
+    it('should not report homophones or missed words', () => {
+      expect(findSoundErrors('their', 'there')).toEqual([]);
+      expect(findSoundErrors('the', 'the thin man')).toEqual([]);
+    });
+  });
+
+  describe('findPatternForPhoneme', () => {
+    it('should find the pattern covering a phoneme', () => {
+      expect(findPatternForPhoneme('TH')).toBe('th');
+      expect(findPatternForPhoneme('DH')).toBe('th');
+      expect(findPatternForPhoneme('R')).toBe('r');
+      expect(findPatternForPhoneme('S')).toBeNull();
+    });
   });
 
   describe('generatePronunciationFeedback', () => {
-    it('should return an array of strings', () => {
+    it('should return an array of feedback items', () => {
       const feedback = generatePronunciationFeedback('hello', 'hello', 90);
       expect(Array.isArray(feedback)).toBe(true);
       feedback.forEach(item => {
-        expect(typeof item).toBe('string');
+        expect(typeof item.messageKey).toBe('string');
+        expect(typeof formatFeedbackItem(item)).toBe('string');
       });
     });
 
     it('should provide excellent feedback for high scores', () => {
       const feedback = generatePronunciationFeedback('test', 'test', 95);
-      expect(feedback.some(f => f.toLowerCase().includes('excellent'))).toBe(true);
+      expect(feedback.some(f => formatFeedbackItem(f).toLowerCase().includes('excellent'))).toBe(true);
     });
 
     it('should provide encouraging feedback for low scores', () => {
       const feedback = generatePronunciationFeedback('test', 'test', 50);
-      expect(feedback.some(f => f.toLowerCase().includes('practice') || f.toLowerCase().includes('slowly'))).toBe(true);
+      expect(feedback.map(f => formatFeedbackItem(f).toLowerCase()).some(f => f.includes('practice') || f.includes('slowly'))).toBe(true);
     });
 
     it('should provide pronunciation tips for missing sounds', () => {
       const feedback = generatePronunciationFeedback('dat', 'that', 70);
-      expect(feedback.some(f => f.includes('th'))).toBe(true);
+      const thTip = feedback.find(f => f.targetSound === 'th' && f.messageKey !== 'sound.swap');
+      expect(thTip).toMatchObject({ category: 'sound', messageKey: 'sound.practice' });
+      expect(formatFeedbackItem(thTip!)).toContain('Practice the "th" sound');
+    });
+
+    it('should report the swap with the word it happened in', () => {
+      const feedback = generatePronunciationFeedback('i sink so', 'i think so', 70);
+      const swap = feedback.find(f => f.messageKey === 'sound.swap');
+
+      expect(swap).toMatchObject({
+        category: 'sound',
+        targetSound: 'th',
+        targetWord: 'think',
+        params: { targetWord: 'think', spokenWord: 'sink', expected: 'θ', spoken: 's' }
+      });
+      expect(formatFeedbackItem(swap!)).toContain('think → sink: θ→s');
+    });
+
+    it('should not flag a sound just because its letters appear in the texts', () => {
+      const feedback = generatePronunciationFeedback('the dog sat there', 'the dog sat there', 70);
+      expect(feedback.some(f => f.targetSound === 'th')).toBe(false);
+
+      const swapped = generatePronunciationFeedback('the dog sat wear', 'the dog sat there', 70);
+      expect(swapped.some(f => f.targetSound === 'th' && f.messageKey === 'sound.practice')).toBe(true);
     });
 
     it('should provide general tips for low scores', () => {
       const feedback = generatePronunciationFeedback('test', 'test', 70);
-      expect(feedback.some(f => f.toLowerCase().includes('tip'))).toBe(true);
+      expect(feedback.some(f => formatFeedbackItem(f).toLowerCase().includes('tip'))).toBe(true);
     });
   });
 
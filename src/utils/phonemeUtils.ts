@@ -3,6 +3,15 @@
  * Provides basic phoneme comparison and pronunciation analysis
  */
 
+import { alignWords, levenshteinDistance, WordAlignment } from './alignment';
+import { findPhonemeSubstitutions, PhonemeSubstitution, phonemeWordSimilarity, stripStress, wordToPhonemes } from './g2p';
+import { createScoreSummary, FeedbackItem } from './feedbackMessages';
+import { areHomophones } from './homophones';
+import { normalizeText } from './textNormalization';
+
+// Sound swaps reported per attempt, in text order
+const MAX_SOUND_ERRORS = 5;
+
 // Sample practice texts of varying difficulty
 export const PRACTICE_TEXTS = [
   "The quick brown fox jumps over the lazy dog near the peaceful river.",
@@ -17,31 +26,36 @@ export const PRACTICE_TEXTS = [
   "Freshly fried flying fish taste fantastic when prepared with fine seasonings."
 ];
 
-// Common pronunciation difficulties and their corrections
+// Common pronunciation difficulties and their corrections, with the ARPAbet phonemes each covers
 export const PRONUNCIATION_PATTERNS = {
   'th': {
     common_errors: ['d', 'f', 'z'],
     correct_sound: 'θ',
+    phonemes: ['TH', 'DH'],
     tip: 'Place tongue between teeth and blow air gently'
   },
   'r': {
     common_errors: ['w', 'l'],
     correct_sound: 'ɹ',
+    phonemes: ['R'],
     tip: 'Curl tongue tip back without touching the roof of mouth'
   },
   'l': {
     common_errors: ['r', 'w'],
     correct_sound: 'l',
+    phonemes: ['L'],
     tip: 'Touch tongue tip to roof of mouth behind front teeth'
   },
   'v': {
     common_errors: ['b', 'f'],
     correct_sound: 'v',
+    phonemes: ['V'],
     tip: 'Bite lower lip gently and vibrate vocal cords'
   },
   'w': {
     common_errors: ['v', 'r'],
     correct_sound: 'w',
+    phonemes: ['W'],
     tip: 'Round lips and blow air out gently'
   }
 };
@@ -55,112 +69,119 @@ export function getRandomPracticeText(): string {
 }
 
 /**
- * Basic phoneme comparison using simple string similarity
- * In a real implementation, this would use proper phoneme analysis
+ * Align transcript words with target words by pronunciation
+ * Both texts are normalized first, so indexes refer to normalized words; words
+ * that sound alike pair up even when their spelling differs, and homophones
+ * ("their" for "there") count as matches
  */
-export function comparePhonemes(userText: string, targetText: string): number {
-  if (!userText || !targetText) return 0;
-  
-  const userWords = userText.toLowerCase().trim().split(/\s+/);
-  const targetWords = targetText.toLowerCase().trim().split(/\s+/);
-  
-  // Simple word-level comparison
-  let matches = 0;
-  const maxLength = Math.max(userWords.length, targetWords.length);
-  
-  for (let i = 0; i < Math.min(userWords.length, targetWords.length); i++) {
-    if (userWords[i] === targetWords[i]) {
-      matches++;
-    } else {
-      // Partial credit for similar words
-      const similarity = calculateStringSimilarity(userWords[i], targetWords[i]);
-      matches += similarity;
-    }
-  }
-  
-  return Math.round((matches / maxLength) * 100);
+export function alignTextPhonemes(userText: string, targetText: string): WordAlignment[] {
+  const similarity = (spoken: string, target: string): number =>
+    areHomophones(spoken, target) ? 1 : phonemeWordSimilarity(spoken, target);
+
+  return alignWords(normalizeText(userText), normalizeText(targetText), similarity).map(step =>
+    step.operation === 'substitution' && areHomophones(step.spokenWord!, step.targetWord!)
+      ? { ...step, operation: 'match' }
+      : step);
 }
 
 /**
- * Calculate similarity between two strings using Levenshtein-like algorithm
+ * A phoneme swapped for another in one word of the attempt
  */
-function calculateStringSimilarity(str1: string, str2: string): number {
-  const longer = str1.length > str2.length ? str1 : str2;
-  const shorter = str1.length > str2.length ? str2 : str1;
-  
-  if (longer.length === 0) return 1.0;
-  
-  const distance = levenshteinDistance(longer, shorter);
-  return (longer.length - distance) / longer.length;
+export interface SoundError extends PhonemeSubstitution {
+  targetWord: string;
+  spokenWord: string;
+}
+
+/**
+ * Find the phonemes swapped in each substituted word, in text order
+ * Only aligned word pairs are compared, so a sound is reported where it was
+ * actually replaced rather than whenever its letters appear somewhere
+ */
+export function findSoundErrors(userText: string, targetText: string): SoundError[] {
+  return alignTextPhonemes(userText, targetText)
+    .filter(step => step.operation === 'substitution')
+    .flatMap(step => findPhonemeSubstitutions(step.spokenWord!, step.targetWord!)
+      .map(substitution => ({ ...substitution, targetWord: step.targetWord!, spokenWord: step.spokenWord! })));
 }
 
 /**
- * Calculate Levenshtein distance between two strings
+ * The PRONUNCIATION_PATTERNS key covering an ARPAbet phoneme, e.g. "th" for DH
  */
-function levenshteinDistance(str1: string, str2: string): number {
-  const matrix = [];
+export function findPatternForPhoneme(phoneme: string): keyof typeof PRONUNCIATION_PATTERNS | null {
+  const base = stripStress(phoneme);
+  const entry = Object.entries(PRONUNCIATION_PATTERNS).find(([, pattern]) => pattern.phonemes.includes(base));
+  return entry ? entry[0] as keyof typeof PRONUNCIATION_PATTERNS : null;
+}
+
+/**
+ * Phoneme-level comparison of transcript and target text
+ * Both texts are converted to ARPAbet, aligned word by word, and scored by the
+ * share of target phonemes that were produced, so "threw" for "through" is a
+ * perfect match while "sink" for "think" loses one phoneme
+ */
+export function comparePhonemes(userText: string, targetText: string): number {
+  if (!userText || !targetText) return 0;
   
-  for (let i = 0; i <= str2.length; i++) {
-    matrix[i] = [i];
-  }
+  const alignment = alignTextPhonemes(userText, targetText);
   
-  for (let j = 0; j <= str1.length; j++) {
-    matrix[0][j] = j;
-  }
+  let correctPhonemes = 0;
+  let totalPhonemes = 0;
   
-  for (let i = 1; i <= str2.length; i++) {
-    for (let j = 1; j <= str1.length; j++) {
-      if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j] + 1
-        );
-      }
+  alignment.forEach(step => {
+    const spoken = step.spokenWord ? wordToPhonemes(step.spokenWord).map(stripStress) : [];
+    const target = step.targetWord ? wordToPhonemes(step.targetWord).map(stripStress) : [];
+    const length = Math.max(spoken.length, target.length, 1);
+    
+    totalPhonemes += length;
+    if (step.spokenWord && step.targetWord) {
+      correctPhonemes += length - levenshteinDistance(spoken, target);
     }
-  }
+  });
   
-  return matrix[str2.length][str1.length];
+  if (totalPhonemes === 0) return 0;
+  return Math.round((correctPhonemes / totalPhonemes) * 100);
 }
 
 /**
- * Generate pronunciation feedback based on common patterns
+ * Generate pronunciation feedback from the sounds swapped in aligned words
+ * Each swap is reported with the word it happened in, followed by the tip for
+ * the sound when there is one
  */
-export function generatePronunciationFeedback(userText: string, targetText: string, score: number): string[] {
-  const feedback: string[] = [];
-  
-  if (score >= 90) {
-    feedback.push("Excellent pronunciation! Your speech is very clear and accurate.");
-  } else if (score >= 80) {
-    feedback.push("Great job! Your pronunciation is good with minor areas for improvement.");
-  } else if (score >= 70) {
-    feedback.push("Good effort! There are some pronunciation patterns to work on.");
-  } else if (score >= 60) {
-    feedback.push("Keep practicing! Focus on speaking more slowly and clearly.");
-  } else {
-    feedback.push("Don't worry - pronunciation takes time to improve. Try speaking more slowly.");
-  }
+export function generatePronunciationFeedback(userText: string, targetText: string, score: number): FeedbackItem[] {
+  const feedback: FeedbackItem[] = [createScoreSummary(score)];
   
-  // Check for common pronunciation issues
-  const userLower = userText.toLowerCase();
-  const targetLower = targetText.toLowerCase();
-  
-  // Look for missing or mispronounced sounds
-  Object.entries(PRONUNCIATION_PATTERNS).forEach(([sound, pattern]) => {
-    const targetHasSound = targetLower.includes(sound);
-    const userHasSound = userLower.includes(sound);
-    
-    if (targetHasSound && !userHasSound) {
-      feedback.push(`Practice the "${sound}" sound: ${pattern.tip}`);
+  findSoundErrors(userText, targetText).slice(0, MAX_SOUND_ERRORS).forEach(error => {
+    const sound = findPatternForPhoneme(error.expected);
+
+    feedback.push({
+      category: 'sound',
+      severity: 'issue',
+      messageKey: 'sound.swap',
+      params: {
+        targetWord: error.targetWord,
+        spokenWord: error.spokenWord,
+        expected: error.expectedIpa,
+        spoken: error.spokenIpa
+      },
+      targetSound: sound ?? error.expectedIpa,
+      targetWord: error.targetWord
+    });
+
+    if (sound) {
+      feedback.push({
+        category: 'sound',
+        severity: 'issue',
+        messageKey: 'sound.practice',
+        params: { sound, tip: PRONUNCIATION_PATTERNS[sound].tip },
+        targetSound: sound
+      });
     }
   });
   
   // General tips based on score
   if (score < 80) {
-    feedback.push("Tip: Try reading more slowly and enunciating each word clearly.");
-    feedback.push("Focus on moving your mouth and tongue deliberately for each sound.");
+    feedback.push({ category: 'fluency', severity: 'tip', messageKey: 'fluency.slowDown' });
+    feedback.push({ category: 'sound', severity: 'tip', messageKey: 'sound.articulate' });
   }
   
   return feedback;
@@ -0,0 +1,541 @@
+/**
+ * Bundled pronouncing dictionary for common English words
+ * Entries use ARPAbet phonemes with CMU-style stress digits on vowels
+ * (1 = primary stress, 2 = secondary stress, 0 = unstressed).
+ * Words that are missing here fall back to letter-to-sound rules in g2p.ts.
+ */
+export const PRONOUNCING_DICTIONARY: { [word: string]: string } = {
+  // Function words
+  'a': 'AH0',
+  'about': 'AH0 B AW1 T',
+  'after': 'AE1 F T ER0',
+  'again': 'AH0 G EH1 N',
+  'against': 'AH0 G EH1 N S T',
+  'all': 'AO1 L',
+  'also': 'AO1 L S OW0',
+  'always': 'AO1 L W EY2 Z',
+  'am': 'AE1 M',
+  'an': 'AE1 N',
+  'and': 'AE1 N D',
+  'any': 'EH1 N IY0',
+  'are': 'AA1 R',
+  'around': 'ER0 AW1 N D',
+  'as': 'AE1 Z',
+  'at': 'AE1 T',
+  'be': 'B IY1',
+  'because': 'B IH0 K AO1 Z',
+  'been': 'B IH1 N',
+  'before': 'B IH0 F AO1 R',
+  'but': 'B AH1 T',
+  'by': 'B AY1',
+  'can': 'K AE1 N',
+  'could': 'K UH1 D',
+  'did': 'D IH1 D',
+  'do': 'D UW1',
+  'does': 'D AH1 Z',
+  'doing': 'D UW1 IH0 NG',
+  'down': 'D AW1 N',
+  'each': 'IY1 CH',
+  'every': 'EH1 V ER0 IY0',
+  'for': 'F AO1 R',
+  'from': 'F R AH1 M',
+  'had': 'HH AE1 D',
+  'has': 'HH AE1 Z',
+  'have': 'HH AE1 V',
+  'he': 'HH IY1',
+  'her': 'HH ER1',
+  'here': 'HH IY1 R',
+  'him': 'HH IH1 M',
+  'his': 'HH IH1 Z',
+  'how': 'HH AW1',
+  'i': 'AY1',
+  'if': 'IH1 F',
+  'in': 'IH1 N',
+  'into': 'IH0 N T UW1',
+  'is': 'IH1 Z',
+  'it': 'IH1 T',
+  'its': 'IH1 T S',
+  'just': 'JH AH1 S T',
+  'like': 'L AY1 K',
+  'many': 'M EH1 N IY0',
+  'me': 'M IY1',
+  'more': 'M AO1 R',
+  'most': 'M OW1 S T',
+  'much': 'M AH1 CH',
+  'my': 'M AY1',
+  'near': 'N IH1 R',
+  'neither': 'N IY1 DH ER0',
+  'no': 'N OW1',
+  'not': 'N AA1 T',
+  'now': 'N AW1',
+  'of': 'AH1 V',
+  'off': 'AO1 F',
+  'on': 'AA1 N',
+  'once': 'W AH1 N S',
+  'only': 'OW1 N L IY0',
+  'or': 'AO1 R',
+  'other': 'AH1 DH ER0',
+  'our': 'AW1 ER0',
+  'out': 'AW1 T',
+  'over': 'OW1 V ER0',
+  'please': 'P L IY1 Z',
+  'she': 'SH IY1',
+  'should': 'SH UH1 D',
+  'so': 'S OW1',
+  'some': 'S AH1 M',
+  'than': 'DH AE1 N',
+  'that': 'DH AE1 T',
+  'the': 'DH AH0',
+  'their': 'DH EH1 R',
+  'them': 'DH EH1 M',
+  'then': 'DH EH1 N',
+  'there': 'DH EH1 R',
+  'these': 'DH IY1 Z',
+  'they': 'DH EY1',
+  'this': 'DH IH1 S',
+  'those': 'DH OW1 Z',
+  'though': 'DH OW1',
+  'through': 'TH R UW1',
+  'throughout': 'TH R UW0 AW1 T',
+  'to': 'T UW1',
+  'too': 'T UW1',
+  'under': 'AH1 N D ER0',
+  'up': 'AH1 P',
+  'us': 'AH1 S',
+  'very': 'V EH1 R IY0',
+  'was': 'W AA1 Z',
+  'we': 'W IY1',
+  'were': 'W ER1',
+  'what': 'W AH1 T',
+  'when': 'W EH1 N',
+  'where': 'W EH1 R',
+  'which': 'W IH1 CH',
+  'while': 'W AY1 L',
+  'who': 'HH UW1',
+  'why': 'W AY1',
+  'will': 'W IH1 L',
+  'with': 'W IH1 DH',
+  'would': 'W UH1 D',
+  'yes': 'Y EH1 S',
+  'you': 'Y UW1',
+  'your': 'Y AO1 R',
+
+  // Numbers
+  'one': 'W AH1 N',
+  'two': 'T UW1',
+  'three': 'TH R IY1',
+  'four': 'F AO1 R',
+  'five': 'F AY1 V',
+  'six': 'S IH1 K S',
+  'seven': 'S EH1 V AH0 N',
+  'eight': 'EY1 T',
+  'nine': 'N AY1 N',
+  'ten': 'T EH1 N',
+  'twenty': 'T W EH1 N T IY0',
+  'thirty': 'TH ER1 T IY0',
+  'first': 'F ER1 S T',
+  'second': 'S EH1 K AH0 N D',
+  'third': 'TH ER1 D',
+
+  // Practice text vocabulary
+  'accurate': 'AE1 K Y ER0 AH0 T',
+  'areas': 'EH1 R IY0 AH0 Z',
+  'blinks': 'B L IH1 NG K S',
+  'blue': 'B L UW1',
+  'bluebird': 'B L UW1 B ER2 D',
+  'bothered': 'B AA1 DH ER0 D',
+  'brightly': 'B R AY1 T L IY0',
+  'brilliant': 'B R IH1 L Y AH0 N T',
+  'brother': 'B R AH1 DH ER0',
+  'brown': 'B R AW1 N',
+  'chips': 'CH IH1 P S',
+  'chuck': 'CH AH1 K',
+  'clear': 'K L IH1 R',
+  'clearly': 'K L IH1 R L IY0',
+  'cloth': 'K L AO1 TH',
+  'coffee': 'K AA1 F IY0',
+  'crash': 'K R AE1 SH',
+  'cup': 'K AH1 P',
+  'deliberately': 'D IH0 L IH1 B ER0 AH0 T L IY0',
+  'dishes': 'D IH1 SH AH0 Z',
+  'dog': 'D AO1 G',
+  'effort': 'EH1 F ER0 T',
+  'enunciating': 'IH0 N AH1 N S IY0 EY2 T IH0 NG',
+  'excellent': 'EH1 K S AH0 L AH0 N T',
+  'fantastic': 'F AE0 N T AE1 S T IH0 K',
+  'find': 'F AY1 N D',
+  'fine': 'F AY1 N',
+  'fish': 'F IH1 SH',
+  'flying': 'F L AY1 IH0 NG',
+  'focus': 'F OW1 K AH0 S',
+  'fox': 'F AA1 K S',
+  'fresh': 'F R EH1 SH',
+  'freshly': 'F R EH1 SH L IY0',
+  'fried': 'F R AY1 D',
+  'garden': 'G AA1 R D AH0 N',
+  'good': 'G UH1 D',
+  'great': 'G R EY1 T',
+  'hello': 'HH AH0 L OW1',
+  'help': 'HH EH1 L P',
+  'improve': 'IH2 M P R UW1 V',
+  'improvement': 'IH2 M P R UW1 V M AH0 N T',
+  'job': 'JH AA1 B',
+  'jumps': 'JH AH1 M P S',
+  'keep': 'K IY1 P',
+  'keys': 'K IY1 Z',
+  'larry': 'L EH1 R IY0',
+  'lazy': 'L EY1 Z IY0',
+  'leather': 'L EH1 DH ER0',
+  'library': 'L AY1 B R EH2 R IY0',
+  'lilies': 'L IH1 L IY0 Z',
+  'live': 'L IH1 V',
+  'local': 'L OW1 K AH0 L',
+  'lorries': 'L AO1 R IY0 Z',
+  'lovely': 'L AH1 V L IY0',
+  'loves': 'L AH1 V Z',
+  'man': 'M AE1 N',
+  'minor': 'M AY1 N ER0',
+  'morning': 'M AO1 R N IH0 NG',
+  'mouth': 'M AW1 TH',
+  'moving': 'M UW1 V IH0 NG',
+  'new': 'N UW1',
+  'nice': 'N AY1 S',
+  'patterns': 'P AE1 T ER0 N Z',
+  'peaceful': 'P IY1 S F AH0 L',
+  'peck': 'P EH1 K',
+  'people': 'P IY1 P AH0 L',
+  'peppers': 'P EH1 P ER0 Z',
+  'peter': 'P IY1 T ER0',
+  'phrase': 'F R EY1 Z',
+  'picked': 'P IH1 K T',
+  'pickled': 'P IH1 K AH0 L D',
+  'piper': 'P AY1 P ER0',
+  'practicing': 'P R AE1 K T IH0 S IH0 NG',
+  'prepared': 'P R IY0 P EH1 R D',
+  'pronunciation': 'P R OW0 N AH2 N S IY0 EY1 SH AH0 N',
+  'quick': 'K W IH1 K',
+  'quickly': 'K W IH1 K L IY0',
+  'racing': 'R EY1 S IH0 NG',
+  'rapidly': 'R AE1 P IH0 D L IY0',
+  'rarely': 'R EH1 R L IY0',
+  'reading': 'R IY1 D IH0 NG',
+  'really': 'R IH1 L IY0',
+  'red': 'R EH1 D',
+  'regularly': 'R EH1 G Y AH0 L ER0 L IY0',
+  'relax': 'R IH0 L AE1 K S',
+  'repeat': 'R IH0 P IY1 T',
+  'river': 'R IH1 V ER0',
+  'rocks': 'R AA1 K S',
+  'rural': 'R UH1 R AH0 L',
+  'saplings': 'S AE1 P L IH0 NG Z',
+  'sat': 'S AE1 T',
+  'seashells': 'S IY1 SH EH2 L Z',
+  'seashore': 'S IY1 SH AO2 R',
+  'seasonings': 'S IY1 Z AH0 N IH0 NG Z',
+  'sells': 'S EH1 L Z',
+  'served': 'S ER1 V D',
+  'shade': 'SH EY1 D',
+  'shall': 'SH AE1 L',
+  'share': 'SH EH1 R',
+  'shiny': 'SH AY1 N IY0',
+  'shoes': 'SH UW1 Z',
+  'sick': 'S IH1 K',
+  'silently': 'S AY1 L AH0 N T L IY0',
+  'silver': 'S IH1 L V ER0',
+  'slick': 'S L IH1 K',
+  'slim': 'S L IH1 M',
+  'slowly': 'S L OW1 L IY0',
+  'snow': 'S N OW1',
+  'sound': 'S AW1 N D',
+  'speaking': 'S P IY1 K IH0 NG',
+  'speech': 'S P IY1 CH',
+  'stood': 'S T UH1 D',
+  'strap': 'S T R AE1 P',
+  'sunshine': 'S AH1 N SH AY2 N',
+  'surely': 'SH UH1 R L IY0',
+  'swiss': 'S W IH1 S',
+  'sycamore': 'S IH1 K AH0 M AO2 R',
+  'takes': 'T EY1 K S',
+  'taste': 'T EY1 S T',
+  'thick': 'TH IH1 K',
+  'thieves': 'TH IY1 V Z',
+  'things': 'TH IH1 NG Z',
+  'thought': 'TH AO1 T',
+  'threads': 'TH R EH1 D Z',
+  'threw': 'TH R UW1',
+  'thrilled': 'TH R IH1 L D',
+  'throne': 'TH R OW1 N',
+  'thursday': 'TH ER1 Z D EY2',
+  'time': 'T AY1 M',
+  'times': 'T AY1 M Z',
+  'tip': 'T IH1 P',
+  'today': 'T AH0 D EY1',
+  'tongue': 'T AH1 NG',
+  'try': 'T R AY1',
+  'unicorns': 'Y UW1 N AH0 K AO2 R N Z',
+  'unique': 'Y UW0 N IY1 K',
+  'university': 'Y UW2 N AH0 V ER1 S AH0 T IY0',
+  'velvet': 'V EH1 L V AH0 T',
+  'vest': 'V EH1 S T',
+  'vivian': 'V IH1 V IY0 AH0 N',
+  'vivid': 'V IH1 V IH0 D',
+  'wait': 'W EY1 T',
+  'wander': 'W AA1 N D ER0',
+  'watch': 'W AA1 CH',
+  'wave': 'W EY1 V',
+  'waves': 'W EY1 V Z',
+  'weather': 'W EH1 DH ER0',
+  'weathered': 'W EH1 DH ER0 D',
+  'well': 'W EH1 L',
+  'whistles': 'W IH1 S AH0 L Z',
+  'white': 'W AY1 T',
+  'wild': 'W AY1 L D',
+  'wind': 'W IH1 N D',
+  'wolves': 'W UH1 L V Z',
+  'wood': 'W UH1 D',
+  'woodchuck': 'W UH1 D CH AH2 K',
+  'word': 'W ER1 D',
+  'words': 'W ER1 D Z',
+  'work': 'W ER1 K',
+  'worry': 'W ER1 IY0',
+  'wrist': 'R IH1 S T',
+  'yellow': 'Y EH1 L OW0',
+  'yesterday': 'Y EH1 S T ER0 D EY2',
+  'york': 'Y AO1 R K',
+
+  // Everyday vocabulary
+  'bad': 'B AE1 D',
+  'big': 'B IH1 G',
+  'book': 'B UH1 K',
+  'boy': 'B OY1',
+  'car': 'K AA1 R',
+  'cat': 'K AE1 T',
+  'city': 'S IH1 T IY0',
+  'come': 'K AH1 M',
+  'day': 'D EY1',
+  'door': 'D AO1 R',
+  'earth': 'ER1 TH',
+  'eat': 'IY1 T',
+  'family': 'F AE1 M AH0 L IY0',
+  'friend': 'F R EH1 N D',
+  'get': 'G EH1 T',
+  'girl': 'G ER1 L',
+  'give': 'G IH1 V',
+  'go': 'G OW1',
+  'happy': 'HH AE1 P IY0',
+  'home': 'HH OW1 M',
+  'house': 'HH AW1 S',
+  'know': 'N OW1',
+  'language': 'L AE1 NG G W AH0 JH',
+  'learn': 'L ER1 N',
+  'little': 'L IH1 T AH0 L',
+  'long': 'L AO1 NG',
+  'look': 'L UH1 K',
+  'make': 'M EY1 K',
+  'mother': 'M AH1 DH ER0',
+  'father': 'F AA1 DH ER0',
+  'music': 'M Y UW1 Z IH0 K',
+  'name': 'N EY1 M',
+  'night': 'N AY1 T',
+  'old': 'OW1 L D',
+  'practice': 'P R AE1 K T IH0 S',
+  'run': 'R AH1 N',
+  'runs': 'R AH1 N Z',
+  'say': 'S EY1',
+  'school': 'S K UW1 L',
+  'see': 'S IY1',
+  'slow': 'S L OW1',
+  'small': 'S M AO1 L',
+  'something': 'S AH1 M TH IH0 NG',
+  'speak': 'S P IY1 K',
+  'take': 'T EY1 K',
+  'talk': 'T AO1 K',
+  'teacher': 'T IY1 CH ER0',
+  'thank': 'TH AE1 NG K',
+  'thanks': 'TH AE1 NG K S',
+  'thing': 'TH IH1 NG',
+  'think': 'TH IH1 NG K',
+  'thin': 'TH IH1 N',
+  'thinking': 'TH IH1 NG K IH0 NG',
+  'water': 'W AO1 T ER0',
+  'way': 'W EY1',
+  'weekend': 'W IY1 K EH2 N D',
+  'world': 'W ER1 L D',
+  'year': 'Y IH1 R',
+  'walk': 'W AO1 K',
+  'walks': 'W AO1 K S',
+  'beautiful': 'B Y UW1 T AH0 F AH0 L',
+  'wonderful': 'W AH1 N D ER0 F AH0 L',
+  'goodbye': 'G UH2 D B AY1',
+  'hi': 'HH AY1',
+  'question': 'K W EH1 S CH AH0 N',
+  'answer': 'AE1 N S ER0',
+
+  // Homophones
+  'they\'re': 'DH EH1 R',
+  'buy': 'B AY1',
+  'bye': 'B AY1',
+  'sea': 'S IY1',
+  'write': 'R AY1 T',
+  'right': 'R AY1 T',
+  'hear': 'HH IY1 R',
+  'knew': 'N UW1',
+  'son': 'S AH1 N',
+  'sun': 'S AH1 N',
+  'won': 'W AH1 N',
+  'ate': 'EY1 T',
+  'flour': 'F L AW1 ER0',
+  'flower': 'F L AW1 ER0',
+  'pair': 'P EH1 R',
+  'pear': 'P EH1 R',
+  'week': 'W IY1 K',
+  'weak': 'W IY1 K',
+  'meet': 'M IY1 T',
+  'meat': 'M IY1 T',
+  'road': 'R OW1 D',
+  'rode': 'R OW1 D',
+  'whole': 'HH OW1 L',
+  'hole': 'HH OW1 L',
+  'peace': 'P IY1 S',
+  'piece': 'P IY1 S',
+  'weight': 'W EY1 T',
+  'wear': 'W EH1 R',
+  'ware': 'W EH1 R',
+  'tail': 'T EY1 L',
+  'tale': 'T EY1 L',
+  'mail': 'M EY1 L',
+  'male': 'M EY1 L',
+  'plain': 'P L EY1 N',
+  'plane': 'P L EY1 N',
+  'made': 'M EY1 D',
+  'maid': 'M EY1 D',
+  'it\'s': 'IH1 T S',
+  'you\'re': 'Y UH1 R',
+  'whose': 'HH UW1 Z',
+  'who\'s': 'HH UW1 Z',
+  'scene': 'S IY1 N',
+  'seen': 'S IY1 N',
+  'blew': 'B L UW1',
+  'break': 'B R EY1 K',
+  'brake': 'B R EY1 K',
+  'cell': 'S EH1 L',
+  'sell': 'S EH1 L',
+  'dear': 'D IH1 R',
+  'deer': 'D IH1 R',
+  'fair': 'F EH1 R',
+  'fare': 'F EH1 R',
+  'heard': 'HH ER1 D',
+  'herd': 'HH ER1 D',
+  'hour': 'AW1 ER0',
+  'read': 'R IY1 D',
+  'reed': 'R IY1 D',
+  'steal': 'S T IY1 L',
+  'steel': 'S T IY1 L',
+  'whether': 'W EH1 DH ER0',
+  'knight': 'N AY1 T',
+  'knot': 'N AA1 T',
+
+  // Minimal-pair vocabulary
+  'ship': 'SH IH1 P',
+  'sheep': 'SH IY1 P',
+  'sheet': 'SH IY1 T',
+  'seat': 'S IY1 T',
+  'sit': 'S IH1 T',
+  'light': 'L AY1 T',
+  'lead': 'L IY1 D',
+  'lice': 'L AY1 S',
+  'rice': 'R AY1 S',
+  'wrong': 'R AO1 NG',
+  'collect': 'K AH0 L EH1 K T',
+  'correct': 'K ER0 EH1 K T',
+  'fly': 'F L AY1',
+  'fry': 'F R AY1',
+  'glass': 'G L AE1 S',
+  'grass': 'G R AE1 S',
+  'west': 'W EH1 S T',
+  'vine': 'V AY1 N',
+  'wine': 'W AY1 N',
+  'vet': 'V EH1 T',
+  'wet': 'W EH1 T',
+  'veil': 'V EY1 L',
+  'whale': 'W EY1 L',
+  'berry': 'B EH1 R IY0',
+  'boat': 'B OW1 T',
+  'vote': 'V OW1 T',
+  'ban': 'B AE1 N',
+  'van': 'V AE1 N',
+  'fan': 'F AE1 N',
+  'sink': 'S IH1 NG K',
+  'sank': 'S AE1 NG K',
+  'tin': 'T IH1 N',
+  'sin': 'S IH1 N',
+  'tank': 'T AE1 NG K',
+  'tree': 'T R IY1',
+  'free': 'F R IY1',
+  'den': 'D EH1 N',
+  'they\'d': 'DH EY1 D',
+  'dare': 'D EH1 R',
+  'dough': 'D OW1',
+  'sip': 'S IH1 P',
+  'sue': 'S UW1',
+  'shoe': 'SH UW1',
+  'shell': 'SH EH1 L',
+  'save': 'S EY1 V',
+  'shave': 'SH EY1 V',
+  'seal': 'S IY1 L',
+  'she\'ll': 'SH IY1 L',
+  'chip': 'CH IH1 P',
+  'cheap': 'CH IY1 P',
+  'chop': 'CH AA1 P',
+  'shop': 'SH AA1 P',
+  'bit': 'B IH1 T',
+  'beat': 'B IY1 T',
+  'leave': 'L IY1 V',
+  'full': 'F UH1 L',
+  'fool': 'F UW1 L',
+  'pull': 'P UH1 L',
+  'pool': 'P UW1 L',
+  'bed': 'B EH1 D',
+  'pan': 'P AE1 N',
+  'pen': 'P EH1 N',
+  'pat': 'P AE1 T',
+  'bat': 'B AE1 T',
+  'pig': 'P IH1 G',
+  'park': 'P AA1 R K',
+  'bark': 'B AA1 R K',
+  'fast': 'F AE1 S T',
+  'vast': 'V AE1 S T',
+  'file': 'F AY1 L',
+  'pile': 'P AY1 L',
+  'copy': 'K AA1 P IY0',
+
+  // Stress pattern examples
+  'photograph': 'F OW1 T AH0 G R AE2 F',
+  'photography': 'F AH0 T AA1 G R AH0 F IY0',
+  'photographic': 'F OW2 T AH0 G R AE1 F IH0 K',
+  'photographer': 'F AH0 T AA1 G R AH0 F ER0',
+  'record': 'R EH1 K ER0 D',
+  'present': 'P R EH1 Z AH0 N T',
+  'banana': 'B AH0 N AE1 N AH0',
+  'computer': 'K AH0 M P Y UW1 T ER0',
+  'important': 'IH2 M P AO1 R T AH0 N T',
+  'information': 'IH2 N F ER0 M EY1 SH AH0 N',
+  'comfortable': 'K AH1 M F ER0 T AH0 B AH0 L',
+  'vegetable': 'V EH1 JH T AH0 B AH0 L',
+  'develop': 'D IH0 V EH1 L AH0 P',
+  'economy': 'IH0 K AA1 N AH0 M IY0',
+  'economic': 'EH2 K AH0 N AA1 M IH0 K',
+  'hotel': 'HH OW0 T EH1 L',
+  'interesting': 'IH1 N T R AH0 S T IH0 NG',
+  'education': 'EH2 JH AH0 K EY1 SH AH0 N',
+  'necessary': 'N EH1 S AH0 S EH2 R IY0',
+  'understand': 'AH2 N D ER0 S T AE1 N D',
+  'tomorrow': 'T AH0 M AA1 R OW2',
+  'together': 'T AH0 G EH1 DH ER0',
+  'restaurant': 'R EH1 S T ER0 AA2 N T',
+  'chocolate': 'CH AO1 K L AH0 T',
+  'different': 'D IH1 F ER0 AH0 N T',
+  'probably': 'P R AA1 B AH0 B L IY0',
+  'especially': 'AH0 S P EH1 SH L IY0',
+  'particular': 'P ER0 T IH1 K Y AH0 L ER0'
+};
@@ -0,0 +1,187 @@
+/**
+ * Tests for intonation and word stress on generated pitch and energy contours
+ */
+
+import { AudioAnalysis } from './audioAnalysis';
+import {
+  analyzeProsody,
+  checkIntonation,
+  checkWordStress,
+  expectedIntonation,
+  findSyllableNuclei,
+  lexicalStress,
+  smoothPitch
+} from './prosody';
+
+const FRAME = 0.02;
+
+interface Syllable {
+  loudness?: number; // peak RMS
+  pitch?: number; // Hz at the start
+  glide?: number; // Hz change per frame
+}
+
+/**
+ * Build an analysis of syllables separated by short unvoiced gaps
+ * Each syllable is a five-frame energy hump
+ */
+function speech(syllables: Syllable[]): AudioAnalysis {
+  const energy: number[] = [0, 0];
+  const pitch: (number | null)[] = [null, null];
+
+  syllables.forEach(({ loudness = 0.1, pitch: start = 150, glide = 0 }) => {
+    [0.3, 0.7, 1, 0.7, 0.3].forEach((shape, frame) => {
+      energy.push(loudness * shape);
+      pitch.push(start + glide * frame);
+    });
+    energy.push(0.005, 0.005);
+    pitch.push(null, null);
+  });
+
+  return { duration: energy.length * FRAME, frameDuration: FRAME, energy, pitch, silences: [] };
+}
+
+describe('prosody', () => {
+  describe('lexicalStress', () => {
+    it('should read the stress of each syllable from the dictionary', () => {
+      expect(lexicalStress('photography')).toEqual([0, 1, 0, 0]);
+      expect(lexicalStress('keys')).toEqual([1]);
+    });
+  });
+
+  describe('expectedIntonation', () => {
+    it('should expect a rise at the end of yes/no questions', () => {
+      expect(expectedIntonation('Can you help me find my keys?')).toBe('rise');
+      expect(expectedIntonation('Is it raining?')).toBe('rise');
+    });
+
+    it('should expect a fall for statements and wh- questions', () => {
+      expect(expectedIntonation('I found my keys.')).toBe('fall');
+      expect(expectedIntonation('Where are my keys?')).toBe('fall');
+    });
+  });
+
+  describe('smoothPitch', () => {
+    it('should remove single-frame octave jumps but keep unvoiced frames', () => {
+      expect(smoothPitch([150, 152, 300, 151, null, 149])).toEqual([150, 152, 152, 151, null, 149]);
+    });
+  });
+
+  describe('findSyllableNuclei', () => {
+    it('should find one nucleus per syllable', () => {
+      const nuclei = findSyllableNuclei(speech([{}, { loudness: 0.2 }, {}, {}]));
+
+      expect(nuclei).toHaveLength(4);
+      expect(nuclei[1].energy).toBeGreaterThan(nuclei[0].energy);
+    });
+
+    it('should split a voiced stretch at an energy dip', () => {
+      const analysis = speech([{}]);
+      analysis.energy = [0, 0.1, 0.02, 0.01, 0.02, 0.1, 0];
+      analysis.pitch = [null, 150, 150, 150, 150, 150, null];
+
+      expect(findSyllableNuclei(analysis)).toHaveLength(2);
+    });
+
+    it('should find nothing in unvoiced sound', () => {
+      const analysis = speech([{}]);
+      analysis.pitch = analysis.pitch.map(() => null);
+      expect(findSyllableNuclei(analysis)).toEqual([]);
+    });
+  });
+
+  describe('checkWordStress', () => {
+    it('should accept the dictionary stress of "photography"', () => {
+      const nuclei = findSyllableNuclei(speech([{}, { loudness: 0.2, pitch: 180 }, {}, {}]));
+
+      expect(checkWordStress('photography', nuclei)).toEqual([
+        { word: 'photography', wordIndex: 0, syllables: 4, expected: 1, detected: 1 }
+      ]);
+    });
+
+    it('should notice stress on the wrong syllable', () => {
+      const nuclei = findSyllableNuclei(speech([{ loudness: 0.2, pitch: 180 }, {}, {}, {}]));
+      expect(checkWordStress('photography', nuclei)[0].detected).toBe(0);
+    });
+
+    it('should only check words of two or more syllables, sharing nuclei by syllable count', () => {
+      const nuclei = findSyllableNuclei(speech([{}, {}, { loudness: 0.2 }, {}]));
+      const stress = checkWordStress('The photo was', nuclei);
+
+      expect(stress).toHaveLength(1);
+      expect(stress[0]).toMatchObject({ word: 'photo', wordIndex: 1, expected: 0, detected: 1 });
+    });
+
+    it('should use word timings when known', () => {
+      const nuclei = findSyllableNuclei(speech([{}, {}, { loudness: 0.2 }, {}]));
+      const stress = checkWordStress('my photo', nuclei, [null, { start: 0.3, end: 0.6 }]);
+
+      expect(stress[0].detected).toBe(0);
+    });
+  });
+
+  describe('checkIntonation', () => {
+    it('should detect a final rise', () => {
+      const analysis = speech([{}, {}, { pitch: 150, glide: 10 }]);
+      const check = checkIntonation('Can you help me find my keys?', analysis.pitch, FRAME);
+
+      expect(check).toMatchObject({ expected: 'rise', detected: 'rise' });
+      expect(check.change).toBeGreaterThan(1.5);
+    });
+
+    it('should detect a final fall', () => {
+      const analysis = speech([{}, {}, { pitch: 200, glide: -12 }]);
+      expect(checkIntonation('Can you help me find my keys?', analysis.pitch, FRAME).detected).toBe('fall');
+    });
+
+    it('should call a steady ending level', () => {
+      expect(checkIntonation('I found my keys.', speech([{}, {}]).pitch, FRAME).detected).toBe('level');
+    });
+
+    it('should not judge an ending without voiced speech', () => {
+      expect(checkIntonation('I found my keys.', [null, 150, null], FRAME)).toEqual({
+        expected: 'fall',
+        detected: null,
+        change: 0
+      });
+    });
+  });
+
+  describe('analyzeProsody', () => {
+    const question = 'Can you help me find my keys?';
+
+    it('should score a lively question with a final rise highly', () => {
+      const prosody = analyzeProsody(
+        speech([{ pitch: 130 }, { pitch: 150 }, { pitch: 200 }, { pitch: 140 }, { pitch: 170 }, { pitch: 140 }, { pitch: 150, glide: 15 }]),
+        question
+      );
+
+      expect(prosody!.intonation.detected).toBe('rise');
+      expect(prosody!.pitchRange).toBeGreaterThan(6);
+      expect(prosody!.score).toBe(100);
+      expect(prosody!.contour).toHaveLength(51);
+    });
+
+    it('should score a flat question with a falling end lower', () => {
+      const prosody = analyzeProsody(speech([{}, {}, {}, {}, {}, {}, { pitch: 160, glide: -10 }]), question);
+
+      expect(prosody!.intonation.detected).toBe('fall');
+      expect(prosody!.score).toBeLessThan(50);
+    });
+
+    it('should include word stress in the score', () => {
+      const right = analyzeProsody(speech([{}, { loudness: 0.2, pitch: 190 }, {}, {}]), 'photography');
+      const wrong = analyzeProsody(speech([{}, {}, {}, { loudness: 0.2, pitch: 190 }]), 'photography');
+
+      expect(right!.wordStress[0].detected).toBe(1);
+      expect(wrong!.wordStress[0].detected).toBe(3);
+      expect(right!.score).toBeGreaterThan(wrong!.score);
+    });
+
+    it('should return null without voiced speech', () => {
+      const analysis = speech([{}]);
+      analysis.pitch = analysis.pitch.map(() => null);
+      expect(analyzeProsody(analysis, question)).toBeNull();
+    });
+  });
+});
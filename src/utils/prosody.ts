@@ -0,0 +1,256 @@
+/**
+ * Intonation and word stress from the pitch and energy contours of a recording
+ * Stressed syllables are louder and higher than their neighbours, so syllable
+ * nuclei are found as energy peaks of voiced speech and compared with the
+ * lexical stress of the dictionary pronunciation
+ */
+
+import { AudioAnalysis, TimeSegment } from './audioAnalysis';
+import { splitWords } from './alignment';
+import { isVowel, wordToPhonemes } from './g2p';
+
+export type PitchDirection = 'rise' | 'fall' | 'level';
+
+export interface SyllableNucleus {
+  time: number; // seconds
+  energy: number; // dB
+  pitch: number; // semitones relative to the speaker's median pitch
+}
+
+export interface WordStress {
+  word: string;
+  wordIndex: number; // index among the whitespace-separated target words
+  syllables: number;
+  expected: number; // syllable carrying the primary stress in the dictionary
+  detected: number | null; // most prominent syllable heard, null when none was found
+}
+
+export interface IntonationCheck {
+  expected: 'rise' | 'fall';
+  detected: PitchDirection | null; // null without enough voiced speech at the end
+  change: number; // semitones from the start to the end of the final stretch
+}
+
+export interface ProsodyAnalysis {
+  score: number; // 0-100
+  pitchRange: number; // semitones between the 10th and 90th percentile of the voice
+  wordStress: WordStress[]; // words of two or more syllables
+  intonation: IntonationCheck;
+  contour: (number | null)[]; // smoothed pitch in Hz, one value per analysis frame
+  frameDuration: number; // seconds between contour values
+}
+
+const MIN_VOICED_FRAMES = 5;
+const MIN_DIP_DB = 2; // energy dip that separates two syllables
+const PITCH_WEIGHT = 1; // dB of loudness worth one semitone of pitch in stress prominence
+const ENDING_SECONDS = 0.4; // longest final stretch judged for a rise or fall
+const DIRECTION_SEMITONES = 1.5; // smaller movements count as level
+const EXPRESSIVE_RANGE_SEMITONES = 6; // typical range of read English; less sounds flat
+
+// Questions opening with an auxiliary expect a yes/no answer and rise at the end
+const YES_NO_STARTERS = new Set([
+  'am', 'is', 'are', 'was', 'were', 'do', 'does', 'did', 'have', 'has', 'had',
+  'can', 'could', 'will', 'would', 'shall', 'should', 'may', 'might', 'must'
+]);
+
+const toDecibels = (energy: number): number => 20 * Math.log10(Math.max(energy, 1e-5));
+
+const toSemitones = (hz: number, reference: number): number => 12 * Math.log2(hz / reference);
+
+function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+const average = (values: number[]): number => values.reduce((total, value) => total + value, 0) / values.length;
+
+/**
+ * Stress digit of each syllable of a word (1 primary, 2 secondary, 0 unstressed)
+ */
+export function lexicalStress(word: string): number[] {
+  return wordToPhonemes(word)
+    .filter(isVowel)
+    .map(vowel => Number(vowel.slice(-1)) || 0);
+}
+
+/**
+ * Intonation expected at the end of a sentence
+ * Yes/no questions rise; statements and wh- questions fall
+ */
+export function expectedIntonation(text: string): 'rise' | 'fall' {
+  const trimmed = text.trim();
+  const firstWord = splitWords(trimmed)[0]?.replace(/[^a-z']/g, '') ?? '';
+  return trimmed.endsWith('?') && YES_NO_STARTERS.has(firstWord) ? 'rise' : 'fall';
+}
+
+/**
+ * Remove single-frame octave jumps and glitches with a three-point median
+ * Unvoiced frames stay null
+ */
+export function smoothPitch(pitch: (number | null)[]): (number | null)[] {
+  return pitch.map((value, index) => {
+    if (value === null) return null;
+    const neighbours = [pitch[index - 1], value, pitch[index + 1]].filter((hz): hz is number => hz != null);
+    return neighbours.length === 3 ? percentile(neighbours, 0.5) : value;
+  });
+}
+
+/**
+ * Find the syllable nuclei: peaks of voiced energy separated by a dip or an unvoiced stretch
+ */
+export function findSyllableNuclei(analysis: AudioAnalysis, contour: (number | null)[] = smoothPitch(analysis.pitch)): SyllableNucleus[] {
+  const voiced = contour.filter((hz): hz is number => hz !== null);
+  if (voiced.length === 0) return [];
+  const median = percentile(voiced, 0.5);
+
+  const decibels = analysis.energy.map(toDecibels);
+  const smoothed = decibels.map((_, index) => average(decibels.slice(Math.max(0, index - 1), index + 2)));
+
+  const peaks: number[] = [];
+  smoothed.forEach((level, index) => {
+    if (contour[index] === null) return;
+    const before = index > 0 ? smoothed[index - 1] : -Infinity;
+    const after = index < smoothed.length - 1 ? smoothed[index + 1] : -Infinity;
+    if (level < before || level <= after) return;
+
+    const previous = peaks[peaks.length - 1];
+    if (previous === undefined) {
+      peaks.push(index);
+      return;
+    }
+
+    const between = smoothed.slice(previous + 1, index);
+    const dip = Math.min(smoothed[previous], level) - Math.min(Infinity, ...between);
+    const unvoicedGap = contour.slice(previous + 1, index).some(hz => hz === null);
+    if (unvoicedGap || dip >= MIN_DIP_DB) {
+      peaks.push(index);
+    } else if (level > smoothed[previous]) {
+      peaks[peaks.length - 1] = index;
+    }
+  });
+
+  return peaks.map(index => ({
+    time: index * analysis.frameDuration,
+    energy: smoothed[index],
+    pitch: toSemitones(contour[index]!, median)
+  }));
+}
+
+/**
+ * Most prominent syllable of a word, scaled to the expected number of syllables
+ * when more or fewer nuclei were heard
+ */
+function detectStress(nuclei: SyllableNucleus[], syllables: number): number | null {
+  if (nuclei.length === 0) return null;
+  const prominence = nuclei.map(nucleus => nucleus.energy + PITCH_WEIGHT * nucleus.pitch);
+  const strongest = prominence.indexOf(Math.max(...prominence));
+  if (nuclei.length === syllables) return strongest;
+  return Math.min(syllables - 1, Math.floor(((strongest + 0.5) * syllables) / nuclei.length));
+}
+
+/**
+ * Compare the heard stress of each word of two or more syllables with the dictionary
+ * Nuclei are assigned by word timings when known, otherwise in proportion to
+ * the syllable count of every word
+ */
+export function checkWordStress(
+  targetText: string,
+  nuclei: SyllableNucleus[],
+  wordTimings: (TimeSegment | null)[] = []
+): WordStress[] {
+  const words = splitWords(targetText);
+  const stresses = words.map(lexicalStress);
+  const totalSyllables = stresses.reduce((total, stress) => total + stress.length, 0);
+  const results: WordStress[] = [];
+  let syllablesBefore = 0;
+
+  words.forEach((word, wordIndex) => {
+    const stress = stresses[wordIndex];
+    const first = syllablesBefore;
+    syllablesBefore += stress.length;
+    if (stress.length < 2) return;
+
+    const timing = wordTimings[wordIndex];
+    const wordNuclei = timing
+      ? nuclei.filter(nucleus => nucleus.time >= timing.start && nucleus.time <= timing.end)
+      : nuclei.slice(
+          Math.round((first * nuclei.length) / totalSyllables),
+          Math.round((syllablesBefore * nuclei.length) / totalSyllables)
+        );
+
+    results.push({
+      word: word.replace(/[^a-z'-]/g, ''),
+      wordIndex,
+      syllables: stress.length,
+      expected: Math.max(0, stress.indexOf(1)),
+      detected: detectStress(wordNuclei, stress.length)
+    });
+  });
+
+  return results;
+}
+
+/**
+ * Direction of the pitch over the final stretch of voiced speech
+ * (at most ENDING_SECONDS long)
+ */
+export function checkIntonation(targetText: string, contour: (number | null)[], frameDuration: number): IntonationCheck {
+  const expected = expectedIntonation(targetText);
+  const ending = Math.max(MIN_VOICED_FRAMES, Math.round(ENDING_SECONDS / frameDuration));
+  // The final voiced stretch, so the pitch of earlier words does not blur the direction
+  const tail: number[] = [];
+  let index = contour.length - 1;
+  while (index >= 0 && contour[index] === null) index--;
+  while (index >= 0 && contour[index] !== null && tail.length < ending) {
+    tail.unshift(contour[index]!);
+    index--;
+  }
+
+  if (tail.length < MIN_VOICED_FRAMES) {
+    return { expected, detected: null, change: 0 };
+  }
+
+  const third = Math.max(1, Math.floor(tail.length / 3));
+  const change = toSemitones(average(tail.slice(-third)), average(tail.slice(0, third)));
+  const detected: PitchDirection = change >= DIRECTION_SEMITONES ? 'rise' : change <= -DIRECTION_SEMITONES ? 'fall' : 'level';
+  return { expected, detected, change };
+}
+
+/**
+ * Score the intonation and stress of a recording of the target text
+ * Returns null when too little voiced speech was found to judge
+ */
+export function analyzeProsody(
+  analysis: AudioAnalysis,
+  targetText: string,
+  wordTimings: (TimeSegment | null)[] = []
+): ProsodyAnalysis | null {
+  const contour = smoothPitch(analysis.pitch);
+  const voiced = contour.filter((hz): hz is number => hz !== null);
+  if (voiced.length < MIN_VOICED_FRAMES) return null;
+
+  const median = percentile(voiced, 0.5);
+  const semitones = voiced.map(hz => toSemitones(hz, median));
+  const pitchRange = percentile(semitones, 0.9) - percentile(semitones, 0.1);
+
+  const wordStress = checkWordStress(targetText, findSyllableNuclei(analysis, contour), wordTimings);
+  const intonation = checkIntonation(targetText, contour, analysis.frameDuration);
+
+  // Weighted parts of the score; parts that could not be judged are left out
+  const parts: { weight: number; value: number }[] = [
+    { weight: 0.25, value: Math.min(1, pitchRange / EXPRESSIVE_RANGE_SEMITONES) }
+  ];
+  const heard = wordStress.filter(word => word.detected !== null);
+  if (heard.length > 0) {
+    parts.push({ weight: 0.5, value: heard.filter(word => word.detected === word.expected).length / heard.length });
+  }
+  if (intonation.detected) {
+    const value = intonation.detected === intonation.expected ? 1 : intonation.detected === 'level' ? 0.5 : 0;
+    parts.push({ weight: 0.25, value });
+  }
+
+  const totalWeight = parts.reduce((total, part) => total + part.weight, 0);
+  const score = Math.round((parts.reduce((total, part) => total + part.weight * part.value, 0) / totalWeight) * 100);
+
+  return { score, pitchRange, wordStress, intonation, contour, frameDuration: analysis.frameDuration };
+}
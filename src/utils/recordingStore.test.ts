@@ -0,0 +1,52 @@
+/**
+ * Tests for the IndexedDB recording store
+ */
+
+import 'fake-indexeddb/auto';
+import { isRecordingStoreAvailable, loadRecording, pruneRecordings, saveRecording } from './recordingStore';
+
+// jsdom has neither structuredClone nor cloneable Blobs; browsers store Blobs as they are
+if (typeof structuredClone === 'undefined') {
+  (global as any).structuredClone = (value: unknown) => value;
+}
+
+describe('recordingStore', () => {
+  const recording = (text: string) => new Blob([text], { type: 'audio/webm' });
+
+  beforeEach(async () => {
+    await pruneRecordings([]);
+  });
+
+  it('should be available when IndexedDB is', () => {
+    expect(isRecordingStoreAvailable()).toBe(true);
+  });
+
+  it('should load a saved recording', async () => {
+    await saveRecording('recording-1', recording('first take'));
+
+    const loaded = await loadRecording('recording-1');
+    expect(loaded).not.toBeNull();
+    expect(loaded!.size).toBe('first take'.length);
+  });
+
+  it('should replace a recording saved under the same id', async () => {
+    await saveRecording('recording-1', recording('first take'));
+    await saveRecording('recording-1', recording('second'));
+
+    expect((await loadRecording('recording-1'))!.size).toBe('second'.length);
+  });
+
+  it('should resolve with null for an unknown id', async () => {
+    expect(await loadRecording('missing')).toBeNull();
+  });
+
+  it('should delete the recordings that are not kept', async () => {
+    await saveRecording('recording-1', recording('old'));
+    await saveRecording('recording-2', recording('new'));
+
+    await pruneRecordings(['recording-2']);
+
+    expect(await loadRecording('recording-1')).toBeNull();
+    expect(await loadRecording('recording-2')).not.toBeNull();
+  });
+});
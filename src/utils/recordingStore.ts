@@ -0,0 +1,81 @@
+/**
+ * IndexedDB storage for learners' recordings
+ * Recordings are kept per practice session so earlier takes can be replayed;
+ * every function resolves quietly when IndexedDB is unavailable
+ */
+
+const DB_NAME = 'pronunciation_recordings';
+const DB_VERSION = 1;
+const STORE_NAME = 'recordings';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether recordings can be stored in this browser
+ */
+export function isRecordingStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Open (and on first use create) the recordings database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Run one request against the recordings store and resolve with its result
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Store a recording under the given id, replacing any earlier one
+ */
+export async function saveRecording(id: string, audioBlob: Blob): Promise<void> {
+  if (!isRecordingStoreAvailable()) return;
+  await runRequest('readwrite', store => store.put(audioBlob, id));
+}
+
+/**
+ * Load a stored recording, or null when there is none
+ */
+export async function loadRecording(id: string): Promise<Blob | null> {
+  if (!isRecordingStoreAvailable()) return null;
+  const recording = await runRequest<Blob | undefined>('readonly', store => store.get(id));
+  return recording ?? null;
+}
+
+/**
+ * Delete every stored recording whose id is not in keepIds
+ * Used to drop recordings of sessions that fell out of the history
+ */
+export async function pruneRecordings(keepIds: string[]): Promise<void> {
+  if (!isRecordingStoreAvailable()) return;
+  const storedIds = await runRequest<IDBValidKey[]>('readonly', store => store.getAllKeys());
+  const staleIds = storedIds.filter(id => !keepIds.includes(String(id)));
+  await Promise.all(staleIds.map(id => runRequest('readwrite', store => store.delete(id))));
+}
@@ -0,0 +1,31 @@
+/**
+ * Tests for first-language sound-confusion detection
+ */
+
+import { detectSoundConfusions } from './soundConfusions';
+import { GENERAL_PROFILE, L1_PROFILES } from '../l1Profiles';
+
+describe('soundConfusions', () => {
+  describe('detectSoundConfusions', () => {
+    it('should find the swaps heard in the transcript', () => {
+      const confusions = detectSoundConfusions('the berry best', 'the very best', L1_PROFILES.spanish);
+      expect(confusions.map(confusion => [confusion.expected, confusion.spoken])).toEqual([['V', 'B']]);
+    });
+
+    it('should not report sounds that were said correctly', () => {
+      expect(detectSoundConfusions('that is nice', 'that is nice', GENERAL_PROFILE)).toEqual([]);
+      expect(detectSoundConfusions('dat berry bird', 'that very bird', GENERAL_PROFILE)
+        .map(confusion => confusion.expected)).toEqual(['DH', 'V']);
+    });
+
+    it('should only report swaps listed in the profile', () => {
+      expect(detectSoundConfusions('i sink so', 'i think so', L1_PROFILES.mandarin)).toHaveLength(1);
+      expect(detectSoundConfusions('i sink so', 'i think so', L1_PROFILES.spanish)).toHaveLength(0);
+    });
+
+    it('should order the swaps by how typical they are', () => {
+      const confusions = detectSoundConfusions('sink of the wind', 'think of the vine', L1_PROFILES.mandarin);
+      expect(confusions.map(confusion => confusion.weight)).toEqual([0.9, 0.8]);
+    });
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Sound-confusion detection against a first-language profile
+ * A confusion counts when the same phoneme swap was found in an aligned word
+ * pair of the attempt
+ */
+
+import { L1Profile, SoundConfusion } from '../l1Profiles';
+import { findSoundErrors } from './phonemeUtils';
+
+/**
+ * Find the profile's confusions heard in the transcript, most typical first
+ */
+export function detectSoundConfusions(userText: string, targetText: string, profile: L1Profile): SoundConfusion[] {
+  const errors = findSoundErrors(userText, targetText);
+
+  return profile.confusions
+    .filter(confusion => errors.some(error => error.expected === confusion.expected && error.spoken === confusion.spoken))
+    .sort((a, b) => b.weight - a.weight);
+}
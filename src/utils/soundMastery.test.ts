@@ -0,0 +1,108 @@
+/**
+ * Tests for per-sound mastery
+ */
+
+import {
+  estimateRange,
+  findWeakSounds,
+  isSoundMastery,
+  observeWordResults,
+  summarizeSoundMastery,
+  updateSoundMastery
+} from './soundMastery';
+
+describe('soundMastery', () => {
+  describe('observeWordResults', () => {
+    it('should count every phoneme of a correct word as correct', () => {
+      expect(observeWordResults([{ status: 'correct', targetWord: 'think', spokenWord: 'think' }])).toEqual([
+        { sound: 'TH', correct: true },
+        { sound: 'IH', correct: true },
+        { sound: 'NG', correct: true },
+        { sound: 'K', correct: true }
+      ]);
+    });
+
+    it('should mark the swapped phonemes of a mispronounced word', () => {
+      const observations = observeWordResults([{ status: 'mispronounced', targetWord: 'think', spokenWord: 'sink' }]);
+      expect(observations).toContainEqual({ sound: 'TH', correct: false });
+      expect(observations.filter(observation => observation.correct)).toHaveLength(3);
+    });
+
+    it('should skip missed and extra words', () => {
+      expect(observeWordResults([
+        { status: 'missed', targetWord: 'think', spokenWord: null },
+        { status: 'extra', targetWord: null, spokenWord: 'um' }
+      ])).toEqual([]);
+    });
+  });
+
+  describe('updateSoundMastery', () => {
+    it('should decay earlier sessions so the estimate follows recent practice', () => {
+      let mastery = updateSoundMastery({}, Array(5).fill({ sound: 'R', correct: false }), '2024-03-01T10:00:00.000Z');
+      mastery = updateSoundMastery(mastery, Array(5).fill({ sound: 'R', correct: true }), '2024-03-02T10:00:00.000Z');
+
+      expect(mastery.R.attempts).toBeCloseTo(9);
+      expect(mastery.R.correct).toBeCloseTo(5);
+      expect(mastery.R.history).toEqual([0, 56]);
+      expect(mastery.R.updatedAt).toBe('2024-03-02T10:00:00.000Z');
+    });
+
+    it('should leave sounds not practiced in the session unchanged', () => {
+      const mastery = updateSoundMastery({}, [{ sound: 'R', correct: true }]);
+      expect(updateSoundMastery(mastery, [{ sound: 'L', correct: true }]).R).toBe(mastery.R);
+    });
+  });
+
+  describe('estimateRange', () => {
+    it('should narrow the range as evidence grows', () => {
+      const few = estimateRange(2, 4);
+      const many = estimateRange(50, 100);
+
+      expect(few.estimate).toBe(50);
+      expect(many.estimate).toBe(50);
+      expect(few.high - few.low).toBeGreaterThan(many.high - many.low);
+      expect(many.low).toBeLessThan(50);
+      expect(many.high).toBeGreaterThan(50);
+    });
+
+    it('should stay within 0-100', () => {
+      expect(estimateRange(3, 3).high).toBe(100);
+      expect(estimateRange(0, 3).low).toBe(0);
+      expect(estimateRange(0, 0)).toEqual({ estimate: 0, low: 0, high: 100 });
+    });
+  });
+
+  describe('summarizeSoundMastery', () => {
+    it('should list sounds weakest first with their IPA, pattern and progress', () => {
+      let mastery = updateSoundMastery({}, [
+        { sound: 'R', correct: false }, { sound: 'R', correct: false }, { sound: 'K', correct: true }
+      ]);
+      mastery = updateSoundMastery(mastery, [{ sound: 'R', correct: true }, { sound: 'R', correct: true }]);
+
+      const [r, k] = summarizeSoundMastery(mastery);
+      expect(r).toMatchObject({ sound: 'R', ipa: 'ɹ', pattern: 'r', firstEstimate: 0, estimate: 56 });
+      expect(k).toMatchObject({ sound: 'K', pattern: null, estimate: 100 });
+    });
+  });
+
+  describe('findWeakSounds', () => {
+    it('should only report weak sounds with enough attempts', () => {
+      const mastery = updateSoundMastery({}, [
+        ...Array(4).fill({ sound: 'R', correct: false }),
+        { sound: 'L', correct: false },
+        ...Array(4).fill({ sound: 'K', correct: true })
+      ]);
+      expect(findWeakSounds(summarizeSoundMastery(mastery))).toEqual(['R']);
+    });
+  });
+
+  describe('isSoundMastery', () => {
+    it('should accept saved mastery and reject other data', () => {
+      expect(isSoundMastery(updateSoundMastery({}, [{ sound: 'R', correct: true }]))).toBe(true);
+      expect(isSoundMastery({})).toBe(true);
+      expect(isSoundMastery({ R: { correct: 'x' } })).toBe(false);
+      expect(isSoundMastery([])).toBe(false);
+      expect(isSoundMastery(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Per-sound mastery
+ * Tracks how often each phoneme of the target words was pronounced correctly.
+ * Evidence from earlier sessions is decayed each time the sound is practiced
+ * again, so the estimate follows the learner's current level, and the range
+ * shows how sure the estimate is
+ */
+
+import { alignPhonemes, phonemeToIpa, stripStress, wordToPhonemes } from './g2p';
+import { findPatternForPhoneme, PRONUNCIATION_PATTERNS } from './phonemeUtils';
+import { normalizeText } from './textNormalization';
+
+/**
+ * Whether one phoneme of a target word was pronounced correctly
+ */
+export interface SoundObservation {
+  sound: string; // ARPAbet without stress
+  correct: boolean;
+}
+
+/**
+ * Decayed evidence for one sound
+ */
+export interface SoundMasteryRecord {
+  correct: number; // decayed count of correct attempts
+  attempts: number; // decayed count of all attempts
+  history: number[]; // estimate (0-100) after each session the sound was practiced, oldest first
+  updatedAt: string; // ISO date of the last session with this sound
+}
+
+export type SoundMastery = { [sound: string]: SoundMasteryRecord };
+
+/**
+ * Mastery of one sound for display and practice planning
+ */
+export interface SoundMasteryEstimate {
+  sound: string;
+  ipa: string;
+  pattern: keyof typeof PRONUNCIATION_PATTERNS | null; // pattern with a pronunciation tip, if any
+  estimate: number; // 0-100
+  low: number; // lower end of the 90% confidence range, 0-100
+  high: number; // upper end of the 90% confidence range, 0-100
+  attempts: number; // decayed number of attempts the estimate rests on
+  firstEstimate: number; // estimate after the first session with this sound
+  updatedAt: string;
+}
+
+// Weight kept by earlier evidence each session the sound is practiced again
+const SESSION_DECAY = 0.8;
+
+// z-score of the 90% confidence range
+const CONFIDENCE_Z = 1.645;
+
+const MAX_HISTORY = 20;
+
+/**
+ * Turn compared words into per-phoneme observations
+ * Correct words count every phoneme as correct; in mispronounced words the phonemes
+ * that were swapped or dropped count as wrong. Missed and extra words say nothing
+ * about how a sound was pronounced and are skipped
+ */
+export function observeWordResults(
+  wordResults: { status: string; targetWord: string | null; spokenWord: string | null }[]
+): SoundObservation[] {
+  return wordResults.flatMap(result => {
+    if (!result.targetWord || (result.status !== 'correct' && result.status !== 'mispronounced')) return [];
+
+    const target = normalizeText(result.targetWord).flatMap(wordToPhonemes);
+    if (result.status === 'correct') {
+      return target.map(phoneme => ({ sound: stripStress(phoneme), correct: true }));
+    }
+
+    const spoken = normalizeText(result.spokenWord || '').flatMap(wordToPhonemes);
+    return alignPhonemes(spoken, target)
+      .filter(step => step.targetWord !== null)
+      .map(step => ({ sound: step.targetWord!, correct: step.operation === 'match' }));
+  });
+}
+
+/**
+ * Add one session's observations, decaying the earlier evidence of each practiced sound
+ */
+export function updateSoundMastery(
+  mastery: SoundMastery,
+  observations: SoundObservation[],
+  timestamp: string = new Date().toISOString()
+): SoundMastery {
+  const session = new Map<string, { correct: number; attempts: number }>();
+  observations.forEach(({ sound, correct }) => {
+    const counts = session.get(sound) || { correct: 0, attempts: 0 };
+    session.set(sound, { correct: counts.correct + (correct ? 1 : 0), attempts: counts.attempts + 1 });
+  });
+
+  const updated = { ...mastery };
+  session.forEach((counts, sound) => {
+    const previous = mastery[sound];
+    const correct = (previous ? previous.correct * SESSION_DECAY : 0) + counts.correct;
+    const attempts = (previous ? previous.attempts * SESSION_DECAY : 0) + counts.attempts;
+    const estimate = estimateRange(correct, attempts).estimate;
+
+    updated[sound] = {
+      correct,
+      attempts,
+      history: [...(previous ? previous.history : []), estimate].slice(-MAX_HISTORY),
+      updatedAt: timestamp
+    };
+  });
+  return updated;
+}
+
+/**
+ * Estimate and 90% confidence range for a sound, as percentages
+ * Uses the Wilson score interval, which stays sensible for few attempts
+ */
+export function estimateRange(correct: number, attempts: number): { estimate: number; low: number; high: number } {
+  if (attempts <= 0) return { estimate: 0, low: 0, high: 100 };
+
+  const share = correct / attempts;
+  const z2 = CONFIDENCE_Z * CONFIDENCE_Z;
+  const center = (share + z2 / (2 * attempts)) / (1 + z2 / attempts);
+  const margin = (CONFIDENCE_Z / (1 + z2 / attempts))
+    * Math.sqrt(share * (1 - share) / attempts + z2 / (4 * attempts * attempts));
+
+  return {
+    estimate: Math.round(share * 100),
+    low: Math.round(Math.max(0, center - margin) * 100),
+    high: Math.round(Math.min(1, center + margin) * 100)
+  };
+}
+
+/**
+ * Mastery of every tracked sound, weakest first
+ */
+export function summarizeSoundMastery(mastery: SoundMastery): SoundMasteryEstimate[] {
+  return Object.entries(mastery)
+    .map(([sound, record]) => ({
+      sound,
+      ipa: phonemeToIpa(sound),
+      pattern: findPatternForPhoneme(sound),
+      ...estimateRange(record.correct, record.attempts),
+      attempts: Math.round(record.attempts * 10) / 10,
+      firstEstimate: record.history[0] ?? 0,
+      updatedAt: record.updatedAt
+    }))
+    .sort((a, b) => a.estimate - b.estimate || b.attempts - a.attempts);
+}
+
+/**
+ * Sounds the learner has not mastered yet, weakest first
+ * Only sounds with enough evidence count, so one unlucky word is not enough
+ */
+export function findWeakSounds(estimates: SoundMasteryEstimate[], threshold = 70, minAttempts = 3): string[] {
+  return estimates
+    .filter(estimate => estimate.attempts >= minAttempts && estimate.estimate < threshold)
+    .map(estimate => estimate.sound);
+}
+
+/**
+ * Check that saved mastery data has the expected shape
+ */
+export function isSoundMastery(data: unknown): data is SoundMastery {
+  return typeof data === 'object' && data !== null && !Array.isArray(data)
+    && Object.values(data).every(isSoundMasteryRecord);
+}
+
+function isSoundMasteryRecord(record: unknown): record is SoundMasteryRecord {
+  if (typeof record !== 'object' || record === null) {
+    return false;
+  }
+  const fields: Partial<Record<keyof SoundMasteryRecord, unknown>> = record;
+  return typeof fields.correct === 'number'
+    && typeof fields.attempts === 'number'
+    && Array.isArray(fields.history)
+    && typeof fields.updatedAt === 'string';
+}
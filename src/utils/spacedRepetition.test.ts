@@ -0,0 +1,134 @@
+/**
+ * Tests for spaced repetition scheduling
+ */
+
+import {
+  addReviewItems,
+  createReviewItem,
+  getDueItems,
+  gradeReviewItem,
+  isReviewQueue,
+  ReviewItem,
+  scoreToQuality,
+  toDateKey,
+  trimReviewQueue
+} from './spacedRepetition';
+
+describe('spacedRepetition', () => {
+  const now = new Date(2024, 2, 10, 9, 30);
+
+  describe('toDateKey', () => {
+    it('should format the local calendar day', () => {
+      expect(toDateKey(now)).toBe('2024-03-10');
+      expect(toDateKey(new Date(2024, 11, 31, 23, 59))).toBe('2024-12-31');
+    });
+  });
+
+  describe('scoreToQuality', () => {
+    it('should map scores to SM-2 qualities', () => {
+      expect(scoreToQuality(100)).toBe(5);
+      expect(scoreToQuality(90)).toBe(4);
+      expect(scoreToQuality(70)).toBe(3);
+      expect(scoreToQuality(60)).toBe(2);
+      expect(scoreToQuality(30)).toBe(1);
+      expect(scoreToQuality(0)).toBe(0);
+    });
+  });
+
+  describe('createReviewItem', () => {
+    it('should make a new item due today', () => {
+      const item = createReviewItem('thirty', now);
+      expect(item).toMatchObject({ text: 'thirty', easiness: 2.5, interval: 0, repetitions: 0, lapses: 0 });
+      expect(item.due).toBe('2024-03-10');
+      expect(item.lastReviewedAt).toBeNull();
+    });
+  });
+
+  describe('gradeReviewItem', () => {
+    it('should space out remembered items: 1 day, 6 days, then by easiness', () => {
+      let item = createReviewItem('thirty', now);
+
+      item = gradeReviewItem(item, 5, now);
+      expect(item).toMatchObject({ interval: 1, repetitions: 1, due: '2024-03-11' });
+
+      item = gradeReviewItem(item, 5, now);
+      expect(item).toMatchObject({ interval: 6, repetitions: 2, due: '2024-03-16' });
+
+      item = gradeReviewItem(item, 4, now);
+      expect(item.interval).toBe(Math.round(6 * item.easiness));
+      expect(item.repetitions).toBe(3);
+      expect(item.lastReviewedAt).toBe(now.toISOString());
+    });
+
+    it('should start a forgotten item over tomorrow and count the lapse', () => {
+      const learned: ReviewItem = { ...createReviewItem('thirty', now), interval: 6, repetitions: 2 };
+      const item = gradeReviewItem(learned, 1, now);
+
+      expect(item).toMatchObject({ interval: 1, repetitions: 0, lapses: 1, due: '2024-03-11' });
+      expect(item.easiness).toBeLessThan(learned.easiness);
+    });
+
+    it('should not count a lapse for an item that was never learned', () => {
+      expect(gradeReviewItem(createReviewItem('thirty', now), 0, now).lapses).toBe(0);
+    });
+
+    it('should keep the easiness at 1.3 or more', () => {
+      let item = createReviewItem('thirty', now);
+      for (let i = 0; i < 10; i++) {
+        item = gradeReviewItem(item, 0, now);
+      }
+      expect(item.easiness).toBe(1.3);
+    });
+  });
+
+  describe('addReviewItems', () => {
+    it('should add new texts once each', () => {
+      const queue = addReviewItems([], ['thirty', 'three', 'thirty'], now);
+      expect(queue.map(item => item.text)).toEqual(['thirty', 'three']);
+    });
+
+    it('should bring a queued item back for today when it is missed again', () => {
+      const learned: ReviewItem = { ...createReviewItem('thirty', now), interval: 6, repetitions: 2, due: '2024-03-16' };
+      const [item] = addReviewItems([learned], ['thirty'], now);
+
+      expect(item).toMatchObject({ interval: 0, repetitions: 0, lapses: 1, due: '2024-03-10' });
+      expect(item.easiness).toBeCloseTo(2.3);
+    });
+  });
+
+  describe('getDueItems', () => {
+    it('should return items due today or earlier, most overdue first', () => {
+      const queue: ReviewItem[] = [
+        { ...createReviewItem('today', now), due: '2024-03-10' },
+        { ...createReviewItem('later', now), due: '2024-03-12' },
+        { ...createReviewItem('overdue', now), due: '2024-03-01' },
+        { ...createReviewItem('hard', now), due: '2024-03-10', easiness: 1.5 }
+      ];
+
+      expect(getDueItems(queue, now).map(item => item.text)).toEqual(['overdue', 'hard', 'today']);
+    });
+  });
+
+  describe('trimReviewQueue', () => {
+    it('should drop the best-known items first and keep the order', () => {
+      const queue: ReviewItem[] = [
+        { ...createReviewItem('new', now), interval: 0 },
+        { ...createReviewItem('known', now), interval: 30 },
+        { ...createReviewItem('learning', now), interval: 6 }
+      ];
+
+      expect(trimReviewQueue(queue, 2).map(item => item.text)).toEqual(['new', 'learning']);
+      expect(trimReviewQueue(queue, 5)).toBe(queue);
+    });
+  });
+
+  describe('isReviewQueue', () => {
+    it('should accept saved review items and reject anything else', () => {
+      expect(isReviewQueue([createReviewItem('thirty', now)])).toBe(true);
+      expect(isReviewQueue([])).toBe(true);
+      expect(isReviewQueue({})).toBe(false);
+      expect(isReviewQueue([{ text: 'thirty' }])).toBe(false);
+      expect(isReviewQueue([null])).toBe(false);
+    });
+  });
+});
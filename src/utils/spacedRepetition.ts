@@ -0,0 +1,184 @@
+/**
+ * Spaced repetition scheduling (SM-2)
+ * Each troublesome word or phrase comes back for review after an interval that
+ * grows while the learner keeps saying it well and starts over when they don't.
+ * Due dates are local calendar days ("YYYY-MM-DD") so "due today" follows the
+ * learner's clock
+ */
+
+/**
+ * A word or phrase in the review queue with its SM-2 state
+ */
+export interface ReviewItem {
+  text: string; // normalized lowercase words, e.g. "thirty three"
+  easiness: number; // SM-2 easiness factor, at least 1.3
+  interval: number; // days until the next review after the last one
+  repetitions: number; // successful reviews in a row
+  lapses: number; // times the item was missed again after being learned
+  due: string; // local date of the next review, "YYYY-MM-DD"
+  addedAt: string; // ISO date the item entered the queue
+  lastReviewedAt: string | null; // ISO date of the last graded review
+}
+
+/**
+ * SM-2 answer quality from 0 (not said at all) to 5 (perfect)
+ * 3 and above counts as remembered
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+
+// Easiness lost when an item already in the queue is missed again in practice
+const LAPSE_PENALTY = 0.2;
+
+/**
+ * Local calendar day of a date, "YYYY-MM-DD"
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * The local calendar day a number of days after a date
+ */
+function addDays(date: Date, days: number): string {
+  const later = new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+  return toDateKey(later);
+}
+
+/**
+ * Map a 0-100 pronunciation score to an SM-2 quality
+ */
+export function scoreToQuality(score: number): ReviewQuality {
+  if (score >= 95) return 5;
+  if (score >= 85) return 4;
+  if (score >= 70) return 3;
+  if (score >= 50) return 2;
+  if (score >= 25) return 1;
+  return 0;
+}
+
+/**
+ * A new item, due for review today
+ */
+export function createReviewItem(text: string, now: Date = new Date()): ReviewItem {
+  return {
+    text,
+    easiness: INITIAL_EASINESS,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    due: toDateKey(now),
+    addedAt: now.toISOString(),
+    lastReviewedAt: null
+  };
+}
+
+/**
+ * Reschedule an item after a graded review
+ * Remembered items come back after 1 day, then 6 days, then the previous interval
+ * times the easiness; forgotten items start over tomorrow. The easiness follows
+ * the SM-2 update so items that are hard to say come back more often
+ */
+export function gradeReviewItem(item: ReviewItem, quality: ReviewQuality, now: Date = new Date()): ReviewItem {
+  const easiness = Math.max(MIN_EASINESS, item.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return {
+      ...item,
+      easiness,
+      interval: 1,
+      repetitions: 0,
+      lapses: item.repetitions > 0 ? item.lapses + 1 : item.lapses,
+      due: addDays(now, 1),
+      lastReviewedAt: now.toISOString()
+    };
+  }
+
+  const repetitions = item.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) {
+    interval = 1;
+  } else if (repetitions === 2) {
+    interval = 6;
+  } else {
+    interval = Math.round(item.interval * easiness);
+  }
+
+  return { ...item, easiness, interval, repetitions, due: addDays(now, interval), lastReviewedAt: now.toISOString() };
+}
+
+/**
+ * Add words and phrases the learner just got wrong
+ * New ones are due today; ones already in the queue start over, due today, and
+ * lose some easiness
+ */
+export function addReviewItems(queue: ReviewItem[], texts: string[], now: Date = new Date()): ReviewItem[] {
+  const updated = [...queue];
+
+  Array.from(new Set(texts)).forEach(text => {
+    const index = updated.findIndex(item => item.text === text);
+    if (index === -1) {
+      updated.push(createReviewItem(text, now));
+      return;
+    }
+
+    const item = updated[index];
+    updated[index] = {
+      ...item,
+      easiness: Math.max(MIN_EASINESS, item.easiness - LAPSE_PENALTY),
+      interval: 0,
+      repetitions: 0,
+      lapses: item.repetitions > 0 ? item.lapses + 1 : item.lapses,
+      due: toDateKey(now)
+    };
+  });
+  return updated;
+}
+
+/**
+ * Items due on or before today, most overdue first, then the hardest
+ */
+export function getDueItems(queue: ReviewItem[], now: Date = new Date()): ReviewItem[] {
+  const today = toDateKey(now);
+  return queue
+    .filter(item => item.due <= today)
+    .sort((a, b) => a.due.localeCompare(b.due) || a.easiness - b.easiness);
+}
+
+/**
+ * Keep the queue to a maximum size by dropping the best-known items
+ */
+export function trimReviewQueue(queue: ReviewItem[], maxItems: number): ReviewItem[] {
+  if (queue.length <= maxItems) return queue;
+
+  const keep = new Set([...queue]
+    .sort((a, b) => a.interval - b.interval || a.easiness - b.easiness)
+    .slice(0, maxItems));
+  return queue.filter(item => keep.has(item));
+}
+
+/**
+ * Check that saved data is a list of review items
+ */
+export function isReviewQueue(data: unknown): data is ReviewItem[] {
+  return Array.isArray(data) && data.every(isReviewItem);
+}
+
+function isReviewItem(item: unknown): item is ReviewItem {
+  if (typeof item !== 'object' || item === null) {
+    return false;
+  }
+  const fields: Partial<Record<keyof ReviewItem, unknown>> = item;
+  return typeof fields.text === 'string'
+    && typeof fields.easiness === 'number'
+    && typeof fields.interval === 'number'
+    && typeof fields.repetitions === 'number'
+    && typeof fields.lapses === 'number'
+    && typeof fields.due === 'string'
+    && typeof fields.addedAt === 'string'
+    && (fields.lastReviewedAt === null || typeof fields.lastReviewedAt === 'string');
+}
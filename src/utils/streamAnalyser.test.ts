@@ -0,0 +1,86 @@
+/**
+ * Tests for the live stream analyser
+ */
+
+import { createStreamAnalyser } from './streamAnalyser';
+
+describe('streamAnalyser', () => {
+  const stream = {} as MediaStream;
+  const originalAudioContext = window.AudioContext;
+  let close: jest.Mock;
+  let connect: jest.Mock;
+  let disconnect: jest.Mock;
+  let analyser: { fftSize: number; getFloatTimeDomainData: jest.Mock };
+
+  beforeEach(() => {
+    close = jest.fn(() => Promise.resolve());
+    connect = jest.fn();
+    disconnect = jest.fn();
+    analyser = {
+      fftSize: 0,
+      getFloatTimeDomainData: jest.fn((target: Float32Array) => target.fill(0.5))
+    };
+    window.AudioContext = jest.fn().mockImplementation(() => ({
+      sampleRate: 48000,
+      createAnalyser: () => analyser,
+      createMediaStreamSource: () => ({ connect, disconnect }),
+      close
+    })) as any;
+  });
+
+  afterEach(() => {
+    window.AudioContext = originalAudioContext;
+  });
+
+  it('should connect an analyser of the given size to the stream', () => {
+    const streamAnalyser = createStreamAnalyser(stream, 1024);
+
+    expect(streamAnalyser).not.toBeNull();
+    expect(streamAnalyser!.sampleRate).toBe(48000);
+    expect(analyser.fftSize).toBe(1024);
+    expect(connect).toHaveBeenCalledWith(analyser);
+  });
+
+  it('should read frames into the same array', () => {
+    const streamAnalyser = createStreamAnalyser(stream, 1024)!;
+
+    const first = streamAnalyser.read();
+    expect(first).toHaveLength(1024);
+    expect(first[0]).toBe(0.5);
+    expect(streamAnalyser.read()).toBe(first);
+  });
+
+  it('should disconnect and close the audio context', () => {
+    createStreamAnalyser(stream)!.close();
+
+    expect(disconnect).toHaveBeenCalled();
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('should not fail when the audio context is already closed', async () => {
+    close.mockRejectedValue(new DOMException('Cannot close a closed AudioContext', 'InvalidStateError'));
+    const streamAnalyser = createStreamAnalyser(stream)!;
+
+    streamAnalyser.close();
+    streamAnalyser.close();
+    await Promise.resolve();
+
+    expect(console.warn).toHaveBeenCalledWith('Could not close audio context:', expect.any(DOMException));
+  });
+
+  it('should return null and release the context when Web Audio is unusable', () => {
+    window.AudioContext = jest.fn().mockImplementation(() => ({ close })) as any;
+
+    expect(createStreamAnalyser(stream)).toBeNull();
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('should return null without Web Audio', () => {
+    const originalWebkitAudioContext = (window as any).webkitAudioContext;
+    (window as any).AudioContext = undefined;
+    (window as any).webkitAudioContext = undefined;
+
+    expect(createStreamAnalyser(stream)).toBeNull();
+    (window as any).webkitAudioContext = originalWebkitAudioContext;
+  });
+});
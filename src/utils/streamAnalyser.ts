@@ -0,0 +1,51 @@
+/**
+ * Reads raw PCM frames from a live MediaStream through a Web Audio AnalyserNode
+ */
+
+import { closeContext } from './audioCodec';
+
+export interface StreamAnalyser {
+  sampleRate: number;
+  /** Latest frame of time-domain samples (-1 to 1); the array is reused between reads */
+  read: () => Float32Array;
+  /** Disconnect from the stream and release the audio context */
+  close: () => void;
+}
+
+/**
+ * Connect an analyser to a stream
+ * Returns null when Web Audio is missing or unusable, so callers can skip live analysis
+ */
+export function createStreamAnalyser(stream: MediaStream, fftSize: number = 2048): StreamAnalyser | null {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) return null;
+
+  let context: AudioContext | null = null;
+  try {
+    context = new AudioContextClass();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = fftSize;
+    const source = context.createMediaStreamSource(stream);
+    source.connect(analyser);
+
+    const audioContext = context;
+    const samples = new Float32Array(fftSize);
+    return {
+      sampleRate: audioContext.sampleRate,
+      read: () => {
+        analyser.getFloatTimeDomainData(samples);
+        return samples;
+      },
+      close: () => {
+        source.disconnect();
+        closeContext(audioContext);
+      }
+    };
+  } catch (error) {
+    console.warn('Live audio analysis unavailable:', error);
+    if (context) {
+      closeContext(context);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Tests for syllable and stress annotation
+ */
+
+import { annotateText, formatSyllables, syllabifyPhonemes, syllabifyWord } from './syllables';
+
+const annotate = (word: string): string => formatSyllables(syllabifyWord(word));
+
+describe('syllables', () => {
+  describe('syllabifyPhonemes', () => {
+    it('should give consonants to the following syllable where English allows it', () => {
+      expect(syllabifyPhonemes('AH0 B AW1 T'.split(' '))).toEqual([['AH0'], ['B', 'AW1', 'T']]);
+      expect(syllabifyPhonemes('D IH0 S T R AY1 B'.split(' '))).toEqual([['D', 'IH0'], ['S', 'T', 'R', 'AY1', 'B']]);
+    });
+
+    it('should keep clusters that cannot start a syllable apart', () => {
+      expect(syllabifyPhonemes('D AA1 K T ER0'.split(' '))).toEqual([['D', 'AA1', 'K'], ['T', 'ER0']]);
+      expect(syllabifyPhonemes('S IH1 NG ER0'.split(' '))).toEqual([['S', 'IH1', 'NG'], ['ER0']]);
+    });
+
+    it('should close a stressed short vowel with the next consonant', () => {
+      expect(syllabifyPhonemes('F AH0 T AA1 G R AH0 F IY0'.split(' '))).toEqual([
+        ['F', 'AH0'], ['T', 'AA1', 'G'], ['R', 'AH0'], ['F', 'IY0']
+      ]);
+    });
+
+    it('should leave one-syllable words whole', () => {
+      expect(syllabifyPhonemes(['K', 'IY1', 'Z'])).toEqual([['K', 'IY1', 'Z']]);
+      expect(syllabifyPhonemes([])).toEqual([]);
+    });
+  });
+
+  describe('syllabifyWord', () => {
+    it.each([
+      ['photography', 'pho·TOG·ra·phy'],
+      ['water', 'WA·ter'],
+      ['about', 'a·BOUT'],
+      ['computer', 'com·PU·ter'],
+      ['beautiful', 'BEAU·ti·ful'],
+      ['quickly', 'QUICK·ly']
+    ])('should split "%s" following the dictionary as %s', (word, expected) => {
+      expect(annotate(word)).toBe(expected);
+    });
+
+    it('should split doubled consonants', () => {
+      expect(annotate('happy')).toBe('HAP·py');
+      expect(annotate('little')).toBe('LIT·tle');
+    });
+
+    it('should keep the "r" of r-colored vowels in the syllable', () => {
+      expect(annotate('every')).toBe('EV·er·y');
+    });
+
+    it('should mark secondary stress', () => {
+      expect(syllabifyWord('education')).toEqual([
+        { text: 'ed', stress: 2 },
+        { text: 'u', stress: 0 },
+        { text: 'ca', stress: 1 },
+        { text: 'tion', stress: 0 }
+      ]);
+      expect(annotate('understand')).toBe('ˌun·der·STAND');
+    });
+
+    it('should fall back to rules for words missing from the dictionary', () => {
+      expect(annotate('conversation')).toBe('con·ver·SA·tion');
+      expect(annotate('doctor')).toBe('DOC·tor');
+      expect(annotate('table')).toBe('TA·ble');
+    });
+
+    it('should not count a silent final "e"', () => {
+      expect(syllabifyWord('hoped')).toHaveLength(1);
+      expect(syllabifyWord('makes')).toHaveLength(1);
+      expect(syllabifyWord('races')).toHaveLength(2);
+    });
+
+    it('should keep the capitals of the text', () => {
+      expect(syllabifyWord('Water').map(syllable => syllable.text)).toEqual(['Wa', 'ter']);
+    });
+
+    it('should leave numbers alone', () => {
+      expect(syllabifyWord('2024')).toEqual([{ text: '2024', stress: 0 }]);
+    });
+  });
+
+  describe('annotateText', () => {
+    it('should keep punctuation outside the syllables', () => {
+      expect(annotateText('"Hello, photography!"')).toEqual([
+        { leading: '"', syllables: [{ text: 'Hel', stress: 0 }, { text: 'lo', stress: 1 }], trailing: ',' },
+        { leading: '', syllables: syllabifyWord('photography'), trailing: '!"' }
+      ]);
+    });
+
+    it('should split hyphenated compounds per part', () => {
+      const [word] = annotateText('thirty-three');
+      expect(formatSyllables(word.syllables)).toBe('THIR·ty-THREE');
+    });
+
+    it('should return nothing for empty text', () => {
+      expect(annotateText('   ')).toEqual([]);
+    });
+  });
+
+  describe('formatSyllables', () => {
+    it('should not mark stress on one-syllable words', () => {
+      expect(formatSyllables([{ text: 'keys', stress: 1 }])).toBe('keys');
+    });
+  });
+});
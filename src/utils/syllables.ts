@@ -0,0 +1,304 @@
+/**
+ * Syllable and stress annotation of written text ("pho·TOG·ra·phy")
+ * The pronunciation (dictionary, or letter-to-sound rules for unknown words)
+ * gives the number of syllables, their stress and where the consonants
+ * between them break; spelling rules map those breaks onto the letters.
+ * When the spelling and the pronunciation disagree on the number of
+ * syllables, the letters are split by the spelling rules alone.
+ */
+
+import { isVowel, wordToPhonemes } from './g2p';
+
+export type StressLevel = 0 | 1 | 2; // unstressed, primary, secondary
+
+export interface Syllable {
+  text: string;
+  stress: StressLevel;
+}
+
+export interface AnnotatedWord {
+  leading: string; // punctuation before the word
+  syllables: Syllable[];
+  trailing: string; // punctuation after the word
+}
+
+// Consonant clusters that can start an English syllable, in ARPAbet
+const LEGAL_ONSETS = new Set([
+  'P R', 'P L', 'B R', 'B L', 'T R', 'T W', 'D R', 'D W', 'K R', 'K L', 'K W', 'G R', 'G L', 'G W',
+  'F R', 'F L', 'TH R', 'TH W', 'SH R', 'S P', 'S T', 'S K', 'S M', 'S N', 'S L', 'S W', 'S F',
+  'P Y', 'B Y', 'K Y', 'F Y', 'M Y', 'HH Y', 'V Y',
+  'S P R', 'S P L', 'S T R', 'S K R', 'S K W', 'S K Y', 'S P Y'
+]);
+
+// Short vowels cannot end a stressed syllable, so they keep the next consonant ("TOG·ra", not "TO·gra")
+const LAX_VOWELS = new Set(['IH', 'EH', 'AE', 'AH', 'UH', 'AA']);
+
+// Letter clusters that can start a written syllable
+const SPELLING_ONSETS = new Set([
+  'bl', 'br', 'cl', 'cr', 'dr', 'fl', 'fr', 'gl', 'gr', 'pl', 'pr', 'sc', 'sk', 'sl', 'sm', 'sn', 'sp',
+  'st', 'sw', 'tr', 'tw', 'thr', 'shr', 'chr', 'phr', 'str', 'spr', 'scr', 'spl', 'squ'
+]);
+
+const CONSONANT_DIGRAPHS = ['tch', 'ch', 'sh', 'th', 'ph', 'wh', 'gh', 'ck', 'qu'];
+
+// "ti", "si" and "ci" say /ʃ/ or /ʒ/ before these endings ("na·tion", "spe·cial")
+const PALATAL_ENDING = /^[tsc]i(?=(on|onal|al|ally|an|ous|ously|ent|ence|ency)s?$)/;
+
+// Vowel pairs that are often said as two syllables ("cre·ate", "ra·di·o")
+const HIATUS = ['ia', 'io', 'iu', 'eo', 'ea', 'ua', 'ue', 'uo', 'ui', 'oi', 'ie', 'ye', 'yi', 'eu'];
+
+/**
+ * Split ARPAbet phonemes into syllables by the maximal onset principle
+ */
+export function syllabifyPhonemes(phonemes: string[]): string[][] {
+  const nuclei = phonemes
+    .map((phoneme, index) => (isVowel(phoneme) ? index : -1))
+    .filter(index => index >= 0);
+  if (nuclei.length <= 1) return phonemes.length > 0 ? [phonemes] : [];
+
+  const syllables: string[][] = [];
+  let start = 0;
+  nuclei.slice(0, -1).forEach((vowel, index) => {
+    const next = nuclei[index + 1];
+    const cluster = phonemes.slice(vowel + 1, next);
+
+    let onset = 0;
+    for (let length = Math.min(3, cluster.length); length > 0; length--) {
+      const candidate = cluster.slice(-length);
+      const legal = length === 1 ? candidate[0] !== 'NG' : LEGAL_ONSETS.has(candidate.join(' '));
+      if (legal) {
+        onset = length;
+        break;
+      }
+    }
+
+    const stressedLax = /[12]$/.test(phonemes[vowel]) && LAX_VOWELS.has(phonemes[vowel].slice(0, -1));
+    if (stressedLax && onset > 0 && onset === cluster.length) onset--;
+
+    syllables.push(phonemes.slice(start, next - onset));
+    start = next - onset;
+  });
+  syllables.push(phonemes.slice(start));
+
+  return syllables;
+}
+
+interface LetterUnit {
+  text: string;
+  vowel: boolean;
+}
+
+/**
+ * Split a word into letters and consonant digraphs, marking the vowel letters
+ * "y" is a consonant at the start of a word and before a vowel
+ */
+function letterUnits(word: string): LetterUnit[] {
+  const lower = word.toLowerCase();
+  const units: LetterUnit[] = [];
+  let index = 0;
+
+  while (index < lower.length) {
+    const rest = lower.slice(index);
+    const digraph = PALATAL_ENDING.test(rest)
+      ? rest.slice(0, 2)
+      : CONSONANT_DIGRAPHS.find(graph => rest.startsWith(graph));
+    if (digraph) {
+      units.push({ text: word.slice(index, index + digraph.length), vowel: false });
+      index += digraph.length;
+      continue;
+    }
+
+    const letter = lower[index];
+    const vowel = 'aeiou'.includes(letter) || (letter === 'y' && index > 0 && !'aeiou'.includes(lower[index + 1] || '-'));
+    units.push({ text: word[index], vowel });
+    index++;
+  }
+
+  return units;
+}
+
+/**
+ * Find the vowel runs that form syllable nuclei, as [first, last] unit indexes
+ * A final silent "e" (also in "-es" and "-ed") is not a nucleus, but the "e" of a final "-le" is
+ */
+function findNuclei(units: LetterUnit[]): [number, number][] {
+  const nuclei: [number, number][] = [];
+  units.forEach((unit, index) => {
+    if (!unit.vowel) return;
+    const last = nuclei[nuclei.length - 1];
+    if (last && last[1] === index - 1) {
+      last[1] = index;
+    } else {
+      nuclei.push([index, index]);
+    }
+  });
+  if (nuclei.length <= 1) return nuclei;
+
+  const [first, last] = nuclei[nuclei.length - 1];
+  const lower = units.map(unit => unit.text.toLowerCase());
+  const ending = lower.slice(first).join('');
+  const before = lower.slice(0, first).join('');
+  const silent =
+    first === last &&
+    lower[first] === 'e' &&
+    ((ending === 'e' && !/[^aeiouy]l$/.test(before)) ||
+      (ending === 'es' && !/(s|x|z|ch|sh|c|g)$/.test(before)) ||
+      (ending === 'ed' && !/[td]$/.test(before)));
+
+  return silent ? nuclei.slice(0, -1) : nuclei;
+}
+
+/**
+ * Make the spelling agree with the pronounced number of syllables where a common pattern explains the difference:
+ * two-vowel runs said as two syllables ("cre·ate"), or an "e" that is skipped ("ev·ery")
+ */
+function matchSyllableCount(units: LetterUnit[], nuclei: [number, number][], count: number): [number, number][] {
+  const result = nuclei.map(nucleus => [...nucleus] as [number, number]);
+
+  while (result.length < count) {
+    let split = -1;
+    const index = result.findIndex(([first, last]) => {
+      for (let unit = first; unit < last; unit++) {
+        if (HIATUS.includes((units[unit].text + units[unit + 1].text).toLowerCase())) {
+          split = unit;
+          return true;
+        }
+      }
+      return false;
+    });
+    if (index < 0) break;
+    result.splice(index, 1, [result[index][0], split], [split + 1, result[index][1]]);
+  }
+
+  for (let index = result.length - 2; index > 0 && result.length > count; index--) {
+    const [first, last] = result[index];
+    if (first === last && units[first].text.toLowerCase() === 'e') {
+      result.splice(index, 1);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Number of consonant units that end the previous syllable, by spelling rules only
+ */
+function spellingBreak(cluster: LetterUnit[]): number {
+  if (cluster.length === 0) return 0;
+  if (cluster.length === 1) return ['ck', 'x'].includes(cluster[0].text.toLowerCase()) ? 1 : 0;
+
+  const text = cluster.map(unit => unit.text.toLowerCase());
+  for (let length = Math.min(3, text.length); length > 1; length--) {
+    if (SPELLING_ONSETS.has(text.slice(-length).join(''))) return text.length - length;
+  }
+  return text.length - 1;
+}
+
+/**
+ * Number of consonant units that end the previous syllable, following the pronounced syllables
+ */
+function pronouncedBreak(cluster: LetterUnit[], coda: number, onset: number): number {
+  if (cluster.length === coda + onset) return coda;
+  if (onset === 0) return cluster.length;
+  return Math.min(coda, cluster.length - 1);
+}
+
+/**
+ * Split one word (without spaces, hyphens or surrounding punctuation) into syllables
+ */
+export function syllabifyWord(word: string): Syllable[] {
+  if (!/[a-z]/i.test(word)) return word ? [{ text: word, stress: 0 }] : [];
+
+  const units = letterUnits(word);
+  const pronounced = syllabifyPhonemes(wordToPhonemes(word));
+  const stresses = pronounced.map(syllable => {
+    const vowel = syllable.find(isVowel) || '';
+    return (Number(vowel.slice(-1)) || 0) as StressLevel;
+  });
+
+  const nuclei = matchSyllableCount(units, findNuclei(units), pronounced.length);
+  if (nuclei.length <= 1) {
+    return [{ text: word, stress: stresses.includes(1) ? 1 : stresses[0] ?? 0 }];
+  }
+  const guided = nuclei.length === pronounced.length;
+
+  const syllables: Syllable[] = [];
+  let start = 0;
+  nuclei.forEach(([, last], index) => {
+    let end = units.length;
+    if (index < nuclei.length - 1) {
+      const cluster = units.slice(last + 1, nuclei[index + 1][0]);
+      const doubled = cluster.findIndex((unit, position) =>
+        position > 0 && unit.text.toLowerCase() === cluster[position - 1].text.toLowerCase());
+
+      let coda: number;
+      if (doubled > 0) {
+        coda = doubled; // "hap·py", "lit·tle"
+      } else if (cluster.length > 0 && /^[tsc]i$/i.test(cluster[cluster.length - 1].text)) {
+        coda = cluster.length - 1; // "-tion", "-sion" and "-cial" stay together
+      } else if (guided) {
+        const vowel = pronounced[index].findIndex(isVowel);
+        // The "r" of an r-colored vowel ("er", "ir", "ur") is spelled after the vowel letters
+        const rColored = pronounced[index][vowel].startsWith('ER') && cluster[0]?.text.toLowerCase() === 'r' ? 1 : 0;
+        const codaPhonemes = pronounced[index].length - vowel - 1;
+        const onsetPhonemes = pronounced[index + 1].findIndex(isVowel);
+        coda = rColored + pronouncedBreak(cluster.slice(rColored), codaPhonemes, onsetPhonemes);
+      } else {
+        coda = spellingBreak(cluster);
+      }
+      end = last + 1 + coda;
+    }
+
+    syllables.push({ text: units.slice(start, end).map(unit => unit.text).join(''), stress: 0 });
+    start = end;
+  });
+
+  if (guided) {
+    syllables.forEach((syllable, index) => { syllable.stress = stresses[index]; });
+  } else {
+    // Put the primary stress on the syllable in the same relative position
+    const primary = Math.max(0, stresses.indexOf(1));
+    const scaled = Math.min(syllables.length - 1, Math.floor((primary * syllables.length) / Math.max(1, stresses.length)));
+    syllables[scaled].stress = 1;
+  }
+
+  return syllables;
+}
+
+/**
+ * Annotate each whitespace-separated word of a text
+ * Hyphenated compounds are split per part, with the hyphen kept on the first part
+ */
+export function annotateText(text: string): AnnotatedWord[] {
+  return text.trim().split(/\s+/).filter(Boolean).map(token => {
+    const match = token.match(/^([^a-z0-9]*)(.*?)([^a-z0-9]*)$/i)!;
+    const parts = match[2].split('-');
+    return {
+      leading: match[1],
+      syllables: parts.flatMap((part, index) => {
+        const syllables = syllabifyWord(part);
+        if (index < parts.length - 1) {
+          const last = syllables.pop() ?? { text: '', stress: 0 };
+          syllables.push({ ...last, text: `${last.text}-` });
+        }
+        return syllables;
+      }),
+      trailing: match[3]
+    };
+  });
+}
+
+/**
+ * Plain-text form of a word: primary stress in capitals, secondary stress marked with ˌ
+ * Syllables are joined with a middle dot, except after a hyphen; one-syllable words are left as they are
+ */
+export function formatSyllables(syllables: Syllable[]): string {
+  const marked = syllables.length > 1;
+  return syllables.map((syllable, index) => {
+    let text = syllable.text;
+    if (marked && syllable.stress === 1) text = text.toUpperCase();
+    if (marked && syllable.stress === 2) text = `ˌ${text}`;
+    const separator = index > 0 && !syllables[index - 1].text.endsWith('-') ? '·' : '';
+    return separator + text;
+  }).join('');
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for text normalization
+ */
+
+import { normalizeText, normalizeWords, numberToWords, ordinalToWords } from './textNormalization';
+
+describe('textNormalization', () => {
+  describe('normalizeWords', () => {
+    it('should lowercase and drop punctuation', () => {
+      expect(normalizeText('"Hello," she said.')).toEqual(['hello', 'she', 'said']);
+      expect(normalizeText('U.S. — rock & roll')).toEqual(['us', 'rock', 'and', 'roll']);
+    });
+
+    it('should split hyphenated words', () => {
+      expect(normalizeText('well-known thirty-three')).toEqual(['well', 'known', 'thirty', 'three']);
+    });
+
+    it('should tag each word with the token it came from', () => {
+      expect(normalizeWords("I'd pay 33 dollars")).toEqual([
+        { word: 'i', source: 0 },
+        { word: 'would', source: 0 },
+        { word: 'pay', source: 1 },
+        { word: 'thirty', source: 2 },
+        { word: 'three', source: 2 },
+        { word: 'dollars', source: 3 }
+      ]);
+    });
+
+    it('should spell out numerals, ordinals, years, decimals and percentages', () => {
+      expect(normalizeText('33')).toEqual(normalizeText('thirty-three'));
+      expect(normalizeText('the 33rd and 1st')).toEqual(['the', 'thirty', 'third', 'and', 'first']);
+      expect(normalizeText('1,250')).toEqual(['one', 'thousand', 'two', 'hundred', 'fifty']);
+      expect(normalizeText('in 1999 and 2005')).toEqual(
+        ['in', 'nineteen', 'ninety', 'nine', 'and', 'two', 'thousand', 'five']);
+      expect(normalizeText('3.5 50%')).toEqual(['three', 'point', 'five', 'fifty', 'percent']);
+    });
+
+    it('should leave numerals too large to spell out exactly as they are', () => {
+      const huge = '9'.repeat(400);
+      expect(normalizeText(`${huge} ${huge}th`)).toEqual([huge, `${huge}th`]);
+      expect(normalizeText('12345678901234567890')).toEqual(['12345678901234567890']);
+    });
+
+    it('should drop the "and" inside written-out numbers', () => {
+      expect(normalizeText('one hundred and five')).toEqual(normalizeText('105'));
+      expect(normalizeText('a hundred and then some')).toContain('and');
+    });
+
+    it('should expand contractions but keep possessives', () => {
+      expect(normalizeText("I'd")).toEqual(normalizeText('I would'));
+      expect(normalizeText("can't won't they're it's")).toEqual(
+        ['can', 'not', 'will', 'not', 'they', 'are', 'it', 'is']);
+      expect(normalizeText('don’t')).toEqual(['do', 'not']);
+      expect(normalizeText("John's")).toEqual(["john's"]);
+    });
+
+    it('should use American spellings', () => {
+      expect(normalizeText('colours favourite centre realised travelling grey'))
+        .toEqual(['colors', 'favorite', 'center', 'realized', 'traveling', 'gray']);
+      expect(normalizeText('emphasis analysis')).toEqual(['emphasis', 'analysis']);
+    });
+
+    it('should return an empty list for blank text', () => {
+      expect(normalizeWords('')).toEqual([]);
+      expect(normalizeWords('   ... ')).toEqual([]);
+    });
+  });
+
+  describe('numberToWords', () => {
+    it('should spell out whole numbers', () => {
+      expect(numberToWords(0)).toEqual(['zero']);
+      expect(numberToWords(40)).toEqual(['forty']);
+      expect(numberToWords(2000000)).toEqual(['two', 'million']);
+      expect(numberToWords(1205)).toEqual(['one', 'thousand', 'two', 'hundred', 'five']);
+    });
+  });
+
+  describe('ordinalToWords', () => {
+    it('should turn the last word into an ordinal', () => {
+      expect(ordinalToWords(2)).toEqual(['second']);
+      expect(ordinalToWords(12)).toEqual(['twelfth']);
+      expect(ordinalToWords(20)).toEqual(['twentieth']);
+      expect(ordinalToWords(104)).toEqual(['one', 'hundred', 'fourth']);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Text normalization for scoring
+ * Recognizers and practice texts write the same speech differently: "Dog."
+ * and "dog", "33" and "thirty-three", "I'd" and "I would", "colour" and
+ * "color". Both sides are reduced to the same lowercase spoken words before
+ * they are aligned, so formatting never counts as a pronunciation error.
+ */
+
+export interface NormalizedWord {
+  word: string;
+  source: number; // index of the whitespace-separated token the word came from
+}
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES: [number, string][] = [[1e9, 'billion'], [1e6, 'million'], [1000, 'thousand'], [100, 'hundred']];
+
+const IRREGULAR_ORDINALS: { [cardinal: string]: string } = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+};
+
+// Whole-word contractions; the rest are handled by their endings below
+const CONTRACTIONS: { [word: string]: string[] } = {
+  "won't": ['will', 'not'],
+  "can't": ['can', 'not'],
+  cannot: ['can', 'not'],
+  "shan't": ['shall', 'not'],
+  "ain't": ['is', 'not'],
+  "let's": ['let', 'us'],
+  "y'all": ['you', 'all']
+};
+
+const CONTRACTION_ENDINGS: [string, string][] = [
+  ["n't", 'not'], ["'re", 'are'], ["'ve", 'have'], ["'ll", 'will'], ["'m", 'am'], ["'d", 'would']
+];
+
+// "'s" is "is" after these; after anything else it is a possessive
+const IS_CONTRACTION_STEMS = new Set([
+  'it', 'he', 'she', 'that', 'this', 'what', 'there', 'here', 'where', 'who', 'how', 'when', 'why'
+]);
+
+// British stems with their American spelling and the endings they take
+const SPELLING_VARIANTS: { british: string; american: string; endings: string[] }[] = [
+  ...['colour', 'favour', 'honour', 'neighbour', 'behaviour', 'labour', 'flavour', 'humour', 'harbour',
+    'rumour', 'odour', 'vapour', 'armour', 'endeavour', 'savour', 'parlour'].map(british => ({
+    british,
+    american: british.replace(/our$/, 'or'),
+    endings: ['', 's', 'ed', 'ing', 'ful', 'ite', 'ites', 'able', 'hood', 'y', 'er', 'ers']
+  })),
+  ...['centre', 'theatre', 'metre', 'litre', 'fibre', 'calibre', 'sombre', 'spectre', 'lustre', 'meagre'].map(british => ({
+    british,
+    american: british.replace(/re$/, 'er'),
+    endings: ['', 's']
+  })),
+  ...['realis', 'organis', 'recognis', 'apologis', 'emphasis', 'criticis', 'memoris', 'specialis', 'summaris',
+    'prioritis', 'categoris', 'minimis', 'maximis', 'customis', 'finalis', 'visualis', 'analys', 'paralys'].map(british => ({
+    british,
+    american: british.replace(/s$/, 'z'),
+    endings: ['e', 'es', 'ed', 'ing', 'ation', 'ations']
+  })),
+  ...['travel', 'cancel', 'label', 'model', 'level', 'signal', 'fuel', 'dial', 'total', 'marvel', 'channel', 'quarrel'].map(american => ({
+    british: `${american}l`,
+    american,
+    endings: ['ed', 'ing', 'er', 'ers']
+  })),
+  ...['defence', 'offence', 'licence', 'pretence'].map(british => ({
+    british,
+    american: british.replace(/ce$/, 'se'),
+    endings: ['', 's']
+  })),
+  { british: 'grey', american: 'gray', endings: ['', 's', 'er', 'est', 'ish'] },
+  { british: 'programme', american: 'program', endings: ['', 's'] },
+  { british: 'catalogue', american: 'catalog', endings: ['', 's'] },
+  { british: 'jewellery', american: 'jewelry', endings: [''] },
+  { british: 'tyre', american: 'tire', endings: ['', 's'] },
+  { british: 'plough', american: 'plow', endings: ['', 's', 'ed', 'ing'] },
+  { british: 'aluminium', american: 'aluminum', endings: [''] },
+  { british: 'mould', american: 'mold', endings: ['', 's', 'ed', 'ing', 'y'] },
+  { british: 'practis', american: 'practic', endings: ['e', 'es', 'ed', 'ing'] }
+];
+
+const NUMBER_WORDS = new Set([...ONES, ...TENS.filter(Boolean), ...SCALES.map(([, name]) => name)]);
+
+/**
+ * Spell out a whole number, e.g. 1205 -> one thousand two hundred five
+ */
+export function numberToWords(value: number): string[] {
+  if (value < 20) return [ONES[value]];
+  if (value < 100) {
+    const tens = TENS[Math.floor(value / 10)];
+    return value % 10 === 0 ? [tens] : [tens, ONES[value % 10]];
+  }
+
+  const [scale, name] = SCALES.find(([size]) => value >= size)!;
+  const rest = value % scale;
+  return [...numberToWords(Math.floor(value / scale)), name, ...(rest ? numberToWords(rest) : [])];
+}
+
+/**
+ * Spell out an ordinal, e.g. 33 -> thirty third
+ */
+export function ordinalToWords(value: number): string[] {
+  const words = numberToWords(value);
+  const last = words[words.length - 1];
+  const ordinal = IRREGULAR_ORDINALS[last]
+    ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return [...words.slice(0, -1), ordinal];
+}
+
+/**
+ * Spell out a four-digit number the way years are read, e.g. 1999 -> nineteen ninety nine
+ * 2000-2009 are read as ordinary numbers ("two thousand five")
+ */
+function yearToWords(value: number): string[] {
+  if (value >= 2000 && value < 2010) return numberToWords(value);
+
+  const century = Math.floor(value / 100);
+  const rest = value % 100;
+  if (rest === 0) return [...numberToWords(century), 'hundred'];
+  if (rest < 10) return [...numberToWords(century), 'oh', ONES[rest]];
+  return [...numberToWords(century), ...numberToWords(rest)];
+}
+
+/**
+ * Spell out a numeral token: integers with or without thousands separators,
+ * years, decimals, percentages and ordinals. Returns null for anything else,
+ * including numbers too large to hold exactly
+ */
+function numeralToWords(token: string): string[] | null {
+  const ordinal = token.match(/^(\d+)(st|nd|rd|th)$/);
+  if (ordinal) {
+    const value = parseInt(ordinal[1], 10);
+    return Number.isSafeInteger(value) ? ordinalToWords(value) : null;
+  }
+
+  const numeral = token.match(/^(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(%?)$/);
+  if (!numeral) return null;
+
+  const [, whole, fraction, percent] = numeral;
+  const value = parseInt(whole.replace(/,/g, ''), 10);
+  if (!Number.isSafeInteger(value)) return null;
+  const isYear = /^\d{4}$/.test(whole) && !fraction && !percent && value >= 1100 && value < 2100;
+
+  return [
+    ...(isYear ? yearToWords(value) : numberToWords(value)),
+    ...(fraction ? ['point', ...fraction.split('').map(digit => ONES[Number(digit)])] : []),
+    ...(percent ? ['percent'] : [])
+  ];
+}
+
+/**
+ * Expand a contraction into the words it stands for, e.g. "I'd" -> I would
+ */
+function expandContraction(word: string): string[] {
+  if (CONTRACTIONS[word]) return CONTRACTIONS[word];
+
+  for (const [ending, expansion] of CONTRACTION_ENDINGS) {
+    if (word.endsWith(ending) && word.length > ending.length) {
+      return [word.slice(0, -ending.length), expansion];
+    }
+  }
+
+  if (word.endsWith("'s") && IS_CONTRACTION_STEMS.has(word.slice(0, -2))) {
+    return [word.slice(0, -2), 'is'];
+  }
+  return [word];
+}
+
+/**
+ * Rewrite British spellings in American spelling, e.g. "colours" -> colors
+ */
+function americanSpelling(word: string): string {
+  for (const { british, american, endings } of SPELLING_VARIANTS) {
+    if (word.startsWith(british) && endings.includes(word.slice(british.length))) {
+      return american + word.slice(british.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Normalize one whitespace-separated token into zero or more spoken words
+ */
+function normalizeToken(token: string): string[] {
+  const lowered = token
+    .toLowerCase()
+    .replace(/[‘’ʼ`]/g, "'")
+    .replace(/&/g, ' and ');
+
+  return lowered.split(/[\s\-–—/]+/).flatMap(part => {
+    // Trim surrounding punctuation but keep a trailing % for numerals
+    const trimmed = part.replace(/^[^a-z0-9]+/, '').replace(/[^a-z0-9%]+$/, '');
+    if (!trimmed) return [];
+
+    const numeral = numeralToWords(trimmed);
+    if (numeral) return numeral;
+
+    const word = trimmed.replace(/[^a-z0-9']/g, '');
+    return word ? expandContraction(word).map(americanSpelling) : [];
+  });
+}
+
+/**
+ * Normalize text into the lowercase words a reader would say, each tagged with
+ * the whitespace-separated token it came from
+ * Punctuation is dropped, hyphenated words are split, numerals and ordinals are
+ * spelled out, contractions are expanded and British spellings become American
+ */
+export function normalizeWords(text: string): NormalizedWord[] {
+  const tokens = (text || '').trim().split(/\s+/).filter(Boolean);
+  const words = tokens.flatMap((token, source) => normalizeToken(token).map(word => ({ word, source })));
+
+  // "one hundred and five" is the same number as "105"
+  return words.filter((word, index) =>
+    word.word !== 'and'
+    || !['hundred', 'thousand', 'million', 'billion'].includes(words[index - 1]?.word)
+    || !NUMBER_WORDS.has(words[index + 1]?.word));
+}
+
+/**
+ * Normalized words of a text without their source tokens
+ */
+export function normalizeText(text: string): string[] {
+  return normalizeWords(text).map(normalized => normalized.word);
+}
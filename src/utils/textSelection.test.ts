@@ -0,0 +1,130 @@
+/**
+ * Tests for adaptive practice text selection
+ */
+
+import {
+  difficultyToLevel,
+  findMissedFocusSounds,
+  focusSoundsForPhonemes,
+  prioritizeFocusSounds,
+  profileFocusSounds,
+  selectPracticeText,
+  TextSelectionOptions
+} from './textSelection';
+import { ADVANCED_PHRASES, BASIC_PHRASES, INTERMEDIATE_PHRASES, SOUND_FOCUS_PHRASES } from '../phrases';
+import { L1_PROFILES } from '../l1Profiles';
+
+describe('textSelection', () => {
+  describe('difficultyToLevel', () => {
+    it('should map difficulty ranges to phrase levels', () => {
+      expect(difficultyToLevel(1)).toBe('basic');
+      expect(difficultyToLevel(3)).toBe('basic');
+      expect(difficultyToLevel(4)).toBe('intermediate');
+      expect(difficultyToLevel(6)).toBe('intermediate');
+      expect(difficultyToLevel(8)).toBe('advanced');
+    });
+  });
+
+  describe('findMissedFocusSounds', () => {
+    it('should report sounds swapped repeatedly', () => {
+      const errors = [
+        { targetWord: 'think', spokenWord: 'sink' },
+        { targetWord: 'three', spokenWord: 'tree' },
+        { targetWord: 'very', spokenWord: 'berry' }
+      ];
+      expect(findMissedFocusSounds(errors)).toEqual(['th']);
+      expect(findMissedFocusSounds(errors, 1)).toEqual(['th', 'v_w']);
+    });
+
+    it('should ignore missed and extra words', () => {
+      const errors = [
+        { targetWord: 'think', spokenWord: null },
+        { targetWord: null, spokenWord: 'think' }
+      ];
+      expect(findMissedFocusSounds(errors, 1)).toEqual([]);
+    });
+  });
+
+  describe('focusSoundsForPhonemes', () => {
+    it('should list the drills for the phonemes in order, once each', () => {
+      expect(focusSoundsForPhonemes(['W', 'DH', 'IY', 'TH'])).toEqual(['v_w', 'th']);
+      expect(focusSoundsForPhonemes(['K'])).toEqual([]);
+    });
+  });
+
+  describe('profileFocusSounds', () => {
+    it('should list the drills for a profile, most typical first', () => {
+      expect(profileFocusSounds(L1_PROFILES.japanese)).toEqual(['r_l', 'th', 'v_w', 's_sh']);
+      expect(profileFocusSounds(L1_PROFILES.hindi)[0]).toBe('v_w');
+    });
+  });
+
+  describe('prioritizeFocusSounds', () => {
+    it('should put missed sounds typical for the first language first', () => {
+      expect(prioritizeFocusSounds(['r_l', 'v_w'], L1_PROFILES.arabic)).toEqual(['v_w', 'r_l']);
+    });
+
+    it('should drill the typical sounds before any were missed', () => {
+      expect(prioritizeFocusSounds([], L1_PROFILES.japanese)[0]).toBe('r_l');
+    });
+  });
+
+  describe('selectPracticeText', () => {
+    const baseOptions: TextSelectionOptions = {
+      targetDifficulty: 3,
+      recentTexts: [],
+      focusSounds: [],
+      rateDifficulty: () => 5,
+      random: () => 0.5
+    };
+
+    it('should pick from the level matching the target difficulty', () => {
+      const basic = selectPracticeText({ ...baseOptions, targetDifficulty: 2 });
+      expect(BASIC_PHRASES).toContain(basic.text);
+      expect(basic).toMatchObject({ level: 'basic', sound: null });
+      expect(INTERMEDIATE_PHRASES).toContain(selectPracticeText({ ...baseOptions, targetDifficulty: 5 }).text);
+      expect(ADVANCED_PHRASES).toContain(selectPracticeText({ ...baseOptions, targetDifficulty: 9 }).text);
+    });
+
+    it('should avoid recently used texts', () => {
+      const recentTexts = BASIC_PHRASES.slice(0, 4);
+      expect(selectPracticeText({ ...baseOptions, recentTexts }).text).toBe(BASIC_PHRASES[4]);
+    });
+
+    it('should fall back to the whole level when every text was used recently', () => {
+      expect(BASIC_PHRASES).toContain(selectPracticeText({ ...baseOptions, recentTexts: BASIC_PHRASES }).text);
+    });
+
+    it('should prefer texts rated closest to the target difficulty', () => {
+      const ratings = new Map(BASIC_PHRASES.map((text, index) => [text, index + 1]));
+      const { text } = selectPracticeText({
+        ...baseOptions,
+        targetDifficulty: 1,
+        rateDifficulty: candidate => ratings.get(candidate)!,
+        random: () => 0
+      });
+      expect(text).toBe(BASIC_PHRASES[0]);
+    });
+
+    it('should mix in drills for missed sounds', () => {
+      const drill = selectPracticeText({ ...baseOptions, focusSounds: ['r_l'], random: () => 0.1 });
+      const regular = selectPracticeText({ ...baseOptions, focusSounds: ['r_l'], random: () => 0.9 });
+
+      expect(SOUND_FOCUS_PHRASES.r_l).toContain(drill.text);
+      expect(drill).toMatchObject({ level: null, sound: 'r_l' });
+      expect(BASIC_PHRASES).toContain(regular.text);
+    });
+
+    it('should only pick from a requested level', () => {
+      const selection = selectPracticeText({ ...baseOptions, level: 'advanced', focusSounds: ['th'], random: () => 0 });
+      expect(ADVANCED_PHRASES).toContain(selection.text);
+      expect(selection).toMatchObject({ level: 'advanced', sound: null });
+    });
+
+    it('should only pick from a requested sound drill', () => {
+      const selection = selectPracticeText({ ...baseOptions, sound: 'v_w' });
+      expect(SOUND_FOCUS_PHRASES.v_w).toContain(selection.text);
+      expect(selection).toMatchObject({ level: null, sound: 'v_w' });
+    });
+  });
+});
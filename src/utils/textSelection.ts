@@ -0,0 +1,159 @@
+/**
+ * Adaptive practice text selection
+ * Picks a phrase at the learner's level, skips recently read phrases and mixes
+ * in drills for the sounds the learner keeps getting wrong
+ */
+
+import { FocusSound, PhraseLevel, PHRASES_BY_LEVEL, SOUND_FOCUS_PHRASES } from '../phrases';
+import { findPhonemeSubstitutions, stripStress } from './g2p';
+import { L1Profile } from '../l1Profiles';
+
+// ARPAbet phonemes practiced by each sound-focus phrase list
+export const FOCUS_SOUND_PHONEMES: { [sound in FocusSound]: string[] } = {
+  th: ['TH', 'DH'],
+  r_l: ['R', 'L'],
+  v_w: ['V', 'W'],
+  s_sh: ['S', 'SH']
+};
+
+// Share of selections that drill a missed sound instead of the learner's level
+const FOCUS_SHARE = 0.4;
+
+// Pick among this many candidates closest to the target difficulty
+const CLOSEST_CANDIDATES = 3;
+
+export interface TextSelectionOptions {
+  targetDifficulty: number; // 1-10, see PracticeAgent.getRecommendedDifficulty
+  recentTexts: string[];
+  focusSounds: FocusSound[]; // most frequently missed first
+  rateDifficulty: (text: string) => number;
+  level?: PhraseLevel; // only pick from this level
+  sound?: FocusSound; // only pick from this sound drill
+  random?: () => number;
+}
+
+/**
+ * The chosen text and the phrase list it came from
+ */
+export interface TextSelection {
+  text: string;
+  level: PhraseLevel | null;
+  sound: FocusSound | null;
+}
+
+/**
+ * Map a 1-10 difficulty to a phrase level
+ */
+export function difficultyToLevel(difficulty: number): PhraseLevel {
+  if (difficulty <= 3) return 'basic';
+  if (difficulty <= 6) return 'intermediate';
+  return 'advanced';
+}
+
+/**
+ * Find the focus sounds a learner swapped for another sound at least
+ * minOccurrences times, most frequent first
+ */
+export function findMissedFocusSounds(
+  wordErrors: { targetWord: string | null; spokenWord: string | null }[],
+  minOccurrences = 2
+): FocusSound[] {
+  const counts = new Map<FocusSound, number>();
+  const sounds = Object.keys(FOCUS_SOUND_PHONEMES) as FocusSound[];
+
+  wordErrors.forEach(error => {
+    if (!error.targetWord || !error.spokenWord) return;
+
+    findPhonemeSubstitutions(error.spokenWord, error.targetWord).forEach(substitution => {
+      const expected = stripStress(substitution.expected);
+      const sound = sounds.find(candidate => FOCUS_SOUND_PHONEMES[candidate].includes(expected));
+      if (sound) {
+        counts.set(sound, (counts.get(sound) || 0) + 1);
+      }
+    });
+  });
+
+  return sounds
+    .filter(sound => (counts.get(sound) || 0) >= minOccurrences)
+    .sort((a, b) => counts.get(b)! - counts.get(a)!);
+}
+
+/**
+ * Focus sounds that drill the given phonemes, in the order of the phonemes
+ * e.g. the weakest sounds of the mastery model
+ */
+export function focusSoundsForPhonemes(phonemes: string[]): FocusSound[] {
+  const sounds = Object.keys(FOCUS_SOUND_PHONEMES) as FocusSound[];
+  const focus: FocusSound[] = [];
+
+  phonemes.forEach(phoneme => {
+    const sound = sounds.find(candidate => FOCUS_SOUND_PHONEMES[candidate].includes(stripStress(phoneme)));
+    if (sound && !focus.includes(sound)) {
+      focus.push(sound);
+    }
+  });
+  return focus;
+}
+
+/**
+ * Focus sounds that drill a profile's confusions, most typical first
+ */
+export function profileFocusSounds(profile: L1Profile): FocusSound[] {
+  const weights = new Map<FocusSound, number>();
+  const sounds = Object.keys(FOCUS_SOUND_PHONEMES) as FocusSound[];
+
+  profile.confusions.forEach(confusion => {
+    const sound = sounds.find(candidate => FOCUS_SOUND_PHONEMES[candidate].includes(confusion.expected));
+    if (sound) {
+      weights.set(sound, (weights.get(sound) || 0) + confusion.weight);
+    }
+  });
+
+  return Array.from(weights.keys()).sort((a, b) => weights.get(b)! - weights.get(a)!);
+}
+
+/**
+ * Put the missed focus sounds typical for the learner's first language first
+ * Until the learner has missed any, the sounds typical for the language are drilled
+ */
+export function prioritizeFocusSounds(missed: FocusSound[], profile: L1Profile): FocusSound[] {
+  const typical = profileFocusSounds(profile);
+  if (missed.length === 0) return typical;
+
+  return [...missed.filter(sound => typical.includes(sound)), ...missed.filter(sound => !typical.includes(sound))];
+}
+
+/**
+ * Choose the next practice text
+ * Candidates come from the requested level or sound drill; otherwise from the
+ * learner's level, or sometimes from the drill for the most missed sound.
+ * Recent texts are skipped while others remain, and one of the candidates
+ * rated closest to the target difficulty is picked at random
+ */
+export function selectPracticeText(options: TextSelectionOptions): TextSelection {
+  const random = options.random || Math.random;
+
+  let level: PhraseLevel | null = null;
+  let sound: FocusSound | null = null;
+  if (options.sound) {
+    sound = options.sound;
+  } else if (options.level) {
+    level = options.level;
+  } else if (options.focusSounds.length > 0 && random() < FOCUS_SHARE) {
+    sound = options.focusSounds[0];
+  } else {
+    level = difficultyToLevel(options.targetDifficulty);
+  }
+
+  const candidates = sound ? SOUND_FOCUS_PHRASES[sound] : PHRASES_BY_LEVEL[level!];
+
+  const fresh = candidates.filter(text => !options.recentTexts.includes(text));
+  const pool = fresh.length > 0 ? fresh : candidates;
+
+  const closest = pool
+    .map(text => ({ text, distance: Math.abs(options.rateDifficulty(text) - options.targetDifficulty) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, CLOSEST_CANDIDATES);
+
+  return { text: closest[Math.floor(random() * closest.length)].text, level, sound };
+}
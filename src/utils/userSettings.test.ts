@@ -0,0 +1,57 @@
+/**
+ * Tests for saved learner preferences
+ */
+
+import { DEFAULT_SETTINGS, loadUserSettings, saveUserSettings } from './userSettings';
+
+describe('userSettings', () => {
+  const getItem = localStorage.getItem as jest.Mock;
+  const setItem = localStorage.setItem as jest.Mock;
+
+  it('should return the defaults when nothing is saved', () => {
+    getItem.mockReturnValue(null);
+    expect(loadUserSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('should merge saved values over the defaults', () => {
+    getItem.mockReturnValue(JSON.stringify({ keepRecordings: true }));
+    expect(loadUserSettings()).toEqual({ ...DEFAULT_SETTINGS, keepRecordings: true });
+  });
+
+  it('should fill in missing reference voice options', () => {
+    getItem.mockReturnValue(JSON.stringify({ referenceVoice: { accent: 'en-GB' } }));
+    expect(loadUserSettings().referenceVoice).toEqual({ ...DEFAULT_SETTINGS.referenceVoice, accent: 'en-GB' });
+  });
+
+  it('should fill in missing voice activity options', () => {
+    getItem.mockReturnValue(JSON.stringify({ voiceActivity: { autoStart: true, silenceMs: 2500 } }));
+    expect(loadUserSettings().voiceActivity).toEqual({
+      ...DEFAULT_SETTINGS.voiceActivity,
+      autoStart: true,
+      silenceMs: 2500
+    });
+  });
+
+  it('should remember the chosen microphone', () => {
+    getItem.mockReturnValue(JSON.stringify({ microphone: { deviceId: 'usb-mic', noiseSuppression: false } }));
+    expect(loadUserSettings().microphone).toEqual({
+      ...DEFAULT_SETTINGS.microphone,
+      deviceId: 'usb-mic',
+      noiseSuppression: false
+    });
+  });
+
+  it('should fall back to the defaults for unreadable data', () => {
+    getItem.mockReturnValue('not json');
+    expect(loadUserSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('should save changes on top of the current settings', () => {
+    getItem.mockReturnValue(null);
+
+    const settings = saveUserSettings({ keepRecordings: true });
+
+    expect(settings.keepRecordings).toBe(true);
+    expect(setItem).toHaveBeenCalledWith('pronunciation_user_settings', JSON.stringify(settings));
+  });
+});
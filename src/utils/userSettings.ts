@@ -0,0 +1,67 @@
+/**
+ * Learner preferences remembered across sessions
+ * Stored in localStorage; missing or unreadable values fall back to the defaults
+ */
+
+import { DEFAULT_REFERENCE_VOICE, ReferenceVoiceOptions } from '../agents/ReferenceAudioAgent';
+import { DEFAULT_VOICE_ACTIVITY, VoiceActivityOptions } from './voiceActivity';
+import { DEFAULT_MICROPHONE, MicrophoneOptions } from './microphone';
+import { NativeLanguage } from '../l1Profiles';
+
+export interface UserSettings {
+  keepRecordings: boolean; // store recordings in IndexedDB with the session history
+  showSyllables: boolean; // split the practice text into syllables with stress marks
+  showIpa: boolean; // show the practice text and transcript in IPA
+  nativeLanguage: NativeLanguage | null; // first language whose typical sound swaps get priority
+  referenceVoice: ReferenceVoiceOptions;
+  voiceActivity: VoiceActivityOptions; // auto start/stop, silence trimming and detector thresholds
+  microphone: MicrophoneOptions; // input device and browser audio processing
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  keepRecordings: false,
+  showSyllables: false,
+  showIpa: false,
+  nativeLanguage: null,
+  referenceVoice: DEFAULT_REFERENCE_VOICE,
+  voiceActivity: DEFAULT_VOICE_ACTIVITY,
+  microphone: DEFAULT_MICROPHONE
+};
+
+const STORAGE_KEY = 'pronunciation_user_settings';
+
+/**
+ * Load the saved settings merged over the defaults
+ */
+export function loadUserSettings(): UserSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    if (!parsed || typeof parsed !== 'object') {
+      return { ...DEFAULT_SETTINGS };
+    }
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      referenceVoice: { ...DEFAULT_SETTINGS.referenceVoice, ...parsed.referenceVoice },
+      voiceActivity: { ...DEFAULT_SETTINGS.voiceActivity, ...parsed.voiceActivity },
+      microphone: { ...DEFAULT_SETTINGS.microphone, ...parsed.microphone }
+    };
+  } catch (error) {
+    console.warn('Could not load user settings:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+/**
+ * Save changed settings and return the full updated settings
+ */
+export function saveUserSettings(changes: Partial<UserSettings>): UserSettings {
+  const settings = { ...loadUserSettings(), ...changes };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save user settings:', error);
+  }
+  return settings;
+}
@@ -0,0 +1,169 @@
+/**
+ * Tests for voice activity detection on synthetic PCM frames
+ */
+
+import {
+  DEFAULT_VOICE_ACTIVITY,
+  findSpeechBounds,
+  frameFeatures,
+  isSpeechFrame,
+  trimRecordingSilence,
+  VoiceActivityDetector
+} from './voiceActivity';
+import * as audioCodec from './audioCodec';
+
+const SAMPLE_RATE = 16000;
+
+function tone(amplitude: number, length: number, frequency: number = 200): Float32Array {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const result = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+const silence = (length: number) => new Float32Array(length);
+const voiced = (length: number) => tone(0.2, length);
+const fricative = (length: number) => tone(0.015, length, 6000); // quiet but hissy, like /s/
+
+describe('voiceActivity', () => {
+  describe('frameFeatures', () => {
+    it('should measure energy and zero crossings', () => {
+      const features = frameFeatures(new Float32Array([0.5, -0.5, 0.5, -0.5]));
+
+      expect(features.rms).toBeCloseTo(0.5);
+      expect(features.zeroCrossingRate).toBe(1);
+    });
+
+    it('should give a low-pitched tone a low zero-crossing rate', () => {
+      expect(frameFeatures(voiced(1600)).zeroCrossingRate).toBeLessThan(0.05);
+      expect(frameFeatures(fricative(1600)).zeroCrossingRate).toBeGreaterThan(0.5);
+    });
+
+    it('should handle an empty frame', () => {
+      expect(frameFeatures(new Float32Array(0))).toEqual({ rms: 0, zeroCrossingRate: 0 });
+    });
+  });
+
+  describe('isSpeechFrame', () => {
+    it('should accept loud frames and reject silence', () => {
+      expect(isSpeechFrame(frameFeatures(voiced(320)))).toBe(true);
+      expect(isSpeechFrame(frameFeatures(silence(320)))).toBe(false);
+    });
+
+    it('should accept quiet fricatives by their zero-crossing rate', () => {
+      expect(isSpeechFrame(frameFeatures(fricative(320)))).toBe(true);
+      expect(isSpeechFrame(frameFeatures(tone(0.015, 320)))).toBe(false);
+    });
+
+    it('should use the configured energy threshold', () => {
+      const quiet = frameFeatures(tone(0.03, 320));
+
+      expect(isSpeechFrame(quiet)).toBe(true);
+      expect(isSpeechFrame(quiet, { ...DEFAULT_VOICE_ACTIVITY, energyThreshold: 0.1 })).toBe(false);
+    });
+  });
+
+  describe('VoiceActivityDetector', () => {
+    it('should ignore bursts shorter than a syllable', () => {
+      const detector = new VoiceActivityDetector();
+
+      expect(detector.update(voiced(320), 0).speechDetected).toBe(false);
+      expect(detector.update(silence(320), 50).speechDetected).toBe(false);
+      expect(detector.update(silence(320), 5000).finished).toBe(false);
+    });
+
+    it('should detect speech and finish after trailing silence', () => {
+      const detector = new VoiceActivityDetector({ ...DEFAULT_VOICE_ACTIVITY, silenceMs: 1000 });
+
+      detector.update(voiced(320), 0);
+      expect(detector.update(voiced(320), 100)).toEqual({
+        speaking: true,
+        speechDetected: true,
+        silenceMs: 0,
+        finished: false
+      });
+      expect(detector.update(silence(320), 600)).toMatchObject({ speaking: false, silenceMs: 500, finished: false });
+      expect(detector.update(silence(320), 1100).finished).toBe(true);
+    });
+
+    it('should restart the silence count when speech resumes', () => {
+      const detector = new VoiceActivityDetector({ ...DEFAULT_VOICE_ACTIVITY, silenceMs: 1000 });
+
+      detector.update(voiced(320), 0);
+      detector.update(voiced(320), 100);
+      detector.update(silence(320), 900);
+      detector.update(voiced(320), 1000);
+
+      expect(detector.update(silence(320), 1500)).toMatchObject({ silenceMs: 500, finished: false });
+    });
+
+    it('should start over after reset', () => {
+      const detector = new VoiceActivityDetector();
+      detector.update(voiced(320), 0);
+      detector.update(voiced(320), 100);
+
+      detector.reset();
+      expect(detector.update(silence(320), 200).speechDetected).toBe(false);
+    });
+  });
+
+  describe('findSpeechBounds', () => {
+    it('should find speech between silences with padding', () => {
+      const samples = concat(silence(SAMPLE_RATE), voiced(SAMPLE_RATE / 2), silence(SAMPLE_RATE));
+      const bounds = findSpeechBounds(samples, SAMPLE_RATE);
+      const padding = 0.15 * SAMPLE_RATE;
+
+      expect(bounds).toEqual({ start: SAMPLE_RATE - padding, end: 1.5 * SAMPLE_RATE + padding });
+    });
+
+    it('should keep trailing fricatives', () => {
+      const samples = concat(voiced(SAMPLE_RATE / 2), fricative(SAMPLE_RATE / 4), silence(SAMPLE_RATE));
+      const bounds = findSpeechBounds(samples, SAMPLE_RATE);
+
+      expect(bounds!.end).toBeGreaterThanOrEqual(0.75 * SAMPLE_RATE);
+    });
+
+    it('should not pad past the ends of the recording', () => {
+      expect(findSpeechBounds(voiced(SAMPLE_RATE), SAMPLE_RATE)).toEqual({ start: 0, end: SAMPLE_RATE });
+    });
+
+    it('should return null when there is no speech', () => {
+      expect(findSpeechBounds(silence(SAMPLE_RATE), SAMPLE_RATE)).toBeNull();
+    });
+  });
+
+  describe('trimRecordingSilence', () => {
+    const original = new Blob(['audio'], { type: 'audio/webm' });
+
+    it('should return a shorter WAV when there is silence to trim', async () => {
+      const samples = concat(silence(SAMPLE_RATE), voiced(SAMPLE_RATE / 2), silence(SAMPLE_RATE));
+      jest.spyOn(audioCodec, 'decodeAudioBlob').mockResolvedValue({ samples, sampleRate: SAMPLE_RATE });
+
+      const trimmed = await trimRecordingSilence(original);
+
+      expect(trimmed.type).toBe('audio/wav');
+      expect(trimmed.size).toBe(44 + 2 * 0.8 * SAMPLE_RATE);
+    });
+
+    it('should keep the original when it cannot be decoded', async () => {
+      jest.spyOn(audioCodec, 'decodeAudioBlob').mockResolvedValue(null);
+      expect(await trimRecordingSilence(original)).toBe(original);
+    });
+
+    it('should keep the original when it is all silence', async () => {
+      jest.spyOn(audioCodec, 'decodeAudioBlob').mockResolvedValue({ samples: silence(SAMPLE_RATE), sampleRate: SAMPLE_RATE });
+      expect(await trimRecordingSilence(original)).toBe(original);
+    });
+  });
+});
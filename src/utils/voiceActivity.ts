@@ -0,0 +1,174 @@
+/**
+ * Energy and zero-crossing voice activity detection
+ * Loud frames are voiced speech; quieter frames with many zero crossings are
+ * fricatives like /s/ and /f/, which would otherwise be cut off the ends of words
+ */
+
+import { decodeAudioBlob, encodeWav } from './audioCodec';
+
+export interface VoiceActivityOptions {
+  autoStart: boolean; // start recording when the learner starts speaking
+  autoStop: boolean; // stop recording after trailing silence
+  trimSilence: boolean; // cut leading and trailing silence from the recording
+  silenceMs: number; // trailing silence that ends a recording
+  energyThreshold: number; // RMS of a voiced speech frame
+  zeroCrossingThreshold: number; // zero-crossing rate of an unvoiced speech frame
+}
+
+export const DEFAULT_VOICE_ACTIVITY: VoiceActivityOptions = {
+  autoStart: false,
+  autoStop: true,
+  trimSilence: true,
+  silenceMs: 1500,
+  energyThreshold: 0.015,
+  zeroCrossingThreshold: 0.25
+};
+
+export interface FrameFeatures {
+  rms: number;
+  zeroCrossingRate: number; // sign changes per sample, 0 to 1
+}
+
+export interface VoiceActivityState {
+  speaking: boolean; // the latest frame is speech
+  speechDetected: boolean; // speech has been heard since the detector started
+  silenceMs: number; // time since the last speech frame
+  finished: boolean; // speech was heard and has been followed by enough silence
+}
+
+const MIN_SPEECH_MS = 100; // shorter bursts are clicks and bumps, not speech
+const FRAME_MS = 20;
+const TRIM_PADDING_MS = 150;
+
+/**
+ * Measure the energy and zero-crossing rate of a frame
+ */
+export function frameFeatures(samples: Float32Array): FrameFeatures {
+  if (samples.length === 0) {
+    return { rms: 0, zeroCrossingRate: 0 };
+  }
+
+  let sumOfSquares = samples[0] * samples[0];
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    sumOfSquares += samples[i] * samples[i];
+    if ((samples[i] >= 0) !== (samples[i - 1] >= 0)) {
+      crossings++;
+    }
+  }
+
+  return {
+    rms: Math.sqrt(sumOfSquares / samples.length),
+    zeroCrossingRate: samples.length > 1 ? crossings / (samples.length - 1) : 0
+  };
+}
+
+/**
+ * Decide whether a frame contains speech
+ */
+export function isSpeechFrame(
+  features: FrameFeatures,
+  options: VoiceActivityOptions = DEFAULT_VOICE_ACTIVITY
+): boolean {
+  if (features.rms >= options.energyThreshold) return true;
+  return features.rms >= options.energyThreshold / 2 && features.zeroCrossingRate >= options.zeroCrossingThreshold;
+}
+
+/**
+ * Follows a live stream of frames and reports when speech starts and ends
+ */
+export class VoiceActivityDetector {
+  private options: VoiceActivityOptions;
+  private speechStartedAt: number | null = null;
+  private lastSpeechAt: number | null = null;
+  private speechDetected = false;
+
+  constructor(options: VoiceActivityOptions = DEFAULT_VOICE_ACTIVITY) {
+    this.options = options;
+  }
+
+  /**
+   * Add the latest frame and get the current state
+   */
+  public update(samples: Float32Array, timeMs: number): VoiceActivityState {
+    const speaking = isSpeechFrame(frameFeatures(samples), this.options);
+
+    if (speaking) {
+      if (this.speechStartedAt === null) {
+        this.speechStartedAt = timeMs;
+      }
+      if (timeMs - this.speechStartedAt >= MIN_SPEECH_MS) {
+        this.speechDetected = true;
+      }
+      this.lastSpeechAt = timeMs;
+    } else {
+      this.speechStartedAt = null;
+    }
+
+    const silenceMs = this.speechDetected && this.lastSpeechAt !== null ? timeMs - this.lastSpeechAt : 0;
+    return {
+      speaking: speaking && this.speechDetected,
+      speechDetected: this.speechDetected,
+      silenceMs,
+      finished: this.speechDetected && silenceMs >= this.options.silenceMs
+    };
+  }
+
+  /**
+   * Forget earlier frames, e.g. when a new recording starts
+   */
+  public reset(): void {
+    this.speechStartedAt = null;
+    this.lastSpeechAt = null;
+    this.speechDetected = false;
+  }
+}
+
+/**
+ * Find the sample range that contains speech, padded slightly so word edges survive
+ * Returns null when no speech is found
+ */
+export function findSpeechBounds(
+  samples: Float32Array,
+  sampleRate: number,
+  options: VoiceActivityOptions = DEFAULT_VOICE_ACTIVITY
+): { start: number; end: number } | null {
+  const frameSize = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+  let first = -1;
+  let last = -1;
+
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const frame = samples.subarray(start, Math.min(start + frameSize, samples.length));
+    if (isSpeechFrame(frameFeatures(frame), options)) {
+      if (first === -1) first = start;
+      last = start + frame.length;
+    }
+  }
+
+  if (first === -1) return null;
+
+  const padding = Math.round((sampleRate * TRIM_PADDING_MS) / 1000);
+  return {
+    start: Math.max(0, first - padding),
+    end: Math.min(samples.length, last + padding)
+  };
+}
+
+/**
+ * Cut leading and trailing silence from a recording
+ * The original is returned when it can't be decoded, has no speech or has nothing to trim
+ */
+export async function trimRecordingSilence(
+  audioBlob: Blob,
+  options: VoiceActivityOptions = DEFAULT_VOICE_ACTIVITY
+): Promise<Blob> {
+  const decoded = await decodeAudioBlob(audioBlob);
+  if (!decoded) return audioBlob;
+
+  const bounds = findSpeechBounds(decoded.samples, decoded.sampleRate, options);
+  if (!bounds || (bounds.start === 0 && bounds.end === decoded.samples.length)) {
+    return audioBlob;
+  }
+
+  return encodeWav(decoded.samples.subarray(bounds.start, bounds.end), decoded.sampleRate);
+}